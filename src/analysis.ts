@@ -0,0 +1,311 @@
+// Analysis of a set of repositories: collects each repository's stats from a work queue with
+// bounded concurrency and aggregates them into totals, per-user stats and time series for the
+// formatters.
+
+import type { Checkpoint } from "./checkpoint.js";
+import { GitHubApiError, type GitHubClient } from "./github-client.js";
+import { fullRepoName, repoLabeler } from "./owners.js";
+import { median, percentile } from "./statistics.js";
+import { createBuckets, emptyPeriod, mergePeriods } from "./timeseries.js";
+import type {
+  Config,
+  Interval,
+  ProgressListener,
+  PullRequestMetrics,
+  RepoInfo,
+  RepoOrder,
+  RepoStats,
+  TimeSeriesStats,
+  TotalStats,
+  UserRepoStats,
+  UserStats,
+} from "./types.js";
+
+export interface ProcessOptions {
+  // Repositories analyzed at once; the next one starts as soon as one finishes
+  concurrency: number;
+  order?: RepoOrder;
+  // Saves each finished repo, and supplies the ones an earlier run finished
+  checkpoint?: Checkpoint | null;
+  progress?: ProgressListener;
+}
+
+// The work queue settings from the config's options
+export function queueOptions(config: Config): Pick<ProcessOptions, "concurrency" | "order"> {
+  return {
+    concurrency: config.options.maxConcurrentRepos ?? config.options.maxConcurrentRequests,
+    order: config.options.repoOrder ?? "listed",
+  };
+}
+
+const elapsedSeconds = (since: number) => Math.round((Date.now() - since) / 100) / 10;
+
+// Indices of the repos in the order they are taken from the queue. Repos of equal (or unknown)
+// size keep their listed order.
+function queueOrder(repos: RepoInfo[], indices: number[], order: RepoOrder): number[] {
+  if (order === "listed") return indices;
+  const direction = order === "small-first" ? 1 : -1;
+  return [...indices].sort((a, b) => direction * ((repos[a].size ?? 0) - (repos[b].size ?? 0)));
+}
+
+export async function processRepos(client: GitHubClient, repos: RepoInfo[], options: ProcessOptions): Promise<RepoStats[]> {
+  const { concurrency, order = "listed", checkpoint = null, progress = () => {} } = options;
+  const results: RepoStats[] = new Array(repos.length);
+  const runStarted = Date.now();
+
+  progress({ type: "run-started", repos: repos.length });
+  client.setProgressListener(progress);
+
+  // Repos finished by an earlier run come straight from the checkpoint
+  const pending: number[] = [];
+  repos.forEach((repo, index) => {
+    const saved = checkpoint?.get(repo);
+    if (saved) {
+      results[index] = saved;
+      progress({ type: "repo-completed", repo: fullRepoName(repo), durationSeconds: 0, resumed: true });
+    } else {
+      pending.push(index);
+    }
+  });
+
+  const queue = queueOrder(repos, pending, order);
+
+  // Batched GraphQL collection (no-op in REST mode)
+  await client.prefetchRepoData(queue.map((index) => repos[index]));
+
+  // Each worker takes the next repo from the queue until it is empty. After a failure no new
+  // repos are started, and the run fails with the first error.
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < queue.length) {
+      const index = queue[next++];
+      const repo = repos[index];
+      const repoStarted = Date.now();
+      progress({ type: "repo-started", repo: fullRepoName(repo) });
+
+      try {
+        results[index] = await client.getRepoStats(repo);
+      } catch (error) {
+        failed = true;
+        const operation = error instanceof GitHubApiError ? error.operation : null;
+        progress({ type: "repo-failed", repo: fullRepoName(repo), operation, error: (error as Error).message });
+        throw error;
+      }
+      checkpoint?.save(results[index]);
+
+      progress({ type: "repo-completed", repo: fullRepoName(repo), durationSeconds: elapsedSeconds(repoStarted), resumed: false });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+  progress({ type: "run-finished", repos: repos.length, durationSeconds: elapsedSeconds(runStarted) });
+  checkpoint?.remove();
+  return results;
+}
+
+export function calculateTotals(repos: RepoStats[]): TotalStats {
+  const owners = Array.from(new Set(repos.map((repo) => repo.owner)));
+  const totals = sumTotals(repos);
+
+  if (owners.length <= 1) {
+    return { repos, totals };
+  }
+
+  // Subtotals count contributors once per owner; the grand total once across all owners
+  return {
+    repos,
+    owners: owners.map((owner) => ({ owner, totals: sumTotals(repos.filter((repo) => repo.owner === owner)) })),
+    totals,
+  };
+}
+
+function sumTotals(repos: RepoStats[]): TotalStats["totals"] {
+  // Collect unique contributors across all repos (including archived)
+  const uniqueContributors = new Set<string>();
+  // Collect every issue close time so the median is org-wide rather than a median of medians
+  const issueCloseHours: number[] = [];
+  const mergeHours: number[] = [];
+  const firstReviewHours: number[] = [];
+
+  // Count stats from all repos (including archived)
+  const totals = repos.reduce(
+    (acc, repo) => {
+      // Add all contributors from this repo to the unique set
+      for (const contributor of repo.contributorsList) {
+        uniqueContributors.add(contributor);
+      }
+      issueCloseHours.push(...repo.issueCloseHours);
+      mergeHours.push(...repo.pullRequestMergeHours);
+      firstReviewHours.push(...repo.pullRequestFirstReviewHours);
+
+      return {
+        commits: acc.commits + repo.commits,
+        linesAdded: acc.linesAdded + repo.linesAdded,
+        linesDeleted: acc.linesDeleted + repo.linesDeleted,
+        totalLines: acc.totalLines + repo.totalLines,
+        pullRequests: acc.pullRequests + repo.pullRequests,
+        pullRequestMetrics: {
+          merged: acc.pullRequestMetrics.merged + repo.pullRequestMetrics.merged,
+          mergedWithoutApproval:
+            acc.pullRequestMetrics.mergedWithoutApproval + repo.pullRequestMetrics.mergedWithoutApproval,
+          closedWithoutMerge: acc.pullRequestMetrics.closedWithoutMerge + repo.pullRequestMetrics.closedWithoutMerge,
+          openAtEnd: acc.pullRequestMetrics.openAtEnd + repo.pullRequestMetrics.openAtEnd,
+          medianHoursToMerge: null, // Will be set below
+          p90HoursToMerge: null,
+          medianHoursToFirstReview: null,
+        } as PullRequestMetrics,
+        contributors: 0, // Will be set below
+        issuesCreated: acc.issuesCreated + repo.issuesCreated,
+        issuesClosed: acc.issuesClosed + repo.issuesClosed,
+        openIssues: acc.openIssues + repo.openIssues,
+        medianIssueCloseHours: null as number | null, // Will be set below
+        releases: acc.releases + repo.releases,
+        repoCount: acc.repoCount + 1,
+      };
+    },
+    {
+      commits: 0,
+      linesAdded: 0,
+      linesDeleted: 0,
+      totalLines: 0,
+      pullRequests: 0,
+      pullRequestMetrics: {
+        merged: 0,
+        mergedWithoutApproval: 0,
+        closedWithoutMerge: 0,
+        openAtEnd: 0,
+        medianHoursToMerge: null,
+        p90HoursToMerge: null,
+        medianHoursToFirstReview: null,
+      } as PullRequestMetrics,
+      contributors: 0,
+      issuesCreated: 0,
+      issuesClosed: 0,
+      openIssues: 0,
+      medianIssueCloseHours: null as number | null,
+      releases: 0,
+      repoCount: 0,
+    }
+  );
+
+  // Set unique contributor count across all active repos
+  totals.contributors = uniqueContributors.size;
+  totals.medianIssueCloseHours = median(issueCloseHours);
+  totals.pullRequestMetrics.medianHoursToMerge = median(mergeHours);
+  totals.pullRequestMetrics.p90HoursToMerge = percentile(mergeHours, 90);
+  totals.pullRequestMetrics.medianHoursToFirstReview = median(firstReviewHours);
+
+  return totals;
+}
+
+export function calculateUserStats(repos: RepoStats[]): UserStats[] {
+  const userMap = new Map<string, UserStats>();
+  // Turnaround samples per reviewer, so the median spans all of their repos
+  const turnaroundHours = new Map<string, number[]>();
+
+  const getUser = (username: string): UserStats => {
+    if (!userMap.has(username)) {
+      userMap.set(username, {
+        username,
+        commits: 0,
+        linesAdded: 0,
+        linesDeleted: 0,
+        pullRequests: 0,
+        pullRequestsMerged: 0,
+        reviews: 0,
+        approvals: 0,
+        changesRequested: 0,
+        reviewComments: 0,
+        medianReviewTurnaroundHours: null,
+        repos: [],
+        repoBreakdown: [],
+      });
+    }
+    return userMap.get(username)!;
+  };
+
+  // A user's entry for a repo, created on first activity of either kind
+  const getRepoBreakdown = (user: UserStats, repo: string): UserRepoStats => {
+    let breakdown = user.repoBreakdown.find((entry) => entry.repo === repo);
+    if (!breakdown) {
+      breakdown = {
+        repo,
+        commits: 0,
+        linesAdded: 0,
+        linesDeleted: 0,
+        pullRequests: 0,
+        pullRequestsMerged: 0,
+        reviews: 0,
+        approvals: 0,
+        changesRequested: 0,
+        reviewComments: 0,
+      };
+      user.repoBreakdown.push(breakdown);
+      user.repos.push(repo);
+    }
+    return breakdown;
+  };
+
+  const repoLabel = repoLabeler(repos);
+  for (const repo of repos) {
+    // Repos without per-author activity (e.g. empty repos) only contribute membership
+    if (!repo.contributorActivity && !repo.reviewerActivity) {
+      for (const contributor of repo.contributorsList) {
+        getUser(contributor).repos.push(repoLabel(repo));
+      }
+      continue;
+    }
+
+    for (const [username, activity] of Object.entries(repo.contributorActivity ?? {})) {
+      const user = getUser(username);
+      user.commits += activity.commits;
+      user.linesAdded += activity.linesAdded;
+      user.linesDeleted += activity.linesDeleted;
+      user.pullRequests += activity.pullRequests;
+      user.pullRequestsMerged += activity.pullRequestsMerged;
+      Object.assign(getRepoBreakdown(user, repoLabel(repo)), activity);
+    }
+
+    for (const [username, activity] of Object.entries(repo.reviewerActivity ?? {})) {
+      const user = getUser(username);
+      user.reviews += activity.reviews;
+      user.approvals += activity.approvals;
+      user.changesRequested += activity.changesRequested;
+      user.reviewComments += activity.reviewComments;
+
+      const breakdown = getRepoBreakdown(user, repoLabel(repo));
+      breakdown.reviews = activity.reviews;
+      breakdown.approvals = activity.approvals;
+      breakdown.changesRequested = activity.changesRequested;
+      breakdown.reviewComments = activity.reviewComments;
+
+      turnaroundHours.set(username, [...(turnaroundHours.get(username) ?? []), ...activity.turnaroundHours]);
+    }
+  }
+
+  for (const user of userMap.values()) {
+    user.repoBreakdown.sort((a, b) => b.commits - a.commits || b.reviews - a.reviews);
+    user.medianReviewTurnaroundHours = median(turnaroundHours.get(user.username) ?? []);
+  }
+
+  return Array.from(userMap.values());
+}
+
+export function calculateTimeSeries(repos: RepoStats[], interval: Interval, startDate: string, endDate: string): TimeSeriesStats {
+  const buckets = createBuckets(startDate, endDate, interval);
+
+  // Empty repos have no series, but still get a row of zeros per period
+  const repoLabel = repoLabeler(repos);
+  const repoSeries = repos.map((repo) => ({
+    name: repoLabel(repo),
+    isArchived: repo.isArchived,
+    periods: repo.timeSeries?.length ? repo.timeSeries : buckets.map(emptyPeriod),
+  }));
+
+  return {
+    interval,
+    repos: repoSeries,
+    totals: mergePeriods(buckets, repoSeries.map((repo) => repo.periods)),
+  };
+}
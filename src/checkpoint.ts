@@ -0,0 +1,98 @@
+// Checkpoints for long runs: each finished repository's stats are appended to a file keyed by
+// the owners and date range, so an interrupted or failed run can resume where it stopped.
+
+import { createHash } from "crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { fullRepoName } from "./owners.js";
+import type { RepoInfo, RepoStats } from "./types.js";
+
+const DEFAULT_CHECKPOINT_DIRECTORY = ".cache/checkpoints";
+const CHECKPOINT_VERSION = 1;
+
+export interface CheckpointKey {
+  owners: string[];
+  startDate: string;
+  endDate: string;
+  // Anything else that changes what is collected; a checkpoint written with other settings is not reused
+  settings: unknown;
+}
+
+interface CheckpointHeader {
+  version: number;
+  owners: string[];
+  startDate: string;
+  endDate: string;
+  settings: string;
+}
+
+export class Checkpoint {
+  readonly path: string;
+  private header: CheckpointHeader;
+  private completed: Map<string, RepoStats> = new Map();
+
+  constructor(key: CheckpointKey, directory: string = DEFAULT_CHECKPOINT_DIRECTORY) {
+    const owners = key.owners.map((owner) => owner.toLowerCase()).sort();
+    this.header = {
+      version: CHECKPOINT_VERSION,
+      owners,
+      startDate: key.startDate,
+      endDate: key.endDate,
+      settings: createHash("sha256").update(JSON.stringify(key.settings ?? null)).digest("hex").substring(0, 16),
+    };
+    this.path = join(directory, `${owners.join("+")}_${key.startDate}_${key.endDate}.jsonl`);
+  }
+
+  // Load the repos finished by an earlier run. Returns false when there is nothing to resume,
+  // including when the checkpoint was written with other settings.
+  resume(): boolean {
+    if (!existsSync(this.path)) return false;
+
+    const [headerLine, ...lines] = readFileSync(this.path, "utf-8").split("\n");
+    let header: CheckpointHeader;
+    try {
+      header = JSON.parse(headerLine);
+    } catch {
+      return false;
+    }
+    if (JSON.stringify(header) !== JSON.stringify(this.header)) return false;
+
+    for (const line of lines) {
+      // The last line may be cut short if the process died mid-write
+      try {
+        const stats = JSON.parse(line) as RepoStats;
+        this.completed.set(fullRepoName(stats), stats);
+      } catch {
+        continue;
+      }
+    }
+    return true;
+  }
+
+  // Begin a fresh checkpoint, keeping any repos loaded by resume()
+  start(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const lines = [this.header, ...this.completed.values()].map((entry) => JSON.stringify(entry));
+    writeFileSync(this.path, lines.join("\n") + "\n");
+  }
+
+  get(repo: RepoInfo): RepoStats | undefined {
+    return this.completed.get(fullRepoName(repo));
+  }
+
+  get size(): number {
+    return this.completed.size;
+  }
+
+  // Written synchronously, so a repo is on disk as soon as it is reported done
+  save(stats: RepoStats): void {
+    this.completed.set(fullRepoName(stats), stats);
+    appendFileSync(this.path, JSON.stringify(stats) + "\n");
+  }
+
+  // The run finished, so there is nothing left to resume
+  remove(): void {
+    this.completed.clear();
+    rmSync(this.path, { force: true });
+  }
+}
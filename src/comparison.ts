@@ -0,0 +1,253 @@
+// Period comparison for --compare: resolves period arguments and presets to date ranges,
+// and lines repositories up across the periods so each period can be diffed against the last.
+
+import { fullRepoName, repoLabeler } from "./owners.js";
+import { precedingPeriods, type TimeBucket } from "./timeseries.js";
+import type { ComparisonPeriod, ComparisonStats, Interval, OutputOptions, RepoComparison, RepoStats } from "./types.js";
+
+export interface PeriodRange {
+  label: string;
+  start: string;
+  end: string;
+}
+
+// The fields shared by a repository's stats and the totals, so metrics read from either
+export type MetricSource = Pick<
+  RepoStats,
+  | "commits"
+  | "linesAdded"
+  | "linesDeleted"
+  | "pullRequests"
+  | "pullRequestMetrics"
+  | "contributors"
+  | "issuesCreated"
+  | "issuesClosed"
+  | "openIssues"
+  | "medianIssueCloseHours"
+  | "releases"
+>;
+
+export interface CompareMetric {
+  key: string;
+  label: string;
+  value: (stats: MetricSource) => number;
+  lines?: boolean;
+  issues?: boolean;
+}
+
+export interface CompareDuration {
+  key: string;
+  label: string;
+  value: (stats: MetricSource) => number | null;
+  issues?: boolean;
+}
+
+export interface MetricChange {
+  absolute: number;
+  percentage: number;
+}
+
+export type RepoStatus = "appeared" | "disappeared" | null;
+
+const COMPARE_METRICS: CompareMetric[] = [
+  { key: "commits", label: "Commits", value: (s) => s.commits },
+  { key: "linesAdded", label: "Lines Added", value: (s) => s.linesAdded, lines: true },
+  { key: "linesDeleted", label: "Lines Deleted", value: (s) => s.linesDeleted, lines: true },
+  { key: "pullRequests", label: "Pull Requests", value: (s) => s.pullRequests },
+  { key: "pullRequestsMerged", label: "PRs Merged", value: (s) => s.pullRequestMetrics.merged },
+  {
+    key: "pullRequestsMergedWithoutApproval",
+    label: "Merged No Approval",
+    value: (s) => s.pullRequestMetrics.mergedWithoutApproval,
+  },
+  {
+    key: "pullRequestsClosedWithoutMerge",
+    label: "PRs Closed Unmerged",
+    value: (s) => s.pullRequestMetrics.closedWithoutMerge,
+  },
+  { key: "openPullRequests", label: "Open PRs", value: (s) => s.pullRequestMetrics.openAtEnd },
+  { key: "contributors", label: "Contributors", value: (s) => s.contributors },
+  { key: "issuesCreated", label: "Issues Created", value: (s) => s.issuesCreated, issues: true },
+  { key: "issuesClosed", label: "Issues Closed", value: (s) => s.issuesClosed, issues: true },
+  { key: "openIssues", label: "Open Issues", value: (s) => s.openIssues, issues: true },
+  { key: "releases", label: "Releases", value: (s) => s.releases },
+];
+
+const COMPARE_DURATIONS: CompareDuration[] = [
+  { key: "medianHoursToMerge", label: "Median Merge Time", value: (s) => s.pullRequestMetrics.medianHoursToMerge },
+  { key: "p90HoursToMerge", label: "P90 Merge Time", value: (s) => s.pullRequestMetrics.p90HoursToMerge },
+  {
+    key: "medianHoursToFirstReview",
+    label: "Median First Review",
+    value: (s) => s.pullRequestMetrics.medianHoursToFirstReview,
+  },
+  { key: "medianIssueCloseHours", label: "Median Close Time", value: (s) => s.medianIssueCloseHours, issues: true },
+];
+
+type SkipOptions = Pick<OutputOptions, "skipLineStats" | "skipIssueStats">;
+
+// The metrics worth showing: skipped line or issue stats would only compare zeros
+export function compareMetrics(options?: SkipOptions): CompareMetric[] {
+  return COMPARE_METRICS.filter(
+    (metric) => !(options?.skipLineStats && metric.lines) && !(options?.skipIssueStats && metric.issues)
+  );
+}
+
+export function compareDurations(options?: SkipOptions): CompareDuration[] {
+  return COMPARE_DURATIONS.filter((duration) => !(options?.skipIssueStats && duration.issues));
+}
+
+// Growth from zero counts as +100%, as there is no meaningful ratio
+export function calcChange(before: number, after: number): MetricChange {
+  const absolute = after - before;
+  if (before === 0) return { absolute, percentage: after === 0 ? 0 : 100 };
+  return { absolute, percentage: Math.round((absolute / before) * 100) };
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const RANGE = /^(\d{4}-\d{2}-\d{2})(?::|\.\.)(\d{4}-\d{2}-\d{2})$/;
+const LAST_PERIODS = /^last-(\d+)-(day|week|month|quarter)s?$/;
+const SAME_PERIOD_LAST_YEAR = /^same-(month|quarter)-last-year$/;
+
+function periodLabel(bucket: TimeBucket, interval: Interval): string {
+  const [year, month] = bucket.start.split("-").map(Number);
+  switch (interval) {
+    case "day":
+      return bucket.start;
+    case "week":
+      return `Week of ${bucket.start}`;
+    case "month":
+      return bucket.start.substring(0, 7);
+    case "quarter":
+      return `${year}-Q${Math.floor((month - 1) / 3) + 1}`;
+  }
+}
+
+function isValidDate(date: string): boolean {
+  return DATE.test(date) && !isNaN(new Date(date).getTime());
+}
+
+// Turn --compare arguments into date ranges, in the order given. Each argument is a
+// "start:end" range, a preset, or a start date followed by an end date. Presets cover whole
+// calendar periods before the one containing the reference date.
+export function resolveComparePeriods(args: string[], referenceDate: string): PeriodRange[] {
+  const periods: PeriodRange[] = [];
+  const addRange = (start: string, end: string) => {
+    if (!isValidDate(start) || !isValidDate(end)) {
+      throw new Error(`Invalid period "${start}:${end}". Use YYYY-MM-DD dates`);
+    }
+    if (start > end) {
+      throw new Error(`Period "${start}:${end}" starts after it ends`);
+    }
+    periods.push({ label: `Period ${periods.length + 1}`, start, end });
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const range = arg.match(RANGE);
+    const last = arg.match(LAST_PERIODS);
+    const sameLastYear = arg.match(SAME_PERIOD_LAST_YEAR);
+
+    if (range) {
+      addRange(range[1], range[2]);
+    } else if (DATE.test(arg)) {
+      const end = args[++i];
+      if (!end || !DATE.test(end)) {
+        throw new Error(`Period starting ${arg} has no end date`);
+      }
+      addRange(arg, end);
+    } else if (last) {
+      const count = Number(last[1]);
+      const interval = last[2] as Interval;
+      if (count < 1) {
+        throw new Error(`Invalid period "${arg}"`);
+      }
+      for (const bucket of precedingPeriods(referenceDate, interval, count)) {
+        periods.push({ label: periodLabel(bucket, interval), ...bucket });
+      }
+    } else if (sameLastYear) {
+      const interval = sameLastYear[1] as Interval;
+      const [latest] = precedingPeriods(referenceDate, interval, 1);
+      // Step back from the start of the following period, which always exists a year earlier
+      const following = new Date(latest.end);
+      following.setUTCDate(following.getUTCDate() + 1);
+      following.setUTCFullYear(following.getUTCFullYear() - 1);
+      const [yearBefore] = precedingPeriods(following.toISOString().substring(0, 10), interval, 1);
+      periods.push({ label: periodLabel(yearBefore, interval), ...yearBefore });
+      periods.push({ label: periodLabel(latest, interval), ...latest });
+    } else {
+      throw new Error(
+        `Invalid period "${arg}". Use start:end, last-<n>-<days|weeks|months|quarters> or same-<month|quarter>-last-year`
+      );
+    }
+  }
+
+  if (periods.length < 2) {
+    throw new Error("--compare needs at least two periods");
+  }
+
+  return periods;
+}
+
+const TO_DATE = /^(week|month|quarter|year)-to-date$/;
+
+// The single date range a scheduled report covers: whole periods before the one containing the
+// reference date, or the current period up to and including the reference date
+export function resolveDatePreset(preset: string, referenceDate: string): TimeBucket {
+  const last = preset.match(LAST_PERIODS);
+  const toDate = preset.match(TO_DATE);
+
+  if (last && Number(last[1]) >= 1) {
+    const periods = precedingPeriods(referenceDate, last[2] as Interval, Number(last[1]));
+    return { start: periods[0].start, end: periods[periods.length - 1].end };
+  }
+  if (toDate?.[1] === "year") {
+    return { start: `${referenceDate.substring(0, 4)}-01-01`, end: referenceDate };
+  }
+  if (toDate) {
+    // The current period starts the day after the previous one ends
+    const [previous] = precedingPeriods(referenceDate, toDate[1] as Interval, 1);
+    const start = new Date(previous.end);
+    start.setUTCDate(start.getUTCDate() + 1);
+    return { start: start.toISOString().substring(0, 10), end: referenceDate };
+  }
+  throw new Error(
+    `Invalid date preset "${preset}". Use last-<n>-<days|weeks|months|quarters> or <week|month|quarter|year>-to-date`
+  );
+}
+
+// A repository with no activity in a period is treated as absent from it
+function isActive(repo: RepoStats | null): boolean {
+  if (!repo) return false;
+  const { commits, pullRequests, pullRequestMetrics, issuesCreated, issuesClosed, releases } = repo;
+  return commits + pullRequests + pullRequestMetrics.merged + issuesCreated + issuesClosed + releases > 0;
+}
+
+// Whether a repository became active or went quiet in a period, relative to the period before
+export function repoStatus(repo: RepoComparison, index: number): RepoStatus {
+  if (index === 0) return null;
+  const before = isActive(repo.periods[index - 1]);
+  const after = isActive(repo.periods[index]);
+  if (!before && after) return "appeared";
+  if (before && !after) return "disappeared";
+  return null;
+}
+
+export function buildComparison(periods: ComparisonPeriod[]): ComparisonStats {
+  const allRepos = periods.flatMap((period) => period.stats.repos);
+  const repoLabel = repoLabeler(allRepos);
+  const keys = new Map(allRepos.map((repo) => [fullRepoName(repo), repo]));
+
+  const repos = Array.from(keys).map(([key, repo]): RepoComparison => {
+    const stats = periods.map((period) => period.stats.repos.find((r) => fullRepoName(r) === key) ?? null);
+    return {
+      owner: repo.owner,
+      name: repoLabel(repo),
+      // The latest listing knows best whether the repo has since been archived
+      isArchived: stats.reduce((archived, r) => r?.isArchived ?? archived, false),
+      periods: stats,
+    };
+  });
+
+  return { periods, repos };
+}
@@ -0,0 +1,397 @@
+// Configuration loading: parses JSON or YAML config files, substitutes ${ENV_VAR} references,
+// and checks the result against the Config schema, filling in defaults for omitted options.
+// validateConfig then checks that the settings are complete enough to run.
+
+import { existsSync, readFileSync } from "fs";
+import { extname } from "path";
+import { parse as parseYaml } from "yaml";
+import { resolveDatePreset } from "./comparison.js";
+import { nextCronRun, parseCron } from "./cron.js";
+import { resolveOwners } from "./owners.js";
+import { INTERVALS } from "./timeseries.js";
+import { tokenSources } from "./tokens.js";
+import type { Config } from "./types.js";
+
+export class ConfigError extends Error {
+  constructor(
+    // Null when the problem is with the settings as a whole rather than a file
+    public readonly file: string | null,
+    public readonly issues: string[]
+  ) {
+    super(file ? `Invalid configuration in ${file}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}` : issues.join("\n"));
+    this.name = "ConfigError";
+  }
+}
+
+export interface LoadedConfig {
+  config: Config;
+  // Unknown keys, most likely typos, which are otherwise ignored
+  warnings: string[];
+}
+
+interface Context {
+  errors: string[];
+  warnings: string[];
+}
+
+// Parses one value at a key path, reporting problems to the context. Returns undefined when invalid.
+type Schema = (value: unknown, path: string, context: Context) => unknown;
+
+interface Field {
+  schema: Schema;
+  required?: boolean;
+  default?: unknown;
+}
+
+const describe = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "a list" : typeof value === "object" ? "an object" : JSON.stringify(value);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function fail(context: Context, path: string, expected: string, value: unknown): undefined {
+  context.errors.push(`${path}: expected ${expected}, got ${describe(value)}`);
+  return undefined;
+}
+
+const string = (): Schema => (value, path, context) =>
+  typeof value === "string" ? value : fail(context, path, "a string", value);
+
+// Numbers and booleans may arrive as strings from ${ENV_VAR} references
+function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema {
+  const { min, max, integer } = options;
+  const expected = [integer ? "a whole number" : "a number", min !== undefined && `>= ${min}`, max !== undefined && `<= ${max}`]
+    .filter(Boolean)
+    .join(" ");
+  return (value, path, context) => {
+    const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (typeof n !== "number" || isNaN(n) || (integer && !Number.isInteger(n))) return fail(context, path, expected, value);
+    if ((min !== undefined && n < min) || (max !== undefined && n > max)) return fail(context, path, expected, value);
+    return n;
+  };
+}
+
+const boolean = (): Schema => (value, path, context) => {
+  if (typeof value === "boolean") return value;
+  if (value === "true" || value === "false") return value === "true";
+  return fail(context, path, "true or false", value);
+};
+
+const oneOf =
+  (values: string[]): Schema =>
+  (value, path, context) =>
+    typeof value === "string" && values.includes(value)
+      ? value
+      : fail(context, path, `one of ${values.map((v) => `"${v}"`).join(", ")}`, value);
+
+// The first alternative whose shape matches the value decides how it is checked
+const anyOf =
+  (expected: string, ...alternatives: { when: (value: unknown) => boolean; schema: Schema }[]): Schema =>
+  (value, path, context) => {
+    const match = alternatives.find((alternative) => alternative.when(value));
+    return match ? match.schema(value, path, context) : fail(context, path, expected, value);
+  };
+
+const list =
+  (item: Schema): Schema =>
+  (value, path, context) => {
+    if (!Array.isArray(value)) return fail(context, path, "a list", value);
+    return value.map((entry, i) => item(entry, `${path}[${i}]`, context));
+  };
+
+const record =
+  (item: Schema): Schema =>
+  (value, path, context) => {
+    if (!isPlainObject(value)) return fail(context, path, "an object", value);
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, item(entry, `${path}.${key}`, context)]));
+  };
+
+// A string the parser accepts; its error message becomes the issue
+const parsedBy =
+  (parse: (value: string) => unknown): Schema =>
+  (value, path, context) => {
+    if (typeof value !== "string") return fail(context, path, "a string", value);
+    try {
+      parse(value);
+      return value;
+    } catch (error) {
+      context.errors.push(`${path}: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  };
+
+const optional = (schema: Schema): Field => ({ schema });
+const required = (schema: Schema): Field => ({ schema, required: true });
+const withDefault = (schema: Schema, value: unknown): Field => ({ schema, default: value });
+
+function object(fields: Record<string, Field>): Schema {
+  return (value, path, context) => {
+    if (!isPlainObject(value)) return fail(context, path, "an object", value);
+    const prefix = path ? `${path}.` : "";
+    const result: Record<string, unknown> = {};
+
+    for (const [key, field] of Object.entries(fields)) {
+      if (value[key] === undefined || value[key] === null) {
+        if (field.required) {
+          context.errors.push(`${prefix}${key}: is required`);
+        } else if (field.default !== undefined) {
+          // Defaults go through the schema too, so an omitted block gets its own defaults
+          result[key] = field.schema(structuredClone(field.default), `${prefix}${key}`, context);
+        }
+        continue;
+      }
+      result[key] = field.schema(value[key], `${prefix}${key}`, context);
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!(key in fields)) {
+        const suggestion = closestKey(key, Object.keys(fields));
+        context.warnings.push(`Unknown option "${prefix}${key}"${suggestion ? ` (did you mean "${prefix}${suggestion}"?)` : ""}`);
+      }
+    }
+    return result;
+  };
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function closestKey(key: string, candidates: string[]): string | null {
+  const lower = key.toLowerCase();
+  let best: { key: string; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance <= 2 && (!best || distance < best.distance)) best = { key: candidate, distance };
+  }
+  return best?.key ?? null;
+}
+
+const tokenSource = anyOf(
+  'a token, or an object with "env", "file" or "command"',
+  { when: (value) => typeof value === "string", schema: string() },
+  { when: (value) => isPlainObject(value) && "env" in value, schema: object({ env: required(string()) }) },
+  { when: (value) => isPlainObject(value) && "file" in value, schema: object({ file: required(string()) }) },
+  { when: (value) => isPlainObject(value) && "command" in value, schema: object({ command: required(string()) }) }
+);
+
+const repoNames = list(string());
+
+const configSchema = object({
+  github: required(
+    object({
+      token: optional(tokenSource),
+      tokens: optional(list(tokenSource)),
+      app: optional(
+        object({
+          appId: required(number({ integer: true, min: 1 })),
+          privateKeyPath: optional(string()),
+          privateKey: optional(string()),
+        })
+      ),
+      organization: optional(string()),
+      owners: optional(
+        list(
+          object({
+            name: required(string()),
+            type: optional(oneOf(["org", "user"])),
+            includeRepos: optional(repoNames),
+            excludeRepos: optional(repoNames),
+          })
+        )
+      ),
+      isEnterprise: withDefault(boolean(), false),
+      enterpriseUrl: withDefault(string(), ""),
+    })
+  ),
+  // Dates may also come from --start and --end, so they are checked after those are applied
+  dateRange: withDefault(
+    object({
+      startDate: withDefault(string(), ""),
+      endDate: withDefault(string(), ""),
+    }),
+    {}
+  ),
+  options: withDefault(
+    object({
+      excludeRepos: withDefault(repoNames, []),
+      includeRepos: withDefault(repoNames, []),
+      maxConcurrentRequests: withDefault(number({ integer: true, min: 1 }), 3),
+      maxConcurrentRepos: optional(number({ integer: true, min: 1 })),
+      repoOrder: optional(oneOf(["listed", "small-first", "large-first"])),
+      skipLineStats: withDefault(boolean(), false),
+      lineStatsMode: optional(oneOf(["snapshot", "per-commit", "auto"])),
+      skipIssueStats: withDefault(boolean(), false),
+      pageSize: withDefault(number({ integer: true, min: 1, max: 100 }), 100),
+      apiMode: optional(oneOf(["rest", "graphql"])),
+      cache: optional(
+        object({
+          enabled: optional(boolean()),
+          directory: optional(string()),
+          ttlSeconds: optional(
+            object(
+              Object.fromEntries(
+                ["default", "repositories", "commits", "pullRequests", "issues", "releases"].map((key) => [
+                  key,
+                  optional(number({ min: 0 })),
+                ])
+              )
+            )
+          ),
+          maxAgeDays: optional(number({ min: 0 })),
+          maxEntries: optional(number({ integer: true, min: 1 })),
+        })
+      ),
+      identity: optional(
+        object({
+          aliases: optional(record(string())),
+          mailmap: optional(string()),
+          excludeBots: optional(boolean()),
+        })
+      ),
+    }),
+    {}
+  ),
+  daemon: optional(
+    object({
+      runLog: withDefault(string(), "reports/runs.jsonl"),
+      reports: required(
+        list(
+          object({
+            name: required(string()),
+            // An expression can parse and still never run, like February 31st
+            schedule: required(parsedBy((expression) => nextCronRun(parseCron(expression), new Date()))),
+            range: required(parsedBy((preset) => resolveDatePreset(preset, "2000-01-01"))),
+            format: withDefault(oneOf(["json", "csv", "markdown", "html", "openmetrics"]), "json"),
+            output: required(string()),
+            interval: optional(oneOf(INTERVALS)),
+            retention: optional(
+              object({
+                keep: optional(number({ integer: true, min: 1 })),
+                maxAgeDays: optional(number({ min: 0 })),
+              })
+            ),
+          })
+        )
+      ),
+    })
+  ),
+});
+
+const ENV_REFERENCE = /\$(\$)?\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+// Replace ${NAME} (or ${NAME:-fallback}) in every string value; $${NAME} is left as ${NAME}
+export function interpolateEnv(value: unknown, env: NodeJS.ProcessEnv, path = "", errors: string[] = []): unknown {
+  if (typeof value === "string") {
+    return value.replace(ENV_REFERENCE, (reference, escaped, name, fallback) => {
+      if (escaped) return reference.slice(1);
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        errors.push(`${path}: environment variable ${name} is not set`);
+        return "";
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry, i) => interpolateEnv(entry, env, `${path}[${i}]`, errors));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, interpolateEnv(entry, env, path ? `${path}.${key}` : key, errors)])
+    );
+  }
+  return value;
+}
+
+// Check parsed config data, with environment references already in place, against the schema
+export function parseConfig(data: unknown, file: string, env: NodeJS.ProcessEnv = process.env): LoadedConfig {
+  const context: Context = { errors: [], warnings: [] };
+  const interpolated = interpolateEnv(data, env, "", context.errors);
+  const config = configSchema(interpolated, "", context);
+
+  if (context.errors.length > 0) {
+    throw new ConfigError(file, context.errors);
+  }
+  return { config: config as Config, warnings: context.warnings };
+}
+
+// Read a .json, .yaml or .yml config file
+export function loadConfigFile(file: string, env: NodeJS.ProcessEnv = process.env): LoadedConfig {
+  if (!existsSync(file)) {
+    throw new ConfigError(file, ["file not found"]);
+  }
+  const content = readFileSync(file, "utf-8");
+  const yaml = [".yaml", ".yml"].includes(extname(file).toLowerCase());
+
+  let data: unknown;
+  try {
+    data = yaml ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(file, [`not valid ${yaml ? "YAML" : "JSON"}: ${error instanceof Error ? error.message : error}`]);
+  }
+  return parseConfig(data, file, env);
+}
+
+// Check that the settings are complete enough to run, once command line overrides are applied.
+// The date range may be left out in serve and daemon mode, where each request or report names its own.
+// `file` is the config file the settings came from, if any, for the messages to point at.
+export function validateConfig(config: Config, requireDateRange = true, file: string | null = null): void {
+  const issues: string[] = [];
+  const source = file ? ` in ${file}` : "";
+
+  const app = config.github.app;
+  if (app) {
+    if (!app.appId) {
+      issues.push(`GitHub App ID (github.app.appId) not configured${source}`);
+    }
+    if (!app.privateKey && !(app.privateKeyPath && existsSync(app.privateKeyPath))) {
+      issues.push(`GitHub App private key file not found: ${app.privateKeyPath ?? "(github.app.privateKeyPath not set)"}`);
+    }
+  } else if (tokenSources(config.github).length === 0) {
+    issues.push(`GitHub token or GitHub App not configured${source} (or set GITHUB_TOKEN)`);
+  }
+
+  const owners = resolveOwners(config);
+  if (owners.length === 0 || owners.some((owner) => !owner.name || owner.name === "YOUR_ORG_NAME")) {
+    issues.push(`GitHub organization or owners not configured${source}`);
+  }
+
+  if (requireDateRange || config.dateRange.startDate || config.dateRange.endDate) {
+    const problem = dateRangeProblem(config.dateRange);
+    if (problem) issues.push(problem);
+  }
+
+  const mailmap = config.options.identity?.mailmap;
+  if (mailmap && !existsSync(mailmap)) {
+    issues.push(`Mailmap file not found at ${mailmap}`);
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(null, issues);
+  }
+}
+
+function dateRangeProblem({ startDate, endDate }: Config["dateRange"]): string | null {
+  if (!startDate || !endDate) {
+    return "Date range not configured. Set dateRange.startDate and dateRange.endDate, or pass --start and --end";
+  }
+  if (isNaN(new Date(startDate).getTime())) {
+    return "Invalid start date format. Use YYYY-MM-DD";
+  }
+  if (isNaN(new Date(endDate).getTime())) {
+    return "Invalid end date format. Use YYYY-MM-DD";
+  }
+  if (new Date(startDate) > new Date(endDate)) {
+    return "Start date must be before end date";
+  }
+  return null;
+}
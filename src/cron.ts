@@ -0,0 +1,145 @@
+// Cron expressions for daemon schedules: the five standard fields (minute, hour, day of month,
+// month, day of week) with lists, ranges, steps and names, plus the @daily style shorthands.
+// Schedules follow the local time zone, so set TZ to run them in another.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  // 0 is Sunday; 7 is accepted for it too
+  daysOfWeek: Set<number>;
+  // When both day fields are restricted a day matching either one runs, as in Vixie cron
+  eitherDay: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Far enough ahead for a February 29th that also has to fall on a given weekday
+const SEARCH_YEARS = 28;
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  // Names for the values from min upwards
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES },
+];
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = named >= 0 ? spec.min + named : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (isNaN(value) || value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} "${text}" is not between ${spec.min} and ${spec.max}`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText, extra] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step in ${spec.name} "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      [start, end] = [spec.min, spec.max];
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      [start, end] = [parseValue(from, spec), parseValue(to, spec)];
+      if (start > end) {
+        throw new Error(`${spec.name} range "${range}" runs backwards`);
+      }
+    } else {
+      // "5/15" steps from 5 to the end of the field
+      start = parseValue(range, spec);
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const expanded = SHORTHANDS[expression.trim().toLowerCase()] ?? expression;
+  const fields = expanded.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`);
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+    return {
+      expression,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      eitherDay: !fields[2].startsWith("*") && !fields[4].startsWith("*"),
+    };
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  return schedule.eitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+// The first minute after the given time that the schedule runs at. Skips whole months, days and
+// hours that can't match, so even a yearly schedule is found in a few hundred steps.
+export function nextCronRun(schedule: CronSchedule, after: Date): Date {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = new Date(date);
+  limit.setFullYear(limit.getFullYear() + SEARCH_YEARS);
+
+  while (date < limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  throw new Error(`Cron expression "${schedule.expression}" never runs`);
+}
@@ -0,0 +1,322 @@
+// Daemon mode: named reports collected on cron schedules and written to dated files. Old files
+// are pruned by each report's retention rules, and every scheduled run appends a line to the
+// run log with its outcome, duration and API usage.
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, renameSync, rmSync, statSync, writeFileSync } from "fs";
+import { dirname, join, normalize } from "path";
+import { calculateTimeSeries, calculateTotals } from "./analysis.js";
+import { resolveDatePreset } from "./comparison.js";
+import { nextCronRun, parseCron, type CronSchedule } from "./cron.js";
+import {
+  formatAsCsv,
+  formatAsJson,
+  formatAsMarkdown,
+  formatTimeSeriesAsCsv,
+  formatTimeSeriesAsJson,
+  formatTimeSeriesAsMarkdown,
+} from "./formatters.js";
+import { formatAsHtml } from "./html-report.js";
+import { formatAsOpenMetrics, type RateLimitGauge } from "./openmetrics.js";
+import { resolveOwners } from "./owners.js";
+import type { TimeBucket } from "./timeseries.js";
+import type { Config, OutputOptions, RepoStats, ScheduledReport } from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// setTimeout can't wait longer than about 24 days, so longer waits are taken in steps
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+export interface ApiUsage {
+  // Requests counted so far, when the client counts them (personal access tokens)
+  requests: number | null;
+  rateLimits: RateLimitGauge[];
+}
+
+export interface RunLogEntry {
+  report: string;
+  scheduledAt: string;
+  startedAt: string;
+  durationSeconds: number;
+  status: "success" | "failure";
+  error?: string;
+  startDate: string;
+  endDate: string;
+  files: string[];
+  removed: string[];
+  apiRequests: number | null;
+  rateLimits: RateLimitGauge[];
+}
+
+export interface DaemonOptions {
+  // Owners and skip options
+  config: Config;
+  reports: ScheduledReport[];
+  runLog: string;
+  collect: (report: ScheduledReport, range: TimeBucket) => Promise<RepoStats[]>;
+  apiUsage: () => ApiUsage;
+  log?: (message: string) => void;
+  now?: () => Date;
+}
+
+interface OutputValues {
+  name: string;
+  org?: string;
+  start: string;
+  end: string;
+}
+
+// The calendar date in the local time zone, which schedules run in
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Fill in an output path template. {yyyy}, {mm} and {dd} are taken from the start of the range.
+export function expandOutputPath(template: string, values: OutputValues): string {
+  const [yyyy, mm, dd] = values.start.split("-");
+  const fields: Record<string, string | undefined> = { ...values, yyyy, mm, dd };
+  return template.replace(PLACEHOLDER, (placeholder, key: string) => {
+    const value = fields[key];
+    if (value === undefined) {
+      throw new Error(`Unknown placeholder ${placeholder} in "${template}". Use {name}, {org}, {yyyy}, {mm}, {dd}, {start} or {end}`);
+    }
+    return value;
+  });
+}
+
+// Matches the paths a report's template produces, capturing the owner so retention can count per owner
+function outputPattern(report: ScheduledReport): RegExp {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const patterns: Record<string, string> = {
+    name: escape(report.name),
+    yyyy: "\\d{4}",
+    mm: "\\d{2}",
+    dd: "\\d{2}",
+    start: "\\d{4}-\\d{2}-\\d{2}",
+    end: "\\d{4}-\\d{2}-\\d{2}",
+  };
+  let org = false;
+  const template = normalize(report.output);
+  let pattern = "";
+  let last = 0;
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    pattern += escape(template.substring(last, match.index));
+    if (match[1] === "org") {
+      pattern += org ? "\\k<org>" : "(?<org>[^/\\\\]+)";
+      org = true;
+    } else {
+      pattern += patterns[match[1]];
+    }
+    last = match.index + match[0].length;
+  }
+  return new RegExp(`^${pattern}${escape(template.substring(last))}$`);
+}
+
+// Remove the report's files that fall outside its retention rules: beyond the newest `keep` per
+// owner, or older than maxAgeDays. Files just written are never removed. Returns the removed paths.
+export function applyRetention(report: ScheduledReport, written: string[], now: Date): string[] {
+  const { keep, maxAgeDays } = report.retention ?? {};
+  const template = normalize(report.output);
+  const firstPlaceholder = template.indexOf("{");
+  // A fixed path is simply overwritten by each run
+  if ((keep === undefined && maxAgeDays === undefined) || firstPlaceholder === -1) return [];
+
+  const root = dirname(`${template.substring(0, firstPlaceholder)}_`);
+  if (!existsSync(root)) return [];
+
+  const pattern = outputPattern(report);
+  const groups = new Map<string, Array<{ path: string; modified: number }>>();
+  for (const entry of readdirSync(root, { recursive: true, encoding: "utf-8" })) {
+    const path = join(root, entry);
+    const match = path.match(pattern);
+    if (!match || !statSync(path).isFile()) continue;
+    const owner = match.groups?.org ?? "";
+    groups.set(owner, [...(groups.get(owner) ?? []), { path, modified: statSync(path).mtimeMs }]);
+  }
+
+  const keepPaths = new Set(written.map((path) => normalize(path)));
+  const removed: string[] = [];
+  for (const files of groups.values()) {
+    files.sort((a, b) => b.modified - a.modified);
+    files.forEach((file, i) => {
+      const tooMany = keep !== undefined && i >= keep;
+      const tooOld = maxAgeDays !== undefined && now.getTime() - file.modified > maxAgeDays * DAY_MS;
+      if ((tooMany || tooOld) && !keepPaths.has(file.path)) {
+        rmSync(file.path);
+        removed.push(file.path);
+      }
+    });
+  }
+  return removed.sort();
+}
+
+export function appendRunLog(file: string, entry: RunLogEntry): void {
+  mkdirSync(dirname(file), { recursive: true });
+  appendFileSync(file, `${JSON.stringify(entry)}\n`, "utf-8");
+}
+
+export class Daemon {
+  private options: DaemonOptions;
+  private now: () => Date;
+  private log: (message: string) => void;
+  private schedules: Array<{ report: ScheduledReport; cron: CronSchedule }>;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  // Reports queued or running; a report that comes up again before its last run finished is skipped
+  private pending: Set<string> = new Set();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: DaemonOptions) {
+    this.options = options;
+    this.now = options.now ?? (() => new Date());
+    this.log = options.log ?? (() => {});
+    this.schedules = options.reports.map((report) => ({ report, cron: parseCron(report.schedule) }));
+  }
+
+  // When each report runs next
+  upcoming(): Array<{ report: string; at: Date }> {
+    return this.schedules.map(({ report, cron }) => ({ report: report.name, at: nextCronRun(cron, this.now()) }));
+  }
+
+  start(): void {
+    for (const schedule of this.schedules) {
+      this.scheduleNext(schedule, this.now());
+    }
+  }
+
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private scheduleNext(schedule: { report: ScheduledReport; cron: CronSchedule }, after: Date): void {
+    const at = nextCronRun(schedule.cron, after);
+    const wait = () => {
+      const delay = at.getTime() - this.now().getTime();
+      if (delay > MAX_TIMER_MS) {
+        this.timers.set(schedule.report.name, setTimeout(wait, MAX_TIMER_MS));
+        return;
+      }
+      const timer = setTimeout(() => {
+        this.enqueue(schedule.report, at);
+        this.scheduleNext(schedule, at);
+      }, Math.max(0, delay));
+      this.timers.set(schedule.report.name, timer);
+    };
+    wait();
+  }
+
+  // Runs share the client, so they go one at a time
+  private enqueue(report: ScheduledReport, scheduledAt: Date): void {
+    if (this.pending.has(report.name)) {
+      this.log(`${report.name}: skipped, the previous run hasn't finished`);
+      return;
+    }
+    this.pending.add(report.name);
+    const run = this.queue.then(() => this.runReport(report, scheduledAt));
+    this.queue = run.catch(() => undefined);
+    run
+      .then(
+        (entry) => this.log(`${report.name}: ${entry.status === "success" ? `wrote ${entry.files.join(", ")}` : `failed: ${entry.error}`}`),
+        (error) => this.log(`${report.name}: ${error instanceof Error ? error.message : error}`)
+      )
+      .finally(() => this.pending.delete(report.name));
+  }
+
+  // Collect and write one report for the date its run was scheduled on, then log the run.
+  // Retention only runs after a successful write, so a failing report keeps its old files.
+  async runReport(report: ScheduledReport, scheduledAt: Date): Promise<RunLogEntry> {
+    const startedAt = this.now();
+    const range = resolveDatePreset(report.range, localDate(scheduledAt));
+    const requestsBefore = this.options.apiUsage().requests;
+    const entry: RunLogEntry = {
+      report: report.name,
+      scheduledAt: scheduledAt.toISOString(),
+      startedAt: startedAt.toISOString(),
+      durationSeconds: 0,
+      status: "success",
+      startDate: range.start,
+      endDate: range.end,
+      files: [],
+      removed: [],
+      apiRequests: null,
+      rateLimits: [],
+    };
+
+    this.log(`${report.name}: collecting ${range.start} to ${range.end}...`);
+    try {
+      const repos = await this.options.collect(report, range);
+      entry.files = this.writeReport(report, range, repos);
+      entry.removed = applyRetention(report, entry.files, this.now());
+    } catch (error) {
+      entry.status = "failure";
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+
+    const usage = this.options.apiUsage();
+    entry.durationSeconds = Math.round((this.now().getTime() - startedAt.getTime()) / 100) / 10;
+    entry.apiRequests = requestsBefore !== null && usage.requests !== null ? usage.requests - requestsBefore : null;
+    entry.rateLimits = usage.rateLimits;
+    appendRunLog(this.options.runLog, entry);
+    return entry;
+  }
+
+  // One file per owner when the template names {org}, otherwise one for all of them
+  private writeReport(report: ScheduledReport, range: TimeBucket, repos: RepoStats[]): string[] {
+    const owners = resolveOwners(this.options.config).map((owner) => owner.name);
+    const values = { name: report.name, start: range.start, end: range.end };
+    const outputs = report.output.includes("{org}")
+      ? owners.map((owner) => ({
+          path: expandOutputPath(report.output, { ...values, org: owner }),
+          owners: [owner],
+          repos: repos.filter((repo) => repo.owner.toLowerCase() === owner.toLowerCase()),
+        }))
+      : [{ path: expandOutputPath(report.output, values), owners, repos }];
+
+    for (const output of outputs) {
+      mkdirSync(dirname(output.path), { recursive: true });
+      // Written in one step, so nothing picks up a half-written report
+      writeFileSync(`${output.path}.tmp`, this.render(report, range, output.repos, output.owners), "utf-8");
+      renameSync(`${output.path}.tmp`, output.path);
+    }
+    return outputs.map((output) => normalize(output.path));
+  }
+
+  private render(report: ScheduledReport, range: TimeBucket, repos: RepoStats[], owners: string[]): string {
+    const { start, end } = range;
+    const options: OutputOptions = {
+      format: report.format,
+      skipLineStats: this.options.config.options.skipLineStats,
+      skipIssueStats: this.options.config.options.skipIssueStats,
+    };
+
+    if (report.interval) {
+      const series = calculateTimeSeries(repos, report.interval, start, end);
+      switch (report.format) {
+        case "csv":
+          return formatTimeSeriesAsCsv(series, options);
+        case "markdown":
+          return formatTimeSeriesAsMarkdown(series, start, end, options);
+        default:
+          return formatTimeSeriesAsJson(series, start, end, options);
+      }
+    }
+
+    const stats = calculateTotals(repos);
+    switch (report.format) {
+      case "csv":
+        return formatAsCsv(stats, start, end, options);
+      case "markdown":
+        return formatAsMarkdown(stats, start, end, options);
+      case "html":
+        return formatAsHtml(stats, start, end, options);
+      case "openmetrics":
+        return formatAsOpenMetrics(stats, options, { owners, rateLimits: this.options.apiUsage().rateLimits });
+      default:
+        return formatAsJson(stats, start, end, options);
+    }
+  }
+}
@@ -1,10 +1,107 @@
 import { writeFileSync } from "fs";
-import type { TotalStats, RepoStats, OutputOptions, UserStats, ComparisonStats } from "./types.js";
+import type {
+  TotalStats,
+  RepoStats,
+  OutputOptions,
+  UserStats,
+  UserRepoStats,
+  ComparisonStats,
+  PullRequestMetrics,
+  PeriodStats,
+  TimeSeriesStats,
+} from "./types.js";
+import {
+  calcChange,
+  compareDurations,
+  compareMetrics,
+  repoStatus,
+  type CompareMetric,
+  type MetricSource,
+} from "./comparison.js";
 
 export function formatNumber(num: number): string {
   return num.toLocaleString();
 }
 
+// Human-readable duration for hour-based metrics: hours below a day, days above
+export function formatDuration(hours: number | null): string {
+  if (hours === null) return "-";
+  if (hours < 24) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
+// Which line stats methods produced the report, e.g. "snapshot" or "snapshot (4 repos), per-commit (1 repo)"
+export function describeLineStatsModes(repos: RepoStats[]): string {
+  const counts = new Map<string, number>();
+  for (const repo of repos) {
+    if (repo.lineStatsMode) {
+      counts.set(repo.lineStatsMode, (counts.get(repo.lineStatsMode) ?? 0) + 1);
+    }
+  }
+
+  if (counts.size === 0) return "-";
+  if (counts.size === 1) return Array.from(counts.keys())[0];
+  return Array.from(counts)
+    .map(([mode, count]) => `${mode} (${count} ${count === 1 ? "repo" : "repos"})`)
+    .join(", ");
+}
+
+export const TRUNCATED_LINES_NOTE =
+  "Line counts are a lower bound: GitHub truncated the compare at 300 files. Set lineStatsMode to \"per-commit\" or \"auto\" for exact counts.";
+
+function roundHours(hours: number | null): number | null {
+  return hours === null ? null : Math.round(hours * 10) / 10;
+}
+
+function roundPullRequestMetrics(metrics: PullRequestMetrics): PullRequestMetrics {
+  return {
+    ...metrics,
+    medianHoursToMerge: roundHours(metrics.medianHoursToMerge),
+    p90HoursToMerge: roundHours(metrics.p90HoursToMerge),
+    medianHoursToFirstReview: roundHours(metrics.medianHoursToFirstReview),
+  };
+}
+
+// Repos in report order: active repos by commits, then archived repos alphabetically
+export function sortRepos(repos: RepoStats[]): RepoStats[] {
+  const activeRepos = repos.filter((r) => !r.isArchived).sort((a, b) => b.commits - a.commits);
+  const archivedRepos = repos.filter((r) => r.isArchived).sort((a, b) => a.name.localeCompare(b.name));
+  return [...activeRepos, ...archivedRepos];
+}
+
+export interface RepoGroup {
+  owner: string;
+  repos: RepoStats[];
+  totals: TotalStats["totals"];
+}
+
+// Sorted repos with their subtotals per owner, or null when they all belong to one owner
+export function groupReposByOwner(stats: TotalStats): RepoGroup[] | null {
+  if (!stats.owners) return null;
+  return stats.owners.map(({ owner, totals }) => ({
+    owner,
+    repos: sortRepos(stats.repos.filter((repo) => repo.owner === owner)),
+    totals,
+  }));
+}
+
+function formatJsonTotals(totals: TotalStats["totals"], options: OutputOptions) {
+  return {
+    commits: totals.commits,
+    linesAdded: options.skipLineStats ? null : totals.linesAdded,
+    linesDeleted: options.skipLineStats ? null : totals.linesDeleted,
+    netLines: options.skipLineStats ? null : totals.totalLines,
+    pullRequests: totals.pullRequests,
+    pullRequestMetrics: roundPullRequestMetrics(totals.pullRequestMetrics),
+    contributors: totals.contributors,
+    issuesCreated: options.skipIssueStats ? null : totals.issuesCreated,
+    issuesClosed: options.skipIssueStats ? null : totals.issuesClosed,
+    openIssues: options.skipIssueStats ? null : totals.openIssues,
+    medianIssueCloseHours: options.skipIssueStats ? null : roundHours(totals.medianIssueCloseHours),
+    releases: totals.releases,
+  };
+}
+
 // JSON Formatter
 export function formatAsJson(
   stats: TotalStats,
@@ -20,25 +117,26 @@ export function formatAsJson(
       activeCount: stats.repos.filter((r) => !r.isArchived).length,
       archivedCount: stats.repos.filter((r) => r.isArchived).length,
     },
-    totals: {
-      commits: stats.totals.commits,
-      linesAdded: options.skipLineStats ? null : stats.totals.linesAdded,
-      linesDeleted: options.skipLineStats ? null : stats.totals.linesDeleted,
-      netLines: options.skipLineStats ? null : stats.totals.totalLines,
-      pullRequests: stats.totals.pullRequests,
-      contributors: stats.totals.contributors,
-      releases: stats.totals.releases,
-    },
+    totals: formatJsonTotals(stats.totals, options),
+    owners: stats.owners?.map(({ owner, totals }) => ({ owner, totals: formatJsonTotals(totals, options) })),
     repositories: stats.repos.map((repo) => ({
+      owner: repo.owner,
       name: repo.name,
       isArchived: repo.isArchived,
       commits: repo.commits,
       linesAdded: options.skipLineStats ? null : repo.linesAdded,
       linesDeleted: options.skipLineStats ? null : repo.linesDeleted,
       netLines: options.skipLineStats ? null : repo.totalLines,
+      lineStatsMode: options.skipLineStats ? null : repo.lineStatsMode,
+      lineStatsTruncated: options.skipLineStats ? null : repo.lineStatsTruncated,
       pullRequests: repo.pullRequests,
+      pullRequestMetrics: roundPullRequestMetrics(repo.pullRequestMetrics),
       contributors: repo.contributors,
       contributorsList: repo.contributorsList,
+      issuesCreated: options.skipIssueStats ? null : repo.issuesCreated,
+      issuesClosed: options.skipIssueStats ? null : repo.issuesClosed,
+      openIssues: options.skipIssueStats ? null : repo.openIssues,
+      medianIssueCloseHours: options.skipIssueStats ? null : roundHours(repo.medianIssueCloseHours),
       releases: repo.releases,
     })),
   };
@@ -53,13 +151,26 @@ export function formatAsCsv(
   endDate: string,
   options: OutputOptions
 ): string {
+  // Runs across several owners get an Owner column and a subtotal row per owner
+  const groups = groupReposByOwner(stats);
+  const ownerColumn = (owner: string) => (groups ? [escapeCsvField(owner)] : []);
+
   const headers = [
+    ...(groups ? ["Owner"] : []),
     "Repository",
     "Archived",
     "Commits",
-    ...(options.skipLineStats ? [] : ["Lines Added", "Lines Deleted", "Net Lines"]),
+    ...(options.skipLineStats ? [] : ["Lines Added", "Lines Deleted", "Net Lines", "Line Stats Mode", "Lines Truncated"]),
     "Pull Requests",
+    "PRs Merged",
+    "PRs Merged Without Approval",
+    "PRs Closed Unmerged",
+    "PRs Open at End",
+    "Median Hours to Merge",
+    "P90 Hours to Merge",
+    "Median Hours to First Review",
     "Contributors",
+    ...(options.skipIssueStats ? [] : ["Issues Created", "Issues Closed", "Open Issues", "Median Hours to Close"]),
     "Releases",
   ];
 
@@ -73,49 +184,87 @@ export function formatAsCsv(
   // Add headers
   rows.push(headers);
 
-  // Sort repos: active by commits desc, then archived alphabetically
-  const activeRepos = stats.repos.filter((r) => !r.isArchived).sort((a, b) => b.commits - a.commits);
-  const archivedRepos = stats.repos.filter((r) => r.isArchived).sort((a, b) => a.name.localeCompare(b.name));
-  const sortedRepos = [...activeRepos, ...archivedRepos];
-
-  // Add repo rows
+  // Add repo rows, sorted within each owner
+  const sortedRepos = groups ? groups.flatMap((group) => group.repos) : sortRepos(stats.repos);
   for (const repo of sortedRepos) {
     const row = [
+      ...ownerColumn(repo.owner),
       escapeCsvField(repo.name),
       repo.isArchived ? "Yes" : "No",
       repo.commits.toString(),
       ...(options.skipLineStats
         ? []
-        : [repo.linesAdded.toString(), repo.linesDeleted.toString(), repo.totalLines.toString()]),
+        : [
+            repo.linesAdded.toString(),
+            repo.linesDeleted.toString(),
+            repo.totalLines.toString(),
+            repo.lineStatsMode ?? "",
+            repo.lineStatsTruncated ? "Yes" : "No",
+          ]),
       repo.pullRequests.toString(),
+      ...formatCsvPullRequestMetrics(repo.pullRequestMetrics),
       repo.contributors.toString(),
+      ...(options.skipIssueStats
+        ? []
+        : [
+            repo.issuesCreated.toString(),
+            repo.issuesClosed.toString(),
+            repo.openIssues.toString(),
+            formatCsvHours(repo.medianIssueCloseHours),
+          ]),
       repo.releases.toString(),
     ];
     rows.push(row);
   }
 
-  // Add totals row
-  rows.push([]);
-  const totalsRow = [
-    "TOTALS",
+  const totalsRow = (label: string, totals: TotalStats["totals"]) => [
+    label,
     "",
-    stats.totals.commits.toString(),
+    totals.commits.toString(),
     ...(options.skipLineStats
+      ? []
+      : [totals.linesAdded.toString(), totals.linesDeleted.toString(), totals.totalLines.toString(), "", ""]),
+    totals.pullRequests.toString(),
+    ...formatCsvPullRequestMetrics(totals.pullRequestMetrics),
+    totals.contributors.toString(),
+    ...(options.skipIssueStats
       ? []
       : [
-          stats.totals.linesAdded.toString(),
-          stats.totals.linesDeleted.toString(),
-          stats.totals.totalLines.toString(),
+          totals.issuesCreated.toString(),
+          totals.issuesClosed.toString(),
+          totals.openIssues.toString(),
+          formatCsvHours(totals.medianIssueCloseHours),
         ]),
-    stats.totals.pullRequests.toString(),
-    stats.totals.contributors.toString(),
-    stats.totals.releases.toString(),
+    totals.releases.toString(),
   ];
-  rows.push(totalsRow);
+
+  // Add subtotal and totals rows
+  rows.push([]);
+  for (const group of groups ?? []) {
+    rows.push([...ownerColumn(group.owner), ...totalsRow("SUBTOTAL", group.totals)]);
+  }
+  rows.push([...ownerColumn(""), ...totalsRow("TOTALS", stats.totals)]);
 
   return rows.map((row) => row.join(",")).join("\n");
 }
 
+function formatCsvHours(hours: number | null): string {
+  const rounded = roundHours(hours);
+  return rounded === null ? "" : rounded.toString();
+}
+
+function formatCsvPullRequestMetrics(metrics: PullRequestMetrics): string[] {
+  return [
+    metrics.merged.toString(),
+    metrics.mergedWithoutApproval.toString(),
+    metrics.closedWithoutMerge.toString(),
+    metrics.openAtEnd.toString(),
+    formatCsvHours(metrics.medianHoursToMerge),
+    formatCsvHours(metrics.p90HoursToMerge),
+    formatCsvHours(metrics.medianHoursToFirstReview),
+  ];
+}
+
 function escapeCsvField(field: string): string {
   if (field.includes(",") || field.includes('"') || field.includes("\n")) {
     return `"${field.replace(/"/g, '""')}"`;
@@ -141,6 +290,9 @@ export function formatAsMarkdown(
   lines.push(`**Date Range:** ${startDate} to ${endDate}`);
   lines.push(`**Generated:** ${new Date().toISOString()}`);
   lines.push(`**Repositories:** ${stats.repos.length} total (${activeCount} active, ${archivedCount} archived)`);
+  if (!options.skipLineStats) {
+    lines.push(`**Line Stats:** ${describeLineStatsModes(stats.repos)}`);
+  }
   lines.push("");
 
   // Summary
@@ -155,47 +307,152 @@ export function formatAsMarkdown(
     lines.push(`| Net Line Change | ${formatNumber(stats.totals.totalLines)} |`);
   }
   lines.push(`| Pull Requests | ${formatNumber(stats.totals.pullRequests)} |`);
+  lines.push(`| PRs Merged | ${formatNumber(stats.totals.pullRequestMetrics.merged)} |`);
+  lines.push(`| PRs Merged Without Approval | ${formatNumber(stats.totals.pullRequestMetrics.mergedWithoutApproval)} |`);
+  lines.push(`| PRs Closed Without Merge | ${formatNumber(stats.totals.pullRequestMetrics.closedWithoutMerge)} |`);
+  lines.push(`| Open PRs (end of period) | ${formatNumber(stats.totals.pullRequestMetrics.openAtEnd)} |`);
+  lines.push(`| Median Time to Merge | ${formatDuration(stats.totals.pullRequestMetrics.medianHoursToMerge)} |`);
+  lines.push(`| P90 Time to Merge | ${formatDuration(stats.totals.pullRequestMetrics.p90HoursToMerge)} |`);
+  lines.push(`| Median Time to First Review | ${formatDuration(stats.totals.pullRequestMetrics.medianHoursToFirstReview)} |`);
   lines.push(`| Unique Contributors | ${formatNumber(stats.totals.contributors)} |`);
+  if (!options.skipIssueStats) {
+    lines.push(`| Issues Created | ${formatNumber(stats.totals.issuesCreated)} |`);
+    lines.push(`| Issues Closed | ${formatNumber(stats.totals.issuesClosed)} |`);
+    lines.push(`| Open Issues (end of period) | ${formatNumber(stats.totals.openIssues)} |`);
+    lines.push(`| Median Time to Close | ${formatDuration(stats.totals.medianIssueCloseHours)} |`);
+  }
   lines.push(`| Releases | ${formatNumber(stats.totals.releases)} |`);
   lines.push("");
 
+  const groups = groupReposByOwner(stats);
+
+  // Owner subtotals
+  if (groups) {
+    const ownerCols = [
+      "Owner",
+      "Repos",
+      "Commits",
+      "PRs",
+      "Merged",
+      "Contributors",
+      ...(options.skipIssueStats ? [] : ["Issues +", "Issues -"]),
+      "Releases",
+    ];
+    lines.push("## Owners");
+    lines.push("");
+    lines.push(`| ${ownerCols.join(" | ")} |`);
+    lines.push(`|${ownerCols.map(() => "---").join("|")}|`);
+    for (const group of groups) {
+      const cols = [
+        group.owner,
+        formatNumber(group.totals.repoCount),
+        formatNumber(group.totals.commits),
+        formatNumber(group.totals.pullRequests),
+        formatNumber(group.totals.pullRequestMetrics.merged),
+        formatNumber(group.totals.contributors),
+        ...(options.skipIssueStats
+          ? []
+          : [formatNumber(group.totals.issuesCreated), formatNumber(group.totals.issuesClosed)]),
+        formatNumber(group.totals.releases),
+      ];
+      lines.push(`| ${cols.join(" | ")} |`);
+    }
+    lines.push("");
+  }
+
   // Repository breakdown
   lines.push("## Repository Breakdown");
   lines.push("");
 
-  // Table header
   const headerCols = [
     "Repository",
     "Commits",
     ...(options.skipLineStats ? [] : ["Lines +", "Lines -", "Net"]),
     "PRs",
+    "Merged",
+    "Open PRs",
+    "Median Merge",
     "Contributors",
+    ...(options.skipIssueStats ? [] : ["Issues +", "Issues -", "Open Issues", "Median Close"]),
     "Releases",
   ];
-  lines.push(`| ${headerCols.join(" | ")} |`);
-  lines.push(`|${headerCols.map(() => "---").join("|")}|`);
 
-  // Sort repos
-  const activeRepos = stats.repos.filter((r) => !r.isArchived).sort((a, b) => b.commits - a.commits);
-  const archivedRepos = stats.repos.filter((r) => r.isArchived).sort((a, b) => a.name.localeCompare(b.name));
-  const sortedRepos = [...activeRepos, ...archivedRepos];
+  const pushRepoTable = (repos: RepoStats[], subtotal?: TotalStats["totals"]) => {
+    lines.push(`| ${headerCols.join(" | ")} |`);
+    lines.push(`|${headerCols.map(() => "---").join("|")}|`);
 
-  for (const repo of sortedRepos) {
-    const name = repo.isArchived ? `${repo.name} *(archived)*` : repo.name;
-    const cols = [
-      name,
-      formatNumber(repo.commits),
-      ...(options.skipLineStats
-        ? []
-        : [formatNumber(repo.linesAdded), formatNumber(repo.linesDeleted), formatNumber(repo.totalLines)]),
-      formatNumber(repo.pullRequests),
-      formatNumber(repo.contributors),
-      formatNumber(repo.releases),
-    ];
-    lines.push(`| ${cols.join(" | ")} |`);
+    for (const repo of repos) {
+      const name = repo.isArchived ? `${repo.name} *(archived)*` : repo.name;
+      const cols = [
+        name,
+        formatNumber(repo.commits),
+        ...(options.skipLineStats
+          ? []
+          : [
+              formatNumber(repo.linesAdded) + (repo.lineStatsTruncated ? " †" : ""),
+              formatNumber(repo.linesDeleted),
+              formatNumber(repo.totalLines),
+            ]),
+        formatNumber(repo.pullRequests),
+        formatNumber(repo.pullRequestMetrics.merged),
+        formatNumber(repo.pullRequestMetrics.openAtEnd),
+        formatDuration(repo.pullRequestMetrics.medianHoursToMerge),
+        formatNumber(repo.contributors),
+        ...(options.skipIssueStats
+          ? []
+          : [
+              formatNumber(repo.issuesCreated),
+              formatNumber(repo.issuesClosed),
+              formatNumber(repo.openIssues),
+              formatDuration(repo.medianIssueCloseHours),
+            ]),
+        formatNumber(repo.releases),
+      ];
+      lines.push(`| ${cols.join(" | ")} |`);
+    }
+
+    if (subtotal) {
+      const cols = [
+        "**Subtotal**",
+        formatNumber(subtotal.commits),
+        ...(options.skipLineStats
+          ? []
+          : [formatNumber(subtotal.linesAdded), formatNumber(subtotal.linesDeleted), formatNumber(subtotal.totalLines)]),
+        formatNumber(subtotal.pullRequests),
+        formatNumber(subtotal.pullRequestMetrics.merged),
+        formatNumber(subtotal.pullRequestMetrics.openAtEnd),
+        formatDuration(subtotal.pullRequestMetrics.medianHoursToMerge),
+        formatNumber(subtotal.contributors),
+        ...(options.skipIssueStats
+          ? []
+          : [
+              formatNumber(subtotal.issuesCreated),
+              formatNumber(subtotal.issuesClosed),
+              formatNumber(subtotal.openIssues),
+              formatDuration(subtotal.medianIssueCloseHours),
+            ]),
+        formatNumber(subtotal.releases),
+      ];
+      lines.push(`| ${cols.join(" | ")} |`);
+    }
+
+    lines.push("");
+  };
+
+  if (groups) {
+    for (const group of groups) {
+      lines.push(`### ${group.owner}`);
+      lines.push("");
+      pushRepoTable(group.repos, group.totals);
+    }
+  } else {
+    pushRepoTable(sortRepos(stats.repos));
   }
 
-  lines.push("");
+  if (!options.skipLineStats && stats.repos.some((repo) => repo.lineStatsTruncated)) {
+    lines.push(`† ${TRUNCATED_LINES_NOTE}`);
+    lines.push("");
+  }
 
   return lines.join("\n");
 }
@@ -209,7 +466,9 @@ export function formatUserStatsAsJson(users: UserStats[], startDate: string, end
         generatedAt: new Date().toISOString(),
         userCount: users.length,
       },
-      users: users.sort((a, b) => b.commits - a.commits),
+      users: users
+        .sort((a, b) => b.commits - a.commits)
+        .map((user) => ({ ...user, medianReviewTurnaroundHours: roundHours(user.medianReviewTurnaroundHours) })),
     },
     null,
     2
@@ -217,7 +476,20 @@ export function formatUserStatsAsJson(users: UserStats[], startDate: string, end
 }
 
 export function formatUserStatsAsCsv(users: UserStats[]): string {
-  const headers = ["Username", "Commits", "Lines Added", "Lines Deleted", "Pull Requests", "Repositories"];
+  const headers = [
+    "Username",
+    "Commits",
+    "Lines Added",
+    "Lines Deleted",
+    "Pull Requests",
+    "PRs Merged",
+    "Reviews",
+    "Approvals",
+    "Changes Requested",
+    "Review Comments",
+    "Median Review Turnaround Hours",
+    "Repositories",
+  ];
   const rows = [headers.join(",")];
 
   const sortedUsers = users.sort((a, b) => b.commits - a.commits);
@@ -229,11 +501,54 @@ export function formatUserStatsAsCsv(users: UserStats[]): string {
         user.linesAdded,
         user.linesDeleted,
         user.pullRequests,
+        user.pullRequestsMerged,
+        user.reviews,
+        user.approvals,
+        user.changesRequested,
+        user.reviewComments,
+        formatCsvHours(user.medianReviewTurnaroundHours),
         `"${user.repos.join("; ")}"`,
       ].join(",")
     );
   }
 
+  // Per-user, per-repo subtotals
+  rows.push("");
+  rows.push(
+    [
+      "Username",
+      "Repository",
+      "Commits",
+      "Lines Added",
+      "Lines Deleted",
+      "Pull Requests",
+      "PRs Merged",
+      "Reviews",
+      "Approvals",
+      "Changes Requested",
+      "Review Comments",
+    ].join(",")
+  );
+  for (const user of sortedUsers) {
+    for (const repo of user.repoBreakdown) {
+      rows.push(
+        [
+          escapeCsvField(user.username),
+          escapeCsvField(repo.repo),
+          repo.commits,
+          repo.linesAdded,
+          repo.linesDeleted,
+          repo.pullRequests,
+          repo.pullRequestsMerged,
+          repo.reviews,
+          repo.approvals,
+          repo.changesRequested,
+          repo.reviewComments,
+        ].join(",")
+      );
+    }
+  }
+
   return rows.join("\n");
 }
 
@@ -245,22 +560,42 @@ export function formatUserStatsAsMarkdown(users: UserStats[], startDate: string,
   lines.push(`**Date Range:** ${startDate} to ${endDate}`);
   lines.push(`**Total Contributors:** ${users.length}`);
   lines.push("");
-  lines.push("| Contributor | Commits | Lines + | Lines - | PRs | Repos |");
-  lines.push("|-------------|---------|---------|---------|-----|-------|");
+  lines.push("| Contributor | Commits | Lines + | Lines - | PRs | Merged | Reviews | Repos |");
+  lines.push("|-------------|---------|---------|---------|-----|--------|---------|-------|");
 
   const sortedUsers = users.sort((a, b) => b.commits - a.commits);
   for (const user of sortedUsers) {
     lines.push(
-      `| ${user.username} | ${formatNumber(user.commits)} | ${formatNumber(user.linesAdded)} | ${formatNumber(user.linesDeleted)} | ${formatNumber(user.pullRequests)} | ${user.repos.length} |`
+      `| ${user.username} | ${formatNumber(user.commits)} | ${formatNumber(user.linesAdded)} | ${formatNumber(user.linesDeleted)} | ${formatNumber(user.pullRequests)} | ${formatNumber(user.pullRequestsMerged)} | ${formatNumber(user.reviews)} | ${user.repos.length} |`
     );
   }
 
+  // Per-user, per-repo subtotals
+  const usersWithBreakdown = sortedUsers.filter((u) => u.repoBreakdown.length > 0);
+  if (usersWithBreakdown.length > 0) {
+    lines.push("");
+    lines.push("## Per-Repository Breakdown");
+
+    for (const user of usersWithBreakdown) {
+      lines.push("");
+      lines.push(`### ${user.username}`);
+      lines.push("");
+      lines.push("| Repository | Commits | Lines + | Lines - | PRs | Merged | Reviews |");
+      lines.push("|------------|---------|---------|---------|-----|--------|---------|");
+      for (const repo of user.repoBreakdown) {
+        lines.push(
+          `| ${repo.repo} | ${formatNumber(repo.commits)} | ${formatNumber(repo.linesAdded)} | ${formatNumber(repo.linesDeleted)} | ${formatNumber(repo.pullRequests)} | ${formatNumber(repo.pullRequestsMerged)} | ${formatNumber(repo.reviews)} |`
+        );
+      }
+    }
+  }
+
   return lines.join("\n");
 }
 
 export function formatUserStatsAsTable(users: UserStats[], startDate: string, endDate: string): void {
-  const divider = "═".repeat(90);
-  const thinDivider = "─".repeat(90);
+  const divider = "═".repeat(100);
+  const thinDivider = "─".repeat(100);
 
   console.log("\n" + divider);
   console.log("                         CONTRIBUTOR ACTIVITY REPORT");
@@ -276,7 +611,9 @@ export function formatUserStatsAsTable(users: UserStats[], startDate: string, en
       padRight("Lines +", 12) +
       padRight("Lines -", 12) +
       padRight("PRs", 8) +
-      padRight("Repos", 10)
+      padRight("Merged", 10) +
+      padRight("Reviews", 10) +
+      padRight("Repos", 8)
   );
   console.log("  " + thinDivider);
 
@@ -290,105 +627,606 @@ export function formatUserStatsAsTable(users: UserStats[], startDate: string, en
         padRight(formatNumber(user.linesAdded), 12) +
         padRight(formatNumber(user.linesDeleted), 12) +
         padRight(formatNumber(user.pullRequests), 8) +
-        padRight(user.repos.length.toString(), 10)
+        padRight(formatNumber(user.pullRequestsMerged), 10) +
+        padRight(formatNumber(user.reviews), 10) +
+        padRight(user.repos.length.toString(), 8)
     );
   }
 
   console.log("\n" + divider + "\n");
 }
 
-// Comparison formatters
-export function formatComparisonAsJson(comparison: ComparisonStats): string {
-  const calcChange = (p1: number, p2: number) => {
-    if (p1 === 0) return p2 === 0 ? 0 : 100;
-    return Math.round(((p2 - p1) / p1) * 100);
-  };
+// Reviewer stats formatters: the review side of UserStats, for users who reviewed in range
+function reviewedRepos(user: UserStats): UserRepoStats[] {
+  return user.repoBreakdown.filter((repo) => repo.reviews > 0).sort((a, b) => b.reviews - a.reviews);
+}
 
+export function formatReviewerStatsAsJson(reviewers: UserStats[], startDate: string, endDate: string): string {
   return JSON.stringify(
     {
-      period1: {
-        range: comparison.period1Range,
-        totals: comparison.period1.totals,
-      },
-      period2: {
-        range: comparison.period2Range,
-        totals: comparison.period2.totals,
-      },
-      changes: {
-        commits: {
-          absolute: comparison.period2.totals.commits - comparison.period1.totals.commits,
-          percentage: calcChange(comparison.period1.totals.commits, comparison.period2.totals.commits),
-        },
-        pullRequests: {
-          absolute: comparison.period2.totals.pullRequests - comparison.period1.totals.pullRequests,
-          percentage: calcChange(comparison.period1.totals.pullRequests, comparison.period2.totals.pullRequests),
-        },
-        contributors: {
-          absolute: comparison.period2.totals.contributors - comparison.period1.totals.contributors,
-          percentage: calcChange(comparison.period1.totals.contributors, comparison.period2.totals.contributors),
-        },
-        releases: {
-          absolute: comparison.period2.totals.releases - comparison.period1.totals.releases,
-          percentage: calcChange(comparison.period1.totals.releases, comparison.period2.totals.releases),
-        },
+      metadata: {
+        dateRange: { startDate, endDate },
+        generatedAt: new Date().toISOString(),
+        reviewerCount: reviewers.length,
       },
+      reviewers: reviewers
+        .sort((a, b) => b.reviews - a.reviews)
+        .map((reviewer) => ({
+          username: reviewer.username,
+          reviews: reviewer.reviews,
+          approvals: reviewer.approvals,
+          changesRequested: reviewer.changesRequested,
+          reviewComments: reviewer.reviewComments,
+          medianReviewTurnaroundHours: roundHours(reviewer.medianReviewTurnaroundHours),
+          repoBreakdown: reviewedRepos(reviewer).map((repo) => ({
+            repo: repo.repo,
+            reviews: repo.reviews,
+            approvals: repo.approvals,
+            changesRequested: repo.changesRequested,
+            reviewComments: repo.reviewComments,
+          })),
+        })),
     },
     null,
     2
   );
 }
 
-export function formatComparisonAsTable(comparison: ComparisonStats): void {
+export function formatReviewerStatsAsCsv(reviewers: UserStats[]): string {
+  const headers = [
+    "Reviewer",
+    "Reviews",
+    "Approvals",
+    "Changes Requested",
+    "Review Comments",
+    "Median Review Turnaround Hours",
+    "Repositories",
+  ];
+  const rows = [headers.join(",")];
+
+  const sortedReviewers = reviewers.sort((a, b) => b.reviews - a.reviews);
+  for (const reviewer of sortedReviewers) {
+    rows.push(
+      [
+        escapeCsvField(reviewer.username),
+        reviewer.reviews,
+        reviewer.approvals,
+        reviewer.changesRequested,
+        reviewer.reviewComments,
+        formatCsvHours(reviewer.medianReviewTurnaroundHours),
+        `"${reviewedRepos(reviewer).map((repo) => repo.repo).join("; ")}"`,
+      ].join(",")
+    );
+  }
+
+  // Per-reviewer, per-repo subtotals
+  rows.push("");
+  rows.push(["Reviewer", "Repository", "Reviews", "Approvals", "Changes Requested", "Review Comments"].join(","));
+  for (const reviewer of sortedReviewers) {
+    for (const repo of reviewedRepos(reviewer)) {
+      rows.push(
+        [
+          escapeCsvField(reviewer.username),
+          escapeCsvField(repo.repo),
+          repo.reviews,
+          repo.approvals,
+          repo.changesRequested,
+          repo.reviewComments,
+        ].join(",")
+      );
+    }
+  }
+
+  return rows.join("\n");
+}
+
+export function formatReviewerStatsAsMarkdown(reviewers: UserStats[], startDate: string, endDate: string): string {
+  const lines: string[] = [];
+
+  lines.push("# Code Review Activity Report");
+  lines.push("");
+  lines.push(`**Date Range:** ${startDate} to ${endDate}`);
+  lines.push(`**Total Reviewers:** ${reviewers.length}`);
+  lines.push("");
+  lines.push("| Reviewer | Reviews | Approvals | Changes Requested | Comments | Median Turnaround | Repos |");
+  lines.push("|----------|---------|-----------|-------------------|----------|-------------------|-------|");
+
+  const sortedReviewers = reviewers.sort((a, b) => b.reviews - a.reviews);
+  for (const reviewer of sortedReviewers) {
+    lines.push(
+      `| ${reviewer.username} | ${formatNumber(reviewer.reviews)} | ${formatNumber(reviewer.approvals)} | ${formatNumber(reviewer.changesRequested)} | ${formatNumber(reviewer.reviewComments)} | ${formatDuration(reviewer.medianReviewTurnaroundHours)} | ${reviewedRepos(reviewer).length} |`
+    );
+  }
+
+  if (sortedReviewers.length > 0) {
+    lines.push("");
+    lines.push("## Per-Repository Breakdown");
+
+    for (const reviewer of sortedReviewers) {
+      lines.push("");
+      lines.push(`### ${reviewer.username}`);
+      lines.push("");
+      lines.push("| Repository | Reviews | Approvals | Changes Requested | Comments |");
+      lines.push("|------------|---------|-----------|-------------------|----------|");
+      for (const repo of reviewedRepos(reviewer)) {
+        lines.push(
+          `| ${repo.repo} | ${formatNumber(repo.reviews)} | ${formatNumber(repo.approvals)} | ${formatNumber(repo.changesRequested)} | ${formatNumber(repo.reviewComments)} |`
+        );
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatReviewerStatsAsTable(reviewers: UserStats[], startDate: string, endDate: string): void {
   const divider = "═".repeat(100);
   const thinDivider = "─".repeat(100);
 
-  const calcChange = (p1: number, p2: number) => {
-    if (p1 === 0) return p2 === 0 ? "0%" : "+100%";
-    const pct = Math.round(((p2 - p1) / p1) * 100);
-    return pct >= 0 ? `+${pct}%` : `${pct}%`;
+  console.log("\n" + divider);
+  console.log("                         CODE REVIEW ACTIVITY REPORT");
+  console.log(divider);
+  console.log(`  Date Range: ${startDate} to ${endDate}`);
+  console.log(`  Total Reviewers: ${reviewers.length}`);
+  console.log(divider + "\n");
+
+  console.log(
+    "  " +
+      padRight("Reviewer", 25) +
+      padRight("Reviews", 10) +
+      padRight("Approvals", 12) +
+      padRight("Changes Req.", 14) +
+      padRight("Comments", 11) +
+      padRight("Turnaround", 13) +
+      padRight("Repos", 8)
+  );
+  console.log("  " + thinDivider);
+
+  const sortedReviewers = reviewers.sort((a, b) => b.reviews - a.reviews);
+  for (const reviewer of sortedReviewers) {
+    const name = reviewer.username.length > 23 ? reviewer.username.substring(0, 20) + "..." : reviewer.username;
+    console.log(
+      "  " +
+        padRight(name, 25) +
+        padRight(formatNumber(reviewer.reviews), 10) +
+        padRight(formatNumber(reviewer.approvals), 12) +
+        padRight(formatNumber(reviewer.changesRequested), 14) +
+        padRight(formatNumber(reviewer.reviewComments), 11) +
+        padRight(formatDuration(reviewer.medianReviewTurnaroundHours), 13) +
+        padRight(reviewedRepos(reviewer).length.toString(), 8)
+    );
+  }
+
+  console.log("\n" + divider + "\n");
+}
+
+// Time series formatters (--interval)
+function periodLabel(period: PeriodStats): string {
+  return period.start === period.end ? period.start : `${period.start} to ${period.end}`;
+}
+
+// The per-period contributor lists are only needed to union contributors across repos
+function withoutContributorsList({ contributorsList: _, ...period }: PeriodStats): Omit<PeriodStats, "contributorsList"> {
+  return period;
+}
+
+export function formatTimeSeriesAsJson(
+  series: TimeSeriesStats,
+  startDate: string,
+  endDate: string,
+  options: OutputOptions
+): string {
+  const formatPeriod = (period: PeriodStats) => {
+    const output = withoutContributorsList(period);
+    return options.skipLineStats ? { ...output, linesAdded: null, linesDeleted: null } : output;
   };
 
-  const p1 = comparison.period1.totals;
-  const p2 = comparison.period2.totals;
+  return JSON.stringify(
+    {
+      metadata: {
+        dateRange: { startDate, endDate },
+        interval: series.interval,
+        generatedAt: new Date().toISOString(),
+        periodCount: series.totals.length,
+        repositoryCount: series.repos.length,
+      },
+      totals: series.totals.map(formatPeriod),
+      repositories: series.repos.map((repo) => ({
+        name: repo.name,
+        isArchived: repo.isArchived,
+        periods: repo.periods.map(formatPeriod),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+export function formatTimeSeriesAsCsv(series: TimeSeriesStats, options: OutputOptions): string {
+  const headers = [
+    "Repository",
+    "Period Start",
+    "Period End",
+    "Commits",
+    ...(options.skipLineStats ? [] : ["Lines Added", "Lines Deleted"]),
+    "Pull Requests",
+    "PRs Merged",
+    "Releases",
+    "Contributors",
+  ];
+  const rows = [headers.join(",")];
+
+  const addRows = (name: string, periods: PeriodStats[]) => {
+    for (const period of periods) {
+      rows.push(
+        [
+          escapeCsvField(name),
+          period.start,
+          period.end,
+          period.commits,
+          ...(options.skipLineStats ? [] : [period.linesAdded, period.linesDeleted]),
+          period.pullRequests,
+          period.pullRequestsMerged,
+          period.releases,
+          period.contributors,
+        ].join(",")
+      );
+    }
+  };
+
+  addRows("TOTALS", series.totals);
+  for (const repo of series.repos) {
+    addRows(repo.name, repo.periods);
+  }
+
+  return rows.join("\n");
+}
+
+export function formatTimeSeriesAsMarkdown(
+  series: TimeSeriesStats,
+  startDate: string,
+  endDate: string,
+  options: OutputOptions
+): string {
+  const lines: string[] = [];
+
+  const pushTable = (periods: PeriodStats[]) => {
+    const headerCols = [
+      "Period",
+      "Commits",
+      ...(options.skipLineStats ? [] : ["Lines +", "Lines -"]),
+      "PRs",
+      "Merged",
+      "Releases",
+      "Contributors",
+    ];
+    lines.push(`| ${headerCols.join(" | ")} |`);
+    lines.push(`|${headerCols.map(() => "---").join("|")}|`);
+    for (const period of periods) {
+      const cols = [
+        periodLabel(period),
+        formatNumber(period.commits),
+        ...(options.skipLineStats ? [] : [formatNumber(period.linesAdded), formatNumber(period.linesDeleted)]),
+        formatNumber(period.pullRequests),
+        formatNumber(period.pullRequestsMerged),
+        formatNumber(period.releases),
+        formatNumber(period.contributors),
+      ];
+      lines.push(`| ${cols.join(" | ")} |`);
+    }
+  };
+
+  lines.push("# Activity Time Series");
+  lines.push("");
+  lines.push(`**Date Range:** ${startDate} to ${endDate}`);
+  lines.push(`**Interval:** ${series.interval}`);
+  lines.push(`**Repositories:** ${series.repos.length}`);
+  lines.push("");
+  lines.push("## Totals");
+  lines.push("");
+  pushTable(series.totals);
+
+  // Repos without any activity in the range would only add tables of zeros
+  const activeRepos = series.repos.filter((repo) =>
+    repo.periods.some((period) => period.commits > 0 || period.pullRequests > 0 || period.releases > 0)
+  );
+  if (activeRepos.length > 0) {
+    lines.push("");
+    lines.push("## Per-Repository Breakdown");
+
+    for (const repo of activeRepos) {
+      lines.push("");
+      lines.push(`### ${repo.isArchived ? `${repo.name} *(archived)*` : repo.name}`);
+      lines.push("");
+      pushTable(repo.periods);
+    }
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+export function formatTimeSeriesAsTable(
+  series: TimeSeriesStats,
+  startDate: string,
+  endDate: string,
+  options: OutputOptions
+): void {
+  const divider = "═".repeat(100);
+  const thinDivider = "─".repeat(100);
 
   console.log("\n" + divider);
-  console.log("                            PERIOD COMPARISON REPORT");
+  console.log("                              ACTIVITY TIME SERIES");
   console.log(divider);
-  console.log(`  Period 1: ${comparison.period1Range.start} to ${comparison.period1Range.end}`);
-  console.log(`  Period 2: ${comparison.period2Range.start} to ${comparison.period2Range.end}`);
+  console.log(`  Date Range: ${startDate} to ${endDate}`);
+  console.log(`  Interval: ${series.interval}`);
+  console.log(`  Repositories Analyzed: ${series.repos.length}`);
   console.log(divider + "\n");
 
   console.log(
     "  " +
-      padRight("Metric", 20) +
-      padRight("Period 1", 15) +
-      padRight("Period 2", 15) +
-      padRight("Change", 15) +
-      padRight("% Change", 12)
+      padRight("Period", 28) +
+      padRight("Commits", 10) +
+      (options.skipLineStats ? "" : padRight("Lines +", 12) + padRight("Lines -", 12)) +
+      padRight("PRs", 8) +
+      padRight("Merged", 8) +
+      padRight("Releases", 10) +
+      padRight("Contrib", 8)
   );
   console.log("  " + thinDivider);
 
-  const metrics = [
-    { name: "Commits", v1: p1.commits, v2: p2.commits },
-    { name: "Lines Added", v1: p1.linesAdded, v2: p2.linesAdded },
-    { name: "Lines Deleted", v1: p1.linesDeleted, v2: p2.linesDeleted },
-    { name: "Pull Requests", v1: p1.pullRequests, v2: p2.pullRequests },
-    { name: "Contributors", v1: p1.contributors, v2: p2.contributors },
-    { name: "Releases", v1: p1.releases, v2: p2.releases },
+  for (const period of series.totals) {
+    console.log(
+      "  " +
+        padRight(periodLabel(period), 28) +
+        padRight(formatNumber(period.commits), 10) +
+        (options.skipLineStats
+          ? ""
+          : padRight(formatNumber(period.linesAdded), 12) + padRight(formatNumber(period.linesDeleted), 12)) +
+        padRight(formatNumber(period.pullRequests), 8) +
+        padRight(formatNumber(period.pullRequestsMerged), 8) +
+        padRight(formatNumber(period.releases), 10) +
+        padRight(formatNumber(period.contributors), 8)
+    );
+  }
+
+  console.log("\n" + divider + "\n");
+}
+
+// Comparison formatters
+
+// Per-repository metrics shown in the markdown and table comparisons; JSON and CSV have them all
+const REPO_COMPARISON_METRICS = ["commits", "pullRequests", "contributors"];
+
+function comparisonValue(metric: CompareMetric, stats: MetricSource | null): number {
+  return stats ? metric.value(stats) : 0;
+}
+
+// "300" for the first period, "300 (+50, +20%)" for the following ones
+function formatComparisonCell(
+  metric: CompareMetric,
+  before: MetricSource | null,
+  after: MetricSource | null,
+  index: number
+): string {
+  const value = formatNumber(comparisonValue(metric, after));
+  if (index === 0) return value;
+  const change = calcChange(comparisonValue(metric, before), comparisonValue(metric, after));
+  const sign = change.absolute >= 0 ? "+" : "";
+  return `${value} (${sign}${formatNumber(change.absolute)}, ${sign}${change.percentage}%)`;
+}
+
+function repoChanges(comparison: ComparisonStats, index: number): { appeared: string[]; disappeared: string[] } {
+  const withStatus = (status: string) =>
+    comparison.repos.filter((repo) => repoStatus(repo, index) === status).map((repo) => repo.name);
+  return { appeared: withStatus("appeared"), disappeared: withStatus("disappeared") };
+}
+
+export function formatComparisonAsJson(comparison: ComparisonStats, options: OutputOptions): string {
+  const metrics = compareMetrics(options);
+  const durations = compareDurations(options);
+
+  const values = (stats: MetricSource | null) =>
+    Object.fromEntries(metrics.map((metric) => [metric.key, comparisonValue(metric, stats)]));
+  const changes = (before: MetricSource | null, after: MetricSource | null) =>
+    Object.fromEntries(
+      metrics.map((metric) => [metric.key, calcChange(comparisonValue(metric, before), comparisonValue(metric, after))])
+    );
+
+  return JSON.stringify(
+    {
+      periods: comparison.periods.map((period, i) => ({
+        label: period.label,
+        range: { start: period.start, end: period.end },
+        totals: period.stats.totals,
+        changes: i === 0 ? null : changes(comparison.periods[i - 1].stats.totals, period.stats.totals),
+        ...(i === 0 ? {} : repoChanges(comparison, i)),
+      })),
+      durations: Object.fromEntries(
+        durations.map((duration) => [
+          duration.key,
+          comparison.periods.map((period) => roundHours(duration.value(period.stats.totals))),
+        ])
+      ),
+      repos: comparison.repos.map((repo) => ({
+        name: repo.name,
+        isArchived: repo.isArchived,
+        periods: repo.periods.map((stats, i) => ({
+          label: comparison.periods[i].label,
+          status: repoStatus(repo, i),
+          metrics: stats ? values(stats) : null,
+          changes: i === 0 ? null : changes(repo.periods[i - 1], stats),
+        })),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+export function formatComparisonAsCsv(comparison: ComparisonStats, options: OutputOptions): string {
+  const metrics = compareMetrics(options);
+  const durations = compareDurations(options);
+
+  const headers = [
+    "Repository",
+    "Period",
+    "Period Start",
+    "Period End",
+    "Status",
+    ...metrics.flatMap((metric) => [metric.label, `${metric.label} Change`]),
+    ...durations.map((duration) => `${duration.label} (hours)`),
   ];
+  const rows = [headers.map(escapeCsvField).join(",")];
+
+  const addRow = (name: string, index: number, before: MetricSource | null, after: MetricSource | null, status: string) => {
+    const period = comparison.periods[index];
+    rows.push(
+      [
+        escapeCsvField(name),
+        escapeCsvField(period.label),
+        period.start,
+        period.end,
+        status,
+        ...metrics.flatMap((metric) => [
+          comparisonValue(metric, after).toString(),
+          index === 0 ? "" : (comparisonValue(metric, after) - comparisonValue(metric, before)).toString(),
+        ]),
+        ...durations.map((duration) => formatCsvHours(after ? duration.value(after) : null)),
+      ].join(",")
+    );
+  };
+
+  comparison.periods.forEach((period, i) => {
+    addRow("TOTALS", i, i === 0 ? null : comparison.periods[i - 1].stats.totals, period.stats.totals, "");
+  });
+  for (const repo of comparison.repos) {
+    repo.periods.forEach((stats, i) => {
+      addRow(repo.name, i, i === 0 ? null : repo.periods[i - 1], stats, repoStatus(repo, i) ?? "");
+    });
+  }
+
+  return rows.join("\n");
+}
+
+export function formatComparisonAsMarkdown(comparison: ComparisonStats, options: OutputOptions): string {
+  const metrics = compareMetrics(options);
+  const durations = compareDurations(options);
+  const labels = comparison.periods.map((period) => period.label);
+  const lines: string[] = [];
 
-  for (const m of metrics) {
-    const change = m.v2 - m.v1;
-    const changeStr = change >= 0 ? `+${formatNumber(change)}` : formatNumber(change);
+  const pushHeader = (first: string) => {
+    lines.push(`| ${[first, ...labels].join(" | ")} |`);
+    lines.push(`|${[first, ...labels].map(() => "---").join("|")}|`);
+  };
+
+  lines.push("# Period Comparison Report");
+  lines.push("");
+  lines.push("| Period | Start | End |");
+  lines.push("|---|---|---|");
+  for (const period of comparison.periods) {
+    lines.push(`| ${period.label} | ${period.start} | ${period.end} |`);
+  }
+  lines.push("");
+  lines.push("## Totals");
+  lines.push("");
+  pushHeader("Metric");
+  for (const metric of metrics) {
+    const cells = comparison.periods.map((period, i) =>
+      formatComparisonCell(metric, i === 0 ? null : comparison.periods[i - 1].stats.totals, period.stats.totals, i)
+    );
+    lines.push(`| ${[metric.label, ...cells].join(" | ")} |`);
+  }
+  for (const duration of durations) {
+    const cells = comparison.periods.map((period) => formatDuration(duration.value(period.stats.totals)));
+    lines.push(`| ${[duration.label, ...cells].join(" | ")} |`);
+  }
+
+  for (const metric of metrics.filter((m) => REPO_COMPARISON_METRICS.includes(m.key))) {
+    lines.push("");
+    lines.push(`## ${metric.label} by Repository`);
+    lines.push("");
+    pushHeader("Repository");
+    for (const repo of comparison.repos) {
+      const name = repo.isArchived ? `${repo.name} *(archived)*` : repo.name;
+      const cells = repo.periods.map((stats, i) =>
+        formatComparisonCell(metric, i === 0 ? null : repo.periods[i - 1], stats, i)
+      );
+      lines.push(`| ${[name, ...cells].join(" | ")} |`);
+    }
+  }
+
+  const changedPeriods = comparison.periods
+    .map((period, i) => ({ period, ...repoChanges(comparison, i) }))
+    .filter((change, i) => i > 0 && (change.appeared.length > 0 || change.disappeared.length > 0));
+  if (changedPeriods.length > 0) {
+    lines.push("");
+    lines.push("## Repository Changes");
+    lines.push("");
+    lines.push("| Period | Appeared | Disappeared |");
+    lines.push("|---|---|---|");
+    for (const change of changedPeriods) {
+      lines.push(`| ${change.period.label} | ${change.appeared.join(", ") || "-"} | ${change.disappeared.join(", ") || "-"} |`);
+    }
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+export function formatComparisonAsTable(comparison: ComparisonStats, options: OutputOptions): void {
+  const metrics = compareMetrics(options);
+  const durations = compareDurations(options);
+  const columnWidth = 24;
+  const width = 22 + columnWidth * comparison.periods.length;
+  const divider = "═".repeat(Math.max(width, 100));
+  const thinDivider = "─".repeat(Math.max(width, 100));
+
+  const printHeader = (first: string) => {
     console.log(
-      "  " +
-        padRight(m.name, 20) +
-        padRight(formatNumber(m.v1), 15) +
-        padRight(formatNumber(m.v2), 15) +
-        padRight(changeStr, 15) +
-        padRight(calcChange(m.v1, m.v2), 12)
+      "  " + padRight(first, 22) + comparison.periods.map((period) => padRight(period.label, columnWidth)).join("")
+    );
+    console.log("  " + thinDivider);
+  };
+
+  console.log("\n" + divider);
+  console.log("                            PERIOD COMPARISON REPORT");
+  console.log(divider);
+  for (const period of comparison.periods) {
+    console.log(`  ${period.label}: ${period.start} to ${period.end}`);
+  }
+  console.log(divider + "\n");
+
+  printHeader("Metric");
+  for (const metric of metrics) {
+    const cells = comparison.periods.map((period, i) =>
+      formatComparisonCell(metric, i === 0 ? null : comparison.periods[i - 1].stats.totals, period.stats.totals, i)
     );
+    console.log("  " + padRight(metric.label, 22) + cells.map((cell) => padRight(cell, columnWidth)).join(""));
   }
+  for (const duration of durations) {
+    const cells = comparison.periods.map((period) => formatDuration(duration.value(period.stats.totals)));
+    console.log("  " + padRight(duration.label, 22) + cells.map((cell) => padRight(cell, columnWidth)).join(""));
+  }
+
+  for (const metric of metrics.filter((m) => REPO_COMPARISON_METRICS.includes(m.key))) {
+    console.log("\n  " + metric.label.toUpperCase() + " BY REPOSITORY\n");
+    printHeader("Repository");
+    for (const repo of comparison.repos) {
+      const name = repo.isArchived ? `${repo.name} (archived)` : repo.name;
+      const cells = repo.periods.map((stats, i) =>
+        formatComparisonCell(metric, i === 0 ? null : repo.periods[i - 1], stats, i)
+      );
+      console.log("  " + padRight(name, 22) + cells.map((cell) => padRight(cell, columnWidth)).join(""));
+    }
+  }
+
+  comparison.periods.forEach((period, i) => {
+    if (i === 0) return;
+    const { appeared, disappeared } = repoChanges(comparison, i);
+    if (appeared.length > 0) console.log(`\n  Appeared in ${period.label}: ${appeared.join(", ")}`);
+    if (disappeared.length > 0) console.log(`\n  Disappeared in ${period.label}: ${disappeared.join(", ")}`);
+  });
 
   console.log("\n" + divider + "\n");
 }
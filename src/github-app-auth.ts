@@ -0,0 +1,151 @@
+// GitHub App authentication: signs a JWT with the app's private key, exchanges it for an
+// installation access token per owner, and refreshes each token before its one-hour expiry.
+
+import { createSign } from "crypto";
+import { readFileSync } from "fs";
+import type { GitHubAppConfig, OwnerConfig } from "./types.js";
+
+// GitHub rejects app JWTs that expire more than ten minutes out
+const JWT_LIFETIME_SECONDS = 9 * 60;
+// Backdate the JWT so a server clock slightly behind ours still accepts it
+const JWT_CLOCK_DRIFT_SECONDS = 60;
+// Installation tokens last an hour; replace them well before a slow request could outlive one
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface InstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+export interface GitHubAppAuthOptions {
+  baseUrl: string;
+  owners: OwnerConfig[];
+  // Overridable so the token exchange can be tested offline
+  fetch?: typeof fetch;
+  now?: () => number;
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+export class GitHubAppAuth {
+  private appId: string;
+  private privateKey: string;
+  private baseUrl: string;
+  private owners: OwnerConfig[];
+  private fetch: typeof fetch;
+  private now: () => number;
+  private tokens = new Map<string, Promise<InstallationToken>>();
+  // Installation of each token handed out, so cached responses can be kept per installation
+  private installations = new Map<string, number>();
+
+  constructor(config: GitHubAppConfig, options: GitHubAppAuthOptions) {
+    this.appId = String(config.appId);
+    this.privateKey = config.privateKey ?? readFileSync(config.privateKeyPath!, "utf-8");
+    this.baseUrl = options.baseUrl.replace(/\/$/, "");
+    this.owners = options.owners;
+    this.fetch = options.fetch ?? globalThis.fetch;
+    this.now = options.now ?? Date.now;
+  }
+
+  // A short-lived RS256 JWT identifying the app itself, used only for the token exchange
+  createJwt(): string {
+    const issuedAt = Math.floor(this.now() / 1000) - JWT_CLOCK_DRIFT_SECONDS;
+    const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+    const payload = base64url(
+      JSON.stringify({ iat: issuedAt, exp: issuedAt + JWT_CLOCK_DRIFT_SECONDS + JWT_LIFETIME_SECONDS, iss: this.appId })
+    );
+    const signature = createSign("RSA-SHA256").update(`${header}.${payload}`).sign(this.privateKey);
+    return `${header}.${payload}.${base64url(signature)}`;
+  }
+
+  // The installation token for an owner (the first configured one by default), reused until it
+  // is close to expiring. Concurrent requests share one exchange, and a failed one is retried.
+  async getToken(owner: string = this.owners[0]?.name ?? ""): Promise<string> {
+    const key = owner.toLowerCase();
+    const cached = this.tokens.get(key);
+    if (cached) {
+      const current = await cached;
+      if (current.expiresAt - this.now() > TOKEN_REFRESH_MARGIN_MS) {
+        return current.token;
+      }
+      // Another request may already have started the refresh
+      if (this.tokens.get(key) !== cached) {
+        return this.getToken(owner);
+      }
+    }
+
+    const promise = this.exchangeToken(owner);
+    this.tokens.set(key, promise);
+    promise.catch(() => {
+      if (this.tokens.get(key) === promise) this.tokens.delete(key);
+    });
+    return (await promise).token;
+  }
+
+  // The installation a token was created for, if this app created it
+  installationFor(token: string): number | undefined {
+    return this.installations.get(token);
+  }
+
+  private async exchangeToken(owner: string): Promise<InstallationToken> {
+    const type = this.owners.find((o) => o.name.toLowerCase() === owner.toLowerCase())?.type ?? "org";
+    const installation = await this.request<{ id: number }>(
+      "GET",
+      type === "user" ? `/users/${owner}/installation` : `/orgs/${owner}/installation`,
+      `look up the app installation for ${owner}`
+    );
+    const response = await this.request<{ token: string; expires_at: string }>(
+      "POST",
+      `/app/installations/${installation.id}/access_tokens`,
+      `create an installation token for ${owner}`
+    );
+    this.installations.set(response.token, installation.id);
+    return { token: response.token, expiresAt: new Date(response.expires_at).getTime() };
+  }
+
+  private async request<T>(method: string, path: string, action: string): Promise<T> {
+    const response = await this.fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        accept: "application/vnd.github+json",
+        authorization: `Bearer ${this.createJwt()}`,
+        "user-agent": "github-activity-metric-extractor",
+      },
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      const hint = response.status === 404 ? " (is the GitHub App installed there?)" : "";
+      throw new Error(`Failed to ${action}: HTTP ${response.status}${hint} ${body}`.trim());
+    }
+    return (await response.json()) as T;
+  }
+}
+
+type RequestParameters = Record<string, unknown> & { variables?: Record<string, unknown> };
+
+interface EndpointRequest {
+  (options: RequestParameters): Promise<unknown>;
+  endpoint: { merge: (route: unknown, parameters?: unknown) => RequestParameters & { headers: Record<string, string> } };
+}
+
+// The account a request acts on: REST routes name it as owner, org or username, and the
+// GraphQL queries pass it as the owner variable. Anything else uses the default token.
+function requestOwner(endpoint: RequestParameters): string | undefined {
+  const owner = endpoint.owner ?? endpoint.org ?? endpoint.username ?? endpoint.variables?.owner;
+  return typeof owner === "string" && owner ? owner : undefined;
+}
+
+// An Octokit authStrategy that sends each request with the installation token of the owner it targets
+export function createAppAuthStrategy(auth: GitHubAppAuth) {
+  return () => ({
+    hook: async (request: EndpointRequest, route: unknown, parameters?: unknown) => {
+      const endpoint = request.endpoint.merge(route, parameters);
+      const token = await auth.getToken(requestOwner(endpoint));
+      endpoint.headers.authorization = `token ${token}`;
+      return request(endpoint);
+    },
+  });
+}
@@ -1,9 +1,48 @@
 import { Octokit } from "@octokit/rest";
-import type { Config, RepoInfo, RepoStats } from "./types.js";
+import {
+  GraphQLCollector,
+  releaseDate,
+  type GraphQLRepoActivity,
+  type GraphQLRequest,
+} from "./graphql-backend.js";
+import { createAppAuthStrategy, GitHubAppAuth } from "./github-app-auth.js";
+import { ResponseCache, type CacheStats } from "./http-cache.js";
+import { HISTORY_VERSION, statsFromHistory, type HistoryStore } from "./history-store.js";
+import { IdentityResolver } from "./identity.js";
+import { fullRepoName, isRepoIncluded, resolveOwners } from "./owners.js";
+import { RequestLimiter } from "./request-limiter.js";
+import { median, percentile, hoursBetween } from "./statistics.js";
+import { createTokenAuthStrategy, resolveTokens, TokenPool, type TokenUsage } from "./tokens.js";
+import { createBuckets, emptyPeriod, findBucket } from "./timeseries.js";
+import type {
+  CommitRecord,
+  Config,
+  ContributorActivity,
+  Interval,
+  IssueRecord,
+  LineStats,
+  OwnerConfig,
+  PeriodStats,
+  ProgressEvent,
+  ProgressListener,
+  PullRequestRecord,
+  RepoHistory,
+  RepoInfo,
+  RepoStats,
+  ReviewerActivity,
+  ReviewRecord,
+} from "./types.js";
 
 const GITHUB_STANDARD_API_URL = "https://api.github.com";
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY_MS = 1000;
+// Below this many remaining requests, switch tokens or wait for the rate limit to reset
+const RATE_LIMIT_LOW = 100;
+const GRAPHQL_BATCH_SIZE = 10;
+// Incremental syncs re-read a few days before the last one, to catch activity GitHub listed late
+const HISTORY_SYNC_OVERLAP_MS = 3 * 24 * 60 * 60 * 1000;
+// GitHub's compare API returns at most this many files; anything beyond is silently dropped
+const COMPARE_FILE_LIMIT = 300;
 
 function getApiBaseUrl(config: Config): string {
   if (config.github.isEnterprise) {
@@ -55,35 +94,119 @@ export class GitHubApiError extends Error {
   }
 }
 
-export type ProgressCallback = (repoName: string, task: string) => void;
-
 export class GitHubClient {
   private octokit: Octokit;
   private config: Config;
+  private owners: OwnerConfig[];
   private repoBranchCache: Map<string, string> = new Map();
-  private onProgress: ProgressCallback | null = null;
+  private onProgress: ProgressListener | null = null;
+  private collectUserStats: boolean = false;
+  private collectReviewerStats: boolean = false;
+  private timeSeriesInterval: Interval | null = null;
   private rateLimitRemaining: number = 5000;
   private rateLimitReset: number = 0;
+  private tokenPool: TokenPool | null = null;
+  private responseCache: ResponseCache | null = null;
+  private historyStore: HistoryStore | null = null;
+  private requestLimiter: RequestLimiter;
+  private identities: IdentityResolver;
+  private graphqlActivity: Map<string, GraphQLRepoActivity> = new Map();
+  private commitHarvests: Map<string, Promise<CommitRecord[]>> = new Map();
+  private commitStats: Map<string, Promise<{ additions: number; deletions: number }>> = new Map();
+  private pullRequestHarvests: Map<string, Promise<PullRequestRecord[]>> = new Map();
+  private reviewCache: Map<string, Promise<ReviewRecord[]>> = new Map();
+  private reviewCommentCache: Map<string, Promise<Map<string, number>>> = new Map();
+  private releaseHarvests: Map<string, Promise<string[]>> = new Map();
 
   constructor(config: Config) {
     this.config = config;
+    this.owners = resolveOwners(config);
+    this.identities = new IdentityResolver(config.options.identity);
+
+    const baseUrl = getApiBaseUrl(config);
+    // A GitHub App authenticates each request with the installation token of the owner it targets;
+    // otherwise requests go out with whichever personal access token has rate limit left
+    let authStrategy;
+    let appAuth: GitHubAppAuth | null = null;
+    if (config.github.app) {
+      appAuth = new GitHubAppAuth(config.github.app, { baseUrl, owners: this.owners });
+      authStrategy = createAppAuthStrategy(appAuth);
+    } else {
+      this.tokenPool = new TokenPool(resolveTokens(config.github));
+      authStrategy = createTokenAuthStrategy(this.tokenPool);
+    }
+
+    // Persist responses across runs unless disabled (--no-cache). Entries are kept per token, or
+    // per installation for a GitHub App, whose tokens change every hour.
+    if (config.options.cache?.enabled !== false) {
+      this.responseCache = new ResponseCache(config.options.cache, (authorization) => {
+        const installation = appAuth?.installationFor(authorization.replace(/^token /, ""));
+        return installation !== undefined ? `installation:${installation}` : authorization;
+      });
+      this.responseCache.prune();
+    }
+
+    // Every request that reaches GitHub takes an in-flight slot until its body has been read, including
+    // conditional revalidations of cached entries; only cache hits within their TTL skip the limiter
+    this.requestLimiter = new RequestLimiter(config.options.maxConcurrentRequests);
+    const limitedFetch = this.requestLimiter.wrapFetch();
+
     this.octokit = new Octokit({
-      auth: config.github.token,
-      baseUrl: getApiBaseUrl(config),
+      authStrategy,
+      baseUrl,
       request: {
         timeout: 30000, // 30 second timeout
+        fetch: this.responseCache?.createFetch(limitedFetch) ?? limitedFetch,
       },
     });
   }
 
-  setProgressCallback(callback: ProgressCallback): void {
-    this.onProgress = callback;
+  // Receives status updates, fetched pages, retries and rate limit waits
+  setProgressListener(listener: ProgressListener | null): void {
+    this.onProgress = listener;
   }
 
-  private reportProgress(repoName: string, task: string): void {
-    if (this.onProgress) {
-      this.onProgress(repoName, task);
+  // Per-author breakdowns cost an extra API call per commit, so they are only gathered on request
+  setCollectUserStats(enabled: boolean): void {
+    this.collectUserStats = enabled;
+  }
+
+  // Per-reviewer breakdowns need the reviews (and review comments) of every PR touched in range
+  setCollectReviewerStats(enabled: boolean): void {
+    this.collectReviewerStats = enabled;
+  }
+
+  // Sync each repo into the history store and compute its stats from there (--incremental)
+  setHistoryStore(store: HistoryStore | null): void {
+    this.historyStore = store;
+  }
+
+  // Bucket activity into periods of the given length (--interval); null turns it off
+  setTimeSeriesInterval(interval: Interval | null): void {
+    this.timeSeriesInterval = interval;
+  }
+
+  // Contributors are keyed by their resolved identity: a login, an unlinked commit email, or
+  // a canonical name from the aliases and mailmap. Excluded bots resolve to null.
+  private commitAuthor(commit: CommitRecord): string | null {
+    return this.identities.resolveCommitAuthor(commit.authorLogin, commit.authorEmail);
+  }
+
+  // Repos are identified by their full "owner/name"; a bare name belongs to the first owner
+  private repoParams(repoName: string): { owner: string; repo: string } {
+    const slash = repoName.indexOf("/");
+    if (slash === -1) {
+      return { owner: this.owners[0].name, repo: repoName };
     }
+    return { owner: repoName.slice(0, slash), repo: repoName.slice(slash + 1) };
+  }
+
+  private emit(event: ProgressEvent): void {
+    this.onProgress?.(event);
+  }
+
+  private reportProgress(repoName: string, task: string): void {
+    this.emit({ type: "repo-status", repo: repoName, status: task });
   }
 
   // Check and update rate limit from response headers
@@ -96,13 +219,21 @@ export class GitHubClient {
     }
   }
 
-  // Wait if we're running low on rate limit
+  // Switch tokens, or wait if every token is running low on rate limit
   private async checkRateLimit(repoName: string): Promise<void> {
-    if (this.rateLimitRemaining < 100) {
+    if (this.tokenPool) {
+      const switched = this.tokenPool.rotate(RATE_LIMIT_LOW);
+      if (switched) {
+        this.reportProgress(repoName, `rate limit low, switching to ${switched}`);
+      }
+      ({ remaining: this.rateLimitRemaining, reset: this.rateLimitReset } = this.tokenPool.currentBudget());
+    }
+
+    if (this.rateLimitRemaining < RATE_LIMIT_LOW) {
       const now = Math.floor(Date.now() / 1000);
       const waitSeconds = Math.max(0, this.rateLimitReset - now) + 5;
       if (waitSeconds > 0 && waitSeconds < 3600) {
-        this.reportProgress(repoName, `rate limit low (${this.rateLimitRemaining} remaining), waiting ${waitSeconds}s...`);
+        this.emit({ type: "rate-limit-wait", repo: repoName, remaining: this.rateLimitRemaining, waitSeconds });
         await sleep(waitSeconds * 1000);
       }
     }
@@ -112,14 +243,32 @@ export class GitHubClient {
     return this.rateLimitRemaining;
   }
 
+  // Requests and remaining budget per personal access token; empty for a GitHub App
+  getTokenUsage(): TokenUsage[] {
+    return this.tokenPool?.getUsage() ?? [];
+  }
+
   clearBranchCache(): void {
     this.repoBranchCache.clear();
+    this.commitHarvests.clear();
+    this.commitStats.clear();
+    this.pullRequestHarvests.clear();
+    this.reviewCache.clear();
+    this.reviewCommentCache.clear();
+    this.releaseHarvests.clear();
   }
 
+  // Returns null when the response cache is disabled
+  getCacheStats(): CacheStats | null {
+    return this.responseCache?.getStats() ?? null;
+  }
+
+  // Page numbers of paginated listings are passed along to the page-fetched event
   private async withRetry<T>(
     operation: () => Promise<T>,
     repoName: string,
-    operationName: string
+    operationName: string,
+    page?: number
   ): Promise<T> {
     let lastError: unknown;
 
@@ -132,6 +281,14 @@ export class GitHubClient {
         if (result && typeof result === "object" && "headers" in result) {
           this.updateRateLimit((result as { headers: Record<string, string> }).headers);
         }
+        const data = result && typeof result === "object" && "data" in result ? result.data : undefined;
+        this.emit({
+          type: "page-fetched",
+          repo: repoName,
+          operation: operationName,
+          page,
+          items: Array.isArray(data) ? data.length : undefined,
+        });
         return result;
       } catch (error) {
         lastError = error;
@@ -147,14 +304,24 @@ export class GitHubClient {
         // Check if it's a rate limit error (403 with rate limit message)
         let delayMs = INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
         if (error instanceof Error && "status" in error && (error as { status: number }).status === 403) {
-          // Rate limited - wait longer
-          delayMs = Math.max(delayMs, 60000); // At least 60 seconds
+          // Rate limited - retry with another token if one has budget left, otherwise wait longer
+          const switched = this.tokenPool?.rotate(RATE_LIMIT_LOW);
+          if (switched) {
+            this.reportProgress(repoName, `rate limited, switching to ${switched}`);
+          } else {
+            delayMs = Math.max(delayMs, 60000); // At least 60 seconds
+          }
         }
 
-        this.reportProgress(
-          repoName,
-          `${operationName} failed, retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt}/${MAX_RETRIES})...`
-        );
+        this.emit({
+          type: "retry",
+          repo: repoName,
+          operation: operationName,
+          attempt,
+          maxAttempts: MAX_RETRIES,
+          delaySeconds: Math.round(delayMs / 1000),
+          error: error instanceof Error ? error.message : String(error),
+        });
         await sleep(delayMs);
       }
     }
@@ -175,8 +342,7 @@ export class GitHubClient {
     const response = await this.withRetry(
       () =>
         this.octokit.repos.get({
-          owner: this.config.github.organization,
-          repo: repoName,
+          ...this.repoParams(repoName),
         }),
       repoName,
       "fetching default branch"
@@ -193,37 +359,104 @@ export class GitHubClient {
     return this.config.options.pageSize || 100;
   }
 
-  async getOrgRepos(): Promise<RepoInfo[]> {
+  // In GraphQL mode, collect commit history, PRs and releases for all repos up front in
+  // batched queries. Repos whose batch fails are left to the REST paths of each metric.
+  async prefetchRepoData(repos: RepoInfo[]): Promise<void> {
+    this.graphqlActivity.clear();
+    // Incremental syncs only fetch what is new, which the range-wide GraphQL queries can't
+    if (this.config.options.apiMode !== "graphql" || this.historyStore) return;
+
+    // Batches are per owner, since each query addresses repositories by owner
+    for (const owner of this.owners) {
+      const ownerRepos = repos.filter((repo) => repo.owner === owner.name);
+      if (ownerRepos.length > 0) {
+        await this.prefetchOwnerRepoData(owner.name, ownerRepos);
+      }
+    }
+  }
+
+  private async prefetchOwnerRepoData(owner: string, repos: RepoInfo[]): Promise<void> {
+    const { startDate, endDate } = this.config.dateRange;
+    const request: GraphQLRequest = <T>(query: string, variables: Record<string, unknown>) =>
+      this.withRetry(() => this.octokit.graphql<T>(query, variables), owner, "GraphQL query");
+    const collector = new GraphQLCollector(
+      request,
+      owner,
+      { since: new Date(startDate), until: new Date(endDate + "T23:59:59") },
+      this.pageSize
+    );
+
+    const batchCount = Math.ceil(repos.length / GRAPHQL_BATCH_SIZE);
+    for (let i = 0; i < repos.length; i += GRAPHQL_BATCH_SIZE) {
+      const batch = repos.slice(i, i + GRAPHQL_BATCH_SIZE).map((repo) => repo.name);
+      this.reportProgress(owner, `fetching GraphQL batch ${i / GRAPHQL_BATCH_SIZE + 1}/${batchCount}...`);
+
+      try {
+        const results = await collector.collectBatch(batch);
+        for (const [name, activity] of results) {
+          // Repos GraphQL can't see are left to the REST path, which reports them as empty
+          if (!activity) continue;
+          const repoName = fullRepoName({ owner, name });
+          this.graphqlActivity.set(repoName, activity);
+          if (activity.defaultBranch) {
+            this.repoBranchCache.set(repoName, activity.defaultBranch);
+            const key = this.harvestKey(repoName, activity.defaultBranch);
+            const branchPullRequests = activity.pullRequests.filter((pr) => pr.baseRefName === activity.defaultBranch);
+            this.commitHarvests.set(key, Promise.resolve(activity.commits));
+            this.pullRequestHarvests.set(key, Promise.resolve(branchPullRequests));
+          }
+        }
+      } catch {
+        // Leave the whole batch to the REST path
+        this.reportProgress(owner, "GraphQL failed, using REST");
+      }
+    }
+  }
+
+  // Repositories of every configured owner, in owner order
+  async getRepos(): Promise<RepoInfo[]> {
+    const repos: RepoInfo[] = [];
+    for (const owner of this.owners) {
+      repos.push(...(await this.getOwnerRepos(owner)));
+    }
+    return repos;
+  }
+
+  private async getOwnerRepos(owner: OwnerConfig): Promise<RepoInfo[]> {
     const repos: RepoInfo[] = [];
     let page = 1;
 
     while (true) {
       const response = await this.withRetry(
         () =>
-          this.octokit.repos.listForOrg({
-            org: this.config.github.organization,
-            per_page: this.pageSize,
-            page,
-            type: "all",
-          }),
-        this.config.github.organization,
-        "fetching repositories"
+          owner.type === "user"
+            ? this.octokit.repos.listForUser({
+                username: owner.name,
+                per_page: this.pageSize,
+                page,
+                type: "owner",
+              })
+            : this.octokit.repos.listForOrg({
+                org: owner.name,
+                per_page: this.pageSize,
+                page,
+                type: "all",
+              }),
+        owner.name,
+        "fetching repositories",
+        page
       );
 
       if (response.data.length === 0) break;
 
       for (const repo of response.data) {
-        const repoName = repo.name;
-
-        // Apply include/exclude filters
-        if (this.config.options.includeRepos.length > 0) {
-          if (!this.config.options.includeRepos.includes(repoName)) continue;
-        }
-        if (this.config.options.excludeRepos.includes(repoName)) continue;
+        if (!isRepoIncluded(owner, repo.name, this.config.options)) continue;
 
         repos.push({
-          name: repoName,
+          owner: owner.name,
+          name: repo.name,
           isArchived: repo.archived ?? false,
+          size: repo.size,
         });
       }
 
@@ -234,10 +467,35 @@ export class GitHubClient {
     return repos;
   }
 
-  async getCommitCount(repoName: string, branch?: string): Promise<number> {
+  private harvestKey(repoName: string, branch: string): string {
     const { startDate, endDate } = this.config.dateRange;
+    return `${repoName}@${branch}:${startDate}..${endDate}`;
+  }
+
+  // Walk the branch history in the date range once per repo and period. Every commit-derived
+  // metric reads from this list; concurrent callers share the same in-flight walk.
+  async harvestCommits(repoName: string, branch?: string): Promise<CommitRecord[]> {
     const targetBranch = branch ?? await this.getDefaultBranch(repoName);
-    let count = 0;
+    const key = this.harvestKey(repoName, targetBranch);
+
+    let harvest = this.commitHarvests.get(key);
+    if (!harvest) {
+      harvest = this.fetchCommits(repoName, targetBranch);
+      this.commitHarvests.set(key, harvest);
+      // Don't keep failures around, so a later call can try again
+      harvest.catch(() => this.commitHarvests.delete(key));
+    }
+    return harvest;
+  }
+
+  private async fetchCommits(repoName: string, branch: string): Promise<CommitRecord[]> {
+    const { startDate, endDate } = this.config.dateRange;
+    return this.listCommits(repoName, branch, new Date(startDate), new Date(endDate + "T23:59:59"));
+  }
+
+  // The branch's commits since a date (up to another, if given), newest first
+  private async listCommits(repoName: string, branch: string, since: Date, until?: Date): Promise<CommitRecord[]> {
+    const commits: CommitRecord[] = [];
     let page = 1;
 
     while (true) {
@@ -246,79 +504,141 @@ export class GitHubClient {
         const response = await this.withRetry(
           () =>
             this.octokit.repos.listCommits({
-              owner: this.config.github.organization,
-              repo: repoName,
-              sha: targetBranch,
-              since: new Date(startDate).toISOString(),
-              until: new Date(endDate + "T23:59:59").toISOString(),
+              ...this.repoParams(repoName),
+              sha: branch,
+              since: since.toISOString(),
+              until: until?.toISOString(),
               per_page: this.pageSize,
               page,
             }),
           repoName,
-          "fetching commits"
+          "fetching commits",
+          page
         );
 
-        count += response.data.length;
+        for (const commit of response.data) {
+          commits.push({
+            sha: commit.sha,
+            authorLogin: commit.author?.login ?? null,
+            authorEmail: commit.commit.author?.email ?? null,
+            date: commit.commit.committer?.date ?? commit.commit.author?.date ?? "",
+            parents: (commit.parents ?? []).map((parent) => parent.sha),
+            message: commit.commit.message,
+            stats: null,
+          });
+        }
 
         if (response.data.length < this.pageSize) break;
         page++;
       } catch (error: unknown) {
         if (error instanceof Error && "status" in error && (error as { status: number }).status === 409) {
           // Empty repository
-          return 0;
+          return [];
         }
         throw error;
       }
     }
 
-    return count;
+    return commits;
+  }
+
+  async getCommitCount(repoName: string, branch?: string): Promise<number> {
+    const commits = await this.harvestCommits(repoName, branch);
+    return commits.length;
   }
 
-  async getLinesOfCode(
+  // Line counts of a single commit. REST listings don't include them, so this costs one
+  // detail call per commit; concurrent metrics asking for the same commit share it.
+  private async getCommitStats(
     repoName: string,
-    branch?: string
-  ): Promise<{ added: number; deleted: number }> {
+    commit: CommitRecord
+  ): Promise<{ additions: number; deletions: number }> {
+    if (commit.stats) return commit.stats;
+
+    const key = `${repoName}@${commit.sha}`;
+    let stats = this.commitStats.get(key);
+    if (!stats) {
+      stats = this.withRetry(
+        () =>
+          this.octokit.repos.getCommit({
+            ...this.repoParams(repoName),
+            ref: commit.sha,
+          }),
+        repoName,
+        "fetching commit stats"
+      ).then((response) => ({
+        additions: response.data.stats?.additions ?? 0,
+        deletions: response.data.stats?.deletions ?? 0,
+      }));
+      this.commitStats.set(key, stats);
+      stats.catch(() => this.commitStats.delete(key));
+    }
+    return stats;
+  }
+
+  async getLinesOfCode(repoName: string, branch?: string): Promise<LineStats> {
     // Skip if configured
     if (this.config.options.skipLineStats) {
-      return { added: 0, deleted: 0 };
+      return { added: 0, deleted: 0, mode: null, truncated: false };
     }
 
-    const { startDate, endDate } = this.config.dateRange;
+    const mode = this.config.options.lineStatsMode ?? "snapshot";
+    if (mode === "per-commit") {
+      return this.getPerCommitLines(repoName, branch);
+    }
+
+    const snapshot = await this.getSnapshotLines(repoName, branch);
+    if (mode === "auto" && snapshot.truncated) {
+      this.reportProgress(repoName, "compare truncated, summing commits...");
+      return this.getPerCommitLines(repoName, branch);
+    }
+    return snapshot;
+  }
+
+  // Sum the stats of every commit in range. Counts churn that a snapshot diff cancels out,
+  // at the cost of one API call per commit over REST. Merge commits are skipped because
+  // their stats repeat the changes of the commits they merge.
+  private async getPerCommitLines(repoName: string, branch?: string): Promise<LineStats> {
+    const commits = await this.harvestCommits(repoName, branch);
+    const nonMergeCommits = commits.filter((commit) => commit.parents.length <= 1);
+    let linesAdded = 0;
+    let linesDeleted = 0;
+
+    for (let i = 0; i < nonMergeCommits.length; i++) {
+      this.reportProgress(repoName, `fetching commit stats (${i + 1}/${nonMergeCommits.length})...`);
+      const stats = await this.getCommitStats(repoName, nonMergeCommits[i]);
+      linesAdded += stats.additions;
+      linesDeleted += stats.deletions;
+    }
+
+    return { added: linesAdded, deleted: linesDeleted, mode: "per-commit", truncated: false };
+  }
+
+  private async getSnapshotLines(repoName: string, branch?: string): Promise<LineStats> {
+    const { startDate } = this.config.dateRange;
     const targetBranch = branch ?? await this.getDefaultBranch(repoName);
+    const empty: LineStats = { added: 0, deleted: 0, mode: "snapshot", truncated: false };
 
     try {
       // Strategy: Compare the last commit before start date with the last commit in range
-      // This gives us the total diff for the date range in just 2-3 API calls
-
-      this.reportProgress(repoName, "finding commits for line stats...");
-
-      // Get the last commit in the date range (or latest if none)
-      const endCommitsResponse = await this.withRetry(
-        () =>
-          this.octokit.repos.listCommits({
-            owner: this.config.github.organization,
-            repo: repoName,
-            sha: targetBranch,
-            until: new Date(endDate + "T23:59:59").toISOString(),
-            per_page: 1,
-          }),
-        repoName,
-        "finding end commit"
-      );
+      // This gives us the total diff for the date range in just 1-2 API calls on top of the harvest
 
-      if (endCommitsResponse.data.length === 0) {
-        // No commits up to end date
-        return { added: 0, deleted: 0 };
+      const commits = await this.harvestCommits(repoName, targetBranch);
+      if (commits.length === 0) {
+        // No commits in range
+        return empty;
       }
 
-      const endCommitSha = endCommitsResponse.data[0].sha;
+      this.reportProgress(repoName, "finding commits for line stats...");
+
+      // The harvest is newest first
+      const endCommitSha = commits[0].sha;
 
       // Get the last commit BEFORE the start date (this is our baseline)
       const baseCommitsResponse = await this.withRetry(
         () =>
           this.octokit.repos.listCommits({
-            owner: this.config.github.organization,
-            repo: repoName,
+            ...this.repoParams(repoName),
             sha: targetBranch,
             until: new Date(new Date(startDate).getTime() - 1).toISOString(), // 1ms before start
             per_page: 1,
@@ -327,61 +647,26 @@ export class GitHubClient {
         "finding base commit"
       );
 
-      // If there's no commit before start date, compare against the first commit's parent
-      // or get stats for all commits up to end date
       let baseSha: string;
 
       if (baseCommitsResponse.data.length > 0) {
         baseSha = baseCommitsResponse.data[0].sha;
       } else {
-        // No commits before start date - get the first commit in range and use its parent
-        const firstCommitsResponse = await this.withRetry(
-          () =>
-            this.octokit.repos.listCommits({
-              owner: this.config.github.organization,
-              repo: repoName,
-              sha: targetBranch,
-              since: new Date(startDate).toISOString(),
-              until: new Date(endDate + "T23:59:59").toISOString(),
-              per_page: this.pageSize,
-            }),
-          repoName,
-          "finding first commit"
-        );
-
-        if (firstCommitsResponse.data.length === 0) {
-          return { added: 0, deleted: 0 };
-        }
-
-        // Get the oldest commit in the range (last in the array since it's sorted desc)
-        const oldestCommit = firstCommitsResponse.data[firstCommitsResponse.data.length - 1];
-
-        // Try to get its parent
-        const commitDetail = await this.withRetry(
-          () =>
-            this.octokit.repos.getCommit({
-              owner: this.config.github.organization,
-              repo: repoName,
-              ref: oldestCommit.sha,
-            }),
-          repoName,
-          "getting commit parent"
-        );
+        // No commits before start date - use the parent of the oldest commit in range
+        const oldestCommit = commits[commits.length - 1];
 
-        if (commitDetail.data.parents && commitDetail.data.parents.length > 0) {
-          baseSha = commitDetail.data.parents[0].sha;
+        if (oldestCommit.parents.length > 0) {
+          baseSha = oldestCommit.parents[0];
         } else {
           // This is the initial commit - just return its stats
-          return {
-            added: commitDetail.data.stats?.additions ?? 0,
-            deleted: commitDetail.data.stats?.deletions ?? 0,
-          };
+          const stats = await this.getCommitStats(repoName, oldestCommit);
+          return { ...empty, added: stats.additions, deleted: stats.deletions };
         }
       }
 
       // If base and end are the same, no changes in range
       if (baseSha === endCommitSha) {
-        return { added: 0, deleted: 0 };
+        return empty;
       }
 
       // Compare the two commits - this gives us the total diff
@@ -390,8 +675,7 @@ export class GitHubClient {
       const compareResponse = await this.withRetry(
         () =>
           this.octokit.repos.compareCommits({
-            owner: this.config.github.organization,
-            repo: repoName,
+            ...this.repoParams(repoName),
             base: baseSha,
             head: endCommitSha,
           }),
@@ -403,168 +687,604 @@ export class GitHubClient {
       let linesAdded = 0;
       let linesDeleted = 0;
 
-      if (compareResponse.data.files) {
-        for (const file of compareResponse.data.files) {
-          linesAdded += file.additions ?? 0;
-          linesDeleted += file.deletions ?? 0;
-        }
+      const files = compareResponse.data.files ?? [];
+      for (const file of files) {
+        linesAdded += file.additions ?? 0;
+        linesDeleted += file.deletions ?? 0;
       }
 
-      return { added: linesAdded, deleted: linesDeleted };
+      return { ...empty, added: linesAdded, deleted: linesDeleted, truncated: files.length >= COMPARE_FILE_LIMIT };
     } catch (error: unknown) {
       if (error instanceof Error && "status" in error) {
         const status = (error as { status: number }).status;
         if (status === 409 || status === 404) {
           // Empty repository or commits not available
-          return { added: 0, deleted: 0 };
+          return empty;
         }
       }
       throw error;
     }
   }
 
-  async getPullRequestCount(repoName: string, branch?: string): Promise<number> {
-    const { startDate, endDate } = this.config.dateRange;
+  // Walk the branch's pull requests updated since the start date once per repo and period.
+  // Every PR created, merged or closed in range was updated at or after that event, so this
+  // covers all PR metrics except the backlog untouched since before the range.
+  async harvestPullRequests(repoName: string, branch?: string): Promise<PullRequestRecord[]> {
     const targetBranch = branch ?? await this.getDefaultBranch(repoName);
-    const start = new Date(startDate);
-    const end = new Date(endDate + "T23:59:59");
-    let count = 0;
+    const key = this.harvestKey(repoName, targetBranch);
+
+    let harvest = this.pullRequestHarvests.get(key);
+    if (!harvest) {
+      harvest = this.fetchPullRequests(repoName, targetBranch);
+      this.pullRequestHarvests.set(key, harvest);
+      harvest.catch(() => this.pullRequestHarvests.delete(key));
+    }
+    return harvest;
+  }
+
+  private async fetchPullRequests(repoName: string, branch: string): Promise<PullRequestRecord[]> {
+    return this.listPullRequestsUpdatedSince(repoName, branch, new Date(this.config.dateRange.startDate));
+  }
+
+  // Pull requests against the branch updated since a date, most recently updated first
+  private async listPullRequestsUpdatedSince(
+    repoName: string,
+    branch: string,
+    since: Date
+  ): Promise<PullRequestRecord[]> {
+    const pullRequests: PullRequestRecord[] = [];
     let page = 1;
 
     while (true) {
-      this.reportProgress(repoName, `fetching pull requests (page ${page}, found ${count})...`);
+      this.reportProgress(repoName, `fetching pull requests (page ${page}, found ${pullRequests.length})...`);
       const response = await this.withRetry(
         () =>
           this.octokit.pulls.list({
-            owner: this.config.github.organization,
-            repo: repoName,
+            ...this.repoParams(repoName),
             state: "all",
-            base: targetBranch,
+            base: branch,
             per_page: this.pageSize,
             page,
-            sort: "created",
+            sort: "updated",
             direction: "desc",
           }),
         repoName,
-        "fetching pull requests"
+        "fetching pull requests",
+        page
       );
 
       if (response.data.length === 0) break;
 
       for (const pr of response.data) {
-        const createdAt = new Date(pr.created_at);
+        // Since sorted by updated desc, if we're past the start date, we can stop
+        if (new Date(pr.updated_at) < since) {
+          return pullRequests;
+        }
+
+        pullRequests.push({
+          number: pr.number,
+          authorLogin: pr.user?.login ?? null,
+          createdAt: pr.created_at,
+          updatedAt: pr.updated_at,
+          closedAt: pr.closed_at,
+          mergedAt: pr.merged_at,
+        });
+      }
+
+      if (response.data.length < this.pageSize) break;
+      page++;
+    }
+
+    return pullRequests;
+  }
+
+  private createdInRange(pullRequests: PullRequestRecord[]): PullRequestRecord[] {
+    const { startDate, endDate } = this.config.dateRange;
+    const start = new Date(startDate);
+    const end = new Date(endDate + "T23:59:59");
+
+    return pullRequests.filter((pr) => {
+      const createdAt = new Date(pr.createdAt);
+      return createdAt >= start && createdAt <= end;
+    });
+  }
+
+  async getPullRequestCount(repoName: string, branch?: string): Promise<number> {
+    const pullRequests = await this.harvestPullRequests(repoName, branch);
+    return this.createdInRange(pullRequests).length;
+  }
+
+  // Reviews of a pull request, shared by every metric that needs them
+  async getReviews(repoName: string, pr: PullRequestRecord): Promise<ReviewRecord[]> {
+    if (pr.reviews) return pr.reviews;
+
+    const key = `${repoName}#${pr.number}`;
+    let reviews = this.reviewCache.get(key);
+    if (!reviews) {
+      reviews = this.fetchReviews(repoName, pr.number);
+      this.reviewCache.set(key, reviews);
+      reviews.catch(() => this.reviewCache.delete(key));
+    }
+    return reviews;
+  }
+
+  private async fetchReviews(repoName: string, pullNumber: number): Promise<ReviewRecord[]> {
+    const reviews: ReviewRecord[] = [];
+    let page = 1;
+
+    while (true) {
+      const response = await this.withRetry(
+        () =>
+          this.octokit.pulls.listReviews({
+            ...this.repoParams(repoName),
+            pull_number: pullNumber,
+            per_page: this.pageSize,
+            page,
+          }),
+        repoName,
+        "fetching reviews",
+        page
+      );
+
+      for (const review of response.data) {
+        reviews.push({
+          id: String(review.id),
+          reviewerLogin: review.user?.login ?? null,
+          state: review.state,
+          submittedAt: review.submitted_at ?? null,
+        });
+      }
+
+      if (response.data.length < this.pageSize) break;
+      page++;
+    }
+
+    return reviews;
+  }
+
+  // Inline comments per review. GraphQL reviews carry their own count; for REST the PR's
+  // review comments are listed once and grouped by the review they belong to.
+  private async getReviewCommentCount(repoName: string, pr: PullRequestRecord, review: ReviewRecord): Promise<number> {
+    if (review.commentCount !== undefined) return review.commentCount;
+
+    const key = `${repoName}#${pr.number}`;
+    let counts = this.reviewCommentCache.get(key);
+    if (!counts) {
+      counts = this.fetchReviewCommentCounts(repoName, pr.number);
+      this.reviewCommentCache.set(key, counts);
+      counts.catch(() => this.reviewCommentCache.delete(key));
+    }
+    return (await counts).get(review.id) ?? 0;
+  }
+
+  private async fetchReviewCommentCounts(repoName: string, pullNumber: number): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    let page = 1;
+
+    while (true) {
+      const response = await this.withRetry(
+        () =>
+          this.octokit.pulls.listReviewComments({
+            ...this.repoParams(repoName),
+            pull_number: pullNumber,
+            per_page: this.pageSize,
+            page,
+          }),
+        repoName,
+        "fetching review comments",
+        page
+      );
+
+      for (const comment of response.data) {
+        if (comment.pull_request_review_id == null) continue;
+        const reviewId = String(comment.pull_request_review_id);
+        counts.set(reviewId, (counts.get(reviewId) ?? 0) + 1);
+      }
+
+      if (response.data.length < this.pageSize) break;
+      page++;
+    }
+
+    return counts;
+  }
+
+  async getPullRequestStats(
+    repoName: string,
+    branch?: string
+  ): Promise<{
+    created: number;
+    merged: number;
+    mergedWithoutApproval: number;
+    closedWithoutMerge: number;
+    openAtEnd: number;
+    mergeHours: number[];
+    firstReviewHours: number[];
+  }> {
+    const { startDate, endDate } = this.config.dateRange;
+    const targetBranch = branch ?? await this.getDefaultBranch(repoName);
+    const start = new Date(startDate);
+    const end = new Date(endDate + "T23:59:59");
+    const inRange = (date: Date) => date >= start && date <= end;
+
+    const pullRequests = await this.harvestPullRequests(repoName, targetBranch);
+    let merged = 0;
+    let mergedWithoutApproval = 0;
+    let closedWithoutMerge = 0;
+    let openAtEnd = 0;
+    const mergeHours: number[] = [];
+
+    for (const pr of pullRequests) {
+      const createdAt = new Date(pr.createdAt);
+      const closedAt = pr.closedAt ? new Date(pr.closedAt) : null;
+
+      if (pr.mergedAt && inRange(new Date(pr.mergedAt))) {
+        merged++;
+        mergeHours.push(hoursBetween(createdAt, new Date(pr.mergedAt)));
+
+        // Approvals by the author don't count (GitHub doesn't allow them, but bots and admins can merge anyway)
+        const reviews = await this.getReviews(repoName, pr);
+        const approved = reviews.some(
+          (review) => review.state === "APPROVED" && review.reviewerLogin !== pr.authorLogin
+        );
+        if (!approved) mergedWithoutApproval++;
+      } else if (!pr.mergedAt && closedAt && inRange(closedAt)) {
+        closedWithoutMerge++;
+      }
 
-        // Since sorted by created desc, if we're past the start date, we can stop
-        if (createdAt < start) {
-          return count;
+      // Backlog at the end of the period: created by then and not yet closed
+      if (createdAt <= end && (!closedAt || closedAt > end)) {
+        openAtEnd++;
+      }
+    }
+
+    // PRs still open that haven't been touched since before the range aren't in the harvest
+    openAtEnd += await this.getStaleOpenPullRequestCount(repoName, targetBranch, start);
+
+    // Time to the first review by someone other than the author, for PRs opened in range
+    const created = this.createdInRange(pullRequests);
+    const firstReviewHours: number[] = [];
+    for (let i = 0; i < created.length; i++) {
+      const pr = created[i];
+      this.reportProgress(repoName, `fetching reviews (${i + 1}/${created.length})...`);
+      const reviews = await this.getReviews(repoName, pr);
+      const firstReview = reviews.find(
+        (review) => review.submittedAt && review.state !== "PENDING" && review.reviewerLogin !== pr.authorLogin
+      );
+      if (firstReview?.submittedAt) {
+        firstReviewHours.push(hoursBetween(new Date(pr.createdAt), new Date(firstReview.submittedAt)));
+      }
+    }
+
+    return {
+      created: created.length,
+      merged,
+      mergedWithoutApproval,
+      closedWithoutMerge,
+      openAtEnd,
+      mergeHours,
+      firstReviewHours,
+    };
+  }
+
+  // Review work per reviewer: every review submitted in range on a PR to the branch. A review in
+  // range means the PR was updated in range, so the harvest already holds every PR needed.
+  async getReviewerActivity(repoName: string, branch?: string): Promise<Record<string, ReviewerActivity>> {
+    const { startDate, endDate } = this.config.dateRange;
+    const targetBranch = branch ?? await this.getDefaultBranch(repoName);
+    const start = new Date(startDate);
+    const end = new Date(endDate + "T23:59:59");
+    const activity: Record<string, ReviewerActivity> = {};
+
+    const activityFor = (reviewer: string): ReviewerActivity => {
+      if (!activity[reviewer]) {
+        activity[reviewer] = { reviews: 0, approvals: 0, changesRequested: 0, reviewComments: 0, turnaroundHours: [] };
+      }
+      return activity[reviewer];
+    };
+
+    const pullRequests = await this.harvestPullRequests(repoName, targetBranch);
+    for (let i = 0; i < pullRequests.length; i++) {
+      const pr = pullRequests[i];
+      this.reportProgress(repoName, `fetching reviews (${i + 1}/${pullRequests.length})...`);
+      const reviews = await this.getReviews(repoName, pr);
+      const reviewedBefore = new Set<string>();
+
+      for (const review of reviews) {
+        if (!review.reviewerLogin || !review.submittedAt || review.state === "PENDING") continue;
+        if (review.reviewerLogin === pr.authorLogin) continue;
+
+        // Turnaround is measured to the reviewer's first review of the PR, only when that falls in range
+        const isFirstReview = !reviewedBefore.has(review.reviewerLogin);
+        reviewedBefore.add(review.reviewerLogin);
+
+        const submittedAt = new Date(review.submittedAt);
+        if (submittedAt < start || submittedAt > end) continue;
+
+        const reviewerName = this.identities.resolveLogin(review.reviewerLogin);
+        if (!reviewerName) continue;
+
+        const reviewer = activityFor(reviewerName);
+        reviewer.reviews++;
+        if (review.state === "APPROVED") reviewer.approvals++;
+        if (review.state === "CHANGES_REQUESTED") reviewer.changesRequested++;
+        reviewer.reviewComments += await this.getReviewCommentCount(repoName, pr, review);
+        if (isFirstReview) {
+          reviewer.turnaroundHours.push(hoursBetween(new Date(pr.createdAt), submittedAt));
         }
+      }
+    }
+
+    return activity;
+  }
+
+  // Count open pull requests whose last update is before the given date (oldest first)
+  private async getStaleOpenPullRequestCount(repoName: string, branch: string, updatedBefore: Date): Promise<number> {
+    const stale = await this.listStaleOpenPullRequests(repoName, branch, updatedBefore);
+    return stale.length;
+  }
+
+  private async listStaleOpenPullRequests(
+    repoName: string,
+    branch: string,
+    updatedBefore: Date
+  ): Promise<PullRequestRecord[]> {
+    const stale: PullRequestRecord[] = [];
+    let page = 1;
+
+    while (true) {
+      this.reportProgress(repoName, `fetching open pull request backlog (page ${page})...`);
+      const response = await this.withRetry(
+        () =>
+          this.octokit.pulls.list({
+            ...this.repoParams(repoName),
+            state: "open",
+            base: branch,
+            per_page: this.pageSize,
+            page,
+            sort: "updated",
+            direction: "asc",
+          }),
+        repoName,
+        "fetching open pull requests",
+        page
+      );
 
-        if (createdAt >= start && createdAt <= end) {
-          count++;
+      for (const pr of response.data) {
+        if (new Date(pr.updated_at) >= updatedBefore) {
+          return stale;
         }
+        stale.push({
+          number: pr.number,
+          authorLogin: pr.user?.login ?? null,
+          createdAt: pr.created_at,
+          updatedAt: pr.updated_at,
+          closedAt: pr.closed_at,
+          mergedAt: pr.merged_at,
+        });
       }
 
       if (response.data.length < this.pageSize) break;
       page++;
     }
 
-    return count;
+    return stale;
   }
 
   async getContributors(repoName: string, branch?: string): Promise<string[]> {
+    const commits = await this.harvestCommits(repoName, branch);
+    const contributors = new Set<string>();
+
+    for (const commit of commits) {
+      const author = this.commitAuthor(commit);
+      if (author) {
+        contributors.add(author);
+      }
+    }
+
+    return Array.from(contributors);
+  }
+
+  async getContributorActivity(repoName: string, branch?: string): Promise<Record<string, ContributorActivity>> {
     const { startDate, endDate } = this.config.dateRange;
     const targetBranch = branch ?? await this.getDefaultBranch(repoName);
-    const contributors = new Set<string>();
+    const start = new Date(startDate);
+    const end = new Date(endDate + "T23:59:59");
+    const activity: Record<string, ContributorActivity> = {};
+
+    const activityFor = (author: string): ContributorActivity => {
+      if (!activity[author]) {
+        activity[author] = { commits: 0, linesAdded: 0, linesDeleted: 0, pullRequests: 0, pullRequestsMerged: 0 };
+      }
+      return activity[author];
+    };
+
+    // Commits per author from the harvested history, and lines from each commit's stats
+    const commits = await this.harvestCommits(repoName, targetBranch);
+    for (let i = 0; i < commits.length; i++) {
+      const commit = commits[i];
+      const author = this.commitAuthor(commit);
+      if (!author) continue;
+
+      activityFor(author).commits++;
+      // A merge commit's stats repeat the merged work, as in the per-commit line totals
+      if (this.config.options.skipLineStats || commit.parents.length > 1) continue;
+
+      this.reportProgress(repoName, `fetching commit stats (${i + 1}/${commits.length})...`);
+      const stats = await this.getCommitStats(repoName, commit);
+      activityFor(author).linesAdded += stats.additions;
+      activityFor(author).linesDeleted += stats.deletions;
+    }
+
+    // PRs opened per author in range, and how many of those were merged by the end of the range
+    const pullRequests = await this.harvestPullRequests(repoName, targetBranch);
+    for (const pr of this.createdInRange(pullRequests)) {
+      const author = this.identities.resolveLogin(pr.authorLogin);
+      if (!author) continue;
+      activityFor(author).pullRequests++;
+      if (pr.mergedAt && new Date(pr.mergedAt) <= end) {
+        activityFor(author).pullRequestsMerged++;
+      }
+    }
+
+    return activity;
+  }
+
+  async getIssueStats(
+    repoName: string
+  ): Promise<{ created: number; closed: number; openAtEnd: number; closeHours: number[] }> {
+    // Skip if configured
+    if (this.config.options.skipIssueStats) {
+      return { created: 0, closed: 0, openAtEnd: 0, closeHours: [] };
+    }
+
+    const { startDate, endDate } = this.config.dateRange;
+    const start = new Date(startDate);
+    const end = new Date(endDate + "T23:59:59");
+    let created = 0;
+    let closed = 0;
+    let openAtEnd = 0;
+    const closeHours: number[] = [];
     let page = 1;
 
-    while (true) {
-      try {
-        this.reportProgress(repoName, `fetching contributors (page ${page}, found ${contributors.size})...`);
+    // Use 'since' parameter to only fetch issues updated after start date
+    // This dramatically reduces API calls for repos with many old issues
+    const sinceDate = new Date(startDate).toISOString();
+
+    try {
+      while (true) {
+        this.reportProgress(repoName, `fetching issues (page ${page}, found ${created} created, ${closed} closed)...`);
         const response = await this.withRetry(
           () =>
-            this.octokit.repos.listCommits({
-              owner: this.config.github.organization,
-              repo: repoName,
-              sha: targetBranch,
-              since: new Date(startDate).toISOString(),
-              until: new Date(endDate + "T23:59:59").toISOString(),
+            this.octokit.issues.listForRepo({
+              ...this.repoParams(repoName),
+              state: "all",
+              since: sinceDate,
               per_page: this.pageSize,
               page,
+              sort: "updated",
+              direction: "desc",
             }),
           repoName,
-          "fetching contributors"
+          "fetching issues",
+          page
         );
 
         if (response.data.length === 0) break;
 
-        for (const commit of response.data) {
-          const author = commit.author?.login ?? commit.commit.author?.email;
-          if (author) {
-            contributors.add(author);
+        for (const issue of response.data) {
+          // Skip pull requests (they show up in issues API too)
+          if (issue.pull_request) continue;
+
+          // Count issues created in range
+          const createdAt = new Date(issue.created_at);
+          if (createdAt >= start && createdAt <= end) {
+            created++;
+          }
+
+          // Count issues closed in range
+          const closedAt = issue.closed_at ? new Date(issue.closed_at) : null;
+          if (closedAt && closedAt >= start && closedAt <= end) {
+            closed++;
+            closeHours.push(hoursBetween(createdAt, closedAt));
+          }
+
+          // Backlog: created by the end of the period and not yet closed at that point
+          if (createdAt <= end && (!closedAt || closedAt > end)) {
+            openAtEnd++;
           }
         }
 
         if (response.data.length < this.pageSize) break;
         page++;
-      } catch (error: unknown) {
-        if (error instanceof Error && "status" in error && (error as { status: number }).status === 409) {
-          return [];
+      }
+
+      // Issues that are still open but haven't been touched since the start date are
+      // excluded by 'since' above, yet they were part of the backlog at the end of the period
+      openAtEnd += await this.getStaleOpenIssueCount(repoName, start);
+    } catch (error: unknown) {
+      if (error instanceof GitHubApiError && "status" in error.originalError) {
+        // 410 = issues are disabled for this repository
+        if ((error.originalError as { status: number }).status === 410) {
+          return { created: 0, closed: 0, openAtEnd: 0, closeHours: [] };
         }
-        throw error;
       }
+      throw error;
     }
 
-    return Array.from(contributors);
+    return { created, closed, openAtEnd, closeHours };
   }
 
-  async getIssueStats(repoName: string): Promise<{ created: number; closed: number }> {
-    const { startDate, endDate } = this.config.dateRange;
-    const start = new Date(startDate);
-    const end = new Date(endDate + "T23:59:59");
-    let created = 0;
-    let closed = 0;
-    let page = 1;
+  private async getStaleOpenIssueCount(repoName: string, updatedBefore: Date): Promise<number> {
+    const stale = await this.listStaleOpenIssues(repoName, updatedBefore);
+    return stale.length;
+  }
 
-    // Use 'since' parameter to only fetch issues updated after start date
-    // This dramatically reduces API calls for repos with many old issues
-    const sinceDate = new Date(startDate).toISOString();
+  private async listStaleOpenIssues(repoName: string, updatedBefore: Date): Promise<IssueRecord[]> {
+    const stale: IssueRecord[] = [];
+    let page = 1;
 
     while (true) {
-      this.reportProgress(repoName, `fetching issues (page ${page}, found ${created} created, ${closed} closed)...`);
+      this.reportProgress(repoName, `fetching open issue backlog (page ${page}, found ${stale.length})...`);
       const response = await this.withRetry(
         () =>
           this.octokit.issues.listForRepo({
-            owner: this.config.github.organization,
-            repo: repoName,
-            state: "all",
-            since: sinceDate,
+            ...this.repoParams(repoName),
+            state: "open",
             per_page: this.pageSize,
             page,
             sort: "updated",
-            direction: "desc",
+            direction: "asc",
           }),
         repoName,
-        "fetching issues"
+        "fetching open issues",
+        page
       );
 
       if (response.data.length === 0) break;
 
       for (const issue of response.data) {
-        // Skip pull requests (they show up in issues API too)
-        if (issue.pull_request) continue;
-
-        // Count issues created in range
-        const createdAt = new Date(issue.created_at);
-        if (createdAt >= start && createdAt <= end) {
-          created++;
+        // Sorted by updated asc, so everything from here on has already been seen
+        if (new Date(issue.updated_at) >= updatedBefore) {
+          return stale;
+        }
+        if (!issue.pull_request) {
+          stale.push({ number: issue.number, createdAt: issue.created_at, closedAt: issue.closed_at });
         }
+      }
 
-        // Count issues closed in range
-        if (issue.closed_at) {
-          const closedAt = new Date(issue.closed_at);
-          if (closedAt >= start && closedAt <= end) {
-            closed++;
-          }
+      if (response.data.length < this.pageSize) break;
+      page++;
+    }
+
+    return stale;
+  }
+
+  // Issues (without pull requests) updated since a date, for the history store
+  private async listIssuesUpdatedSince(repoName: string, since: Date): Promise<IssueRecord[]> {
+    const issues: IssueRecord[] = [];
+    let page = 1;
+
+    while (true) {
+      this.reportProgress(repoName, `fetching issues (page ${page}, found ${issues.length})...`);
+      const response = await this.withRetry(
+        () =>
+          this.octokit.issues.listForRepo({
+            ...this.repoParams(repoName),
+            state: "all",
+            since: since.toISOString(),
+            per_page: this.pageSize,
+            page,
+            sort: "updated",
+            direction: "desc",
+          }),
+        repoName,
+        "fetching issues",
+        page
+      );
+
+      for (const issue of response.data) {
+        if (!issue.pull_request) {
+          issues.push({ number: issue.number, createdAt: issue.created_at, closedAt: issue.closed_at });
         }
       }
 
@@ -572,61 +1292,136 @@ export class GitHubClient {
       page++;
     }
 
-    return { created, closed };
+    return issues;
   }
 
   async getReleaseCount(repoName: string): Promise<number> {
+    const releases = await this.harvestReleases(repoName);
+    return releases.length;
+  }
+
+  // Publish dates of the releases in the date range, shared by the count and the time series
+  async harvestReleases(repoName: string): Promise<string[]> {
+    const { startDate, endDate } = this.config.dateRange;
+    const key = `${repoName}:${startDate}..${endDate}`;
+
+    let harvest = this.releaseHarvests.get(key);
+    if (!harvest) {
+      harvest = this.fetchReleases(repoName);
+      this.releaseHarvests.set(key, harvest);
+      harvest.catch(() => this.releaseHarvests.delete(key));
+    }
+    return harvest;
+  }
+
+  private async fetchReleases(repoName: string): Promise<string[]> {
     const { startDate, endDate } = this.config.dateRange;
     const start = new Date(startDate);
     const end = new Date(endDate + "T23:59:59");
-    let count = 0;
+    const inRange = (publishedAt: Date) => publishedAt >= start && publishedAt <= end;
+
+    const prefetched = this.graphqlActivity.get(repoName);
+    if (prefetched) {
+      return prefetched.releases.map(releaseDate).filter((date) => inRange(new Date(date)));
+    }
+
+    const releases = await this.listReleasesSince(repoName, start);
+    return releases.map((release) => release.publishedAt).filter((date) => inRange(new Date(date)));
+  }
+
+  // Releases published since a date, newest first
+  private async listReleasesSince(repoName: string, since: Date): Promise<RepoHistory["releases"]> {
+    const releases: RepoHistory["releases"] = [];
     let page = 1;
 
     while (true) {
       try {
-        this.reportProgress(repoName, `fetching releases (page ${page}, found ${count})...`);
+        this.reportProgress(repoName, `fetching releases (page ${page}, found ${releases.length})...`);
         const response = await this.withRetry(
           () =>
             this.octokit.repos.listReleases({
-              owner: this.config.github.organization,
-              repo: repoName,
+              ...this.repoParams(repoName),
               per_page: this.pageSize,
               page,
             }),
           repoName,
-          "fetching releases"
+          "fetching releases",
+          page
         );
 
         if (response.data.length === 0) break;
 
         for (const release of response.data) {
-          const publishedAt = release.published_at
-            ? new Date(release.published_at)
-            : new Date(release.created_at);
-
-          if (publishedAt >= start && publishedAt <= end) {
-            count++;
-          }
+          const published = release.published_at ?? release.created_at;
 
           // Releases are sorted by created_at desc, so we can stop early
-          if (publishedAt < start) {
-            return count;
+          if (new Date(published) < since) {
+            return releases;
           }
+          releases.push({ id: release.id, publishedAt: published });
         }
 
         if (response.data.length < this.pageSize) break;
         page++;
       } catch {
         // Some repos may not have releases enabled
-        return 0;
+        return [];
       }
     }
 
-    return count;
+    return releases;
+  }
+
+  // Activity per period of the configured interval, from the same harvests as the range totals.
+  // Lines are summed per commit (merge commits excluded), since a snapshot diff per period
+  // would need a baseline commit for every boundary.
+  async getTimeSeries(repoName: string, interval: Interval, branch?: string): Promise<PeriodStats[]> {
+    const { startDate, endDate } = this.config.dateRange;
+    const targetBranch = branch ?? await this.getDefaultBranch(repoName);
+    const buckets = createBuckets(startDate, endDate, interval);
+    const periods = buckets.map(emptyPeriod);
+    const contributors = buckets.map(() => new Set<string>());
+
+    const commits = await this.harvestCommits(repoName, targetBranch);
+    for (let i = 0; i < commits.length; i++) {
+      const commit = commits[i];
+      const index = findBucket(buckets, commit.date);
+      if (index < 0) continue;
+
+      periods[index].commits++;
+      const author = this.commitAuthor(commit);
+      if (author) contributors[index].add(author);
+
+      if (this.config.options.skipLineStats || commit.parents.length > 1) continue;
+      this.reportProgress(repoName, `fetching commit stats (${i + 1}/${commits.length})...`);
+      const stats = await this.getCommitStats(repoName, commit);
+      periods[index].linesAdded += stats.additions;
+      periods[index].linesDeleted += stats.deletions;
+    }
+
+    const pullRequests = await this.harvestPullRequests(repoName, targetBranch);
+    for (const pr of pullRequests) {
+      const created = findBucket(buckets, pr.createdAt);
+      if (created >= 0) periods[created].pullRequests++;
+      const merged = pr.mergedAt ? findBucket(buckets, pr.mergedAt) : -1;
+      if (merged >= 0) periods[merged].pullRequestsMerged++;
+    }
+
+    for (const published of await this.harvestReleases(repoName)) {
+      const index = findBucket(buckets, published);
+      if (index >= 0) periods[index].releases++;
+    }
+
+    periods.forEach((period, i) => {
+      period.contributorsList = Array.from(contributors[i]);
+      period.contributors = contributors[i].size;
+    });
+    return periods;
   }
 
   async getRepoStats(repoInfo: RepoInfo): Promise<RepoStats> {
-    const { name: repoName, isArchived } = repoInfo;
+    const { owner, name, isArchived } = repoInfo;
+    const repoName = fullRepoName(repoInfo);
 
     // Helper to check if an error indicates an empty/missing repo
     const isEmptyRepoError = (error: unknown): boolean => {
@@ -648,17 +1443,34 @@ export class GitHubClient {
 
     // Helper to return zero stats for empty repos
     const emptyStats = (): RepoStats => ({
-      name: repoName,
+      owner,
+      name,
       isArchived,
       commits: 0,
       linesAdded: 0,
       linesDeleted: 0,
       totalLines: 0,
+      lineStatsMode: null,
+      lineStatsTruncated: false,
       pullRequests: 0,
+      pullRequestMetrics: {
+        merged: 0,
+        mergedWithoutApproval: 0,
+        closedWithoutMerge: 0,
+        openAtEnd: 0,
+        medianHoursToMerge: null,
+        p90HoursToMerge: null,
+        medianHoursToFirstReview: null,
+      },
+      pullRequestMergeHours: [],
+      pullRequestFirstReviewHours: [],
       contributors: 0,
       contributorsList: [],
       issuesCreated: 0,
       issuesClosed: 0,
+      openIssues: 0,
+      medianIssueCloseHours: null,
+      issueCloseHours: [],
       releases: 0,
     });
 
@@ -675,6 +1487,10 @@ export class GitHubClient {
       throw error;
     }
 
+    if (this.historyStore) {
+      return this.getStatsFromHistory(repoInfo, branch);
+    }
+
     // Helper to handle empty/missing repo errors gracefully - treat as zero/empty
     const safe = async <T>(fn: () => Promise<T>, defaultValue: T): Promise<T> => {
       try {
@@ -687,31 +1503,208 @@ export class GitHubClient {
       }
     };
 
-    // Fetch all stats in parallel for better performance
+    // Fetch all stats in parallel for better performance. Commit-derived metrics share one
+    // history walk, and GraphQL-prefetched data is used where available.
     this.reportProgress(repoName, "fetching stats...");
-    const [commits, lines, pullRequests, contributorsList, releases] = await Promise.all([
+    const interval = this.timeSeriesInterval;
+    const [
+      commits,
+      lines,
+      pullRequests,
+      contributorsList,
+      issues,
+      releases,
+      contributorActivity,
+      reviewerActivity,
+      timeSeries,
+    ] = await Promise.all([
       safe(() => this.getCommitCount(repoName, branch), 0),
-      safe(() => this.getLinesOfCode(repoName, branch), { added: 0, deleted: 0 }),
-      safe(() => this.getPullRequestCount(repoName, branch), 0),
+      safe(() => this.getLinesOfCode(repoName, branch), { added: 0, deleted: 0, mode: null, truncated: false }),
+      safe(() => this.getPullRequestStats(repoName, branch), {
+        created: 0,
+        merged: 0,
+        mergedWithoutApproval: 0,
+        closedWithoutMerge: 0,
+        openAtEnd: 0,
+        mergeHours: [],
+        firstReviewHours: [],
+      }),
       safe(() => this.getContributors(repoName, branch), []),
+      safe(() => this.getIssueStats(repoName), { created: 0, closed: 0, openAtEnd: 0, closeHours: [] }),
       safe(() => this.getReleaseCount(repoName), 0),
+      this.collectUserStats ? safe(() => this.getContributorActivity(repoName, branch), {}) : undefined,
+      this.collectReviewerStats ? safe(() => this.getReviewerActivity(repoName, branch), {}) : undefined,
+      interval ? safe(() => this.getTimeSeries(repoName, interval, branch), []) : undefined,
     ]);
 
     this.reportProgress(repoName, isArchived ? "complete (archived)" : "complete");
 
     return {
-      name: repoName,
+      owner,
+      name,
       isArchived,
       commits,
       linesAdded: lines.added,
       linesDeleted: lines.deleted,
       totalLines: lines.added - lines.deleted,
-      pullRequests,
+      lineStatsMode: lines.mode,
+      lineStatsTruncated: lines.truncated,
+      pullRequests: pullRequests.created,
+      pullRequestMetrics: {
+        merged: pullRequests.merged,
+        mergedWithoutApproval: pullRequests.mergedWithoutApproval,
+        closedWithoutMerge: pullRequests.closedWithoutMerge,
+        openAtEnd: pullRequests.openAtEnd,
+        medianHoursToMerge: median(pullRequests.mergeHours),
+        p90HoursToMerge: percentile(pullRequests.mergeHours, 90),
+        medianHoursToFirstReview: median(pullRequests.firstReviewHours),
+      },
+      pullRequestMergeHours: pullRequests.mergeHours,
+      pullRequestFirstReviewHours: pullRequests.firstReviewHours,
       contributors: contributorsList.length,
       contributorsList,
-      issuesCreated: 0,
-      issuesClosed: 0,
+      issuesCreated: issues.created,
+      issuesClosed: issues.closed,
+      openIssues: issues.openAtEnd,
+      medianIssueCloseHours: median(issues.closeHours),
+      issueCloseHours: issues.closeHours,
       releases,
+      contributorActivity,
+      reviewerActivity,
+      timeSeries,
+    };
+  }
+
+  private async getStatsFromHistory(repoInfo: RepoInfo, branch: string): Promise<RepoStats> {
+    const history = await this.syncHistory(repoInfo, branch);
+    this.historyStore!.save(history);
+    this.reportProgress(fullRepoName(repoInfo), repoInfo.isArchived ? "complete (archived)" : "complete");
+
+    return statsFromHistory(
+      history,
+      {
+        ...this.config.dateRange,
+        skipLineStats: this.config.options.skipLineStats,
+        skipIssueStats: this.config.options.skipIssueStats,
+        interval: this.timeSeriesInterval,
+      },
+      this.identities
+    );
+  }
+
+  // Bring a repo's stored history up to date: fetch only what changed since the last sync, or
+  // everything from the start date when the stored history can't be continued
+  async syncHistory(repoInfo: RepoInfo, branch: string): Promise<RepoHistory> {
+    const repoName = fullRepoName(repoInfo);
+    const { startDate } = this.config.dateRange;
+    const { skipLineStats, skipIssueStats } = this.config.options;
+    const syncedAt = new Date().toISOString();
+
+    const stored = this.historyStore?.load(repoInfo) ?? null;
+    const resyncReason = stored ? await this.historyResyncReason(repoName, stored, branch) : null;
+    if (resyncReason) {
+      this.reportProgress(repoName, `${resyncReason}, re-syncing...`);
+    }
+    const previous = resyncReason ? null : stored;
+    const since = previous ? new Date(Date.parse(previous.syncedAt) - HISTORY_SYNC_OVERLAP_MS) : new Date(startDate);
+
+    const commits: RepoHistory["commits"] = [];
+    const newCommits = await this.listCommits(repoName, branch, since);
+    for (let i = 0; i < newCommits.length; i++) {
+      const { message: _message, ...commit } = newCommits[i];
+      if (!skipLineStats && commit.parents.length <= 1) {
+        this.reportProgress(repoName, `fetching commit stats (${i + 1}/${newCommits.length})...`);
+        commit.stats = await this.getCommitStats(repoName, newCommits[i]);
+      }
+      commits.push(commit);
+    }
+
+    // A first sync also needs the open backlog that hasn't been touched since the start date
+    const updatedPullRequests = await this.listPullRequestsUpdatedSince(repoName, branch, since);
+    if (!previous) {
+      updatedPullRequests.push(...(await this.listStaleOpenPullRequests(repoName, branch, since)));
+    }
+    const pullRequests: RepoHistory["pullRequests"] = [];
+    for (let i = 0; i < updatedPullRequests.length; i++) {
+      const pr = updatedPullRequests[i];
+      this.reportProgress(repoName, `fetching reviews (${i + 1}/${updatedPullRequests.length})...`);
+      const reviews = (await this.getReviews(repoName, pr)).filter((review) => review.reviewerLogin !== pr.authorLogin);
+      const { reviews: _reviews, ...record } = pr;
+      pullRequests.push({
+        ...record,
+        approved: reviews.some((review) => review.state === "APPROVED"),
+        firstReviewAt: reviews.find((review) => review.submittedAt && review.state !== "PENDING")?.submittedAt ?? null,
+      });
+    }
+
+    let issues: IssueRecord[] = [];
+    if (!skipIssueStats) {
+      try {
+        issues = await this.listIssuesUpdatedSince(repoName, since);
+        if (!previous) {
+          issues.push(...(await this.listStaleOpenIssues(repoName, since)));
+        }
+      } catch (error) {
+        // 410 = issues are disabled for this repository
+        const status = error instanceof GitHubApiError ? (error.originalError as { status?: number }).status : undefined;
+        if (status !== 410) throw error;
+      }
+    }
+
+    const releases = await this.listReleasesSince(repoName, since);
+
+    // Records fetched now replace their stored versions
+    const merge = <T>(stored: T[] = [], fresh: T[], key: (record: T) => string | number): T[] =>
+      Array.from(new Map([...stored, ...fresh].map((record) => [key(record), record] as const)).values());
+    const newestFirst = (a: string, b: string) => Date.parse(b) - Date.parse(a);
+
+    return {
+      version: HISTORY_VERSION,
+      owner: repoInfo.owner,
+      name: repoInfo.name,
+      isArchived: repoInfo.isArchived,
+      branch,
+      headSha: commits[0]?.sha ?? previous?.headSha ?? null,
+      syncedFrom: previous?.syncedFrom ?? startDate,
+      syncedAt,
+      hasLineStats: !skipLineStats && (previous?.hasLineStats ?? true),
+      hasIssues: !skipIssueStats && (previous?.hasIssues ?? true),
+      commits: merge(previous?.commits, commits, (c) => c.sha).sort((a, b) => newestFirst(a.date, b.date)),
+      pullRequests: merge(previous?.pullRequests, pullRequests, (pr) => pr.number),
+      issues: merge(previous?.issues, issues, (issue) => issue.number),
+      releases: merge(previous?.releases, releases, (release) => release.id).sort((a, b) =>
+        newestFirst(a.publishedAt, b.publishedAt)
+      ),
     };
   }
+
+  // Why the stored history can't simply be continued, or null when it can
+  private async historyResyncReason(repoName: string, stored: RepoHistory, branch: string): Promise<string | null> {
+    if (this.config.dateRange.startDate < stored.syncedFrom) return "range starts before stored history";
+    if (stored.branch !== branch) return `default branch renamed from ${stored.branch}`;
+    if (!this.config.options.skipLineStats && !stored.hasLineStats) return "stored history has no line stats";
+    if (!this.config.options.skipIssueStats && !stored.hasIssues) return "stored history has no issues";
+    if (!stored.headSha) return null;
+
+    // The last synced head must still be part of the branch; otherwise it was force-pushed
+    this.reportProgress(repoName, "checking for force-pushes...");
+    try {
+      const response = await this.withRetry(
+        () =>
+          this.octokit.repos.compareCommits({
+            ...this.repoParams(repoName),
+            base: stored.headSha!,
+            head: branch,
+          }),
+        repoName,
+        "checking for force-pushes"
+      );
+      return ["ahead", "identical"].includes(response.data.status) ? null : "branch was force-pushed";
+    } catch (error) {
+      // The old head no longer exists
+      const status = error instanceof GitHubApiError ? (error.originalError as { status?: number }).status : undefined;
+      if (status === 404 || status === 422) return "branch was force-pushed";
+      throw error;
+    }
+  }
 }
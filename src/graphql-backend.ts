@@ -0,0 +1,294 @@
+// GraphQL collection backend: fetches commit history, pull requests and releases for many
+// repositories in a few batched queries instead of walking REST pages per repo and metric.
+
+import type { CommitRecord, PullRequestRecord, ReviewRecord } from "./types.js";
+
+export type GraphQLRequest = <T>(query: string, variables: Record<string, unknown>) => Promise<T>;
+
+// The batched query can't filter by each repo's default branch, so the base is kept for filtering
+export interface GraphQLPullRequest extends PullRequestRecord {
+  baseRefName: string;
+}
+
+export interface GraphQLRelease {
+  publishedAt: string | null;
+  createdAt: string;
+}
+
+export interface GraphQLRepoActivity {
+  defaultBranch: string | null;
+  commits: CommitRecord[];
+  pullRequests: GraphQLPullRequest[];
+  releases: GraphQLRelease[];
+}
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface Connection<T> {
+  pageInfo: PageInfo;
+  nodes: T[];
+}
+
+interface CommitNode {
+  oid: string;
+  committedDate: string;
+  message: string;
+  additions: number;
+  deletions: number;
+  parents: { nodes: Array<{ oid: string }> };
+  author: { email: string | null; user: { login: string } | null } | null;
+}
+
+interface ActorNode {
+  login: string;
+  __typename: string;
+}
+
+interface ReviewNode {
+  id: string;
+  state: string;
+  submittedAt: string | null;
+  author: ActorNode | null;
+  comments: { totalCount: number };
+}
+
+interface PullRequestNode {
+  number: number;
+  baseRefName: string;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  mergedAt: string | null;
+  author: ActorNode | null;
+  reviews: Connection<ReviewNode>;
+}
+
+interface RepositoryNode {
+  defaultBranchRef: { name: string; target: { history?: Connection<CommitNode> } | null } | null;
+  pullRequests: Connection<PullRequestNode>;
+  releases: Connection<GraphQLRelease>;
+}
+
+const COMMIT_FIELDS =
+  "pageInfo { hasNextPage endCursor } nodes { oid committedDate message additions deletions parents(first: 5) { nodes { oid } } author { email user { login } } }";
+const REVIEW_FIELDS = "pageInfo { hasNextPage endCursor } nodes { id state submittedAt author { login __typename } comments { totalCount } }";
+const PULL_REQUEST_FIELDS =
+  "pageInfo { hasNextPage endCursor } nodes { number baseRefName createdAt updatedAt closedAt mergedAt author { login __typename } " +
+  `reviews(first: 100) { ${REVIEW_FIELDS} } }`;
+const RELEASE_FIELDS = "pageInfo { hasNextPage endCursor } nodes { publishedAt createdAt }";
+
+// Bot noreply addresses look like "49699333+dependabot[bot]@users.noreply.github.com"
+const BOT_NOREPLY_EMAIL = /^\d+\+(.+\[bot\])@users\.noreply\.github\.com$/;
+
+export class GraphQLCollector {
+  constructor(
+    private request: GraphQLRequest,
+    private owner: string,
+    private range: { since: Date; until: Date },
+    private pageSize: number
+  ) {}
+
+  // Fetch the first page of every connection for all repos in one query, then page
+  // individually only for repos with more data in range. Repos that don't exist map to null.
+  async collectBatch(repoNames: string[]): Promise<Map<string, GraphQLRepoActivity | null>> {
+    const variableDefinitions = repoNames.map((_, i) => `$name${i}: String!`).join(", ");
+    const repoFields = repoNames
+      .map(
+        (_, i) => `repo${i}: repository(owner: $owner, name: $name${i}) {
+          defaultBranchRef {
+            name
+            target { ... on Commit { history(first: $pageSize, since: $since, until: $until) { ${COMMIT_FIELDS} } } }
+          }
+          pullRequests(first: $pageSize, orderBy: { field: UPDATED_AT, direction: DESC }) { ${PULL_REQUEST_FIELDS} }
+          releases(first: $pageSize, orderBy: { field: CREATED_AT, direction: DESC }) { ${RELEASE_FIELDS} }
+        }`
+      )
+      .join("\n");
+
+    const query = `query ($owner: String!, $since: GitTimestamp!, $until: GitTimestamp!, $pageSize: Int!, ${variableDefinitions}) {
+      ${repoFields}
+    }`;
+
+    const variables: Record<string, unknown> = { ...this.baseVariables() };
+    repoNames.forEach((name, i) => {
+      variables[`name${i}`] = name;
+    });
+
+    const response = await this.request<Record<string, RepositoryNode | null>>(query, variables);
+
+    const results = new Map<string, GraphQLRepoActivity | null>();
+    for (let i = 0; i < repoNames.length; i++) {
+      const repo = response[`repo${i}`];
+      results.set(repoNames[i], repo ? await this.completeRepo(repoNames[i], repo) : null);
+    }
+    return results;
+  }
+
+  private baseVariables(): Record<string, unknown> {
+    return {
+      owner: this.owner,
+      since: this.range.since.toISOString(),
+      until: this.range.until.toISOString(),
+      pageSize: this.pageSize,
+    };
+  }
+
+  private async completeRepo(repoName: string, repo: RepositoryNode): Promise<GraphQLRepoActivity> {
+    const history = repo.defaultBranchRef?.target?.history;
+    const commitNodes = history ? [...history.nodes] : [];
+    const pullRequestNodes = [...repo.pullRequests.nodes];
+    const releaseNodes = [...repo.releases.nodes];
+
+    // Commit history is already limited to the date range, so walk it to the end
+    let commitPage = history?.pageInfo;
+    while (commitPage?.hasNextPage) {
+      const next = await this.fetchCommitPage(repoName, commitPage.endCursor);
+      commitNodes.push(...next.nodes);
+      commitPage = next.pageInfo;
+    }
+
+    // Pull requests (by last update) and releases are newest first, so stop once a page reaches before the range
+    let pullRequestPage = repo.pullRequests.pageInfo;
+    while (pullRequestPage.hasNextPage && !pullRequestNodes.some((pr) => new Date(pr.updatedAt) < this.range.since)) {
+      const next = await this.fetchPullRequestPage(repoName, pullRequestPage.endCursor);
+      pullRequestNodes.push(...next.nodes);
+      pullRequestPage = next.pageInfo;
+    }
+
+    // The last page runs past the range start; like the REST harvest, keep only PRs updated since then
+    const updatedPullRequests = pullRequestNodes.filter((pr) => new Date(pr.updatedAt) >= this.range.since);
+
+    // The batched query returns the first 100 reviews of each pull request; the REST path sees them all
+    const completePullRequests: PullRequestNode[] = [];
+    for (const pr of updatedPullRequests) {
+      completePullRequests.push(await this.completeReviews(repoName, pr));
+    }
+
+    let releasePage = repo.releases.pageInfo;
+    while (releasePage.hasNextPage && !releaseNodes.some((release) => new Date(releaseDate(release)) < this.range.since)) {
+      const next = await this.fetchReleasePage(repoName, releasePage.endCursor);
+      releaseNodes.push(...next.nodes);
+      releasePage = next.pageInfo;
+    }
+
+    return {
+      defaultBranch: repo.defaultBranchRef?.name ?? null,
+      commits: commitNodes.map(toCommit),
+      pullRequests: completePullRequests.map(toPullRequest),
+      releases: releaseNodes,
+    };
+  }
+
+  private async completeReviews(repoName: string, pr: PullRequestNode): Promise<PullRequestNode> {
+    if (!pr.reviews.pageInfo.hasNextPage) return pr;
+
+    const reviewNodes = [...pr.reviews.nodes];
+    let reviewPage = pr.reviews.pageInfo;
+    while (reviewPage.hasNextPage) {
+      const next = await this.fetchReviewPage(repoName, pr.number, reviewPage.endCursor);
+      reviewNodes.push(...next.nodes);
+      reviewPage = next.pageInfo;
+    }
+    return { ...pr, reviews: { pageInfo: reviewPage, nodes: reviewNodes } };
+  }
+
+  private async fetchCommitPage(repoName: string, cursor: string | null): Promise<Connection<CommitNode>> {
+    const response = await this.request<{ repository: RepositoryNode }>(
+      `query ($owner: String!, $name: String!, $since: GitTimestamp!, $until: GitTimestamp!, $pageSize: Int!, $cursor: String) {
+        repository(owner: $owner, name: $name) {
+          defaultBranchRef {
+            target { ... on Commit { history(first: $pageSize, after: $cursor, since: $since, until: $until) { ${COMMIT_FIELDS} } } }
+          }
+        }
+      }`,
+      { ...this.baseVariables(), name: repoName, cursor }
+    );
+    return response.repository.defaultBranchRef?.target?.history ?? { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] };
+  }
+
+  private async fetchPullRequestPage(repoName: string, cursor: string | null): Promise<Connection<PullRequestNode>> {
+    const response = await this.request<{ repository: RepositoryNode }>(
+      `query ($owner: String!, $name: String!, $pageSize: Int!, $cursor: String) {
+        repository(owner: $owner, name: $name) {
+          pullRequests(first: $pageSize, after: $cursor, orderBy: { field: UPDATED_AT, direction: DESC }) { ${PULL_REQUEST_FIELDS} }
+        }
+      }`,
+      { owner: this.owner, name: repoName, pageSize: this.pageSize, cursor }
+    );
+    return response.repository.pullRequests;
+  }
+
+  private async fetchReviewPage(repoName: string, number: number, cursor: string | null): Promise<Connection<ReviewNode>> {
+    const response = await this.request<{ repository: { pullRequest: { reviews: Connection<ReviewNode> } } }>(
+      `query ($owner: String!, $name: String!, $number: Int!, $cursor: String) {
+        repository(owner: $owner, name: $name) {
+          pullRequest(number: $number) { reviews(first: 100, after: $cursor) { ${REVIEW_FIELDS} } }
+        }
+      }`,
+      { owner: this.owner, name: repoName, number, cursor }
+    );
+    return response.repository.pullRequest.reviews;
+  }
+
+  private async fetchReleasePage(repoName: string, cursor: string | null): Promise<Connection<GraphQLRelease>> {
+    const response = await this.request<{ repository: RepositoryNode }>(
+      `query ($owner: String!, $name: String!, $pageSize: Int!, $cursor: String) {
+        repository(owner: $owner, name: $name) {
+          releases(first: $pageSize, after: $cursor, orderBy: { field: CREATED_AT, direction: DESC }) { ${RELEASE_FIELDS} }
+        }
+      }`,
+      { owner: this.owner, name: repoName, pageSize: this.pageSize, cursor }
+    );
+    return response.repository.releases;
+  }
+}
+
+export function releaseDate(release: GraphQLRelease): string {
+  return release.publishedAt ?? release.createdAt;
+}
+
+// GraphQL only links commit authors to User accounts, while REST also links bot accounts.
+// Recover the bot login from its noreply address so both backends report the same contributor.
+function toCommit(node: CommitNode): CommitRecord {
+  const email = node.author?.email ?? null;
+  const botLogin = email?.match(BOT_NOREPLY_EMAIL)?.[1] ?? null;
+  return {
+    sha: node.oid,
+    authorLogin: node.author?.user?.login ?? botLogin,
+    authorEmail: email,
+    date: node.committedDate,
+    parents: node.parents.nodes.map((parent) => parent.oid),
+    message: node.message,
+    stats: { additions: node.additions, deletions: node.deletions },
+  };
+}
+
+function toPullRequest(node: PullRequestNode): GraphQLPullRequest {
+  return {
+    number: node.number,
+    authorLogin: actorLogin(node.author),
+    baseRefName: node.baseRefName,
+    createdAt: node.createdAt,
+    updatedAt: node.updatedAt,
+    closedAt: node.closedAt,
+    mergedAt: node.mergedAt,
+    reviews: node.reviews.nodes.map(
+      (review): ReviewRecord => ({
+        id: review.id,
+        reviewerLogin: actorLogin(review.author),
+        state: review.state,
+        submittedAt: review.submittedAt,
+        commentCount: review.comments.totalCount,
+      })
+    ),
+  };
+}
+
+// GraphQL reports bot logins without the "[bot]" suffix that REST includes
+function actorLogin(actor: ActorNode | null): string | null {
+  if (!actor) return null;
+  return actor.__typename === "Bot" ? `${actor.login}[bot]` : actor.login;
+}
@@ -0,0 +1,168 @@
+// Local history store for --incremental runs: keeps each repository's raw commits, pull requests,
+// issues and releases on disk, and computes stats for any date range from them.
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import type { IdentityResolver } from "./identity.js";
+import { median, percentile, hoursBetween } from "./statistics.js";
+import { createBuckets, emptyPeriod, findBucket } from "./timeseries.js";
+import type { Interval, PeriodStats, RepoHistory, RepoInfo, RepoStats } from "./types.js";
+
+const DEFAULT_HISTORY_DIRECTORY = ".cache/history";
+export const HISTORY_VERSION = 1;
+
+export interface HistoryStatsOptions {
+  startDate: string;
+  endDate: string;
+  skipLineStats: boolean;
+  skipIssueStats: boolean;
+  interval: Interval | null;
+}
+
+export class HistoryStore {
+  private directory: string;
+
+  constructor(directory: string = DEFAULT_HISTORY_DIRECTORY) {
+    this.directory = directory;
+  }
+
+  private filePath(repo: Pick<RepoInfo, "owner" | "name">): string {
+    return join(this.directory, repo.owner.toLowerCase(), `${repo.name.toLowerCase()}.json`);
+  }
+
+  // Null when the repo hasn't been synced yet, or was synced by an incompatible version
+  load(repo: Pick<RepoInfo, "owner" | "name">): RepoHistory | null {
+    const path = this.filePath(repo);
+    if (!existsSync(path)) return null;
+
+    try {
+      const history = JSON.parse(readFileSync(path, "utf-8")) as RepoHistory;
+      return history.version === HISTORY_VERSION ? history : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Written to a temporary file first, so an interrupted write never leaves a corrupt history
+  save(history: RepoHistory): void {
+    const path = this.filePath(history);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(`${path}.tmp`, JSON.stringify(history));
+    renameSync(`${path}.tmp`, path);
+  }
+}
+
+// Compute a repository's stats for a date range from its stored history. Lines are summed per
+// commit, so the line stats mode is always per-commit.
+export function statsFromHistory(
+  history: RepoHistory,
+  options: HistoryStatsOptions,
+  identities: IdentityResolver
+): RepoStats {
+  const start = new Date(options.startDate);
+  const end = new Date(options.endDate + "T23:59:59");
+  const inRange = (timestamp: string | null): boolean => {
+    if (!timestamp) return false;
+    const date = new Date(timestamp);
+    return date >= start && date <= end;
+  };
+  // Open at the end of the range: created by then and not yet closed
+  const openAtEnd = (item: { createdAt: string; closedAt: string | null }): boolean =>
+    new Date(item.createdAt) <= end && (!item.closedAt || new Date(item.closedAt) > end);
+
+  const commits = history.commits.filter((commit) => inRange(commit.date));
+  const contributors = new Set<string>();
+  let linesAdded = 0;
+  let linesDeleted = 0;
+  for (const commit of commits) {
+    const author = identities.resolveCommitAuthor(commit.authorLogin, commit.authorEmail);
+    if (author) contributors.add(author);
+    linesAdded += commit.stats?.additions ?? 0;
+    linesDeleted += commit.stats?.deletions ?? 0;
+  }
+
+  const created = history.pullRequests.filter((pr) => inRange(pr.createdAt));
+  const merged = history.pullRequests.filter((pr) => inRange(pr.mergedAt));
+  const mergeHours = merged.map((pr) => hoursBetween(new Date(pr.createdAt), new Date(pr.mergedAt!)));
+  const firstReviewHours = created
+    .filter((pr) => pr.firstReviewAt)
+    .map((pr) => hoursBetween(new Date(pr.createdAt), new Date(pr.firstReviewAt!)));
+
+  const issuesCreated = history.issues.filter((issue) => inRange(issue.createdAt));
+  const issuesClosed = history.issues.filter((issue) => inRange(issue.closedAt));
+  const issueCloseHours = issuesClosed.map((issue) => hoursBetween(new Date(issue.createdAt), new Date(issue.closedAt!)));
+
+  const releases = history.releases.filter((release) => inRange(release.publishedAt));
+
+  return {
+    owner: history.owner,
+    name: history.name,
+    isArchived: history.isArchived,
+    commits: commits.length,
+    linesAdded,
+    linesDeleted,
+    totalLines: linesAdded - linesDeleted,
+    lineStatsMode: options.skipLineStats ? null : "per-commit",
+    lineStatsTruncated: false,
+    pullRequests: created.length,
+    pullRequestMetrics: {
+      merged: merged.length,
+      mergedWithoutApproval: merged.filter((pr) => !pr.approved).length,
+      closedWithoutMerge: history.pullRequests.filter((pr) => !pr.mergedAt && inRange(pr.closedAt)).length,
+      openAtEnd: history.pullRequests.filter(openAtEnd).length,
+      medianHoursToMerge: median(mergeHours),
+      p90HoursToMerge: percentile(mergeHours, 90),
+      medianHoursToFirstReview: median(firstReviewHours),
+    },
+    pullRequestMergeHours: mergeHours,
+    pullRequestFirstReviewHours: firstReviewHours,
+    contributors: contributors.size,
+    contributorsList: Array.from(contributors),
+    issuesCreated: issuesCreated.length,
+    issuesClosed: issuesClosed.length,
+    openIssues: options.skipIssueStats ? 0 : history.issues.filter(openAtEnd).length,
+    medianIssueCloseHours: median(issueCloseHours),
+    issueCloseHours,
+    releases: releases.length,
+    timeSeries: options.interval ? timeSeriesFromHistory(history, options, options.interval, identities) : undefined,
+  };
+}
+
+function timeSeriesFromHistory(
+  history: RepoHistory,
+  options: HistoryStatsOptions,
+  interval: Interval,
+  identities: IdentityResolver
+): PeriodStats[] {
+  const buckets = createBuckets(options.startDate, options.endDate, interval);
+  const periods = buckets.map(emptyPeriod);
+  const contributors = buckets.map(() => new Set<string>());
+
+  for (const commit of history.commits) {
+    const index = findBucket(buckets, commit.date);
+    if (index < 0) continue;
+    periods[index].commits++;
+    periods[index].linesAdded += commit.stats?.additions ?? 0;
+    periods[index].linesDeleted += commit.stats?.deletions ?? 0;
+    const author = identities.resolveCommitAuthor(commit.authorLogin, commit.authorEmail);
+    if (author) contributors[index].add(author);
+  }
+
+  for (const pr of history.pullRequests) {
+    const created = findBucket(buckets, pr.createdAt);
+    if (created >= 0) periods[created].pullRequests++;
+    const merged = pr.mergedAt ? findBucket(buckets, pr.mergedAt) : -1;
+    if (merged >= 0) periods[merged].pullRequestsMerged++;
+  }
+
+  for (const release of history.releases) {
+    const index = findBucket(buckets, release.publishedAt);
+    if (index >= 0) periods[index].releases++;
+  }
+
+  periods.forEach((period, i) => {
+    period.contributorsList = Array.from(contributors[i]);
+    period.contributors = contributors[i].size;
+  });
+  return periods;
+}
@@ -0,0 +1,416 @@
+// Self-contained HTML reports: styles, charts (inline SVG) and the table sorting script are all
+// embedded in the page, so the file can be opened offline and shared without any network access.
+
+import { calcChange, compareDurations, compareMetrics, repoStatus } from "./comparison.js";
+import { formatDuration, formatNumber, describeLineStatsModes, TRUNCATED_LINES_NOTE } from "./formatters.js";
+import { repoLabeler } from "./owners.js";
+import type { ComparisonStats, OutputOptions, OwnerTotals, RepoStats, TotalStats } from "./types.js";
+
+// Charts with more bars than this only show the largest values
+const MAX_CHART_BARS = 20;
+
+const PERIOD_COLORS = ["#4c78a8", "#f58518", "#54a24b", "#e45756", "#72b7b2", "#b279a2", "#eeca3b", "#9d755d"];
+
+const STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; padding: 24px 32px; color: #1f2328; background: #f6f8fa; }
+  h1 { margin: 0 0 4px; font-size: 24px; }
+  h2 { margin: 32px 0 12px; font-size: 18px; }
+  .meta { color: #59636e; margin: 0 0 24px; }
+  .cards { display: flex; flex-wrap: wrap; gap: 12px; }
+  .card { background: #fff; border: 1px solid #d1d9e0; border-radius: 6px; padding: 12px 16px; min-width: 140px; }
+  .card .label { color: #59636e; font-size: 12px; text-transform: uppercase; letter-spacing: 0.04em; }
+  .card .value { font-size: 22px; font-weight: 600; margin-top: 4px; }
+  .card .change { font-size: 12px; color: #59636e; margin-top: 2px; }
+  .charts { display: flex; flex-wrap: wrap; gap: 16px; }
+  .chart { background: #fff; border: 1px solid #d1d9e0; border-radius: 6px; padding: 12px; }
+  .chart h3 { margin: 0 0 8px; font-size: 14px; }
+  .chart text { font-size: 12px; fill: #1f2328; }
+  .legend { font-size: 12px; margin-bottom: 6px; }
+  .legend span { display: inline-block; width: 10px; height: 10px; margin: 0 4px 0 12px; vertical-align: middle; }
+  table { border-collapse: collapse; background: #fff; border: 1px solid #d1d9e0; font-size: 13px; }
+  th, td { padding: 6px 10px; border-bottom: 1px solid #d1d9e0; text-align: right; white-space: nowrap; }
+  th:first-child, td:first-child { text-align: left; }
+  th { background: #f6f8fa; cursor: pointer; user-select: none; }
+  th[aria-sort="ascending"]::after { content: " \\25B2"; }
+  th[aria-sort="descending"]::after { content: " \\25BC"; }
+  tr.archived td { color: #59636e; }
+  .note { color: #59636e; font-size: 12px; }
+`;
+
+// Click a header to sort by that column; numeric cells carry their raw value in data-sort
+const SORT_SCRIPT = `
+  document.querySelectorAll("table.sortable").forEach(function (table) {
+    table.querySelectorAll("th").forEach(function (header, column) {
+      header.addEventListener("click", function () {
+        var ascending = header.getAttribute("aria-sort") !== "ascending";
+        table.querySelectorAll("th").forEach(function (other) { other.removeAttribute("aria-sort"); });
+        header.setAttribute("aria-sort", ascending ? "ascending" : "descending");
+        var body = table.tBodies[0];
+        var rows = Array.prototype.slice.call(body.rows);
+        rows.sort(function (a, b) {
+          var x = a.cells[column].getAttribute("data-sort") || a.cells[column].textContent;
+          var y = b.cells[column].getAttribute("data-sort") || b.cells[column].textContent;
+          var result = isNaN(parseFloat(x)) || isNaN(parseFloat(y)) ? x.localeCompare(y) : parseFloat(x) - parseFloat(y);
+          return ascending ? result : -result;
+        });
+        rows.forEach(function (row) { body.appendChild(row); });
+      });
+    });
+  });
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function page(title: string, body: string[]): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLE}</style>`,
+    "</head>",
+    "<body>",
+    ...body,
+    `<script>${SORT_SCRIPT}</script>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function card(label: string, value: string, change?: string): string {
+  const changeLine = change ? `<div class="change">${escapeHtml(change)}</div>` : "";
+  return `<div class="card"><div class="label">${escapeHtml(label)}</div><div class="value">${escapeHtml(value)}</div>${changeLine}</div>`;
+}
+
+interface ChartSeries {
+  label: string;
+  values: number[];
+}
+
+// Horizontal bar chart. With several values per label (one per series) the bars are grouped,
+// which is how the comparison report puts two periods side by side.
+function barChart(title: string, series: ChartSeries[], legend: string[] = []): string {
+  const rows = [...series]
+    .sort((a, b) => Math.max(...b.values) - Math.max(...a.values))
+    .slice(0, MAX_CHART_BARS);
+  const barsPerRow = Math.max(1, ...rows.map((row) => row.values.length));
+  const max = Math.max(1, ...rows.flatMap((row) => row.values));
+
+  const labelWidth = 180;
+  const barArea = 320;
+  const barHeight = 14;
+  const rowHeight = barHeight * barsPerRow + 8;
+  const width = labelWidth + barArea + 70;
+  const height = Math.max(rowHeight, rows.length * rowHeight);
+
+  const shapes: string[] = [];
+  rows.forEach((row, i) => {
+    const y = i * rowHeight;
+    const label = row.label.length > 26 ? row.label.substring(0, 23) + "..." : row.label;
+    shapes.push(
+      `<text x="${labelWidth - 8}" y="${y + rowHeight / 2}" text-anchor="end" dominant-baseline="middle">${escapeHtml(label)}</text>`
+    );
+    row.values.forEach((value, j) => {
+      const barWidth = Math.round((value / max) * barArea);
+      const barY = y + 4 + j * barHeight;
+      shapes.push(
+        `<rect x="${labelWidth}" y="${barY}" width="${barWidth}" height="${barHeight - 2}" fill="${PERIOD_COLORS[j % PERIOD_COLORS.length]}"><title>${escapeHtml(row.label)}: ${formatNumber(value)}</title></rect>`
+      );
+      shapes.push(
+        `<text x="${labelWidth + barWidth + 4}" y="${barY + (barHeight - 2) / 2}" dominant-baseline="middle">${formatNumber(value)}</text>`
+      );
+    });
+  });
+
+  const legendLine =
+    legend.length > 0
+      ? `<div class="legend">${legend
+          .map((name, j) => `<span style="background:${PERIOD_COLORS[j % PERIOD_COLORS.length]}"></span>${escapeHtml(name)}`)
+          .join("")}</div>`
+      : "";
+  const truncated =
+    series.length > MAX_CHART_BARS ? `<div class="note">Top ${MAX_CHART_BARS} of ${series.length}</div>` : "";
+
+  return [
+    '<div class="chart">',
+    `<h3>${escapeHtml(title)}</h3>`,
+    legendLine,
+    `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${escapeHtml(title)}">`,
+    ...shapes,
+    "</svg>",
+    truncated,
+    "</div>",
+  ].join("\n");
+}
+
+interface Column {
+  header: string;
+  // Display text and, for numbers, the raw value to sort by
+  cell: (repo: RepoStats) => { text: string; sort?: number };
+}
+
+function numberCell(value: number): { text: string; sort: number } {
+  return { text: formatNumber(value), sort: value };
+}
+
+function durationCell(hours: number | null): { text: string; sort: number } {
+  // Missing durations sort after every real value
+  return { text: formatDuration(hours), sort: hours ?? Number.MAX_SAFE_INTEGER };
+}
+
+function repoColumns(options: OutputOptions, showOwner: boolean): Column[] {
+  return [
+    ...(showOwner ? [{ header: "Owner", cell: (repo: RepoStats) => ({ text: repo.owner }) }] : []),
+    { header: "Repository", cell: (repo) => ({ text: repo.isArchived ? `${repo.name} (archived)` : repo.name }) },
+    { header: "Commits", cell: (repo) => numberCell(repo.commits) },
+    ...(options.skipLineStats
+      ? []
+      : [
+          {
+            header: "Lines +",
+            cell: (repo: RepoStats) => ({
+              text: formatNumber(repo.linesAdded) + (repo.lineStatsTruncated ? " *" : ""),
+              sort: repo.linesAdded,
+            }),
+          },
+          { header: "Lines -", cell: (repo: RepoStats) => numberCell(repo.linesDeleted) },
+          { header: "Net", cell: (repo: RepoStats) => numberCell(repo.totalLines) },
+        ]),
+    { header: "PRs", cell: (repo) => numberCell(repo.pullRequests) },
+    { header: "Merged", cell: (repo) => numberCell(repo.pullRequestMetrics.merged) },
+    { header: "Open PRs", cell: (repo) => numberCell(repo.pullRequestMetrics.openAtEnd) },
+    { header: "Median Merge", cell: (repo) => durationCell(repo.pullRequestMetrics.medianHoursToMerge) },
+    { header: "Contributors", cell: (repo) => numberCell(repo.contributors) },
+    ...(options.skipIssueStats
+      ? []
+      : [
+          { header: "Issues +", cell: (repo: RepoStats) => numberCell(repo.issuesCreated) },
+          { header: "Issues -", cell: (repo: RepoStats) => numberCell(repo.issuesClosed) },
+          { header: "Open Issues", cell: (repo: RepoStats) => numberCell(repo.openIssues) },
+        ]),
+    { header: "Releases", cell: (repo) => numberCell(repo.releases) },
+  ];
+}
+
+function repoTable(repos: RepoStats[], options: OutputOptions, showOwner: boolean): string {
+  const columns = repoColumns(options, showOwner);
+  const sortedRepos = [...repos].sort((a, b) => Number(a.isArchived) - Number(b.isArchived) || b.commits - a.commits);
+
+  const rows = sortedRepos.map((repo) => {
+    const cells = columns.map((column) => {
+      const { text, sort } = column.cell(repo);
+      const sortAttribute = sort === undefined ? "" : ` data-sort="${sort}"`;
+      return `<td${sortAttribute}>${escapeHtml(text)}</td>`;
+    });
+    return `<tr${repo.isArchived ? ' class="archived"' : ""}>${cells.join("")}</tr>`;
+  });
+
+  return [
+    '<table class="sortable">',
+    `<thead><tr>${columns.map((column) => `<th>${escapeHtml(column.header)}</th>`).join("")}</tr></thead>`,
+    "<tbody>",
+    ...rows,
+    "</tbody>",
+    "</table>",
+  ].join("\n");
+}
+
+// Subtotals for each owner, for runs spanning several
+function ownerTable(owners: OwnerTotals[]): string {
+  const headers = ["Owner", "Repositories", "Commits", "PRs", "Merged", "Contributors", "Releases"];
+  const rows = owners.map(({ owner, totals }) => {
+    const values = [
+      totals.repoCount,
+      totals.commits,
+      totals.pullRequests,
+      totals.pullRequestMetrics.merged,
+      totals.contributors,
+      totals.releases,
+    ];
+    const cells = values.map((value) => `<td data-sort="${value}">${formatNumber(value)}</td>`);
+    return `<tr><td>${escapeHtml(owner)}</td>${cells.join("")}</tr>`;
+  });
+
+  return [
+    '<table class="sortable">',
+    `<thead><tr>${headers.map((header) => `<th>${header}</th>`).join("")}</tr></thead>`,
+    "<tbody>",
+    ...rows,
+    "</tbody>",
+    "</table>",
+  ].join("\n");
+}
+
+// Everyone who committed in range, with the number of repositories they committed to
+function contributorTable(repos: RepoStats[]): string {
+  const repoCounts = new Map<string, number>();
+  for (const repo of repos) {
+    for (const contributor of repo.contributorsList) {
+      repoCounts.set(contributor, (repoCounts.get(contributor) ?? 0) + 1);
+    }
+  }
+
+  const contributors = Array.from(repoCounts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  return [
+    '<table class="sortable">',
+    "<thead><tr><th>Contributor</th><th>Repositories</th></tr></thead>",
+    "<tbody>",
+    ...contributors.map(
+      ([name, count]) => `<tr><td>${escapeHtml(name)}</td><td data-sort="${count}">${formatNumber(count)}</td></tr>`
+    ),
+    "</tbody>",
+    "</table>",
+  ].join("\n");
+}
+
+export function formatAsHtml(stats: TotalStats, startDate: string, endDate: string, options: OutputOptions): string {
+  const { totals } = stats;
+  const archivedCount = stats.repos.filter((r) => r.isArchived).length;
+  const activeCount = stats.repos.length - archivedCount;
+
+  const cards = [
+    card("Commits", formatNumber(totals.commits)),
+    ...(options.skipLineStats
+      ? []
+      : [card("Lines Added", formatNumber(totals.linesAdded)), card("Lines Deleted", formatNumber(totals.linesDeleted))]),
+    card("Pull Requests", formatNumber(totals.pullRequests)),
+    card("PRs Merged", formatNumber(totals.pullRequestMetrics.merged)),
+    card("Median Time to Merge", formatDuration(totals.pullRequestMetrics.medianHoursToMerge)),
+    card("Contributors", formatNumber(totals.contributors)),
+    ...(options.skipIssueStats
+      ? []
+      : [card("Issues Closed", formatNumber(totals.issuesClosed)), card("Open Issues", formatNumber(totals.openIssues))]),
+    card("Releases", formatNumber(totals.releases)),
+  ];
+
+  const metaLines = [
+    `${escapeHtml(startDate)} to ${escapeHtml(endDate)}`,
+    `${stats.repos.length} repositories (${activeCount} active, ${archivedCount} archived)`,
+    ...(options.skipLineStats ? [] : [`Line stats: ${escapeHtml(describeLineStatsModes(stats.repos))}`]),
+    `Generated ${escapeHtml(new Date().toISOString())}`,
+  ];
+
+  const repoLabel = repoLabeler(stats.repos);
+  const body = [
+    "<h1>GitHub Activity Metric Report</h1>",
+    `<p class="meta">${metaLines.join(" &middot; ")}</p>`,
+    `<div class="cards">${cards.join("")}</div>`,
+    ...(stats.owners ? ["<h2>Owners</h2>", ownerTable(stats.owners)] : []),
+    "<h2>Activity by Repository</h2>",
+    '<div class="charts">',
+    barChart("Commits", stats.repos.map((repo) => ({ label: repoLabel(repo), values: [repo.commits] }))),
+    barChart("Pull Requests", stats.repos.map((repo) => ({ label: repoLabel(repo), values: [repo.pullRequests] }))),
+    "</div>",
+    "<h2>Repositories</h2>",
+    repoTable(stats.repos, options, Boolean(stats.owners)),
+  ];
+
+  if (!options.skipLineStats && stats.repos.some((repo) => repo.lineStatsTruncated)) {
+    body.push(`<p class="note">* ${escapeHtml(TRUNCATED_LINES_NOTE)}</p>`);
+  }
+
+  body.push("<h2>Contributors</h2>", contributorTable(stats.repos));
+
+  return page(`GitHub Activity Report ${startDate} to ${endDate}`, body);
+}
+
+export function formatComparisonAsHtml(comparison: ComparisonStats, options: OutputOptions): string {
+  const periods = comparison.periods;
+  const latest = periods[periods.length - 1].stats.totals;
+  const previous = periods[periods.length - 2].stats.totals;
+  const metrics = compareMetrics(options);
+  const legend = periods.map((period) => `${period.label}: ${period.start} to ${period.end}`);
+
+  // Every period's value, then the change from the period before the latest one
+  const trend = (values: number[], before: number, after: number): string => {
+    const { absolute, percentage } = calcChange(before, after);
+    const sign = absolute >= 0 ? "+" : "";
+    return `${values.map(formatNumber).join(" → ")} (${sign}${formatNumber(absolute)}, ${sign}${percentage}%)`;
+  };
+
+  const totalsSeries = (lines: boolean) =>
+    metrics
+      .filter((metric) => Boolean(metric.lines) === lines)
+      .map((metric) => ({ label: metric.label, values: periods.map((period) => metric.value(period.stats.totals)) }));
+
+  // All repos from any period, so repos that appeared or went quiet still show up
+  const repoValues = (pick: (repo: RepoStats) => number) =>
+    comparison.repos.map((repo) => ({
+      label: repo.name,
+      values: repo.periods.map((stats) => (stats ? pick(stats) : 0)),
+    }));
+
+  const changeRows = periods.slice(1).flatMap((period, i) => {
+    const withStatus = (status: string) =>
+      comparison.repos.filter((repo) => repoStatus(repo, i + 1) === status).map((repo) => escapeHtml(repo.name));
+    const appeared = withStatus("appeared");
+    const disappeared = withStatus("disappeared");
+    if (appeared.length === 0 && disappeared.length === 0) return [];
+    return [
+      `<tr><td>${escapeHtml(period.label)}</td><td>${appeared.join(", ") || "-"}</td><td>${disappeared.join(", ") || "-"}</td></tr>`,
+    ];
+  });
+
+  const body = [
+    "<h1>Period Comparison Report</h1>",
+    `<p class="meta">${legend.map(escapeHtml).join(" &middot; ")} &middot; Generated ${escapeHtml(new Date().toISOString())}</p>`,
+    `<div class="cards">${metrics
+      .map((metric) =>
+        card(
+          metric.label,
+          formatNumber(metric.value(latest)),
+          trend(
+            periods.map((period) => metric.value(period.stats.totals)),
+            metric.value(previous),
+            metric.value(latest)
+          )
+        )
+      )
+      .join("")}</div>`,
+    "<h2>Totals by Period</h2>",
+    '<div class="charts">',
+    barChart("Activity", totalsSeries(false), legend),
+    ...(options.skipLineStats ? [] : [barChart("Lines", totalsSeries(true), legend)]),
+    "</div>",
+    "<h2>Activity by Repository</h2>",
+    '<div class="charts">',
+    barChart("Commits", repoValues((repo) => repo.commits), legend),
+    barChart("Pull Requests", repoValues((repo) => repo.pullRequests), legend),
+    "</div>",
+    "<h2>Durations</h2>",
+    '<table class="sortable">',
+    `<thead><tr><th>Metric</th>${periods.map((period) => `<th>${escapeHtml(period.label)}</th>`).join("")}</tr></thead>`,
+    "<tbody>",
+    ...compareDurations(options).map((duration) => {
+      const cells = periods.map((period) => {
+        const hours = duration.value(period.stats.totals);
+        return `<td data-sort="${hours ?? ""}">${formatDuration(hours)}</td>`;
+      });
+      return `<tr><td>${escapeHtml(duration.label)}</td>${cells.join("")}</tr>`;
+    }),
+    "</tbody>",
+    "</table>",
+  ];
+
+  if (changeRows.length > 0) {
+    body.push(
+      "<h2>Repository Changes</h2>",
+      "<table>",
+      "<thead><tr><th>Period</th><th>Appeared</th><th>Disappeared</th></tr></thead>",
+      `<tbody>${changeRows.join("")}</tbody>`,
+      "</table>"
+    );
+  }
+
+  return page(`Period Comparison ${periods.map((period) => period.label).join(" vs ")}`, body);
+}
@@ -0,0 +1,228 @@
+import { createHash } from "crypto";
+import { mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { CacheConfig } from "./types.js";
+
+const DEFAULT_CACHE_DIRECTORY = ".cache/github";
+// Listings change all the time, so by default every cached listing is revalidated with its ETag
+const DEFAULT_TTL_SECONDS = 0;
+// Entries not stored or revalidated for this long are deleted
+const DEFAULT_MAX_AGE_DAYS = 30;
+const DEFAULT_MAX_ENTRIES = 50000;
+const SHA = /^[0-9a-f]{40}$/;
+
+// Headers that describe the state of the API at request time rather than the resource itself.
+// Replaying them from the cache would make the client believe stale rate limit numbers.
+const VOLATILE_HEADERS = ["x-ratelimit-limit", "x-ratelimit-remaining", "x-ratelimit-reset", "x-ratelimit-used", "date"];
+
+// The body handed back to Octokit is already decoded, so these no longer describe it
+const TRANSFER_HEADERS = ["content-encoding", "content-length", "transfer-encoding"];
+
+export type CacheCategory = "repositories" | "commits" | "pullRequests" | "issues" | "releases";
+
+export interface CacheStats {
+  hits: number;
+  revalidated: number;
+  misses: number;
+}
+
+interface CacheEntry {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  storedAt: number;
+}
+
+// Map a request URL (e.g. ".../repos/{owner}/{repo}/pulls?page=2") to a TTL category
+export function getCacheCategory(url: string): CacheCategory {
+  const segments = new URL(url).pathname.split("/").filter(Boolean);
+  const reposIndex = segments.indexOf("repos");
+  const resource = reposIndex >= 0 ? segments[reposIndex + 3] : undefined;
+
+  switch (resource) {
+    case "commits":
+    case "compare":
+      return "commits";
+    case "pulls":
+      return "pullRequests";
+    case "issues":
+      return "issues";
+    case "releases":
+      return "releases";
+    default:
+      return "repositories";
+  }
+}
+
+// A single commit or a comparison between two commits, addressed by SHA, never changes, so it is
+// served from disk until the entry is pruned
+export function isImmutableResource(url: string): boolean {
+  const segments = new URL(url).pathname.split("/").filter(Boolean);
+  const reposIndex = segments.indexOf("repos");
+  if (reposIndex < 0 || segments.length !== reposIndex + 5) return false;
+
+  const [resource, ref] = segments.slice(reposIndex + 3);
+  if (resource === "commits") return SHA.test(ref);
+  if (resource === "compare") {
+    const sides = ref.split("...");
+    return sides.length === 2 && sides.every((side) => SHA.test(side));
+  }
+  return false;
+}
+
+// Identifies the credential a request was made with, so one token's or installation's responses
+// are never replayed to another that may not see the same repositories
+export type CredentialIdentity = (authorization: string) => string;
+
+// On-disk cache that sits below Octokit at the fetch layer, so cached and revalidated
+// responses look like ordinary 200 responses to every Octokit hook and plugin.
+export class ResponseCache {
+  private directory: string;
+  private ttlSeconds: CacheConfig["ttlSeconds"];
+  private maxAgeDays: number;
+  private maxEntries: number;
+  private identify: CredentialIdentity;
+  private stats: CacheStats = { hits: 0, revalidated: 0, misses: 0 };
+
+  // Without an identity function, the authorization header itself is hashed into the key
+  constructor(config: CacheConfig = {}, identify: CredentialIdentity = (authorization) => authorization) {
+    this.directory = config.directory ?? DEFAULT_CACHE_DIRECTORY;
+    this.ttlSeconds = config.ttlSeconds ?? {};
+    this.maxAgeDays = config.maxAgeDays ?? DEFAULT_MAX_AGE_DAYS;
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.identify = identify;
+  }
+
+  createFetch(baseFetch: typeof fetch = globalThis.fetch): typeof fetch {
+    return async (input, init) => {
+      const method = (init?.method ?? "GET").toUpperCase();
+      const url = input instanceof Request ? input.url : input.toString();
+      if (method !== "GET") {
+        return baseFetch(input, init);
+      }
+
+      const authorization = new Headers(init?.headers).get("authorization") ?? "";
+      const key = createHash("sha256").update(`${this.identify(authorization)}\n${url}`).digest("hex");
+      const entry = this.read(key);
+
+      if (entry && Date.now() - entry.storedAt < this.getTtlSeconds(url) * 1000) {
+        this.stats.hits++;
+        return toResponse(entry, {});
+      }
+
+      // Stale entry: ask GitHub whether it changed. 304 responses don't count against the rate limit.
+      const headers = new Headers(init?.headers);
+      if (entry?.headers.etag) headers.set("if-none-match", entry.headers.etag);
+      if (entry?.headers["last-modified"]) headers.set("if-modified-since", entry.headers["last-modified"]);
+
+      const response = await baseFetch(input, { ...init, headers });
+
+      if (entry && response.status === 304) {
+        this.stats.revalidated++;
+        this.write(key, { ...entry, storedAt: Date.now() });
+        // Keep the fresh headers so rate limit tracking stays accurate
+        return toResponse(entry, Object.fromEntries(response.headers));
+      }
+
+      this.stats.misses++;
+      if (response.status === 200) {
+        const body = await response.text();
+        const entryToStore: CacheEntry = {
+          status: response.status,
+          headers: stripVolatileHeaders(Object.fromEntries(response.headers)),
+          body,
+          storedAt: Date.now(),
+        };
+        this.write(key, entryToStore);
+        return toResponse(entryToStore, Object.fromEntries(response.headers));
+      }
+
+      return response;
+    };
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  clear(): void {
+    rmSync(this.directory, { recursive: true, force: true });
+  }
+
+  // Delete entries older than maxAgeDays, then the oldest ones beyond maxEntries. Returns how many
+  // were deleted.
+  prune(now: number = Date.now()): number {
+    let buckets: string[];
+    try {
+      buckets = readdirSync(this.directory);
+    } catch {
+      return 0;
+    }
+
+    const entries: Array<{ path: string; mtime: number }> = [];
+    for (const bucket of buckets) {
+      let files: string[];
+      try {
+        files = readdirSync(join(this.directory, bucket));
+      } catch {
+        continue;
+      }
+      for (const file of files) {
+        const path = join(this.directory, bucket, file);
+        entries.push({ path, mtime: statSync(path).mtimeMs });
+      }
+    }
+
+    // Newest first; revalidation rewrites an entry, so it counts as recently used
+    entries.sort((a, b) => b.mtime - a.mtime);
+    const maxAgeMs = this.maxAgeDays * 24 * 60 * 60 * 1000;
+    const expired = entries.filter((entry, index) => index >= this.maxEntries || now - entry.mtime > maxAgeMs);
+    for (const entry of expired) {
+      rmSync(entry.path, { force: true });
+    }
+    return expired.length;
+  }
+
+  private getTtlSeconds(url: string): number {
+    if (isImmutableResource(url)) return Infinity;
+    return this.ttlSeconds?.[getCacheCategory(url)] ?? this.ttlSeconds?.default ?? DEFAULT_TTL_SECONDS;
+  }
+
+  private entryPath(key: string): string {
+    return join(this.directory, key.substring(0, 2), `${key}.json`);
+  }
+
+  private read(key: string): CacheEntry | null {
+    try {
+      return JSON.parse(readFileSync(this.entryPath(key), "utf-8")) as CacheEntry;
+    } catch {
+      // Missing or corrupt entries are treated as a miss
+      return null;
+    }
+  }
+
+  private write(key: string, entry: CacheEntry): void {
+    mkdirSync(join(this.directory, key.substring(0, 2)), { recursive: true });
+    writeFileSync(this.entryPath(key), JSON.stringify(entry), "utf-8");
+  }
+}
+
+function toResponse(entry: CacheEntry, freshHeaders: Record<string, string>): Response {
+  const headers = omitHeaders({ ...entry.headers, ...freshHeaders }, TRANSFER_HEADERS);
+  headers["content-type"] = entry.headers["content-type"] ?? "application/json";
+  return new Response(entry.body, { status: entry.status, headers });
+}
+
+function stripVolatileHeaders(headers: Record<string, string>): Record<string, string> {
+  return omitHeaders(headers, [...VOLATILE_HEADERS, ...TRANSFER_HEADERS]);
+}
+
+function omitHeaders(headers: Record<string, string>, names: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!names.includes(name.toLowerCase())) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,79 @@
+// Contributor identity resolution: maps the logins and commit emails GitHub reports to one
+// canonical name per person, using config aliases and a .mailmap file, and recognizes bots.
+
+import { readFileSync } from "fs";
+import type { IdentityConfig } from "./types.js";
+
+// Bot noreply addresses look like "49699333+dependabot[bot]@users.noreply.github.com"
+const BOT_NOREPLY_EMAIL = /^\d+\+.+\[bot\]@users\.noreply\.github\.com$/i;
+
+// A .mailmap line: optional proper name and email, then the email (and optional name) found in commits
+const MAILMAP_LINE = /^([^<]*?)\s*<([^>]+)>(?:\s*[^<]*?\s*<([^>]+)>)?\s*$/;
+
+export function isBotIdentity(login: string | null, email: string | null = null): boolean {
+  return Boolean(login?.toLowerCase().endsWith("[bot]") || (email && BOT_NOREPLY_EMAIL.test(email)));
+}
+
+// Map commit emails to the canonical name (or email) of a .mailmap file. Entries are matched
+// by commit email only, since the commit author name isn't part of the collected history.
+export function parseMailmap(content: string): Map<string, string> {
+  const entries = new Map<string, string>();
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (!line) continue;
+
+    const match = line.match(MAILMAP_LINE);
+    if (!match) continue;
+
+    const [, properName, firstEmail, commitEmail] = match;
+    // "Proper Name <commit@email>" names an email; "... <proper@email> ... <commit@email>" replaces one
+    const fromEmail = commitEmail ?? firstEmail;
+    const canonical = properName || (commitEmail ? firstEmail : null);
+    if (canonical) {
+      entries.set(fromEmail.toLowerCase(), canonical);
+    }
+  }
+
+  return entries;
+}
+
+export class IdentityResolver {
+  private aliases: Map<string, string>;
+  private mailmap: Map<string, string>;
+  private excludeBots: boolean;
+
+  constructor(config: IdentityConfig = {}, mailmap?: Map<string, string>) {
+    // Logins and emails are case-insensitive on GitHub
+    this.aliases = new Map(
+      Object.entries(config.aliases ?? {}).map(([identity, canonical]) => [identity.toLowerCase(), canonical])
+    );
+    this.mailmap = mailmap ?? (config.mailmap ? parseMailmap(readFileSync(config.mailmap, "utf-8")) : new Map());
+    this.excludeBots = config.excludeBots ?? false;
+  }
+
+  // Canonical name for a commit author, or null when there is none or it is an excluded bot.
+  // Linked logins win over the mailmap, so commits and pull requests by the same account agree;
+  // the mailmap merges unlinked emails, and aliases can map any result onto a login.
+  resolveCommitAuthor(login: string | null, email: string | null): string | null {
+    if (this.excludeBots && isBotIdentity(login, email)) return null;
+
+    const identity =
+      (login && this.aliases.get(login.toLowerCase())) ??
+      (email && this.aliases.get(email.toLowerCase())) ??
+      login ??
+      (email && this.mailmap.get(email.toLowerCase())) ??
+      email;
+    return identity ? this.alias(identity) : null;
+  }
+
+  // Canonical name for a pull request author or reviewer, who always has a login
+  resolveLogin(login: string | null): string | null {
+    if (!login || (this.excludeBots && isBotIdentity(login))) return null;
+    return this.alias(login);
+  }
+
+  private alias(identity: string): string {
+    return this.aliases.get(identity.toLowerCase()) ?? identity;
+  }
+}
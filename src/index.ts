@@ -1,32 +1,50 @@
-import { readFileSync } from "fs";
+#!/usr/bin/env node
+import { existsSync } from "fs";
 import { resolve } from "path";
 import { GitHubClient, GitHubApiError } from "./github-client.js";
-import {
-  printResults,
-  initProgress,
-  updateRepoStatus,
-  completeRepo,
-  clearProgress,
-  setQuietMode,
-} from "./output.js";
+import { ResponseCache } from "./http-cache.js";
+import { formatComparisonAsHtml } from "./html-report.js";
+import { buildComparison, resolveComparePeriods, type PeriodRange } from "./comparison.js";
+import { Checkpoint } from "./checkpoint.js";
+import { HistoryStore } from "./history-store.js";
+import { loadSqlite, sqliteRun, writeSqlite, type SqliteRun } from "./sqlite-export.js";
+import { formatAsOpenMetrics, startMetricsServer, writeMetricsFile, type RateLimitGauge } from "./openmetrics.js";
+import { ApiServer } from "./server.js";
+import { Daemon, expandOutputPath, type ApiUsage } from "./daemon.js";
+import { ConfigError, loadConfigFile, validateConfig } from "./config.js";
+import { calculateTimeSeries, calculateTotals, calculateUserStats, processRepos, queueOptions } from "./analysis.js";
+import { repoLabeler, resolveOwners } from "./owners.js";
+import { INTERVALS } from "./timeseries.js";
+import { printResults, clearProgress } from "./output.js";
+import { createProgressListener, PROGRESS_MODES, type ProgressMode } from "./progress.js";
 import {
   formatUserStatsAsJson,
   formatUserStatsAsCsv,
   formatUserStatsAsMarkdown,
   formatUserStatsAsTable,
+  formatReviewerStatsAsJson,
+  formatReviewerStatsAsCsv,
+  formatReviewerStatsAsMarkdown,
+  formatReviewerStatsAsTable,
   formatComparisonAsJson,
+  formatComparisonAsCsv,
+  formatComparisonAsMarkdown,
   formatComparisonAsTable,
+  formatTimeSeriesAsJson,
+  formatTimeSeriesAsCsv,
+  formatTimeSeriesAsMarkdown,
+  formatTimeSeriesAsTable,
   writeOutput,
 } from "./formatters.js";
 import type {
   Config,
   TotalStats,
   RepoStats,
-  RepoInfo,
   OutputFormat,
   OutputOptions,
-  UserStats,
-  ComparisonStats,
+  ComparisonPeriod,
+  Interval,
+  ProgressListener,
 } from "./types.js";
 
 interface CliOptions {
@@ -37,20 +55,61 @@ interface CliOptions {
   outputFile?: string;
   dryRun: boolean;
   byUser: boolean;
-  compare?: { start1: string; end1: string; start2: string; end2: string };
+  byReviewer: boolean;
+  interval?: Interval;
+  noCache: boolean;
+  clearCache: boolean;
+  // Raw --compare arguments, resolved to periods once the end date is known
+  compare?: string[];
+  resume: boolean;
+  incremental: boolean;
+  // Start the HTTP API instead of running a single report
+  serve: boolean;
+  // Write the config's scheduled reports whenever they come up
+  daemon: boolean;
+  // Where to serve the API, or the openmetrics format at /metrics instead of writing it once
+  listen?: { host?: string; port: number };
+  // How long served results are reused before they are collected again
+  refreshMinutes: number;
+  // Defaults to the bar for table output in a terminal run, and none otherwise
+  progress?: ProgressMode;
+  // Where jsonl progress events go instead of stderr
+  progressFile?: string;
 }
 
+const DEFAULT_SERVE_ADDRESS = { host: "127.0.0.1", port: 3000 };
+
+// The checkpoint of the analysis in progress, so an interrupt or error can point at --resume
+let activeCheckpoint: Checkpoint | null = null;
+
 function parseArgs(): CliOptions {
-  const args = process.argv.slice(2);
+  // --name=value is the same as --name value
+  const args = process.argv
+    .slice(2)
+    .flatMap((arg) => (arg.startsWith("--") && arg.includes("=") ? [arg.substring(0, arg.indexOf("=")), arg.substring(arg.indexOf("=") + 1)] : [arg]));
   const options: CliOptions = {
     format: "table",
     dryRun: false,
     byUser: false,
+    byReviewer: false,
+    noCache: false,
+    clearCache: false,
+    resume: false,
+    incremental: false,
+    serve: false,
+    daemon: false,
+    refreshMinutes: 60,
   };
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     switch (arg) {
+      case "serve":
+        options.serve = true;
+        break;
+      case "daemon":
+        options.daemon = true;
+        break;
       case "--config":
         options.configPath = args[++i];
         break;
@@ -62,10 +121,10 @@ function parseArgs(): CliOptions {
         break;
       case "--format":
         const format = args[++i];
-        if (["table", "json", "csv", "markdown"].includes(format)) {
+        if (["table", "json", "csv", "markdown", "html", "sqlite", "openmetrics"].includes(format)) {
           options.format = format as OutputFormat;
         } else {
-          console.error(`Error: Invalid format "${format}". Valid options: table, json, csv, markdown`);
+          console.error(`Error: Invalid format "${format}". Valid options: table, json, csv, markdown, html, sqlite, openmetrics`);
           process.exit(1);
         }
         break;
@@ -79,17 +138,69 @@ function parseArgs(): CliOptions {
       case "--by-user":
         options.byUser = true;
         break;
-      case "--compare":
-        // Expects format: --compare start1 end1 start2 end2
-        const start1 = args[++i];
-        const end1 = args[++i];
-        const start2 = args[++i];
-        const end2 = args[++i];
-        if (!start1 || !end1 || !start2 || !end2) {
-          console.error("Error: --compare requires 4 dates: start1 end1 start2 end2");
+      case "--by-reviewer":
+        options.byReviewer = true;
+        break;
+      case "--interval":
+        const interval = args[++i];
+        if (INTERVALS.includes(interval as Interval)) {
+          options.interval = interval as Interval;
+        } else {
+          console.error(`Error: Invalid interval "${interval}". Valid options: ${INTERVALS.join(", ")}`);
           process.exit(1);
         }
-        options.compare = { start1, end1, start2, end2 };
+        break;
+      case "--no-cache":
+        options.noCache = true;
+        break;
+      case "--resume":
+        options.resume = true;
+        break;
+      case "--incremental":
+        options.incremental = true;
+        break;
+      case "--listen": {
+        // [host:]port
+        const address = args[++i] ?? "";
+        const separator = address.lastIndexOf(":");
+        const port = Number(address.substring(separator + 1));
+        if (!Number.isInteger(port) || port < 1 || port > 65535) {
+          console.error(`Error: Invalid --listen address "${address}". Use a port or host:port, e.g. 9464`);
+          process.exit(1);
+        }
+        options.listen = { host: separator > 0 ? address.substring(0, separator) : undefined, port };
+        break;
+      }
+      case "--refresh": {
+        const minutes = Number(args[++i]);
+        if (!(minutes > 0)) {
+          console.error("Error: --refresh takes a number of minutes, e.g. --refresh 30");
+          process.exit(1);
+        }
+        options.refreshMinutes = minutes;
+        break;
+      }
+      case "--progress": {
+        const mode = args[++i];
+        if (!PROGRESS_MODES.includes(mode as ProgressMode)) {
+          console.error(`Error: Invalid progress mode "${mode}". Valid options: ${PROGRESS_MODES.join(", ")}`);
+          process.exit(1);
+        }
+        options.progress = mode as ProgressMode;
+        break;
+      }
+      case "--progress-file":
+        options.progressFile = args[++i];
+        break;
+      case "--clear-cache":
+        options.clearCache = true;
+        break;
+      case "--compare":
+        // Takes every argument up to the next option: ranges, presets or start/end date pairs
+        options.compare = [];
+        while (i + 1 < args.length && !args[i + 1].startsWith("-")) {
+          options.compare.push(args[++i]);
+        }
         break;
       case "--help":
         printUsage();
@@ -100,178 +211,118 @@ function parseArgs(): CliOptions {
   return options;
 }
 
-function loadConfig(configPath?: string): Config {
-  const path = configPath ?? resolve(process.cwd(), "config.json");
+// Without --config, use config.json, or config.yaml / config.yml when only those exist
+function defaultConfigPath(): string {
+  const candidates = ["config.json", "config.yaml", "config.yml"].map((name) => resolve(process.cwd(), name));
+  return candidates.find((candidate) => existsSync(candidate)) ?? candidates[0];
+}
+
+function loadConfig(path: string): Config {
+  if (!existsSync(path)) {
+    console.error(`Error: Configuration file not found at ${path}`);
+    console.error("Please create a config.json file based on the template.");
+    process.exit(1);
+  }
 
+  return exitOnConfigError(() => {
+    const { config, warnings } = loadConfigFile(path);
+    for (const warning of warnings) {
+      console.warn(`Warning: ${warning}`);
+    }
+    return config;
+  });
+}
+
+// Configuration problems end the CLI with their message
+function exitOnConfigError<T>(check: () => T): T {
   try {
-    const content = readFileSync(path, "utf-8");
-    return JSON.parse(content) as Config;
+    return check();
   } catch (error) {
-    if (error instanceof Error && "code" in error && (error as NodeJS.ErrnoException).code === "ENOENT") {
-      console.error(`Error: Configuration file not found at ${path}`);
-      console.error("Please create a config.json file based on the template.");
+    if (error instanceof ConfigError) {
+      console.error(`Error: ${error.message}`);
       process.exit(1);
     }
     throw error;
   }
 }
 
-function validateConfig(config: Config): void {
-  if (!config.github.token || config.github.token === "YOUR_GITHUB_PERSONAL_ACCESS_TOKEN") {
-    console.error("Error: GitHub token not configured in config.json");
-    process.exit(1);
-  }
-
-  if (!config.github.organization || config.github.organization === "YOUR_ORG_NAME") {
-    console.error("Error: GitHub organization not configured in config.json");
-    process.exit(1);
-  }
-
-  const startDate = new Date(config.dateRange.startDate);
-  const endDate = new Date(config.dateRange.endDate);
-
-  if (isNaN(startDate.getTime())) {
-    console.error("Error: Invalid start date format. Use YYYY-MM-DD");
-    process.exit(1);
-  }
-
-  if (isNaN(endDate.getTime())) {
-    console.error("Error: Invalid end date format. Use YYYY-MM-DD");
-    process.exit(1);
-  }
-
-  if (startDate > endDate) {
-    console.error("Error: Start date must be before end date");
+function validateDaemonConfig(config: Config): void {
+  const reports = config.daemon?.reports ?? [];
+  if (reports.length === 0) {
+    console.error("Error: No scheduled reports configured. Add them under daemon.reports in the config");
     process.exit(1);
   }
-}
-
-async function processRepos(
-  client: GitHubClient,
-  repos: RepoInfo[],
-  concurrency: number
-): Promise<RepoStats[]> {
-  const results: RepoStats[] = new Array(repos.length);
-
-  // Initialize progress tracker
-  initProgress(repos.length);
 
-  // Set up progress callback - updates the multi-line display
-  client.setProgressCallback((repoName, task) => {
-    updateRepoStatus(repoName, task);
-  });
-
-  // Process in batches for concurrency
-  for (let i = 0; i < repos.length; i += concurrency) {
-    const batch = repos.slice(i, Math.min(i + concurrency, repos.length));
-    const batchIndices = batch.map((_, idx) => i + idx);
-
-    // Mark all batch repos as starting
-    for (const repo of batch) {
-      updateRepoStatus(repo.name, "starting...");
+  const names = new Set<string>();
+  for (const report of reports) {
+    if (names.has(report.name)) {
+      console.error(`Error: Report name "${report.name}" is used more than once`);
+      process.exit(1);
     }
+    names.add(report.name);
 
-    // Process batch concurrently
-    const batchResults = await Promise.all(
-      batch.map(async (repo, batchIdx) => {
-        const stats = await client.getRepoStats(repo);
-
-        // Mark this repo as done
-        completeRepo(repo.name);
-
-        return { index: batchIndices[batchIdx], stats };
-      })
-    );
-
-    // Store results in correct order
-    for (const { index, stats } of batchResults) {
-      results[index] = stats;
+    if (report.interval && (report.format === "html" || report.format === "openmetrics")) {
+      console.error(`Error: Report "${report.name}": the ${report.format} format can't be combined with an interval`);
+      process.exit(1);
+    }
+    try {
+      expandOutputPath(report.output, { name: report.name, org: "org", start: "2000-01-01", end: "2000-01-01" });
+    } catch (error) {
+      console.error(`Error: Report "${report.name}": ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
     }
   }
-
-  clearProgress();
-  return results;
 }
 
-function calculateTotals(repos: RepoStats[]): TotalStats {
-  // Collect unique contributors across all repos (including archived)
-  const uniqueContributors = new Set<string>();
-
-  // Count stats from all repos (including archived)
-  const totals = repos.reduce(
-    (acc, repo) => {
-      // Add all contributors from this repo to the unique set
-      for (const contributor of repo.contributorsList) {
-        uniqueContributors.add(contributor);
-      }
-
-      return {
-        commits: acc.commits + repo.commits,
-        linesAdded: acc.linesAdded + repo.linesAdded,
-        linesDeleted: acc.linesDeleted + repo.linesDeleted,
-        totalLines: acc.totalLines + repo.totalLines,
-        pullRequests: acc.pullRequests + repo.pullRequests,
-        contributors: 0, // Will be set below
-        issuesCreated: 0,
-        issuesClosed: 0,
-        releases: acc.releases + repo.releases,
-        repoCount: acc.repoCount + 1,
-      };
+// Start a checkpoint for the current owners and date range, picking up an earlier run's
+// finished repos with --resume
+function openCheckpoint(config: Config, cliOptions: CliOptions): Checkpoint {
+  const checkpoint = new Checkpoint({
+    owners: resolveOwners(config).map((owner) => owner.name),
+    startDate: config.dateRange.startDate,
+    endDate: config.dateRange.endDate,
+    settings: {
+      byUser: cliOptions.byUser,
+      byReviewer: cliOptions.byReviewer,
+      interval: cliOptions.interval ?? null,
+      skipLineStats: config.options.skipLineStats,
+      lineStatsMode: config.options.lineStatsMode ?? null,
+      skipIssueStats: config.options.skipIssueStats,
+      identity: config.options.identity ?? null,
+      incremental: cliOptions.incremental,
     },
-    {
-      commits: 0,
-      linesAdded: 0,
-      linesDeleted: 0,
-      totalLines: 0,
-      pullRequests: 0,
-      contributors: 0,
-      issuesCreated: 0,
-      issuesClosed: 0,
-      releases: 0,
-      repoCount: 0,
-    }
-  );
-
-  // Set unique contributor count across all active repos
-  totals.contributors = uniqueContributors.size;
-
-  return { repos, totals };
-}
+  });
 
-function calculateUserStats(repos: RepoStats[]): UserStats[] {
-  const userMap = new Map<string, UserStats>();
-
-  for (const repo of repos) {
-    for (const contributor of repo.contributorsList) {
-      if (!userMap.has(contributor)) {
-        userMap.set(contributor, {
-          username: contributor,
-          commits: 0,
-          linesAdded: 0,
-          linesDeleted: 0,
-          pullRequests: 0,
-          repos: [],
-        });
-      }
-      const user = userMap.get(contributor)!;
-      user.repos.push(repo.name);
+  if (cliOptions.resume) {
+    // Notices go to stderr so they never mix with json or csv output
+    if (checkpoint.resume()) {
+      console.error(`  Resuming: ${checkpoint.size} repositories already analyzed\n`);
+    } else {
+      console.error("  No checkpoint to resume for this date range and these options, starting from the beginning\n");
     }
   }
 
-  // Note: Per-user line stats and PR counts require additional API calls
-  // For now, we track which repos each user contributed to
-  // Commit counts per user would require iterating through commits
+  checkpoint.start();
+  activeCheckpoint = checkpoint;
+  return checkpoint;
+}
 
-  return Array.from(userMap.values());
+// "Organization: acme" for a single organization, otherwise every owner with its type
+function describeOwners(config: Config): string {
+  const owners = resolveOwners(config);
+  if (owners.length === 1 && owners[0].type !== "user") {
+    return `Organization: ${owners[0].name}`;
+  }
+  return `Owners: ${owners.map((owner) => `${owner.name} (${owner.type ?? "org"})`).join(", ")}`;
 }
 
 async function runDryRun(config: Config, client: GitHubClient): Promise<void> {
   console.log("\n  DRY RUN - No API calls will be made to fetch statistics\n");
-  console.log(`  Organization: ${config.github.organization}`);
+  console.log(`  ${describeOwners(config)}`);
   console.log(`  Date Range: ${config.dateRange.startDate} to ${config.dateRange.endDate}\n`);
 
   console.log("  Fetching repository list...\n");
-  const repos = await client.getOrgRepos();
+  const repos = await client.getRepos();
 
   if (repos.length === 0) {
     console.log("  No repositories found matching the criteria.");
@@ -283,14 +334,15 @@ async function runDryRun(config: Config, client: GitHubClient): Promise<void> {
 
   console.log(`  Found ${repos.length} repositories (${activeCount} active, ${archivedCount} archived):\n`);
 
-  // Sort and display
-  const activeRepos = repos.filter((r) => !r.isArchived).sort((a, b) => a.name.localeCompare(b.name));
-  const archivedRepos = repos.filter((r) => r.isArchived).sort((a, b) => a.name.localeCompare(b.name));
+  // Sort and display, with owners when there are several
+  const label = repoLabeler(repos);
+  const activeRepos = repos.filter((r) => !r.isArchived).sort((a, b) => label(a).localeCompare(label(b)));
+  const archivedRepos = repos.filter((r) => r.isArchived).sort((a, b) => label(a).localeCompare(label(b)));
 
   if (activeRepos.length > 0) {
     console.log("  Active repositories:");
     for (const repo of activeRepos) {
-      console.log(`    - ${repo.name}`);
+      console.log(`    - ${label(repo)}`);
     }
     console.log();
   }
@@ -298,7 +350,7 @@ async function runDryRun(config: Config, client: GitHubClient): Promise<void> {
   if (archivedRepos.length > 0) {
     console.log("  Archived repositories:");
     for (const repo of archivedRepos) {
-      console.log(`    - ${repo.name} [archived]`);
+      console.log(`    - ${label(repo)} [archived]`);
     }
     console.log();
   }
@@ -309,69 +361,112 @@ async function runDryRun(config: Config, client: GitHubClient): Promise<void> {
   if (!config.options.skipLineStats) {
     console.log(`    - Lines of code added/deleted`);
   }
-  console.log(`    - Pull requests created`);
+  console.log(`    - Pull requests created, merged, closed and open, with time to merge and first review`);
   console.log(`    - Unique contributors`);
+  if (!config.options.skipIssueStats) {
+    console.log(`    - Issues created/closed, open backlog and median time to close`);
+  }
   console.log(`    - Releases published`);
   console.log();
 
   // Show configuration
   console.log("  Configuration:");
   console.log(`    - Max concurrent requests: ${config.options.maxConcurrentRequests}`);
+  const { concurrency, order } = queueOptions(config);
+  console.log(`    - Repositories at once: ${concurrency} (${order === "listed" ? "in listed order" : order})`);
   console.log(`    - Page size: ${config.options.pageSize}`);
+  console.log(`    - API mode: ${config.options.apiMode ?? "rest"}`);
   console.log(`    - Skip line stats: ${config.options.skipLineStats}`);
+  console.log(`    - Line stats mode: ${config.options.lineStatsMode ?? "snapshot"}`);
+  console.log(`    - Skip issue stats: ${config.options.skipIssueStats}`);
   if (config.options.includeRepos.length > 0) {
     console.log(`    - Include only: ${config.options.includeRepos.join(", ")}`);
   }
   if (config.options.excludeRepos.length > 0) {
     console.log(`    - Exclude: ${config.options.excludeRepos.join(", ")}`);
   }
+  for (const owner of resolveOwners(config)) {
+    if (owner.includeRepos) {
+      console.log(`    - Include only (${owner.name}): ${owner.includeRepos.join(", ") || "(all)"}`);
+    }
+    if (owner.excludeRepos) {
+      console.log(`    - Exclude (${owner.name}): ${owner.excludeRepos.join(", ") || "(none)"}`);
+    }
+  }
+  const identity = config.options.identity;
+  console.log(`    - Exclude bots: ${identity?.excludeBots ?? false}`);
+  if (identity?.aliases && Object.keys(identity.aliases).length > 0) {
+    console.log(`    - Identity aliases: ${Object.keys(identity.aliases).length}`);
+  }
+  if (identity?.mailmap) {
+    console.log(`    - Mailmap: ${identity.mailmap}`);
+  }
   console.log();
 }
 
 async function runComparison(
   config: Config,
   client: GitHubClient,
-  compare: { start1: string; end1: string; start2: string; end2: string },
-  cliOptions: CliOptions
+  ranges: PeriodRange[],
+  cliOptions: CliOptions,
+  progress?: ProgressListener
 ): Promise<void> {
   console.log("\n  Running Period Comparison...\n");
 
-  // Period 1
-  console.log(`  Analyzing Period 1: ${compare.start1} to ${compare.end1}`);
-  config.dateRange.startDate = compare.start1;
-  config.dateRange.endDate = compare.end1;
-
-  const repos1 = await client.getOrgRepos();
-  const repoStats1 = await processRepos(client, repos1, config.options.maxConcurrentRequests);
-  const period1 = calculateTotals(repoStats1);
-
-  // Period 2
-  console.log(`\n  Analyzing Period 2: ${compare.start2} to ${compare.end2}`);
-  config.dateRange.startDate = compare.start2;
-  config.dateRange.endDate = compare.end2;
-
-  // Clear caches for fresh data
-  client.clearBranchCache();
-
-  const repos2 = await client.getOrgRepos();
-  const repoStats2 = await processRepos(client, repos2, config.options.maxConcurrentRequests);
-  const period2 = calculateTotals(repoStats2);
+  const periods: ComparisonPeriod[] = [];
+  for (const range of ranges) {
+    console.log(`\n  Analyzing ${range.label}: ${range.start} to ${range.end}`);
+    config.dateRange.startDate = range.start;
+    config.dateRange.endDate = range.end;
+
+    // Clear caches for fresh data
+    client.clearBranchCache();
+
+    const repos = await client.getRepos();
+    const repoStats = await processRepos(client, repos, {
+      ...queueOptions(config),
+      checkpoint: openCheckpoint(config, cliOptions),
+      progress,
+    });
+    periods.push({ ...range, stats: calculateTotals(repoStats) });
+  }
 
-  const comparison: ComparisonStats = {
-    period1,
-    period2,
-    period1Range: { start: compare.start1, end: compare.end1 },
-    period2Range: { start: compare.start2, end: compare.end2 },
+  const comparison = buildComparison(periods);
+  const outputOptions: OutputOptions = {
+    format: cliOptions.format,
+    outputFile: cliOptions.outputFile,
+    skipLineStats: config.options.skipLineStats,
+    skipIssueStats: config.options.skipIssueStats,
   };
 
-  // Output comparison
-  if (cliOptions.format === "json") {
-    writeOutput(formatComparisonAsJson(comparison), cliOptions.outputFile);
-  } else {
-    formatComparisonAsTable(comparison);
+  switch (cliOptions.format) {
+    case "json":
+      writeOutput(formatComparisonAsJson(comparison, outputOptions), cliOptions.outputFile);
+      break;
+    case "csv":
+      writeOutput(formatComparisonAsCsv(comparison, outputOptions), cliOptions.outputFile);
+      break;
+    case "markdown":
+      writeOutput(formatComparisonAsMarkdown(comparison, outputOptions), cliOptions.outputFile);
+      break;
+    case "html":
+      writeOutput(formatComparisonAsHtml(comparison, outputOptions), cliOptions.outputFile);
+      break;
+    case "sqlite":
+      exportToSqlite(
+        periods.map((period) => ({
+          run: { ...sqliteRun(config, null, period.label), startDate: period.start, endDate: period.end },
+          stats: period.stats,
+        })),
+        outputOptions
+      );
+      break;
+    case "table":
+    default:
+      formatComparisonAsTable(comparison, outputOptions);
   }
 
-  console.log(`  API Rate Limit: ${client.getRateLimitRemaining()} requests remaining\n`);
+  printApiUsage(client);
 }
 
 async function runByUser(
@@ -403,19 +498,124 @@ async function runByUser(
   }
 }
 
-async function main(): Promise<void> {
-  console.log("\n  GitHub Activity Metric Extractor");
-  console.log("  ================================\n");
+async function runByReviewer(
+  config: Config,
+  repoStats: RepoStats[],
+  cliOptions: CliOptions
+): Promise<void> {
+  const reviewers = calculateUserStats(repoStats).filter((user) => user.reviews > 0);
 
+  switch (cliOptions.format) {
+    case "json":
+      writeOutput(
+        formatReviewerStatsAsJson(reviewers, config.dateRange.startDate, config.dateRange.endDate),
+        cliOptions.outputFile
+      );
+      break;
+    case "csv":
+      writeOutput(formatReviewerStatsAsCsv(reviewers), cliOptions.outputFile);
+      break;
+    case "markdown":
+      writeOutput(
+        formatReviewerStatsAsMarkdown(reviewers, config.dateRange.startDate, config.dateRange.endDate),
+        cliOptions.outputFile
+      );
+      break;
+    case "table":
+    default:
+      formatReviewerStatsAsTable(reviewers, config.dateRange.startDate, config.dateRange.endDate);
+  }
+}
+
+async function runTimeSeries(
+  config: Config,
+  repoStats: RepoStats[],
+  interval: Interval,
+  cliOptions: CliOptions
+): Promise<void> {
+  const { startDate, endDate } = config.dateRange;
+  const series = calculateTimeSeries(repoStats, interval, startDate, endDate);
+  const outputOptions: OutputOptions = {
+    format: cliOptions.format,
+    outputFile: cliOptions.outputFile,
+    skipLineStats: config.options.skipLineStats,
+    skipIssueStats: config.options.skipIssueStats,
+  };
+
+  switch (cliOptions.format) {
+    case "json":
+      writeOutput(formatTimeSeriesAsJson(series, startDate, endDate, outputOptions), cliOptions.outputFile);
+      break;
+    case "csv":
+      writeOutput(formatTimeSeriesAsCsv(series, outputOptions), cliOptions.outputFile);
+      break;
+    case "markdown":
+      writeOutput(formatTimeSeriesAsMarkdown(series, startDate, endDate, outputOptions), cliOptions.outputFile);
+      break;
+    case "table":
+    default:
+      formatTimeSeriesAsTable(series, startDate, endDate, outputOptions);
+  }
+}
+
+async function main(): Promise<void> {
   const cliOptions = parseArgs();
 
-  // Set quiet mode for non-table formats
-  if (cliOptions.format !== "table") {
-    setQuietMode(true);
+  // Only the table report shares stdout with the banner; json, csv or openmetrics written there must parse
+  const banner = cliOptions.format === "table" ? console.log : console.error;
+  banner("\n  GitHub Activity Metric Extractor");
+  banner("  ================================\n");
+
+  if (cliOptions.format === "html" && (cliOptions.byUser || cliOptions.byReviewer || cliOptions.interval)) {
+    console.error("Error: The html format is available for the standard report and --compare only");
+    process.exit(1);
+  }
+  if (cliOptions.format === "sqlite" && (cliOptions.byUser || cliOptions.byReviewer)) {
+    console.error("Error: The sqlite format is available for the standard report, --interval and --compare only");
+    process.exit(1);
+  }
+  const breakdown = cliOptions.byUser || cliOptions.byReviewer || cliOptions.interval || cliOptions.compare;
+  if (cliOptions.format === "openmetrics" && breakdown) {
+    console.error("Error: The openmetrics format is available for the standard report only");
+    process.exit(1);
+  }
+  if (cliOptions.listen && !cliOptions.serve && cliOptions.format !== "openmetrics") {
+    console.error("Error: --listen serves the openmetrics format; add --format openmetrics");
+    process.exit(1);
+  }
+  if (cliOptions.format === "sqlite" && !cliOptions.outputFile) {
+    console.error("Error: The sqlite format needs a database file, e.g. --output metrics.db");
+    process.exit(1);
+  }
+  // Before collecting, rather than failing once everything has been fetched
+  if (cliOptions.format === "sqlite") {
+    try {
+      loadSqlite();
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+  // The history store keeps commits, pull requests, issues and releases, but not per-author review activity
+  if (cliOptions.incremental && (cliOptions.byUser || cliOptions.byReviewer)) {
+    console.error("Error: --incremental can't be combined with --by-user or --by-reviewer");
+    process.exit(1);
+  }
+
+  if (cliOptions.progressFile && cliOptions.progress !== "jsonl") {
+    console.error("Error: --progress-file is for the jsonl progress events; add --progress jsonl");
+    process.exit(1);
   }
+  // The bar only suits the table report; a server or daemon has no terminal to draw it on
+  const longRunning = cliOptions.serve || cliOptions.daemon || cliOptions.listen;
+  const progress = createProgressListener(
+    cliOptions.progress ?? (cliOptions.format === "table" && !longRunning ? "bar" : "none"),
+    cliOptions.progressFile
+  );
 
   // Load and validate configuration
-  const config = loadConfig(cliOptions.configPath);
+  const configPath = cliOptions.configPath ?? defaultConfigPath();
+  const config = loadConfig(configPath);
 
   // Apply command line date overrides
   if (cliOptions.startDate) {
@@ -425,10 +625,23 @@ async function main(): Promise<void> {
     config.dateRange.endDate = cliOptions.endDate;
   }
 
-  validateConfig(config);
+  exitOnConfigError(() => validateConfig(config, !cliOptions.serve && !cliOptions.daemon, configPath));
+  if (cliOptions.daemon) {
+    validateDaemonConfig(config);
+  }
+
+  if (cliOptions.clearCache) {
+    new ResponseCache(config.options.cache).clear();
+  }
+  if (cliOptions.noCache) {
+    config.options.cache = { ...config.options.cache, enabled: false };
+  }
 
   // Initialize GitHub client
   const client = new GitHubClient(config);
+  if (cliOptions.incremental) {
+    client.setHistoryStore(new HistoryStore());
+  }
 
   // Handle dry run
   if (cliOptions.dryRun) {
@@ -436,20 +649,48 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (cliOptions.serve) {
+    await runServer(config, client, cliOptions.listen ?? DEFAULT_SERVE_ADDRESS, cliOptions.refreshMinutes, progress);
+    return;
+  }
+
+  if (cliOptions.daemon) {
+    runDaemon(config, client, progress);
+    return;
+  }
+
   // Handle comparison mode
   if (cliOptions.compare) {
-    await runComparison(config, client, cliOptions.compare, cliOptions);
+    // Presets count back from --end when given, otherwise from today
+    const reference = new Date(cliOptions.endDate ?? new Date().toISOString().substring(0, 10));
+    if (cliOptions.endDate) {
+      reference.setUTCDate(reference.getUTCDate() + 1);
+    }
+
+    let ranges: PeriodRange[];
+    try {
+      ranges = resolveComparePeriods(cliOptions.compare, reference.toISOString().substring(0, 10));
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    await runComparison(config, client, ranges, cliOptions, progress);
+    return;
+  }
+
+  if (cliOptions.listen) {
+    await runMetricsServer(config, client, cliOptions.listen, cliOptions.refreshMinutes, progress);
     return;
   }
 
   // Standard run
   if (cliOptions.format === "table") {
-    console.log(`  Organization: ${config.github.organization}`);
+    console.log(`  ${describeOwners(config)}`);
     console.log(`  Date Range: ${config.dateRange.startDate} to ${config.dateRange.endDate}\n`);
     console.log("  Fetching repositories...");
   }
 
-  const repos = await client.getOrgRepos();
+  const repos = await client.getRepos();
 
   if (repos.length === 0) {
     console.log("  No repositories found matching the criteria.");
@@ -461,14 +702,76 @@ async function main(): Promise<void> {
     console.log("  Analyzing repositories...\n");
   }
 
-  // Process repositories with configured concurrency
-  const repoStats = await processRepos(client, repos, config.options.maxConcurrentRequests);
+  // Per-author activity needs extra API calls, so only gather it when it will be shown
+  client.setCollectUserStats(cliOptions.byUser);
+  client.setCollectReviewerStats(cliOptions.byUser || cliOptions.byReviewer);
+  client.setTimeSeriesInterval(cliOptions.interval ?? null);
+
+  // Process repositories with configured concurrency, saving each one as it finishes
+  const repoStats = await processRepos(client, repos, {
+    ...queueOptions(config),
+    checkpoint: openCheckpoint(config, cliOptions),
+    progress,
+  });
 
   // Handle by-user mode
   if (cliOptions.byUser) {
     await runByUser(config, repoStats, cliOptions);
     if (cliOptions.format === "table") {
-      console.log(`  API Rate Limit: ${client.getRateLimitRemaining()} requests remaining\n`);
+      printApiUsage(client);
+    }
+    return;
+  }
+
+  // Handle by-reviewer mode
+  if (cliOptions.byReviewer) {
+    await runByReviewer(config, repoStats, cliOptions);
+    if (cliOptions.format === "table") {
+      printApiUsage(client);
+    }
+    return;
+  }
+
+  // The database gets the time series alongside the range totals, so it is written before the
+  // time series report would take over
+  if (cliOptions.format === "sqlite") {
+    exportToSqlite(
+      [{ run: sqliteRun(config, cliOptions.interval ?? null), stats: calculateTotals(repoStats) }],
+      {
+        format: cliOptions.format,
+        outputFile: cliOptions.outputFile,
+        skipLineStats: config.options.skipLineStats,
+        skipIssueStats: config.options.skipIssueStats,
+      }
+    );
+    return;
+  }
+
+  if (cliOptions.format === "openmetrics") {
+    const outputOptions: OutputOptions = {
+      format: cliOptions.format,
+      outputFile: cliOptions.outputFile,
+      skipLineStats: config.options.skipLineStats,
+      skipIssueStats: config.options.skipIssueStats,
+    };
+    const metrics = formatAsOpenMetrics(calculateTotals(repoStats), outputOptions, {
+      owners: resolveOwners(config).map((owner) => owner.name),
+      rateLimits: rateLimitGauges(client),
+    });
+    if (cliOptions.outputFile) {
+      writeMetricsFile(metrics, cliOptions.outputFile);
+      console.error(`  Output written to: ${cliOptions.outputFile}`);
+    } else {
+      process.stdout.write(metrics);
+    }
+    return;
+  }
+
+  // Handle time series mode
+  if (cliOptions.interval) {
+    await runTimeSeries(config, repoStats, cliOptions.interval, cliOptions);
+    if (cliOptions.format === "table") {
+      printApiUsage(client);
     }
     return;
   }
@@ -480,6 +783,7 @@ async function main(): Promise<void> {
     format: cliOptions.format,
     outputFile: cliOptions.outputFile,
     skipLineStats: config.options.skipLineStats,
+    skipIssueStats: config.options.skipIssueStats,
   };
 
   printResults(
@@ -492,23 +796,186 @@ async function main(): Promise<void> {
 
   // Show rate limit status for table format
   if (cliOptions.format === "table") {
-    console.log(`  API Rate Limit: ${client.getRateLimitRemaining()} requests remaining\n`);
+    printApiUsage(client);
+  }
+}
+
+function rateLimitGauges(client: GitHubClient): RateLimitGauge[] {
+  const tokenUsage = client.getTokenUsage();
+  if (tokenUsage.length === 0) {
+    return [{ remaining: client.getRateLimitRemaining() }];
+  }
+  // Tokens are labeled by their position in the pool; the pool's labels include token characters
+  return tokenUsage.flatMap((usage, index) => (usage.remaining === null ? [] : [{ token: String(index + 1), remaining: usage.remaining }]));
+}
+
+// Collect the standard report every refreshMinutes and serve the latest one at /metrics. A failed
+// collection keeps the previous metrics, whose generated timestamp then shows their age.
+async function runMetricsServer(
+  config: Config,
+  client: GitHubClient,
+  listen: NonNullable<CliOptions["listen"]>,
+  refreshMinutes: number,
+  progress?: ProgressListener
+): Promise<void> {
+  const outputOptions: OutputOptions = {
+    format: "openmetrics",
+    skipLineStats: config.options.skipLineStats,
+    skipIssueStats: config.options.skipIssueStats,
+  };
+  let latest: string | null = null;
+  await startMetricsServer(listen.port, listen.host, () => latest);
+  console.error(`  Serving metrics at http://${listen.host ?? "localhost"}:${listen.port}/metrics`);
+  console.error(`  ${describeOwners(config)}`);
+  console.error(`  Date Range: ${config.dateRange.startDate} to ${config.dateRange.endDate}, collected every ${refreshMinutes} minutes\n`);
+
+  while (true) {
+    try {
+      client.clearBranchCache();
+      const repos = await client.getRepos();
+      const repoStats = await processRepos(client, repos, { ...queueOptions(config), progress });
+      latest = formatAsOpenMetrics(calculateTotals(repoStats), outputOptions, {
+        owners: resolveOwners(config).map((owner) => owner.name),
+        rateLimits: rateLimitGauges(client),
+      });
+      console.error(`  ${new Date().toISOString()} Collected ${repos.length} repositories`);
+    } catch (error) {
+      console.error(`  ${new Date().toISOString()} Collection failed: ${error instanceof Error ? error.message : error}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, refreshMinutes * 60 * 1000));
+  }
+}
+
+// Serve reports over HTTP. Each collection points the shared client at the requested range;
+// the server runs one collection at a time, so they never interleave.
+async function runServer(
+  config: Config,
+  client: GitHubClient,
+  listen: NonNullable<CliOptions["listen"]>,
+  refreshMinutes: number,
+  progress?: ProgressListener
+): Promise<void> {
+  const server = new ApiServer({
+    config: { ...config, dateRange: { ...config.dateRange } },
+    collect: async ({ startDate, endDate, byUser, interval }) => {
+      console.error(`  ${new Date().toISOString()} Collecting ${startDate} to ${endDate}${byUser ? " by user" : ""}...`);
+      config.dateRange.startDate = startDate;
+      config.dateRange.endDate = endDate;
+      client.clearBranchCache();
+      client.setCollectUserStats(byUser);
+      client.setCollectReviewerStats(byUser);
+      client.setTimeSeriesInterval(interval);
+
+      const repos = await client.getRepos();
+      return processRepos(client, repos, { ...queueOptions(config), progress });
+    },
+    listRepos: () => client.getRepos(),
+    rateLimits: () => rateLimitGauges(client),
+    resultTtlMs: refreshMinutes * 60 * 1000,
+  });
+
+  await server.listen(listen.port, listen.host);
+  console.error(`  Serving the API at http://${listen.host ?? "localhost"}:${listen.port}`);
+  console.error(`  Endpoints: /health, /repos, /stats, /users, /compare; results are reused for ${refreshMinutes} minutes\n`);
+}
+
+// Requests are only counted for personal access tokens
+function apiUsage(client: GitHubClient): ApiUsage {
+  const tokenUsage = client.getTokenUsage();
+  return {
+    requests: tokenUsage.length > 0 ? tokenUsage.reduce((sum, usage) => sum + usage.requests, 0) : null,
+    rateLimits: rateLimitGauges(client),
+  };
+}
+
+// Write each scheduled report when its cron schedule comes up. Like serve mode's collections,
+// each run points the shared client at the report's range, and runs never overlap.
+function runDaemon(config: Config, client: GitHubClient, progress?: ProgressListener): void {
+  const { reports, runLog } = config.daemon!;
+  const daemon = new Daemon({
+    config: { ...config, dateRange: { ...config.dateRange } },
+    reports,
+    runLog,
+    collect: async (report, range) => {
+      config.dateRange.startDate = range.start;
+      config.dateRange.endDate = range.end;
+      client.clearBranchCache();
+      client.setTimeSeriesInterval(report.interval ?? null);
+
+      const repos = await client.getRepos();
+      return processRepos(client, repos, { ...queueOptions(config), progress });
+    },
+    apiUsage: () => apiUsage(client),
+    log: (message) => console.error(`  ${new Date().toISOString()} ${message}`),
+  });
+
+  console.error(`  ${describeOwners(config)}`);
+  console.error(`  Running ${reports.length} scheduled reports, logging each run to ${runLog}:`);
+  for (const { report, at } of daemon.upcoming()) {
+    console.error(`    - ${report}: next run at ${at.toLocaleString()}`);
   }
+  console.error();
+  daemon.start();
+}
+
+// Append the runs to the database named by --output
+function exportToSqlite(runs: Array<{ run: SqliteRun; stats: TotalStats }>, options: OutputOptions): void {
+  const runIds = writeSqlite(options.outputFile!, runs, options);
+  console.log(`  Output written to: ${options.outputFile} (run ${runIds.join(", ")})`);
+}
+
+function printApiUsage(client: GitHubClient): void {
+  const tokenUsage = client.getTokenUsage();
+  if (tokenUsage.length > 0) {
+    console.log("  API Rate Limit:");
+    for (const usage of tokenUsage) {
+      const remaining = usage.remaining === null ? "unused" : `${usage.remaining} of ${usage.limit ?? "?"} remaining`;
+      console.log(`    ${usage.label}: ${usage.requests} requests, ${remaining}`);
+    }
+  } else {
+    console.log(`  API Rate Limit: ${client.getRateLimitRemaining()} requests remaining`);
+  }
+  const cacheStats = client.getCacheStats();
+  if (cacheStats) {
+    console.log(
+      `  Response Cache: ${cacheStats.hits + cacheStats.revalidated} hits (${cacheStats.revalidated} revalidated), ${cacheStats.misses} misses`
+    );
+  }
+  console.log();
 }
 
 function printUsage(): void {
   console.log(`
   Usage: yarn start [options]
+         yarn start serve [--listen <address>] [options]
+         yarn start daemon [options]
 
   Options:
-    --config <path>       Path to configuration file (default: ./config.json)
+    --config <path>       Path to a JSON or YAML config file (default: ./config.json)
     --start <date>        Override start date (YYYY-MM-DD)
     --end <date>          Override end date (YYYY-MM-DD)
-    --format <format>     Output format: table, json, csv, markdown (default: table)
+    --format <format>     Output format: table, json, csv, markdown, html, sqlite,
+                          openmetrics (default: table)
     --output, -o <file>   Write output to file instead of stdout
     --dry-run             Show what would be analyzed without making API calls
     --by-user             Show metrics broken down by contributor
-    --compare <dates>     Compare two periods (start1 end1 start2 end2)
+    --by-reviewer         Show code review activity broken down by reviewer
+    --interval <period>   Break metrics down by day, week, month or quarter
+    --compare <periods>   Compare two or more periods: start:end ranges, start end pairs,
+                          last-<n>-<days|weeks|months|quarters> or same-<month|quarter>-last-year
+    --resume              Continue an interrupted or failed run from its checkpoint
+    --incremental         Fetch only activity since the last run into a local history store,
+                          and compute the report from the store
+    --listen <address>    Serve the openmetrics format at /metrics on a port or host:port,
+                          collecting it again periodically; with serve, where the API listens
+                          (default: 127.0.0.1:3000)
+    --refresh <minutes>   How long served results are reused before collecting them again
+                          (default: 60)
+    --progress <mode>     Progress output on stderr: bar, plain (log lines), jsonl (one JSON
+                          event per line) or none (default: bar for table output, else none)
+    --progress-file <file>  Append the jsonl progress events to a file instead of stderr
+    --no-cache            Don't read or write the on-disk response cache
+    --clear-cache         Delete the on-disk response cache before running
     --help                Show this help message
 
   Examples:
@@ -518,13 +985,39 @@ function printUsage(): void {
     yarn start --format json --output report.json
     yarn start --format csv -o metrics.csv
     yarn start --format markdown -o report.md
+    yarn start --format html -o report.html
     yarn start --dry-run
     yarn start --by-user
     yarn start --by-user --format json -o users.json
+    yarn start --by-reviewer --format csv -o reviewers.csv
+    yarn start --interval month --format csv -o monthly.csv
     yarn start --compare 2024-01-01 2024-06-30 2024-07-01 2024-12-31
+    yarn start --compare last-4-quarters --format markdown -o quarters.md
+    yarn start --compare same-month-last-year
+    yarn start --clear-cache
+    yarn start --format json -o report.json --progress plain
+    yarn start --progress=jsonl --progress-file progress.jsonl
+    yarn start serve --listen 8080
+    yarn start daemon --config daemon.yaml
   `);
 }
 
+// Point at the checkpoint so the finished repos aren't analyzed again
+function printResumeHint(): void {
+  if (activeCheckpoint && activeCheckpoint.size > 0) {
+    console.error(`\n  ${activeCheckpoint.size} finished repositories are saved in ${activeCheckpoint.path}`);
+    console.error("  Run again with --resume to continue where this run stopped");
+  }
+}
+
+// Finished repos are already on disk, as checkpoint writes are synchronous
+process.on("SIGINT", () => {
+  clearProgress();
+  console.error("\n  Interrupted");
+  printResumeHint();
+  process.exit(130);
+});
+
 main().catch((error) => {
   clearProgress();
   if (error instanceof GitHubApiError) {
@@ -536,5 +1029,6 @@ main().catch((error) => {
   } else {
     console.error("\n  Error:", error instanceof Error ? error.message : error);
   }
+  printResumeHint();
   process.exit(1);
 });
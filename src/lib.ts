@@ -0,0 +1,142 @@
+// Programmatic API, the package's main entry point: the CLI's reports as functions returning
+// data. Problems are thrown as errors (ConfigError for settings, GitHubApiError for GitHub)
+// instead of ending the process, and nothing is printed unless a progress listener is given.
+
+import { calculateTimeSeries, calculateTotals, calculateUserStats, processRepos, queueOptions } from "./analysis.js";
+import { buildComparison, resolveComparePeriods } from "./comparison.js";
+import { validateConfig } from "./config.js";
+import { GitHubClient } from "./github-client.js";
+import type {
+  ComparisonPeriod,
+  ComparisonStats,
+  Config,
+  Interval,
+  ProgressListener,
+  RepoStats,
+  TimeSeriesStats,
+  TotalStats,
+  UserStats,
+} from "./types.js";
+
+export { ConfigError, loadConfigFile, parseConfig, validateConfig, type LoadedConfig } from "./config.js";
+export { GitHubApiError } from "./github-client.js";
+export { calculateTimeSeries, calculateTotals, calculateUserStats } from "./analysis.js";
+export { buildComparison, resolveComparePeriods, resolveDatePreset, type PeriodRange } from "./comparison.js";
+export {
+  formatAsCsv,
+  formatAsJson,
+  formatAsMarkdown,
+  formatComparisonAsCsv,
+  formatComparisonAsJson,
+  formatComparisonAsMarkdown,
+  formatReviewerStatsAsCsv,
+  formatReviewerStatsAsJson,
+  formatReviewerStatsAsMarkdown,
+  formatTimeSeriesAsCsv,
+  formatTimeSeriesAsJson,
+  formatTimeSeriesAsMarkdown,
+  formatUserStatsAsCsv,
+  formatUserStatsAsJson,
+  formatUserStatsAsMarkdown,
+} from "./formatters.js";
+export { formatAsHtml, formatComparisonAsHtml } from "./html-report.js";
+export { formatAsOpenMetrics } from "./openmetrics.js";
+export { jsonlProgress, plainProgress } from "./progress.js";
+export type * from "./types.js";
+
+export interface AnalyzeOptions {
+  // Override the configured date range (YYYY-MM-DD)
+  startDate?: string;
+  endDate?: string;
+  progress?: ProgressListener;
+}
+
+export interface CompareOptions {
+  // Presets count back from the day after this date instead of from today (YYYY-MM-DD)
+  endDate?: string;
+  progress?: ProgressListener;
+}
+
+interface Collection {
+  byUser?: boolean;
+  byReviewer?: boolean;
+  interval?: Interval | null;
+}
+
+// The caller's config is left as it is; the client works on a copy with the date range applied
+function withDateRange(config: Config, startDate?: string, endDate?: string): Config {
+  return {
+    ...config,
+    dateRange: {
+      startDate: startDate ?? config.dateRange.startDate,
+      endDate: endDate ?? config.dateRange.endDate,
+    },
+  };
+}
+
+function createClient(config: Config, { byUser = false, byReviewer = false, interval = null }: Collection): GitHubClient {
+  const client = new GitHubClient(config);
+  client.setCollectUserStats(byUser);
+  client.setCollectReviewerStats(byUser || byReviewer);
+  client.setTimeSeriesInterval(interval);
+  return client;
+}
+
+async function collect(config: Config, options: AnalyzeOptions, collection: Collection): Promise<RepoStats[]> {
+  const resolved = withDateRange(config, options.startDate, options.endDate);
+  validateConfig(resolved);
+
+  const client = createClient(resolved, collection);
+  const repos = await client.getRepos();
+  return processRepos(client, repos, { ...queueOptions(resolved), progress: options.progress });
+}
+
+// Per-repository stats and totals for the date range, as in the CLI's standard report
+export async function analyzeOrganization(config: Config, options: AnalyzeOptions = {}): Promise<TotalStats> {
+  return calculateTotals(await collect(config, options, {}));
+}
+
+// Activity per contributor across all repositories, as with --by-user
+export async function analyzeUsers(config: Config, options: AnalyzeOptions = {}): Promise<UserStats[]> {
+  return calculateUserStats(await collect(config, options, { byUser: true }));
+}
+
+// Contributors who reviewed pull requests, as with --by-reviewer
+export async function analyzeReviewers(config: Config, options: AnalyzeOptions = {}): Promise<UserStats[]> {
+  const users = calculateUserStats(await collect(config, options, { byReviewer: true }));
+  return users.filter((user) => user.reviews > 0);
+}
+
+// Activity per day, week, month or quarter of the date range, as with --interval
+export async function analyzeTimeSeries(config: Config, interval: Interval, options: AnalyzeOptions = {}): Promise<TimeSeriesStats> {
+  const repoStats = await collect(config, options, { interval });
+  const { startDate, endDate } = withDateRange(config, options.startDate, options.endDate).dateRange;
+  return calculateTimeSeries(repoStats, interval, startDate, endDate);
+}
+
+// Compare periods given as with --compare: "start:end" ranges, start and end date pairs, or
+// presets such as "last-4-quarters". Throws when there are fewer than two periods.
+export async function comparePeriods(config: Config, periods: string[], options: CompareOptions = {}): Promise<ComparisonStats> {
+  const reference = new Date(options.endDate ?? new Date().toISOString().substring(0, 10));
+  if (options.endDate) {
+    reference.setUTCDate(reference.getUTCDate() + 1);
+  }
+  const ranges = resolveComparePeriods(periods, reference.toISOString().substring(0, 10));
+
+  // One client for every period, pointed at each range in turn
+  const working = withDateRange(config, ranges[0].start, ranges[0].end);
+  validateConfig(working);
+  const client = createClient(working, {});
+
+  const results: ComparisonPeriod[] = [];
+  for (const range of ranges) {
+    working.dateRange.startDate = range.start;
+    working.dateRange.endDate = range.end;
+    client.clearBranchCache();
+
+    const repos = await client.getRepos();
+    const repoStats = await processRepos(client, repos, { ...queueOptions(working), progress: options.progress });
+    results.push({ ...range, stats: calculateTotals(repoStats) });
+  }
+  return buildComparison(results);
+}
@@ -0,0 +1,143 @@
+// OpenMetrics (Prometheus) exposition: gauges per repository and owner, written to a file for
+// node_exporter's textfile collector or served from a /metrics endpoint.
+
+import { renameSync, writeFileSync } from "fs";
+import { createServer, type Server } from "http";
+import type { OutputOptions, RepoStats, TotalStats } from "./types.js";
+
+export const OPENMETRICS_CONTENT_TYPE = "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+export interface RateLimitGauge {
+  // Position of the token in the pool ("1", "2", ...), when tokens are used
+  token?: string;
+  remaining: number;
+}
+
+export interface OpenMetricsContext {
+  // Names the owner of the totals when the repos span a single owner
+  owners: string[];
+  rateLimits: RateLimitGauge[];
+  generatedAt?: Date;
+}
+
+interface Sample {
+  labels: Record<string, string>;
+  value: number | null;
+}
+
+interface Family {
+  name: string;
+  help: string;
+  samples: Sample[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatFamily({ name, help, samples }: Family): string[] {
+  const lines = [`# TYPE ${name} gauge`, `# HELP ${name} ${help}`];
+  for (const { labels, value } of samples) {
+    // Unknown values, such as a median with nothing to take it from, are left out
+    if (value === null) continue;
+    const labelText = Object.entries(labels)
+      .map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`)
+      .join(",");
+    lines.push(`${name}${labelText ? `{${labelText}}` : ""} ${value}`);
+  }
+  return lines;
+}
+
+export function formatAsOpenMetrics(stats: TotalStats, options: OutputOptions, context: OpenMetricsContext): string {
+  const repoLabels = (repo: RepoStats) => ({ org: repo.owner, repo: repo.name, archived: String(repo.isArchived) });
+  const repoFamily = (name: string, help: string, value: (repo: RepoStats) => number | null): Family => ({
+    name: `github_repo_${name}`,
+    help,
+    samples: stats.repos.map((repo) => ({ labels: repoLabels(repo), value: value(repo) })),
+  });
+
+  const ownerTotals = stats.owners ?? (context.owners.length === 1 ? [{ owner: context.owners[0], totals: stats.totals }] : []);
+  const orgFamily = (name: string, help: string, value: (totals: TotalStats["totals"]) => number | null): Family => ({
+    name: `github_org_${name}`,
+    help,
+    samples: ownerTotals.map(({ owner, totals }) => ({ labels: { org: owner }, value: value(totals) })),
+  });
+
+  const families: Family[] = [
+    repoFamily("commits", "Commits on the default branch in the date range.", (repo) => repo.commits),
+    repoFamily("pull_requests", "Pull requests created against the default branch in the date range.", (repo) => repo.pullRequests),
+    repoFamily("pull_requests_merged", "Pull requests merged in the date range.", (repo) => repo.pullRequestMetrics.merged),
+    repoFamily("pull_requests_open", "Pull requests open at the end of the date range.", (repo) => repo.pullRequestMetrics.openAtEnd),
+    repoFamily(
+      "pull_request_merge_hours_median",
+      "Median hours from opening to merge of pull requests merged in the date range.",
+      (repo) => repo.pullRequestMetrics.medianHoursToMerge
+    ),
+    repoFamily("contributors", "Distinct commit authors in the date range.", (repo) => repo.contributors),
+    repoFamily("releases", "Releases published in the date range.", (repo) => repo.releases),
+  ];
+  if (!options.skipLineStats) {
+    families.push(
+      repoFamily("lines_added", "Lines added on the default branch in the date range.", (repo) => repo.linesAdded),
+      repoFamily("lines_deleted", "Lines deleted on the default branch in the date range.", (repo) => repo.linesDeleted)
+    );
+  }
+  if (!options.skipIssueStats) {
+    families.push(
+      repoFamily("issues_created", "Issues created in the date range.", (repo) => repo.issuesCreated),
+      repoFamily("issues_closed", "Issues closed in the date range.", (repo) => repo.issuesClosed),
+      repoFamily("issues_open", "Issues open at the end of the date range.", (repo) => repo.openIssues)
+    );
+  }
+
+  families.push(
+    orgFamily("repositories", "Repositories analyzed.", (totals) => totals.repoCount),
+    orgFamily("commits", "Commits across the owner's repositories in the date range.", (totals) => totals.commits),
+    orgFamily("pull_requests", "Pull requests across the owner's repositories in the date range.", (totals) => totals.pullRequests),
+    orgFamily("contributors", "Distinct commit authors across the owner's repositories in the date range.", (totals) => totals.contributors),
+    {
+      name: "github_api_rate_limit_remaining",
+      help: "Core API requests left in the current rate limit window.",
+      samples: context.rateLimits.map(({ token, remaining }): Sample => ({ labels: token ? { token } : {}, value: remaining })),
+    },
+    {
+      name: "github_metrics_generated_timestamp_seconds",
+      help: "When these metrics were collected.",
+      samples: [{ labels: {}, value: Math.floor((context.generatedAt ?? new Date()).getTime() / 1000) }],
+    }
+  );
+
+  return [...families.flatMap(formatFamily), "# EOF", ""].join("\n");
+}
+
+// The textfile collector may read the file at any moment, so it is replaced in one step
+export function writeMetricsFile(content: string, outputFile: string): void {
+  writeFileSync(`${outputFile}.tmp`, content, "utf-8");
+  renameSync(`${outputFile}.tmp`, outputFile);
+}
+
+// Serve the latest exposition at /metrics; until the first collection finishes there is nothing to serve.
+// Resolves once the server is listening.
+export function startMetricsServer(port: number, host: string | undefined, latest: () => string | null): Promise<Server> {
+  const server = createServer((request, response) => {
+    const path = (request.url ?? "/").split("?")[0];
+    if (request.method !== "GET" || path !== "/metrics") {
+      response.writeHead(404, { "Content-Type": "text/plain" });
+      response.end("Not found; metrics are served at /metrics\n");
+      return;
+    }
+
+    const content = latest();
+    if (content === null) {
+      response.writeHead(503, { "Content-Type": "text/plain", "Retry-After": "60" });
+      response.end("The first collection is still running\n");
+      return;
+    }
+    response.writeHead(200, { "Content-Type": OPENMETRICS_CONTENT_TYPE });
+    response.end(content);
+  });
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve(server));
+  });
+}
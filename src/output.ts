@@ -1,12 +1,18 @@
 import cliProgress from "cli-progress";
-import type { TotalStats, RepoStats, OutputOptions } from "./types.js";
+import type { TotalStats, RepoStats, OutputOptions, ProgressEvent } from "./types.js";
 import {
   formatNumber,
+  formatDuration,
+  describeLineStatsModes,
+  TRUNCATED_LINES_NOTE,
   formatAsJson,
   formatAsCsv,
   formatAsMarkdown,
+  groupReposByOwner,
+  sortRepos,
   writeOutput,
 } from "./formatters.js";
+import { formatAsHtml } from "./html-report.js";
 
 export { formatNumber } from "./formatters.js";
 
@@ -20,6 +26,7 @@ export function printResults(
   const outputOptions: OutputOptions = options ?? {
     format: "table",
     skipLineStats,
+    skipIssueStats: false,
   };
 
   switch (outputOptions.format) {
@@ -32,15 +39,24 @@ export function printResults(
     case "markdown":
       writeOutput(formatAsMarkdown(stats, startDate, endDate, outputOptions), outputOptions.outputFile);
       return;
+    case "html":
+      writeOutput(formatAsHtml(stats, startDate, endDate, outputOptions), outputOptions.outputFile);
+      return;
     case "table":
     default:
-      printTableResults(stats, startDate, endDate, skipLineStats);
+      printTableResults(stats, startDate, endDate, skipLineStats, outputOptions.skipIssueStats);
   }
 }
 
-function printTableResults(stats: TotalStats, startDate: string, endDate: string, skipLineStats: boolean): void {
-  const divider = "═".repeat(100);
-  const thinDivider = "─".repeat(100);
+function printTableResults(
+  stats: TotalStats,
+  startDate: string,
+  endDate: string,
+  skipLineStats: boolean,
+  skipIssueStats: boolean
+): void {
+  const divider = "═".repeat(136);
+  const thinDivider = "─".repeat(136);
 
   const archivedCount = stats.repos.filter((r) => r.isArchived).length;
   const activeCount = stats.repos.length - archivedCount;
@@ -50,6 +66,9 @@ function printTableResults(stats: TotalStats, startDate: string, endDate: string
   console.log(divider);
   console.log(`  Date Range: ${startDate} to ${endDate}`);
   console.log(`  Repositories: ${stats.repos.length} total (${activeCount} active, ${archivedCount} archived)`);
+  if (!skipLineStats) {
+    console.log(`  Line Stats: ${describeLineStatsModes(stats.repos)}`);
+  }
   console.log(divider + "\n");
 
   // Table header
@@ -61,33 +80,39 @@ function printTableResults(stats: TotalStats, startDate: string, endDate: string
       padRight("Lines -", 12) +
       padRight("Net", 10) +
       padRight("PRs", 8) +
+      padRight("Merged", 8) +
       padRight("Contrib", 10) +
+      padRight("Issues+", 10) +
+      padRight("Issues-", 10) +
+      padRight("Open", 8) +
       padRight("Releases", 10)
   );
   console.log("  " + thinDivider);
 
-  // Sort repos: active repos by commits (descending), then archived repos at the end
-  const activeRepos = stats.repos.filter((r) => !r.isArchived).sort((a, b) => b.commits - a.commits);
-  const archivedRepos = stats.repos.filter((r) => r.isArchived).sort((a, b) => a.name.localeCompare(b.name));
-  const sortedRepos = [...activeRepos, ...archivedRepos];
-
-  for (const repo of sortedRepos) {
-    printRepoRow(repo);
+  // Sort repos: active repos by commits (descending), then archived repos at the end,
+  // grouped under each owner with a subtotal when there are several
+  const groups = groupReposByOwner(stats);
+  if (groups) {
+    for (const group of groups) {
+      console.log(`  ${group.owner}`);
+      for (const repo of group.repos) {
+        printRepoRow(repo);
+      }
+      printTotalsRow("  SUBTOTAL", group.totals);
+      console.log();
+    }
+  } else {
+    for (const repo of sortRepos(stats.repos)) {
+      printRepoRow(repo);
+    }
   }
 
   // Totals
   console.log("  " + thinDivider);
-  console.log(
-    "  " +
-      padRight("TOTALS", 28) +
-      padRight(formatNumber(stats.totals.commits), 10) +
-      padRight(formatNumber(stats.totals.linesAdded), 12) +
-      padRight(formatNumber(stats.totals.linesDeleted), 12) +
-      padRight(formatNumber(stats.totals.totalLines), 10) +
-      padRight(formatNumber(stats.totals.pullRequests), 8) +
-      padRight(formatNumber(stats.totals.contributors), 10) +
-      padRight(formatNumber(stats.totals.releases), 10)
-  );
+  printTotalsRow("TOTALS", stats.totals);
+  if (!skipLineStats && stats.repos.some((repo) => repo.lineStatsTruncated)) {
+    console.log(`\n  * ${TRUNCATED_LINES_NOTE}`);
+  }
   console.log("\n" + divider + "\n");
 
   // Summary
@@ -103,7 +128,25 @@ function printTableResults(stats: TotalStats, startDate: string, endDate: string
     console.log(`    Net Line Change:      (skipped)`);
   }
   console.log(`    Total Pull Requests:  ${formatNumber(stats.totals.pullRequests)}`);
+  console.log(`    PRs Merged:           ${formatNumber(stats.totals.pullRequestMetrics.merged)}`);
+  console.log(`    Merged w/o Approval:  ${formatNumber(stats.totals.pullRequestMetrics.mergedWithoutApproval)}`);
+  console.log(`    PRs Closed Unmerged:  ${formatNumber(stats.totals.pullRequestMetrics.closedWithoutMerge)}`);
+  console.log(`    Open PRs:             ${formatNumber(stats.totals.pullRequestMetrics.openAtEnd)}`);
+  console.log(`    Median Time to Merge: ${formatDuration(stats.totals.pullRequestMetrics.medianHoursToMerge)}`);
+  console.log(`    P90 Time to Merge:    ${formatDuration(stats.totals.pullRequestMetrics.p90HoursToMerge)}`);
+  console.log(`    Median First Review:  ${formatDuration(stats.totals.pullRequestMetrics.medianHoursToFirstReview)}`);
   console.log(`    Total Contributors:   ${formatNumber(stats.totals.contributors)}`);
+  if (!skipIssueStats) {
+    console.log(`    Issues Created:       ${formatNumber(stats.totals.issuesCreated)}`);
+    console.log(`    Issues Closed:        ${formatNumber(stats.totals.issuesClosed)}`);
+    console.log(`    Open Issues:          ${formatNumber(stats.totals.openIssues)}`);
+    console.log(`    Median Time to Close: ${formatDuration(stats.totals.medianIssueCloseHours)}`);
+  } else {
+    console.log(`    Issues Created:       (skipped)`);
+    console.log(`    Issues Closed:        (skipped)`);
+    console.log(`    Open Issues:          (skipped)`);
+    console.log(`    Median Time to Close: (skipped)`);
+  }
   console.log(`    Releases:             ${formatNumber(stats.totals.releases)}`);
   console.log(`    Repositories:         ${formatNumber(stats.totals.repoCount)}`);
   console.log("\n" + divider + "\n");
@@ -123,15 +166,37 @@ function printRepoRow(repo: RepoStats): void {
     "  " +
       padRight(name, 28) +
       padRight(formatNumber(repo.commits), 10) +
-      padRight(formatNumber(repo.linesAdded), 12) +
+      padRight(formatNumber(repo.linesAdded) + (repo.lineStatsTruncated ? "*" : ""), 12) +
       padRight(formatNumber(repo.linesDeleted), 12) +
       padRight(formatNumber(repo.totalLines), 10) +
       padRight(formatNumber(repo.pullRequests), 8) +
+      padRight(formatNumber(repo.pullRequestMetrics.merged), 8) +
       padRight(formatNumber(repo.contributors), 10) +
+      padRight(formatNumber(repo.issuesCreated), 10) +
+      padRight(formatNumber(repo.issuesClosed), 10) +
+      padRight(formatNumber(repo.openIssues), 8) +
       padRight(formatNumber(repo.releases), 10)
   );
 }
 
+function printTotalsRow(label: string, totals: TotalStats["totals"]): void {
+  console.log(
+    "  " +
+      padRight(label, 28) +
+      padRight(formatNumber(totals.commits), 10) +
+      padRight(formatNumber(totals.linesAdded), 12) +
+      padRight(formatNumber(totals.linesDeleted), 12) +
+      padRight(formatNumber(totals.totalLines), 10) +
+      padRight(formatNumber(totals.pullRequests), 8) +
+      padRight(formatNumber(totals.pullRequestMetrics.merged), 8) +
+      padRight(formatNumber(totals.contributors), 10) +
+      padRight(formatNumber(totals.issuesCreated), 10) +
+      padRight(formatNumber(totals.issuesClosed), 10) +
+      padRight(formatNumber(totals.openIssues), 8) +
+      padRight(formatNumber(totals.releases), 10)
+  );
+}
+
 function padRight(str: string, length: number): string {
   return str.padEnd(length);
 }
@@ -145,18 +210,11 @@ class ProgressTracker {
   private completedRepos: number = 0;
   private currentRepo: string = "";
   private currentTask: string = "";
-  private quietMode: boolean = false;
-
-  setQuietMode(quiet: boolean): void {
-    this.quietMode = quiet;
-  }
 
   setTotal(total: number): void {
     this.totalRepos = total;
     this.completedRepos = 0;
 
-    if (this.quietMode) return;
-
     // Create a multi-bar container
     this.multiBar = new cliProgress.MultiBar(
       {
@@ -174,8 +232,6 @@ class ProgressTracker {
   }
 
   update(repoName: string, status: string): void {
-    if (this.quietMode) return;
-
     this.currentRepo = repoName;
     this.currentTask = status;
 
@@ -189,8 +245,6 @@ class ProgressTracker {
   complete(repoName: string): void {
     this.completedRepos++;
 
-    if (this.quietMode) return;
-
     if (this.bar) {
       this.bar.update(this.completedRepos, { task: `${repoName} done` });
     }
@@ -212,20 +266,34 @@ class ProgressTracker {
 
 const progressTracker = new ProgressTracker();
 
-export function setQuietMode(quiet: boolean): void {
-  progressTracker.setQuietMode(quiet);
-}
-
-export function initProgress(totalRepos: number): void {
-  progressTracker.setTotal(totalRepos);
-}
-
-export function updateRepoStatus(repoName: string, status: string): void {
-  progressTracker.update(repoName, status);
-}
-
-export function completeRepo(repoName: string): void {
-  progressTracker.complete(repoName);
+// Draw the analysis as a progress bar on the terminal (--progress bar)
+export function barProgress(event: ProgressEvent): void {
+  switch (event.type) {
+    case "run-started":
+      progressTracker.setTotal(event.repos);
+      break;
+    case "repo-started":
+      progressTracker.update(event.repo, "starting...");
+      break;
+    case "repo-status":
+      progressTracker.update(event.repo, event.status);
+      break;
+    case "retry":
+      progressTracker.update(
+        event.repo,
+        `${event.operation} failed, retrying in ${event.delaySeconds}s (attempt ${event.attempt}/${event.maxAttempts})...`
+      );
+      break;
+    case "rate-limit-wait":
+      progressTracker.update(event.repo, `rate limit low (${event.remaining} remaining), waiting ${event.waitSeconds}s...`);
+      break;
+    case "repo-completed":
+      progressTracker.complete(event.repo);
+      break;
+    case "run-finished":
+      progressTracker.clear();
+      break;
+  }
 }
 
 export function clearProgress(): void {
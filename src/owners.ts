@@ -0,0 +1,31 @@
+// Repository owners: the organizations and user accounts a run covers, each with optional
+// repository filters of its own. Repos are identified as "owner/name" across the run.
+
+import type { Config, OwnerConfig, RepoInfo } from "./types.js";
+
+// The configured owners; a config with only github.organization covers that organization
+export function resolveOwners(config: Config): OwnerConfig[] {
+  if (config.github.owners && config.github.owners.length > 0) {
+    return config.github.owners;
+  }
+  return config.github.organization ? [{ name: config.github.organization, type: "org" }] : [];
+}
+
+export function fullRepoName(repo: Pick<RepoInfo, "owner" | "name">): string {
+  return `${repo.owner}/${repo.name}`;
+}
+
+// An owner's own include/exclude lists take the place of the global ones
+export function isRepoIncluded(owner: OwnerConfig, repoName: string, options: Config["options"]): boolean {
+  const includeRepos = owner.includeRepos ?? options.includeRepos;
+  const excludeRepos = owner.excludeRepos ?? options.excludeRepos;
+
+  if (includeRepos.length > 0 && !includeRepos.includes(repoName)) return false;
+  return !excludeRepos.includes(repoName);
+}
+
+// Names repos by "owner/name" when they span several owners, otherwise by name alone
+export function repoLabeler(repos: Array<Pick<RepoInfo, "owner">>): (repo: Pick<RepoInfo, "owner" | "name">) => string {
+  const multipleOwners = new Set(repos.map((repo) => repo.owner)).size > 1;
+  return (repo) => (multipleOwners ? fullRepoName(repo) : repo.name);
+}
@@ -0,0 +1,69 @@
+// Progress output for a run (--progress): the terminal bar, plain log lines for CI logs, or one
+// JSON event per line for other tools to follow. Everything goes to stderr or a file, so the
+// report on stdout stays clean.
+
+import { appendFileSync } from "fs";
+import { barProgress } from "./output.js";
+import type { ProgressEvent, ProgressListener } from "./types.js";
+
+export type ProgressMode = "bar" | "plain" | "jsonl" | "none";
+
+export const PROGRESS_MODES: ProgressMode[] = ["bar", "plain", "jsonl", "none"];
+
+// One timestamped line per repository started, finished or failed, and per retry or rate-limit wait
+export function plainProgress(write: (line: string) => void = (line) => process.stderr.write(line)): ProgressListener {
+  let total = 0;
+  let done = 0;
+
+  const log = (message: string) => write(`${new Date().toISOString()} ${message}\n`);
+
+  return (event: ProgressEvent) => {
+    switch (event.type) {
+      case "run-started":
+        total = event.repos;
+        done = 0;
+        log(`Analyzing ${total} repositories`);
+        break;
+      case "repo-started":
+        log(`[${done + 1}/${total}] ${event.repo}: started`);
+        break;
+      case "retry":
+        log(
+          `${event.repo}: ${event.operation} failed (${event.error}), retrying in ${event.delaySeconds}s (attempt ${event.attempt}/${event.maxAttempts})`
+        );
+        break;
+      case "rate-limit-wait":
+        log(`${event.repo}: rate limit low (${event.remaining} remaining), waiting ${event.waitSeconds}s`);
+        break;
+      case "repo-completed":
+        done++;
+        log(`[${done}/${total}] ${event.repo}: ${event.resumed ? "resumed from checkpoint" : `done in ${event.durationSeconds}s`}`);
+        break;
+      case "repo-failed":
+        log(`${event.repo}: failed${event.operation ? ` (${event.operation})` : ""}: ${event.error}`);
+        break;
+      case "run-finished":
+        log(`Analyzed ${event.repos} repositories in ${event.durationSeconds}s`);
+        break;
+    }
+  };
+}
+
+// Every event as a JSON object with its time, one per line
+export function jsonlProgress(write: (line: string) => void = (line) => process.stderr.write(line)): ProgressListener {
+  return (event: ProgressEvent) => write(JSON.stringify({ time: new Date().toISOString(), ...event }) + "\n");
+}
+
+// jsonl goes to the file when one is given; the other modes always draw on stderr
+export function createProgressListener(mode: ProgressMode, file?: string): ProgressListener | undefined {
+  switch (mode) {
+    case "bar":
+      return barProgress;
+    case "plain":
+      return plainProgress();
+    case "jsonl":
+      return jsonlProgress(file ? (line) => appendFileSync(file, line) : undefined);
+    case "none":
+      return undefined;
+  }
+}
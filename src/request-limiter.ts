@@ -0,0 +1,95 @@
+// A limit on HTTP requests in flight at once, shared by every repository and metric a client
+// collects. Requests beyond the limit wait their turn in the order they were made.
+
+export class RequestLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(readonly limit: number) {}
+
+  get inFlight(): number {
+    return this.active;
+  }
+
+  async run<T>(request: () => Promise<T>): Promise<T> {
+    const release = await this.acquire();
+    try {
+      return await request();
+    } finally {
+      release();
+    }
+  }
+
+  // A fetch that goes through the limiter. A request keeps its slot until its response body has
+  // been read to the end (or cancelled), not just until the headers arrive.
+  wrapFetch(baseFetch: typeof fetch = globalThis.fetch): typeof fetch {
+    return async (input, init) => {
+      const release = await this.acquire();
+      let response: Response;
+      try {
+        response = await baseFetch(input, init);
+      } catch (error) {
+        release();
+        throw error;
+      }
+
+      if (!response.body) {
+        release();
+        return response;
+      }
+      return releasedWithBody(response, release);
+    };
+  }
+
+  // Wait for a slot; the returned function gives it back, and only the first call counts
+  private async acquire(): Promise<() => void> {
+    if (this.active >= this.limit) {
+      // The finishing request hands its slot over, so active stays counted
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
+
+// The same response, with a body that calls release once it is done, failed or cancelled
+function releasedWithBody(response: Response, release: () => void): Response {
+  const reader = response.body!.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+
+  const wrapped = new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  // Octokit reports the final URL of the request, which a constructed Response leaves empty
+  Object.defineProperty(wrapped, "url", { value: response.url });
+  return wrapped;
+}
@@ -0,0 +1,364 @@
+// HTTP API for serve mode: reports for any date range on demand, collected with the same
+// analysis and formatters as the CLI. Results are cached for a while, and collections run one
+// at a time so concurrent requests for the same range share a single collection.
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import { calculateTimeSeries, calculateTotals, calculateUserStats } from "./analysis.js";
+import { buildComparison, resolveComparePeriods } from "./comparison.js";
+import {
+  formatAsCsv,
+  formatAsJson,
+  formatAsMarkdown,
+  formatComparisonAsCsv,
+  formatComparisonAsJson,
+  formatComparisonAsMarkdown,
+  formatTimeSeriesAsCsv,
+  formatTimeSeriesAsJson,
+  formatTimeSeriesAsMarkdown,
+  formatUserStatsAsCsv,
+  formatUserStatsAsJson,
+  formatUserStatsAsMarkdown,
+} from "./formatters.js";
+import { formatAsHtml, formatComparisonAsHtml } from "./html-report.js";
+import { OPENMETRICS_CONTENT_TYPE, formatAsOpenMetrics, type RateLimitGauge } from "./openmetrics.js";
+import { resolveOwners } from "./owners.js";
+import { INTERVALS } from "./timeseries.js";
+import type { ComparisonPeriod, Config, Interval, OutputFormat, OutputOptions, RepoInfo, RepoStats } from "./types.js";
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_MAX_RESULTS = 50;
+
+const CONTENT_TYPES: Partial<Record<OutputFormat, string>> = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  openmetrics: OPENMETRICS_CONTENT_TYPE,
+};
+
+// What a collection gathers; requests asking for the same thing share its result
+export interface CollectionRequest {
+  startDate: string;
+  endDate: string;
+  byUser: boolean;
+  interval: Interval | null;
+}
+
+export interface ApiServerOptions {
+  // Default date range, owners and skip options
+  config: Config;
+  collect: (request: CollectionRequest) => Promise<RepoStats[]>;
+  listRepos: () => Promise<RepoInfo[]>;
+  rateLimits: () => RateLimitGauge[];
+  // How long a collected result is served before it is collected again
+  resultTtlMs: number;
+  // Results kept at once; the least recently used are dropped beyond this (default: 50)
+  maxResults?: number;
+  now?: () => number;
+}
+
+interface CachedResult<T> {
+  result: Promise<T>;
+  // Null while the collection is still running
+  collectedAt: number | null;
+}
+
+// A request the client got wrong; answered with 400 and the message
+class BadRequestError extends Error {}
+
+export class ApiServer {
+  private options: ApiServerOptions;
+  private now: () => number;
+  private startedAt: number;
+  private results: Map<string, CachedResult<unknown>> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: ApiServerOptions) {
+    this.options = options;
+    this.now = options.now ?? Date.now;
+    this.startedAt = this.now();
+  }
+
+  listen(port: number, host?: string): Promise<Server> {
+    const server = createServer((request, response) => {
+      void this.handle(request, response);
+    });
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => resolve(server));
+    });
+  }
+
+  async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    try {
+      if (request.method !== "GET") {
+        this.send(response, 405, "json", JSON.stringify({ error: "Only GET is supported" }));
+        return;
+      }
+      switch (url.pathname) {
+        case "/health":
+          this.send(response, 200, "json", JSON.stringify(this.health(), null, 2));
+          return;
+        case "/repos":
+          await this.reposEndpoint(url, response);
+          return;
+        case "/stats":
+          await this.statsEndpoint(url, response);
+          return;
+        case "/users":
+          await this.usersEndpoint(url, response);
+          return;
+        case "/compare":
+          await this.compareEndpoint(url, response);
+          return;
+        default:
+          this.send(response, 404, "json", JSON.stringify({ error: `Unknown endpoint ${url.pathname}` }));
+      }
+    } catch (error) {
+      const status = error instanceof BadRequestError ? 400 : 500;
+      this.send(response, status, "json", JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    }
+  }
+
+  private health() {
+    const entries = Array.from(this.results.values());
+    return {
+      status: "ok",
+      uptimeSeconds: Math.floor((this.now() - this.startedAt) / 1000),
+      collecting: entries.filter((entry) => entry.collectedAt === null).length,
+      cachedResults: entries.filter((entry) => entry.collectedAt !== null).length,
+      rateLimits: this.options.rateLimits(),
+    };
+  }
+
+  private async reposEndpoint(url: URL, response: ServerResponse): Promise<void> {
+    this.format(url, ["json"]);
+    const { result, age } = await this.cached("repos", () => this.options.listRepos());
+    this.send(response, 200, "json", JSON.stringify(result, null, 2), age);
+  }
+
+  private async statsEndpoint(url: URL, response: ServerResponse): Promise<void> {
+    const { startDate, endDate } = this.dateRange(url);
+    const interval = this.interval(url);
+    const format = this.format(url, interval ? ["json", "csv", "markdown"] : ["json", "csv", "markdown", "html", "openmetrics"]);
+    const { result: repos, age } = await this.collect({ startDate, endDate, byUser: false, interval });
+    const options = this.outputOptions(format);
+
+    let body: string;
+    if (interval) {
+      const series = calculateTimeSeries(repos, interval, startDate, endDate);
+      switch (format) {
+        case "csv":
+          body = formatTimeSeriesAsCsv(series, options);
+          break;
+        case "markdown":
+          body = formatTimeSeriesAsMarkdown(series, startDate, endDate, options);
+          break;
+        default:
+          body = formatTimeSeriesAsJson(series, startDate, endDate, options);
+      }
+    } else {
+      const stats = calculateTotals(repos);
+      switch (format) {
+        case "csv":
+          body = formatAsCsv(stats, startDate, endDate, options);
+          break;
+        case "markdown":
+          body = formatAsMarkdown(stats, startDate, endDate, options);
+          break;
+        case "html":
+          body = formatAsHtml(stats, startDate, endDate, options);
+          break;
+        case "openmetrics":
+          body = formatAsOpenMetrics(stats, options, {
+            owners: resolveOwners(this.options.config).map((owner) => owner.name),
+            rateLimits: this.options.rateLimits(),
+          });
+          break;
+        default:
+          body = formatAsJson(stats, startDate, endDate, options);
+      }
+    }
+    this.send(response, 200, format, body, age);
+  }
+
+  private async usersEndpoint(url: URL, response: ServerResponse): Promise<void> {
+    const { startDate, endDate } = this.dateRange(url);
+    const format = this.format(url, ["json", "csv", "markdown"]);
+    const { result: repos, age } = await this.collect({ startDate, endDate, byUser: true, interval: null });
+    const users = calculateUserStats(repos);
+
+    let body: string;
+    switch (format) {
+      case "csv":
+        body = formatUserStatsAsCsv(users);
+        break;
+      case "markdown":
+        body = formatUserStatsAsMarkdown(users, startDate, endDate);
+        break;
+      default:
+        body = formatUserStatsAsJson(users, startDate, endDate);
+    }
+    this.send(response, 200, format, body, age);
+  }
+
+  // ?periods=2024-01-01:2024-03-31,2024-04-01:2024-06-30 or a preset such as last-4-quarters.
+  // Presets count back from the day after ?end when given, otherwise from today.
+  private async compareEndpoint(url: URL, response: ServerResponse): Promise<void> {
+    const format = this.format(url, ["json", "csv", "markdown", "html"]);
+    const periodsParam = url.searchParams.get("periods");
+    if (!periodsParam) {
+      throw new BadRequestError("periods is required, e.g. periods=last-2-quarters");
+    }
+    const end = url.searchParams.get("end");
+    const reference = new Date(end ?? new Date(this.now()).toISOString().substring(0, 10));
+    if (end) {
+      this.checkDate("end", end);
+      reference.setUTCDate(reference.getUTCDate() + 1);
+    }
+
+    let ranges;
+    try {
+      ranges = resolveComparePeriods(periodsParam.split(","), reference.toISOString().substring(0, 10));
+    } catch (error) {
+      throw new BadRequestError(error instanceof Error ? error.message : String(error));
+    }
+
+    // The response is as old as its stalest period
+    const periods: ComparisonPeriod[] = [];
+    let age = 0;
+    for (const range of ranges) {
+      const collected = await this.collect({ startDate: range.start, endDate: range.end, byUser: false, interval: null });
+      periods.push({ ...range, stats: calculateTotals(collected.result) });
+      age = Math.max(age, collected.age);
+    }
+
+    const comparison = buildComparison(periods);
+    const options = this.outputOptions(format);
+    let body: string;
+    switch (format) {
+      case "csv":
+        body = formatComparisonAsCsv(comparison, options);
+        break;
+      case "markdown":
+        body = formatComparisonAsMarkdown(comparison, options);
+        break;
+      case "html":
+        body = formatComparisonAsHtml(comparison, options);
+        break;
+      default:
+        body = formatComparisonAsJson(comparison, options);
+    }
+    this.send(response, 200, format, body, age);
+  }
+
+  private collect(request: CollectionRequest): Promise<{ result: RepoStats[]; age: number }> {
+    const key = `stats:${request.startDate}..${request.endDate}:${request.byUser ? "users" : "repos"}:${request.interval ?? "-"}`;
+    return this.cached(key, () => this.options.collect(request));
+  }
+
+  // The cached result for the key while it is fresh, otherwise a new collection queued behind
+  // the running ones. Failed collections are forgotten, so the next request tries again.
+  private async cached<T>(key: string, run: () => Promise<T>): Promise<{ result: T; age: number }> {
+    this.sweep();
+    let entry = this.results.get(key) as CachedResult<T> | undefined;
+
+    if (entry) {
+      // Move to the end, so the map stays ordered from least to most recently used
+      this.results.delete(key);
+      this.results.set(key, entry);
+    } else {
+      const result = this.queue.then(run);
+      this.queue = result.catch(() => undefined);
+      const created: CachedResult<T> = { result, collectedAt: null };
+      this.results.set(key, created);
+      result.then(
+        () => {
+          created.collectedAt = this.now();
+        },
+        () => {
+          if (this.results.get(key) === created) this.results.delete(key);
+        }
+      );
+      entry = created;
+      this.evict();
+    }
+
+    const result = await entry.result;
+    const age = entry.collectedAt === null ? 0 : Math.floor((this.now() - entry.collectedAt) / 1000);
+    return { result, age };
+  }
+
+  // Drop expired results; running collections are kept
+  private sweep(): void {
+    for (const [key, entry] of this.results) {
+      if (entry.collectedAt !== null && this.now() - entry.collectedAt >= this.options.resultTtlMs) {
+        this.results.delete(key);
+      }
+    }
+  }
+
+  // Drop the least recently used results beyond the limit. Requests already waiting on a dropped
+  // collection still get its result.
+  private evict(): void {
+    const maxResults = this.options.maxResults ?? DEFAULT_MAX_RESULTS;
+    for (const key of this.results.keys()) {
+      if (this.results.size <= maxResults) break;
+      this.results.delete(key);
+    }
+  }
+
+  private dateRange(url: URL): { startDate: string; endDate: string } {
+    const startDate = url.searchParams.get("start") ?? this.options.config.dateRange.startDate;
+    const endDate = url.searchParams.get("end") ?? this.options.config.dateRange.endDate;
+    if (!startDate || !endDate) {
+      throw new BadRequestError("start and end are required (YYYY-MM-DD)");
+    }
+    this.checkDate("start", startDate);
+    this.checkDate("end", endDate);
+    if (startDate > endDate) {
+      throw new BadRequestError("start must be before end");
+    }
+    return { startDate, endDate };
+  }
+
+  private checkDate(name: string, value: string): void {
+    if (!DATE.test(value) || isNaN(new Date(value).getTime())) {
+      throw new BadRequestError(`Invalid ${name} "${value}". Use YYYY-MM-DD`);
+    }
+  }
+
+  private interval(url: URL): Interval | null {
+    const interval = url.searchParams.get("interval");
+    if (interval === null) return null;
+    if (!INTERVALS.includes(interval as Interval)) {
+      throw new BadRequestError(`Invalid interval "${interval}". Valid options: ${INTERVALS.join(", ")}`);
+    }
+    return interval as Interval;
+  }
+
+  private format(url: URL, supported: OutputFormat[]): OutputFormat {
+    const format = (url.searchParams.get("format") ?? "json") as OutputFormat;
+    if (!supported.includes(format)) {
+      throw new BadRequestError(`Invalid format "${format}" for ${url.pathname}. Valid options: ${supported.join(", ")}`);
+    }
+    return format;
+  }
+
+  private outputOptions(format: OutputFormat): OutputOptions {
+    return {
+      format,
+      skipLineStats: this.options.config.options.skipLineStats,
+      skipIssueStats: this.options.config.options.skipIssueStats,
+    };
+  }
+
+  private send(response: ServerResponse, status: number, format: OutputFormat, body: string, age?: number): void {
+    const headers: Record<string, string> = { "Content-Type": CONTENT_TYPES[format] ?? "text/plain; charset=utf-8" };
+    // Seconds since the result was collected
+    if (age !== undefined) headers["Age"] = String(age);
+    response.writeHead(status, headers);
+    response.end(body);
+  }
+}
@@ -0,0 +1,270 @@
+// SQLite export: writes the analyzed repositories into normalized tables so they can be queried
+// with SQL. Each run is appended to the database, so history builds up across runs.
+
+import { createHash } from "crypto";
+import { createRequire } from "module";
+import { resolveOwners } from "./owners.js";
+import type { Config, Interval, OutputOptions, PeriodStats, TotalStats } from "./types.js";
+
+// Stored as PRAGMA user_version; bumped when the tables change
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id INTEGER PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    interval TEXT,
+    label TEXT,
+    owners TEXT NOT NULL,
+    config_hash TEXT NOT NULL,
+    repo_count INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS repos (
+    id INTEGER PRIMARY KEY,
+    owner TEXT NOT NULL,
+    name TEXT NOT NULL,
+    is_archived INTEGER NOT NULL,
+    UNIQUE (owner, name)
+  );
+  CREATE TABLE IF NOT EXISTS repo_period_stats (
+    run_id INTEGER NOT NULL REFERENCES runs (id),
+    repo_id INTEGER NOT NULL REFERENCES repos (id),
+    granularity TEXT NOT NULL,
+    period_start TEXT NOT NULL,
+    period_end TEXT NOT NULL,
+    commits INTEGER NOT NULL,
+    lines_added INTEGER,
+    lines_deleted INTEGER,
+    line_stats_mode TEXT,
+    line_stats_truncated INTEGER,
+    pull_requests INTEGER NOT NULL,
+    pull_requests_merged INTEGER NOT NULL,
+    merged_without_approval INTEGER,
+    closed_without_merge INTEGER,
+    open_pull_requests INTEGER,
+    median_hours_to_merge REAL,
+    p90_hours_to_merge REAL,
+    median_hours_to_first_review REAL,
+    contributors INTEGER NOT NULL,
+    issues_created INTEGER,
+    issues_closed INTEGER,
+    open_issues INTEGER,
+    median_issue_close_hours REAL,
+    releases INTEGER NOT NULL,
+    PRIMARY KEY (run_id, repo_id, granularity, period_start)
+  );
+  CREATE TABLE IF NOT EXISTS contributors (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE
+  );
+  CREATE TABLE IF NOT EXISTS repo_contributors (
+    run_id INTEGER NOT NULL REFERENCES runs (id),
+    repo_id INTEGER NOT NULL REFERENCES repos (id),
+    contributor_id INTEGER NOT NULL REFERENCES contributors (id),
+    period_start TEXT NOT NULL,
+    period_end TEXT NOT NULL,
+    PRIMARY KEY (run_id, repo_id, contributor_id, period_start)
+  );
+`;
+
+export interface SqliteRun {
+  startDate: string;
+  endDate: string;
+  // Set when the repos carry a time series; each period gets its own rows
+  interval: Interval | null;
+  // Names the period in --compare runs
+  label?: string;
+  owners: string[];
+  configHash: string;
+}
+
+// Identifies the collection settings behind a run. Credentials are left out, so rotating a
+// token doesn't change the hash.
+export function configHash(config: Config): string {
+  const { token: _token, tokens: _tokens, app, ...github } = config.github;
+  const settings = { github: { ...github, appId: app?.appId ?? null }, options: config.options };
+  return createHash("sha256").update(JSON.stringify(settings)).digest("hex").substring(0, 16);
+}
+
+export function sqliteRun(config: Config, interval: Interval | null, label?: string): SqliteRun {
+  return {
+    ...config.dateRange,
+    interval,
+    label,
+    owners: resolveOwners(config).map((owner) => owner.name),
+    configHash: configHash(config),
+  };
+}
+
+type Sqlite = typeof import("node:sqlite");
+type Database = InstanceType<Sqlite["DatabaseSync"]>;
+
+// node:sqlite is loaded on first use, so its experimental-feature warning only shows up for sqlite output
+export function loadSqlite(): Sqlite {
+  try {
+    return createRequire(import.meta.url)("node:sqlite") as Sqlite;
+  } catch {
+    throw new Error(`The sqlite format needs Node.js 22.13 or later, which includes node:sqlite (running ${process.version})`);
+  }
+}
+
+function openDatabase(file: string): Database {
+  const { DatabaseSync } = loadSqlite();
+  const db = new DatabaseSync(file);
+  db.exec(SCHEMA);
+  migrate(db);
+  return db;
+}
+
+function migrate(db: Database): void {
+  const { user_version: version } = db.prepare("PRAGMA user_version").get() as { user_version: number };
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`The database was written by a newer version (schema ${version}); use a new file`);
+  }
+  db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+}
+
+// Append one run per entry, all in a single transaction. Returns the new run ids.
+export function writeSqlite(
+  file: string,
+  runs: Array<{ run: SqliteRun; stats: TotalStats }>,
+  options: OutputOptions
+): number[] {
+  const db = openDatabase(file);
+  try {
+    const insertRun = db.prepare(
+      `INSERT INTO runs (created_at, start_date, end_date, interval, label, owners, config_hash, repo_count)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const upsertRepo = db.prepare(
+      `INSERT INTO repos (owner, name, is_archived) VALUES (?, ?, ?)
+       ON CONFLICT (owner, name) DO UPDATE SET is_archived = excluded.is_archived
+       RETURNING id`
+    );
+    const upsertContributor = db.prepare(
+      `INSERT INTO contributors (name) VALUES (?)
+       ON CONFLICT (name) DO UPDATE SET name = excluded.name
+       RETURNING id`
+    );
+    const insertStats = db.prepare(
+      `INSERT INTO repo_period_stats VALUES (${Array(24).fill("?").join(", ")})`
+    );
+    const insertContributor = db.prepare(
+      "INSERT OR IGNORE INTO repo_contributors VALUES (?, ?, ?, ?, ?)"
+    );
+
+    const lines = (value: number) => (options.skipLineStats ? null : value);
+    const issues = (value: number | null) => (options.skipIssueStats ? null : value);
+    const createdAt = new Date().toISOString();
+    const runIds: number[] = [];
+
+    db.exec("BEGIN");
+    for (const { run, stats } of runs) {
+      const runId = Number(
+        insertRun.run(
+          createdAt,
+          run.startDate,
+          run.endDate,
+          run.interval,
+          run.label ?? null,
+          run.owners.join(","),
+          run.configHash,
+          stats.repos.length
+        ).lastInsertRowid
+      );
+      runIds.push(runId);
+
+      for (const repo of stats.repos) {
+        const { id: repoId } = upsertRepo.get(repo.owner, repo.name, repo.isArchived ? 1 : 0) as { id: number };
+        const addContributors = (names: string[], start: string, end: string) => {
+          for (const name of names) {
+            const { id } = upsertContributor.get(name) as { id: number };
+            insertContributor.run(runId, repoId, id, start, end);
+          }
+        };
+
+        const metrics = repo.pullRequestMetrics;
+        insertStats.run(
+          runId,
+          repoId,
+          "range",
+          run.startDate,
+          run.endDate,
+          repo.commits,
+          lines(repo.linesAdded),
+          lines(repo.linesDeleted),
+          repo.lineStatsMode,
+          options.skipLineStats ? null : repo.lineStatsTruncated ? 1 : 0,
+          repo.pullRequests,
+          metrics.merged,
+          metrics.mergedWithoutApproval,
+          metrics.closedWithoutMerge,
+          metrics.openAtEnd,
+          metrics.medianHoursToMerge,
+          metrics.p90HoursToMerge,
+          metrics.medianHoursToFirstReview,
+          repo.contributors,
+          issues(repo.issuesCreated),
+          issues(repo.issuesClosed),
+          issues(repo.openIssues),
+          issues(repo.medianIssueCloseHours),
+          repo.releases
+        );
+        addContributors(repo.contributorsList, run.startDate, run.endDate);
+
+        if (run.interval) {
+          for (const period of repo.timeSeries ?? []) {
+            insertStats.run(...periodRow(runId, repoId, run.interval, period, lines));
+            addContributors(period.contributorsList, period.start, period.end);
+          }
+        }
+      }
+    }
+    db.exec("COMMIT");
+    return runIds;
+  } catch (error) {
+    if (db.isTransaction) db.exec("ROLLBACK");
+    throw error;
+  } finally {
+    db.close();
+  }
+}
+
+// A time series period only has the activity counts; the rest stays null
+function periodRow(
+  runId: number,
+  repoId: number,
+  interval: Interval,
+  period: PeriodStats,
+  lines: (value: number) => number | null
+): Array<string | number | null> {
+  return [
+    runId,
+    repoId,
+    interval,
+    period.start,
+    period.end,
+    period.commits,
+    lines(period.linesAdded),
+    lines(period.linesDeleted),
+    null,
+    null,
+    period.pullRequests,
+    period.pullRequestsMerged,
+    null,
+    null,
+    null,
+    null,
+    null,
+    null,
+    period.contributors,
+    null,
+    null,
+    null,
+    null,
+    period.releases,
+  ];
+}
+
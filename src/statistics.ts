@@ -0,0 +1,21 @@
+// Percentile of a list of values using linear interpolation between closest ranks.
+// Returns null for an empty list so callers can distinguish "no data" from zero.
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function median(values: number[]): number | null {
+  return percentile(values, 50);
+}
+
+export function hoursBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (1000 * 60 * 60);
+}
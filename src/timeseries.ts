@@ -0,0 +1,128 @@
+// Time-series bucketing for --interval: splits the date range into periods and sums
+// per-event data (commits, pull requests, releases) into the period each event falls in.
+
+import type { Interval, PeriodStats } from "./types.js";
+
+export const INTERVALS: Interval[] = ["day", "week", "month", "quarter"];
+
+export interface TimeBucket {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+// First day of the period containing the date (weeks start on Monday, as in ISO 8601)
+function periodStart(date: Date, interval: Interval): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (interval) {
+    case "day":
+      return new Date(Date.UTC(year, month, date.getUTCDate()));
+    case "week": {
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      return new Date(Date.UTC(year, month, date.getUTCDate() - daysSinceMonday));
+    }
+    case "month":
+      return new Date(Date.UTC(year, month, 1));
+    case "quarter":
+      return new Date(Date.UTC(year, month - (month % 3), 1));
+  }
+}
+
+// Start of the period `count` periods after (or, when negative, before) a period start
+function addPeriods(start: Date, interval: Interval, count: number): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+  switch (interval) {
+    case "day":
+      return new Date(Date.UTC(year, month, day + count));
+    case "week":
+      return new Date(Date.UTC(year, month, day + 7 * count));
+    case "month":
+      return new Date(Date.UTC(year, month + count, 1));
+    case "quarter":
+      return new Date(Date.UTC(year, month + 3 * count, 1));
+  }
+}
+
+function dayBefore(date: Date): string {
+  return toDateString(new Date(date.getTime() - 24 * 60 * 60 * 1000));
+}
+
+// Calendar-aligned periods covering the date range. The first and last period are cut
+// to the range, so a range starting mid-month begins with a partial month.
+export function createBuckets(startDate: string, endDate: string, interval: Interval): TimeBucket[] {
+  const buckets: TimeBucket[] = [];
+  let current = periodStart(new Date(startDate), interval);
+
+  while (toDateString(current) <= endDate) {
+    const next = addPeriods(current, interval, 1);
+    const lastDay = dayBefore(next);
+    const start = toDateString(current);
+    buckets.push({
+      start: start < startDate ? startDate : start,
+      end: lastDay > endDate ? endDate : lastDay,
+    });
+    current = next;
+  }
+
+  return buckets;
+}
+
+// The `count` whole periods before the one containing the reference date, oldest first
+export function precedingPeriods(referenceDate: string, interval: Interval, count: number): TimeBucket[] {
+  const current = periodStart(new Date(referenceDate), interval);
+  return createBuckets(toDateString(addPeriods(current, interval, -count)), dayBefore(current), interval);
+}
+
+// Index of the bucket containing the timestamp, or -1 when it is outside the range
+export function findBucket(buckets: TimeBucket[], timestamp: string): number {
+  const day = toDateString(new Date(timestamp));
+  return buckets.findIndex((bucket) => day >= bucket.start && day <= bucket.end);
+}
+
+export function emptyPeriod(bucket: TimeBucket): PeriodStats {
+  return {
+    start: bucket.start,
+    end: bucket.end,
+    commits: 0,
+    linesAdded: 0,
+    linesDeleted: 0,
+    pullRequests: 0,
+    pullRequestsMerged: 0,
+    releases: 0,
+    contributors: 0,
+    contributorsList: [],
+  };
+}
+
+// Combine several series over the same buckets. Contributors are unioned per period,
+// since someone active in two repos in the same week is still one contributor.
+export function mergePeriods(buckets: TimeBucket[], series: PeriodStats[][]): PeriodStats[] {
+  return buckets.map((bucket, i) => {
+    const merged = emptyPeriod(bucket);
+    const contributors = new Set<string>();
+
+    for (const periods of series) {
+      const period = periods[i];
+      if (!period) continue;
+      merged.commits += period.commits;
+      merged.linesAdded += period.linesAdded;
+      merged.linesDeleted += period.linesDeleted;
+      merged.pullRequests += period.pullRequests;
+      merged.pullRequestsMerged += period.pullRequestsMerged;
+      merged.releases += period.releases;
+      for (const contributor of period.contributorsList) {
+        contributors.add(contributor);
+      }
+    }
+
+    merged.contributorsList = Array.from(contributors);
+    merged.contributors = contributors.size;
+    return merged;
+  });
+}
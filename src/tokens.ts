@@ -0,0 +1,164 @@
+// Personal access tokens: reads them from config, environment variables, files or commands,
+// and rotates requests through a pool of them as each one's rate limit runs low.
+
+import { execSync } from "child_process";
+import { readFileSync } from "fs";
+import type { Config, TokenSource } from "./types.js";
+
+const PLACEHOLDER_TOKEN = "YOUR_GITHUB_PERSONAL_ACCESS_TOKEN";
+const DEFAULT_RATE_LIMIT = 5000;
+
+export interface TokenUsage {
+  label: string;
+  // API requests answered with rate limit headers, so cached responses don't count
+  requests: number;
+  remaining: number | null;
+  limit: number | null;
+}
+
+interface TokenBudget extends TokenUsage {
+  token: string;
+  reset: number;
+}
+
+type RateLimitHeaders = Record<string, string | number | undefined>;
+
+// The configured token sources, falling back to the GITHUB_TOKEN environment variable
+export function tokenSources(github: Config["github"]): TokenSource[] {
+  const sources = [github.token, ...(github.tokens ?? [])].filter(
+    (source): source is TokenSource => Boolean(source) && source !== PLACEHOLDER_TOKEN
+  );
+  if (sources.length === 0 && process.env.GITHUB_TOKEN) {
+    return [{ env: "GITHUB_TOKEN" }];
+  }
+  return sources;
+}
+
+function describeSource(source: TokenSource): string {
+  if (typeof source === "string") return "token";
+  if ("env" in source) return `environment variable ${source.env}`;
+  if ("file" in source) return `file ${source.file}`;
+  return `command "${source.command}"`;
+}
+
+export function resolveToken(source: TokenSource): string {
+  let token: string | undefined;
+  try {
+    if (typeof source === "string") {
+      token = source;
+    } else if ("env" in source) {
+      token = process.env[source.env];
+    } else if ("file" in source) {
+      token = readFileSync(source.file, "utf-8");
+    } else if ("command" in source) {
+      // stderr passes through, so a credential helper can still prompt or explain failures
+      token = execSync(source.command, { encoding: "utf-8", stdio: ["ignore", "pipe", "inherit"] });
+    }
+  } catch (error) {
+    throw new Error(`Could not read GitHub token from ${describeSource(source)}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  token = token?.trim();
+  if (!token) {
+    throw new Error(`No GitHub token found in ${describeSource(source)}`);
+  }
+  return token;
+}
+
+// Resolve every configured token once, dropping duplicates
+export function resolveTokens(github: Config["github"]): string[] {
+  return Array.from(new Set(tokenSources(github).map(resolveToken)));
+}
+
+export class TokenPool {
+  private budgets: TokenBudget[];
+  private current: TokenBudget;
+
+  constructor(tokens: string[]) {
+    if (tokens.length === 0) {
+      throw new Error("No GitHub token configured");
+    }
+    this.budgets = tokens.map((token, i) => ({
+      token,
+      label: `token ${i + 1} (…${token.slice(-4)})`,
+      requests: 0,
+      remaining: null,
+      limit: null,
+      reset: 0,
+    }));
+    this.current = this.budgets[0];
+  }
+
+  currentToken(): string {
+    return this.current.token;
+  }
+
+  // Track a token's budget from a response. Only the core REST budget is followed; GraphQL
+  // and search have budgets of their own.
+  record(token: string, headers: RateLimitHeaders): void {
+    const budget = this.budgets.find((b) => b.token === token);
+    const resource = headers["x-ratelimit-resource"];
+    if (!budget || headers["x-ratelimit-remaining"] === undefined || (resource && resource !== "core")) return;
+
+    budget.requests++;
+    budget.remaining = Number(headers["x-ratelimit-remaining"]);
+    if (headers["x-ratelimit-limit"] !== undefined) budget.limit = Number(headers["x-ratelimit-limit"]);
+    if (headers["x-ratelimit-reset"] !== undefined) budget.reset = Number(headers["x-ratelimit-reset"]);
+  }
+
+  // Switch away from a token running low to the one with the most budget left. Returns the
+  // label of the new token, or null when no switch was made. When every token is low, the one
+  // that resets first becomes current, so waiting for it is shortest.
+  rotate(minRemaining: number, now: number = Math.floor(Date.now() / 1000)): string | null {
+    if (this.available(this.current, now) >= minRemaining) return null;
+
+    const best = this.budgets.reduce((a, b) => (this.available(b, now) > this.available(a, now) ? b : a));
+    if (this.available(best, now) >= minRemaining) {
+      this.current = best;
+      return best.label;
+    }
+
+    this.current = this.budgets.reduce((a, b) => (b.reset < a.reset ? b : a));
+    return null;
+  }
+
+  currentBudget(now: number = Math.floor(Date.now() / 1000)): { remaining: number; reset: number } {
+    return { remaining: this.available(this.current, now), reset: this.current.reset };
+  }
+
+  getUsage(): TokenUsage[] {
+    return this.budgets.map(({ label, requests, remaining, limit }) => ({ label, requests, remaining, limit }));
+  }
+
+  // A token not yet used, or whose window has reset, has its full budget
+  private available(budget: TokenBudget, now: number): number {
+    if (budget.remaining === null || budget.reset <= now) return budget.limit ?? DEFAULT_RATE_LIMIT;
+    return budget.remaining;
+  }
+}
+
+interface EndpointRequest {
+  (options: Record<string, unknown>): Promise<{ headers: RateLimitHeaders }>;
+  endpoint: { merge: (route: unknown, parameters?: unknown) => Record<string, unknown> & { headers: Record<string, string> } };
+}
+
+// An Octokit authStrategy that sends each request with the pool's current token and records
+// the budget the response reports for it, including on rate limit errors
+export function createTokenAuthStrategy(pool: TokenPool) {
+  return () => ({
+    hook: async (request: EndpointRequest, route: unknown, parameters?: unknown) => {
+      const endpoint = request.endpoint.merge(route, parameters);
+      const token = pool.currentToken();
+      endpoint.headers.authorization = `token ${token}`;
+      try {
+        const response = await request(endpoint);
+        pool.record(token, response.headers);
+        return response;
+      } catch (error) {
+        const headers = (error as { response?: { headers?: RateLimitHeaders } }).response?.headers;
+        if (headers) pool.record(token, headers);
+        throw error;
+      }
+    },
+  });
+}
@@ -1,9 +1,107 @@
-export type OutputFormat = "table" | "json" | "csv" | "markdown";
+export type OutputFormat = "table" | "json" | "csv" | "markdown" | "html" | "sqlite" | "openmetrics";
+
+export type ApiMode = "rest" | "graphql";
+
+// How line counts are computed: a single compare of the range endpoints, or the sum of each commit
+export type LineStatsMethod = "snapshot" | "per-commit";
+
+// "auto" uses the snapshot unless GitHub truncates the compare, then falls back to per-commit
+export type LineStatsMode = LineStatsMethod | "auto";
+
+export type Interval = "day" | "week" | "month" | "quarter";
+
+export interface CacheConfig {
+  enabled?: boolean;
+  directory?: string;
+  // Seconds a cached listing is reused without contacting GitHub; after that, or right away by
+  // default, it is revalidated with ETags. Commits and comparisons by SHA never expire.
+  ttlSeconds?: {
+    default?: number;
+    repositories?: number;
+    commits?: number;
+    pullRequests?: number;
+    issues?: number;
+    releases?: number;
+  };
+  // Entries not stored or revalidated for this many days are deleted (default: 30)
+  maxAgeDays?: number;
+  // The most entries kept, dropping the oldest first (default: 50000)
+  maxEntries?: number;
+}
+
+export interface IdentityConfig {
+  // Login or email (case-insensitive) -> canonical name, e.g. { "alice@home.example": "alice" }
+  aliases?: Record<string, string>;
+  // Path to a .mailmap file mapping commit emails to canonical names
+  mailmap?: string;
+  // Leave bot accounts out of contributor counts and per-user/reviewer breakdowns
+  excludeBots?: boolean;
+}
+
+export type OwnerType = "org" | "user";
+
+// An organization or user account whose repositories are analyzed
+export interface OwnerConfig {
+  name: string;
+  type?: OwnerType; // default: "org"
+  // Replace options.includeRepos / options.excludeRepos for this owner's repositories
+  includeRepos?: string[];
+  excludeRepos?: string[];
+}
+
+// Authenticate as a GitHub App installed on each owner instead of with a personal access token
+export interface GitHubAppConfig {
+  appId: number | string;
+  // Path to the app's PEM private key; privateKey holds the key itself instead
+  privateKeyPath?: string;
+  privateKey?: string;
+}
+
+// A report written by daemon mode whenever its schedule comes up
+export interface ScheduledReport {
+  name: string;
+  // Cron expression, e.g. "0 6 1 * *" for 06:00 on the first of the month
+  schedule: string;
+  // Date preset counted back from the day of the run: last-<n>-<days|weeks|months|quarters>
+  // or <week|month|quarter|year>-to-date
+  range: string;
+  format: DaemonFormat;
+  // Path template, e.g. "reports/{org}/{yyyy}-{mm}.json"; {org} writes a file per owner
+  output: string;
+  interval?: Interval;
+  retention?: {
+    // Newest files kept per owner (or in all, without {org})
+    keep?: number;
+    // Files older than this are removed
+    maxAgeDays?: number;
+  };
+}
+
+export type DaemonFormat = Extract<OutputFormat, "json" | "csv" | "markdown" | "html" | "openmetrics">;
+
+export interface DaemonConfig {
+  // JSON lines file with one entry per scheduled run
+  runLog: string;
+  reports: ScheduledReport[];
+}
+
+// A personal access token, or where to read one: an environment variable, a file (such as a
+// Docker secret) or the output of a command
+export type TokenSource = string | { env: string } | { file: string } | { command: string };
+
+// The order repositories are taken from the work queue: as listed, or by size
+export type RepoOrder = "listed" | "small-first" | "large-first";
 
 export interface Config {
   github: {
-    token: string;
-    organization: string;
+    // Personal access token; not needed when app is set
+    token?: TokenSource;
+    // More tokens to rotate through when the current one runs low on rate limit
+    tokens?: TokenSource[];
+    app?: GitHubAppConfig;
+    // A single organization; superseded by owners when both are set
+    organization?: string;
+    owners?: OwnerConfig[];
     isEnterprise: boolean;
     enterpriseUrl: string;
   };
@@ -14,16 +112,71 @@ export interface Config {
   options: {
     excludeRepos: string[];
     includeRepos: string[];
+    // HTTP requests in flight at once, across every repository and metric
     maxConcurrentRequests: number;
+    // Repositories analyzed at once (default: maxConcurrentRequests)
+    maxConcurrentRepos?: number;
+    repoOrder?: RepoOrder;
     skipLineStats: boolean;
+    lineStatsMode?: LineStatsMode;
+    skipIssueStats: boolean;
     pageSize: number;
+    apiMode?: ApiMode;
+    cache?: CacheConfig;
+    identity?: IdentityConfig;
   };
+  daemon?: DaemonConfig;
 }
 
+// What happens while repositories are analyzed, as a stream of events. Repos are "owner/name".
+export type ProgressEvent =
+  | { type: "run-started"; repos: number }
+  | { type: "repo-started"; repo: string }
+  // What the client is doing for a repository, e.g. "fetching commits (page 2)..."
+  | { type: "repo-status"; repo: string; status: string }
+  // A successful API request; page is set for paginated listings, items for list responses
+  | { type: "page-fetched"; repo: string; operation: string; page?: number; items?: number }
+  | { type: "retry"; repo: string; operation: string; attempt: number; maxAttempts: number; delaySeconds: number; error: string }
+  | { type: "rate-limit-wait"; repo: string; remaining: number; waitSeconds: number }
+  // Resumed repos come from the checkpoint without being analyzed again
+  | { type: "repo-completed"; repo: string; durationSeconds: number; resumed: boolean }
+  | { type: "repo-failed"; repo: string; operation: string | null; error: string }
+  | { type: "run-finished"; repos: number; durationSeconds: number };
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
 export interface OutputOptions {
   format: OutputFormat;
   outputFile?: string;
   skipLineStats: boolean;
+  skipIssueStats: boolean;
+}
+
+// Per-author activity within a single repository
+export interface ContributorActivity {
+  commits: number;
+  linesAdded: number;
+  linesDeleted: number;
+  pullRequests: number;
+  pullRequestsMerged: number;
+}
+
+// Per-reviewer review work within a single repository
+export interface ReviewerActivity {
+  reviews: number;
+  approvals: number;
+  changesRequested: number;
+  reviewComments: number;
+  // Hours from PR creation to this reviewer's first review, one entry per reviewed PR
+  turnaroundHours: number[];
+}
+
+export interface UserRepoStats extends ContributorActivity {
+  repo: string;
+  reviews: number;
+  approvals: number;
+  changesRequested: number;
+  reviewComments: number;
 }
 
 export interface UserStats {
@@ -32,48 +185,204 @@ export interface UserStats {
   linesAdded: number;
   linesDeleted: number;
   pullRequests: number;
+  pullRequestsMerged: number;
+  reviews: number;
+  approvals: number;
+  changesRequested: number;
+  reviewComments: number;
+  medianReviewTurnaroundHours: number | null;
   repos: string[];
+  repoBreakdown: UserRepoStats[];
+}
+
+// Activity within one period of a --interval time series
+export interface PeriodStats {
+  start: string;
+  end: string;
+  commits: number;
+  linesAdded: number;
+  linesDeleted: number;
+  pullRequests: number;
+  pullRequestsMerged: number;
+  releases: number;
+  contributors: number;
+  contributorsList: string[];
+}
+
+export interface TimeSeriesStats {
+  interval: Interval;
+  repos: Array<{ name: string; isArchived: boolean; periods: PeriodStats[] }>;
+  totals: PeriodStats[];
+}
+
+export interface ComparisonPeriod {
+  label: string;
+  start: string;
+  end: string;
+  stats: TotalStats;
+}
+
+// One repository across the compared periods; null where a period has no stats for it
+export interface RepoComparison {
+  owner: string;
+  // "owner/name" when the compared repos span several owners
+  name: string;
+  isArchived: boolean;
+  periods: Array<RepoStats | null>;
 }
 
 export interface ComparisonStats {
-  period1: TotalStats;
-  period2: TotalStats;
-  period1Range: { start: string; end: string };
-  period2Range: { start: string; end: string };
+  periods: ComparisonPeriod[];
+  repos: RepoComparison[];
+}
+
+// One commit on a repository's default branch, as harvested once per repo and period
+export interface CommitRecord {
+  sha: string;
+  authorLogin: string | null;
+  authorEmail: string | null;
+  date: string;
+  parents: string[];
+  message: string;
+  // Line counts when the listing includes them (GraphQL history); REST listings don't
+  stats: { additions: number; deletions: number } | null;
+}
+
+// One issue (not a pull request), as kept in the history store
+export interface IssueRecord {
+  number: number;
+  createdAt: string;
+  closedAt: string | null;
+}
+
+// Raw activity of one repository as kept by the history store (--incremental), from which stats
+// for any date range within the synced span are computed without calling GitHub again
+export interface RepoHistory {
+  version: number;
+  owner: string;
+  name: string;
+  isArchived: boolean;
+  // The default branch at the last sync, and its newest commit then; a rename or force-push
+  // since means the stored history no longer matches the branch
+  branch: string;
+  headSha: string | null;
+  // Activity from this date (YYYY-MM-DD) onwards is complete
+  syncedFrom: string;
+  // When the last sync started: the watermark the next sync continues from
+  syncedAt: string;
+  hasLineStats: boolean;
+  hasIssues: boolean;
+  // Newest first; line counts are null for merge commits and when line stats are skipped
+  commits: Omit<CommitRecord, "message">[];
+  // Everything updated since syncedFrom, plus the open backlog. Review outcomes are kept
+  // instead of the reviews themselves.
+  pullRequests: (Omit<PullRequestRecord, "reviews"> & { approved: boolean; firstReviewAt: string | null })[];
+  issues: IssueRecord[];
+  releases: { id: number; publishedAt: string }[];
+}
+
+export interface LineStats {
+  added: number;
+  deleted: number;
+  // Null when line stats are skipped
+  mode: LineStatsMethod | null;
+  // The compare response hit GitHub's file limit, so the snapshot counts are too low
+  truncated: boolean;
+}
+
+export interface ReviewRecord {
+  id: string;
+  reviewerLogin: string | null;
+  state: string;
+  submittedAt: string | null;
+  // Inline comments left with the review; only included by the GraphQL listing
+  commentCount?: number;
+}
+
+// One pull request against a repository's default branch, as harvested once per repo and period
+export interface PullRequestRecord {
+  number: number;
+  authorLogin: string | null;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  mergedAt: string | null;
+  // Included by the GraphQL listing; REST listings need one extra call per pull request
+  reviews?: ReviewRecord[];
+}
+
+export interface PullRequestMetrics {
+  merged: number;
+  mergedWithoutApproval: number;
+  closedWithoutMerge: number;
+  openAtEnd: number;
+  medianHoursToMerge: number | null;
+  p90HoursToMerge: number | null;
+  medianHoursToFirstReview: number | null;
 }
 
 export interface RepoInfo {
+  owner: string;
   name: string;
   isArchived: boolean;
+  // Size in KB as GitHub lists it, for ordering the work queue
+  size?: number;
 }
 
 export interface RepoStats {
+  owner: string;
   name: string;
   isArchived: boolean;
   commits: number;
   linesAdded: number;
   linesDeleted: number;
   totalLines: number;
+  lineStatsMode: LineStatsMethod | null;
+  lineStatsTruncated: boolean;
   pullRequests: number;
+  pullRequestMetrics: PullRequestMetrics;
+  // Raw durations behind the PR medians, used to compute org-wide percentiles
+  pullRequestMergeHours: number[];
+  pullRequestFirstReviewHours: number[];
   contributors: number;
   contributorsList: string[];
   issuesCreated: number;
   issuesClosed: number;
+  openIssues: number;
+  medianIssueCloseHours: number | null;
+  // Hours from creation to close for each issue closed in range, used to compute the org-wide median
+  issueCloseHours: number[];
   releases: number;
+  // Only collected in --by-user mode, keyed by login (or email when there is no linked account)
+  contributorActivity?: Record<string, ContributorActivity>;
+  // Only collected in --by-user and --by-reviewer modes, keyed by login
+  reviewerActivity?: Record<string, ReviewerActivity>;
+  // Only collected with --interval
+  timeSeries?: PeriodStats[];
 }
 
 export interface TotalStats {
   repos: RepoStats[];
+  // Per-owner subtotals, present when the repositories span more than one owner
+  owners?: OwnerTotals[];
   totals: {
     commits: number;
     linesAdded: number;
     linesDeleted: number;
     totalLines: number;
     pullRequests: number;
+    pullRequestMetrics: PullRequestMetrics;
     contributors: number;
     issuesCreated: number;
     issuesClosed: number;
+    openIssues: number;
+    medianIssueCloseHours: number | null;
     releases: number;
     repoCount: number;
   };
 }
+
+export interface OwnerTotals {
+  owner: string;
+  totals: TotalStats["totals"];
+}
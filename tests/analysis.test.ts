@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { processRepos } from "../src/analysis.js";
+import type { GitHubClient } from "../src/github-client.js";
+import type { ProgressEvent, RepoInfo, RepoStats } from "../src/types.js";
+
+const repos: RepoInfo[] = [
+  { owner: "test-org", name: "monorepo", isArchived: false, size: 900_000 },
+  { owner: "test-org", name: "api", isArchived: false, size: 2_000 },
+  { owner: "test-org", name: "docs", isArchived: false, size: 300 },
+  { owner: "test-org", name: "web", isArchived: false, size: 40_000 },
+];
+
+// Each repo takes as many milliseconds as its name in `durations`
+const fakeClient = (durations: Record<string, number>, failing?: string) =>
+  ({
+    setProgressListener() {},
+    async prefetchRepoData() {},
+    async getRepoStats(repo: RepoInfo) {
+      await new Promise((resolve) => setTimeout(resolve, durations[repo.name] ?? 0));
+      if (repo.name === failing) throw new Error("Not Found");
+      return { owner: repo.owner, name: repo.name, commits: repo.name.length } as RepoStats;
+    },
+  }) as unknown as GitHubClient;
+
+const startedOrder = (events: ProgressEvent[]) =>
+  events.filter((event) => event.type === "repo-started").map((event) => (event as { repo: string }).repo.split("/")[1]);
+
+describe("processRepos", () => {
+  it("starts the next repo as soon as a slot frees, keeping results in listed order", async () => {
+    const events: ProgressEvent[] = [];
+    const stats = await processRepos(fakeClient({ monorepo: 60, api: 5, docs: 5, web: 5 }), repos, {
+      concurrency: 2,
+      progress: (event) => events.push(event),
+    });
+
+    expect(stats.map((repo) => repo.name)).toEqual(["monorepo", "api", "docs", "web"]);
+    // The small repos all finish while the monorepo is still being analyzed
+    const completed = events.filter((event) => event.type === "repo-completed").map((event) => (event as { repo: string }).repo);
+    expect(completed).toEqual(["test-org/api", "test-org/docs", "test-org/web", "test-org/monorepo"]);
+  });
+
+  it("takes repos smallest or largest first", async () => {
+    const order = async (order: "small-first" | "large-first") => {
+      const events: ProgressEvent[] = [];
+      await processRepos(fakeClient({}), repos, { concurrency: 1, order, progress: (event) => events.push(event) });
+      return startedOrder(events);
+    };
+
+    expect(await order("small-first")).toEqual(["docs", "api", "web", "monorepo"]);
+    expect(await order("large-first")).toEqual(["monorepo", "web", "api", "docs"]);
+  });
+
+  it("starts no more repos after one fails", async () => {
+    const events: ProgressEvent[] = [];
+    const run = processRepos(fakeClient({ monorepo: 20 }, "api"), repos, { concurrency: 2, progress: (event) => events.push(event) });
+
+    await expect(run).rejects.toThrow("Not Found");
+    expect(startedOrder(events)).toEqual(["monorepo", "api"]);
+    expect(events).toContainEqual({ type: "repo-failed", repo: "test-org/api", operation: null, error: "Not Found" });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Checkpoint, type CheckpointKey } from "../src/checkpoint.js";
+import type { RepoStats } from "../src/types.js";
+
+const repo = (owner: string, name: string, commits: number) => ({ owner, name, commits }) as RepoStats;
+
+const key: CheckpointKey = {
+  owners: ["Test-Org", "alice"],
+  startDate: "2024-01-01",
+  endDate: "2024-12-31",
+  settings: { byUser: false },
+};
+
+describe("Checkpoint", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "checkpoint-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("names the file after the owners and date range", () => {
+    expect(new Checkpoint(key, directory).path).toBe(join(directory, "alice+test-org_2024-01-01_2024-12-31.jsonl"));
+  });
+
+  it("resumes with the repos saved by an earlier run", () => {
+    const first = new Checkpoint(key, directory);
+    first.start();
+    first.save(repo("test-org", "api", 12));
+    first.save(repo("alice", "dotfiles", 3));
+
+    const second = new Checkpoint(key, directory);
+    expect(second.resume()).toBe(true);
+    expect(second.size).toBe(2);
+    expect(second.get({ owner: "test-org", name: "api", isArchived: false })?.commits).toBe(12);
+    expect(second.get({ owner: "test-org", name: "web", isArchived: false })).toBeUndefined();
+
+    // Starting again keeps the resumed repos on disk
+    second.start();
+    second.save(repo("test-org", "web", 5));
+    const third = new Checkpoint(key, directory);
+    expect(third.resume()).toBe(true);
+    expect(third.size).toBe(3);
+  });
+
+  it("skips a line cut short by a crash", () => {
+    const checkpoint = new Checkpoint(key, directory);
+    checkpoint.start();
+    checkpoint.save(repo("test-org", "api", 12));
+    appendFileSync(checkpoint.path, '{"owner":"test-org","na');
+
+    const resumed = new Checkpoint(key, directory);
+    expect(resumed.resume()).toBe(true);
+    expect(resumed.size).toBe(1);
+  });
+
+  it("does not resume a checkpoint written with other settings", () => {
+    const checkpoint = new Checkpoint(key, directory);
+    checkpoint.start();
+    checkpoint.save(repo("test-org", "api", 12));
+
+    const other = new Checkpoint({ ...key, settings: { byUser: true } }, directory);
+    expect(other.resume()).toBe(false);
+    expect(other.size).toBe(0);
+    expect(new Checkpoint(key, join(directory, "missing")).resume()).toBe(false);
+  });
+
+  it("starts over without resume and is removed once the run finishes", () => {
+    const checkpoint = new Checkpoint(key, directory);
+    checkpoint.start();
+    checkpoint.save(repo("test-org", "api", 12));
+
+    const fresh = new Checkpoint(key, directory);
+    fresh.start();
+    expect(readFileSync(fresh.path, "utf-8").trim().split("\n")).toHaveLength(1);
+
+    fresh.remove();
+    expect(existsSync(fresh.path)).toBe(false);
+  });
+});
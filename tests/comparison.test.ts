@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { buildComparison, calcChange, repoStatus, resolveComparePeriods, resolveDatePreset } from "../src/comparison.js";
+import type { RepoStats, TotalStats } from "../src/types.js";
+
+describe("resolveComparePeriods", () => {
+  it("accepts ranges and start/end date pairs in the order given", () => {
+    const args = ["2024-01-01:2024-03-31", "2024-04-01", "2024-06-30", "2024-07-01..2024-09-30"];
+    expect(resolveComparePeriods(args, "2025-01-01")).toEqual([
+      { label: "Period 1", start: "2024-01-01", end: "2024-03-31" },
+      { label: "Period 2", start: "2024-04-01", end: "2024-06-30" },
+      { label: "Period 3", start: "2024-07-01", end: "2024-09-30" },
+    ]);
+  });
+
+  it("expands last-N presets to whole periods before the reference date", () => {
+    expect(resolveComparePeriods(["last-4-quarters"], "2025-02-10")).toEqual([
+      { label: "2024-Q1", start: "2024-01-01", end: "2024-03-31" },
+      { label: "2024-Q2", start: "2024-04-01", end: "2024-06-30" },
+      { label: "2024-Q3", start: "2024-07-01", end: "2024-09-30" },
+      { label: "2024-Q4", start: "2024-10-01", end: "2024-12-31" },
+    ]);
+    expect(resolveComparePeriods(["last-2-weeks"], "2024-01-17").map((period) => period.label)).toEqual([
+      "Week of 2024-01-01",
+      "Week of 2024-01-08",
+    ]);
+  });
+
+  it("compares the last whole month with the same month a year earlier", () => {
+    expect(resolveComparePeriods(["same-month-last-year"], "2024-03-10")).toEqual([
+      { label: "2023-02", start: "2023-02-01", end: "2023-02-28" },
+      { label: "2024-02", start: "2024-02-01", end: "2024-02-29" },
+    ]);
+  });
+
+  it("rejects invalid periods and single periods", () => {
+    expect(() => resolveComparePeriods(["2024-03-01:2024-01-01", "last-1-month"], "2024-06-01")).toThrow("starts after it ends");
+    expect(() => resolveComparePeriods(["2024-01-01", "last-month"], "2024-06-01")).toThrow("no end date");
+    expect(() => resolveComparePeriods(["yesterday", "last-1-month"], "2024-06-01")).toThrow('Invalid period "yesterday"');
+    expect(() => resolveComparePeriods(["last-1-month"], "2024-06-01")).toThrow("at least two periods");
+  });
+});
+
+describe("resolveDatePreset", () => {
+  it("covers whole periods before the reference date, or the current one so far", () => {
+    expect(resolveDatePreset("last-1-month", "2024-03-01")).toEqual({ start: "2024-02-01", end: "2024-02-29" });
+    expect(resolveDatePreset("last-2-quarters", "2024-08-15")).toEqual({ start: "2024-01-01", end: "2024-06-30" });
+    expect(resolveDatePreset("week-to-date", "2024-01-17")).toEqual({ start: "2024-01-15", end: "2024-01-17" });
+    expect(resolveDatePreset("quarter-to-date", "2024-05-02")).toEqual({ start: "2024-04-01", end: "2024-05-02" });
+    expect(resolveDatePreset("year-to-date", "2024-05-02")).toEqual({ start: "2024-01-01", end: "2024-05-02" });
+  });
+
+  it("rejects unknown presets", () => {
+    expect(() => resolveDatePreset("last-0-months", "2024-03-01")).toThrow('Invalid date preset "last-0-months"');
+    expect(() => resolveDatePreset("2024-01-01:2024-01-31", "2024-03-01")).toThrow("Invalid date preset");
+  });
+});
+
+describe("calcChange", () => {
+  it("counts growth from zero as +100%", () => {
+    expect(calcChange(0, 0)).toEqual({ absolute: 0, percentage: 0 });
+    expect(calcChange(0, 5)).toEqual({ absolute: 5, percentage: 100 });
+    expect(calcChange(8, 6)).toEqual({ absolute: -2, percentage: -25 });
+  });
+});
+
+describe("buildComparison", () => {
+  const repo = (name: string, commits: number, isArchived = false) =>
+    ({ name, isArchived, commits, pullRequests: 0, pullRequestMetrics: { merged: 0 }, issuesCreated: 0, issuesClosed: 0, releases: 0 }) as RepoStats;
+  const period = (label: string, repos: RepoStats[]) => ({
+    label,
+    start: "2024-01-01",
+    end: "2024-01-31",
+    stats: { repos, totals: {} } as TotalStats,
+  });
+
+  it("lines repos up across periods and tracks when they appear or go quiet", () => {
+    const comparison = buildComparison([
+      period("A", [repo("api", 3), repo("web", 2)]),
+      period("B", [repo("api", 1), repo("web", 0), repo("cli", 4)]),
+      period("C", [repo("api", 2, true), repo("web", 5)]),
+    ]);
+
+    expect(comparison.repos.map((r) => r.name)).toEqual(["api", "web", "cli"]);
+    const [api, web, cli] = comparison.repos;
+
+    expect(api.isArchived).toBe(true);
+    expect(cli.periods[0]).toBeNull();
+    expect([0, 1, 2].map((i) => repoStatus(api, i))).toEqual([null, null, null]);
+    expect([0, 1, 2].map((i) => repoStatus(web, i))).toEqual([null, "disappeared", "appeared"]);
+    expect([0, 1, 2].map((i) => repoStatus(cli, i))).toEqual([null, "appeared", "disappeared"]);
+  });
+});
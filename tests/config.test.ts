@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConfigError, interpolateEnv, loadConfigFile, parseConfig, validateConfig } from "../src/config.js";
+
+const minimal = { github: { token: "ghp_test", organization: "test-org" } };
+
+const issuesOf = (data: unknown, env: NodeJS.ProcessEnv = {}): string[] => {
+  try {
+    parseConfig(data, "config.json", env);
+  } catch (error) {
+    if (error instanceof ConfigError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe("parseConfig", () => {
+  it("fills in defaults for omitted blocks and options", () => {
+    const { config, warnings } = parseConfig(minimal, "config.json", {});
+
+    expect(warnings).toEqual([]);
+    expect(config.github).toEqual({ token: "ghp_test", organization: "test-org", isEnterprise: false, enterpriseUrl: "" });
+    expect(config.dateRange).toEqual({ startDate: "", endDate: "" });
+    expect(config.options).toEqual({
+      excludeRepos: [],
+      includeRepos: [],
+      maxConcurrentRequests: 3,
+      skipLineStats: false,
+      skipIssueStats: false,
+      pageSize: 100,
+    });
+  });
+
+  it("reports every invalid value with its key path", () => {
+    const issues = issuesOf({
+      github: { token: 42, owners: [{ name: "a" }, { name: "b", type: "team" }] },
+      options: { pageSize: 500, skipLineStats: "yes", excludeRepos: "legacy", cache: { ttlSeconds: { commits: -1 } } },
+    });
+
+    expect(issues).toEqual([
+      'github.token: expected a token, or an object with "env", "file" or "command", got 42',
+      'github.owners[1].type: expected one of "org", "user", got "team"',
+      'options.excludeRepos: expected a list, got "legacy"',
+      'options.skipLineStats: expected true or false, got "yes"',
+      "options.pageSize: expected a whole number >= 1 <= 100, got 500",
+      "options.cache.ttlSeconds.commits: expected a number >= 0, got -1",
+    ]);
+    expect(issuesOf({ options: {} })).toEqual(["github: is required"]);
+    expect(issuesOf({ github: { token: { env: 1 } } })).toEqual(["github.token.env: expected a string, got 1"]);
+  });
+
+  it("warns about unknown keys, suggesting the closest known one", () => {
+    const { warnings } = parseConfig(
+      { ...minimal, options: { skipLineStat: true, concurrency: 2 }, extra: {} },
+      "config.json",
+      {}
+    );
+
+    expect(warnings).toEqual([
+      'Unknown option "options.skipLineStat" (did you mean "options.skipLineStats"?)',
+      'Unknown option "options.concurrency"',
+      'Unknown option "extra"',
+    ]);
+  });
+
+  it("substitutes environment variables before checking values", () => {
+    const { config } = parseConfig(
+      {
+        github: { token: "${GH_TOKEN}", organization: "${ORG:-fallback-org}" },
+        options: { maxConcurrentRequests: "${CONCURRENCY}", skipLineStats: "${SKIP_LINES}" },
+      },
+      "config.json",
+      { GH_TOKEN: "ghp_env", CONCURRENCY: "5", SKIP_LINES: "true" }
+    );
+
+    expect(config.github.token).toBe("ghp_env");
+    expect(config.github.organization).toBe("fallback-org");
+    expect(config.options.maxConcurrentRequests).toBe(5);
+    expect(config.options.skipLineStats).toBe(true);
+    expect(issuesOf({ github: { token: "${GH_TOKEN}" } })).toEqual(["github.token: environment variable GH_TOKEN is not set"]);
+  });
+
+  it("checks scheduled reports' cron expressions and date presets", () => {
+    const report = { name: "monthly", schedule: "0 6 1 * *", range: "last-1-month", output: "reports/{org}/{yyyy}-{mm}.json" };
+    const { config } = parseConfig({ ...minimal, daemon: { reports: [report] } }, "config.json", {});
+    expect(config.daemon).toEqual({ runLog: "reports/runs.jsonl", reports: [{ ...report, format: "json" }] });
+
+    expect(issuesOf({ ...minimal, daemon: { reports: [{ ...report, schedule: "0 25 * * *", range: "last-month" }] } })).toEqual([
+      'daemon.reports[0].schedule: Invalid cron expression "0 25 * * *": hour "25" is not between 0 and 23',
+      'daemon.reports[0].range: Invalid date preset "last-month". Use last-<n>-<days|weeks|months|quarters> or <week|month|quarter|year>-to-date',
+    ]);
+    expect(issuesOf({ ...minimal, daemon: { reports: [{ ...report, schedule: "0 0 31 2 *" }] } })).toEqual([
+      'daemon.reports[0].schedule: Cron expression "0 0 31 2 *" never runs',
+    ]);
+  });
+});
+
+describe("interpolateEnv", () => {
+  it("replaces references inside strings and keeps escaped ones", () => {
+    expect(interpolateEnv({ url: "https://${HOST}/api", literal: "$${HOST}", list: ["${HOST}"], n: 1 }, { HOST: "ghe.local" })).toEqual({
+      url: "https://ghe.local/api",
+      literal: "${HOST}",
+      list: ["ghe.local"],
+      n: 1,
+    });
+  });
+});
+
+describe("loadConfigFile", () => {
+  it("reads YAML files and reports syntax errors", () => {
+    const directory = mkdtempSync(join(tmpdir(), "config-"));
+    try {
+      const yamlPath = join(directory, "config.yaml");
+      writeFileSync(
+        yamlPath,
+        ["github:", "  token: ${GH_TOKEN}", "  owners:", "    - name: test-org", "dateRange:", "  startDate: 2024-01-01", "  endDate: 2024-12-31"].join("\n")
+      );
+      const { config } = loadConfigFile(yamlPath, { GH_TOKEN: "ghp_yaml" });
+      expect(config.github).toMatchObject({ token: "ghp_yaml", owners: [{ name: "test-org" }] });
+      expect(config.dateRange).toEqual({ startDate: "2024-01-01", endDate: "2024-12-31" });
+
+      const brokenPath = join(directory, "config.json");
+      writeFileSync(brokenPath, "{ not json");
+      expect(() => loadConfigFile(brokenPath, {})).toThrow(ConfigError);
+      expect(() => loadConfigFile(brokenPath, {})).toThrow("not valid JSON");
+      expect(() => loadConfigFile(join(directory, "missing.yaml"), {})).toThrow("file not found");
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("validateConfig", () => {
+  it("names the config file the settings came from", () => {
+    const { config } = parseConfig({ github: { token: "ghp_test", owners: [{ name: "YOUR_ORG_NAME" }] } }, "config.yaml", {});
+    const issues = (file?: string) => {
+      try {
+        validateConfig(config, false, file);
+      } catch (error) {
+        if (error instanceof ConfigError) return error.issues;
+        throw error;
+      }
+      return [];
+    };
+
+    expect(issues("config.yaml")).toEqual(["GitHub organization or owners not configured in config.yaml"]);
+    expect(issues()).toEqual(["GitHub organization or owners not configured"]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { nextCronRun, parseCron } from "../src/cron.js";
+
+// Schedules run in local time, so the expectations are local times too
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+const next = (expression: string, after: Date) => nextCronRun(parseCron(expression), after);
+
+describe("parseCron", () => {
+  it("expands lists, ranges, steps, names and shorthands", () => {
+    const schedule = parseCron("*/15 9-17/4 1,15 jan-mar MON-FRI");
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.eitherDay).toBe(true);
+
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect([...parseCron("5/20 * * * *").minutes]).toEqual([5, 25, 45]);
+    expect(parseCron("@monthly")).toMatchObject({ minutes: new Set([0]), hours: new Set([0]), daysOfMonth: new Set([1]) });
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("0 6 * *")).toThrow("expected 5 fields");
+    expect(() => parseCron("60 * * * *")).toThrow('minute "60" is not between 0 and 59');
+    expect(() => parseCron("0 0 * * 5-1")).toThrow("runs backwards");
+    expect(() => parseCron("*/0 * * * *")).toThrow("invalid step");
+    expect(() => parseCron("0 0 * smarch *")).toThrow('month "smarch"');
+  });
+});
+
+describe("nextCronRun", () => {
+  it("finds the next matching minute after the given time", () => {
+    expect(next("0 6 1 * *", at(2024, 1, 15, 12))).toEqual(at(2024, 2, 1, 6));
+    expect(next("0 6 1 * *", at(2024, 2, 1, 6))).toEqual(at(2024, 3, 1, 6));
+    expect(next("*/15 * * * *", at(2024, 1, 1, 10, 7))).toEqual(at(2024, 1, 1, 10, 15));
+    expect(next("30 23 31 12 *", at(2024, 1, 1))).toEqual(at(2024, 12, 31, 23, 30));
+  });
+
+  it("runs on either day field when both are restricted", () => {
+    // The 13th, or any Friday: 2024-09-06 is a Friday
+    expect(next("0 0 13 * 5", at(2024, 9, 1))).toEqual(at(2024, 9, 6));
+    // Only Mondays when the day of month is left open
+    expect(next("0 0 * * 1", at(2024, 9, 1))).toEqual(at(2024, 9, 2));
+  });
+
+  it("finds leap days and gives up on dates that never come", () => {
+    expect(next("0 0 29 2 *", at(2024, 3, 1))).toEqual(at(2028, 2, 29));
+    expect(() => next("0 0 30 2 *", at(2024, 1, 1))).toThrow("never runs");
+  });
+});
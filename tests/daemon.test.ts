@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Daemon, expandOutputPath, type DaemonOptions } from "../src/daemon.js";
+import type { Config, RepoStats, ScheduledReport } from "../src/types.js";
+
+const config = {
+  github: { token: "ghp_test", owners: [{ name: "test-org" }, { name: "alice", type: "user" }], isEnterprise: false, enterpriseUrl: "" },
+  dateRange: { startDate: "", endDate: "" },
+  options: { excludeRepos: [], includeRepos: [], maxConcurrentRequests: 3, skipLineStats: true, skipIssueStats: true, pageSize: 100 },
+} as Config;
+
+const repo = (owner: string, name: string, commits: number): RepoStats =>
+  ({
+    owner,
+    name,
+    isArchived: false,
+    commits,
+    linesAdded: 0,
+    linesDeleted: 0,
+    totalLines: 0,
+    lineStatsMode: null,
+    lineStatsTruncated: false,
+    pullRequests: 0,
+    pullRequestMetrics: {
+      merged: 0,
+      mergedWithoutApproval: 0,
+      closedWithoutMerge: 0,
+      openAtEnd: 0,
+      medianHoursToMerge: null,
+      p90HoursToMerge: null,
+      medianHoursToFirstReview: null,
+    },
+    pullRequestMergeHours: [],
+    pullRequestFirstReviewHours: [],
+    contributors: 0,
+    contributorsList: [],
+    issuesCreated: 0,
+    issuesClosed: 0,
+    openIssues: 0,
+    medianIssueCloseHours: null,
+    issueCloseHours: [],
+    releases: 0,
+    contributorActivity: {},
+  }) as RepoStats;
+
+describe("expandOutputPath", () => {
+  it("fills in the report name, owner and range dates", () => {
+    const values = { name: "monthly", org: "test-org", start: "2024-02-01", end: "2024-02-29" };
+    expect(expandOutputPath("reports/{org}/{yyyy}-{mm}.json", values)).toBe("reports/test-org/2024-02.json");
+    expect(expandOutputPath("{name}-{start}..{end}.csv", values)).toBe("monthly-2024-02-01..2024-02-29.csv");
+    expect(() => expandOutputPath("reports/{month}.json", values)).toThrow("Unknown placeholder {month}");
+  });
+});
+
+describe("Daemon", () => {
+  let directory: string;
+  let requests: number;
+  let collected: Array<{ start: string; end: string }>;
+  let failNext: boolean;
+
+  const monthly = (overrides: Partial<ScheduledReport> = {}): ScheduledReport => ({
+    name: "monthly",
+    schedule: "0 6 1 * *",
+    range: "last-1-month",
+    format: "json",
+    output: join(directory, "reports/{org}/{yyyy}-{mm}.json"),
+    ...overrides,
+  });
+
+  const daemon = (reports: ScheduledReport[], options: Partial<DaemonOptions> = {}) =>
+    new Daemon({
+      config,
+      reports,
+      runLog: join(directory, "runs.jsonl"),
+      collect: async (_report, range) => {
+        collected.push(range);
+        requests += 40;
+        if (failNext) throw new Error("GitHub is down");
+        return [repo("test-org", "api", 5), repo("alice", "dotfiles", 2)];
+      },
+      apiUsage: () => ({ requests, rateLimits: [{ remaining: 5000 - requests }] }),
+      ...options,
+    });
+
+  const runLog = () =>
+    readFileSync(join(directory, "runs.jsonl"), "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "daemon-"));
+    requests = 100;
+    collected = [];
+    failNext = false;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("writes a file per owner for the preset's range and logs the run", async () => {
+    const entry = await daemon([monthly()]).runReport(monthly(), new Date(2024, 2, 1, 6));
+
+    expect(collected).toEqual([{ start: "2024-02-01", end: "2024-02-29" }]);
+    expect(entry).toMatchObject({
+      report: "monthly",
+      status: "success",
+      startDate: "2024-02-01",
+      endDate: "2024-02-29",
+      files: [join(directory, "reports/test-org/2024-02.json"), join(directory, "reports/alice/2024-02.json")],
+      removed: [],
+      apiRequests: 40,
+      rateLimits: [{ remaining: 4860 }],
+    });
+    const report = JSON.parse(readFileSync(join(directory, "reports/alice/2024-02.json"), "utf-8"));
+    expect(report.repositories.map((r: { name: string }) => r.name)).toEqual(["dotfiles"]);
+    expect(runLog()).toEqual([JSON.parse(JSON.stringify(entry))]);
+  });
+
+  it("removes files beyond the newest kept per owner and files past their maximum age", async () => {
+    const now = new Date(2024, 5, 1, 6);
+    mkdirSync(join(directory, "reports/test-org"), { recursive: true });
+    mkdirSync(join(directory, "reports/alice"), { recursive: true });
+    const old = (path: string, daysAgo: number) => {
+      writeFileSync(join(directory, path), "{}");
+      const time = new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000);
+      utimesSync(join(directory, path), time, time);
+    };
+    old("reports/test-org/2024-02.json", 90);
+    old("reports/test-org/2024-03.json", 60);
+    old("reports/test-org/2024-04.json", 30);
+    old("reports/test-org/notes.json", 400);
+    old("reports/alice/2023-01.json", 400);
+
+    const report = monthly({ retention: { keep: 3, maxAgeDays: 365 } });
+    const entry = await daemon([report], { now: () => now }).runReport(report, now);
+
+    expect(entry.removed).toEqual([join(directory, "reports/alice/2023-01.json"), join(directory, "reports/test-org/2024-02.json")]);
+    expect(readdirSync(join(directory, "reports/test-org")).sort()).toEqual(["2024-03.json", "2024-04.json", "2024-05.json", "notes.json"]);
+    expect(readdirSync(join(directory, "reports/alice"))).toEqual(["2024-05.json"]);
+  });
+
+  it("logs failed runs and keeps the old files", async () => {
+    mkdirSync(join(directory, "reports/test-org"), { recursive: true });
+    writeFileSync(join(directory, "reports/test-org/2023-01.json"), "{}");
+    failNext = true;
+
+    const report = monthly({ retention: { keep: 1 } });
+    const entry = await daemon([report]).runReport(report, new Date(2024, 2, 1, 6));
+
+    expect(entry).toMatchObject({ status: "failure", error: "GitHub is down", files: [], removed: [], apiRequests: 40 });
+    expect(existsSync(join(directory, "reports/test-org/2023-01.json"))).toBe(true);
+    expect(runLog()[0].status).toBe("failure");
+  });
+
+  it("runs each report when its schedule comes up", async () => {
+    vi.useFakeTimers({ now: new Date(2024, 0, 31, 23, 0) });
+    const weekly = monthly({ name: "weekly", schedule: "0 7 * * mon", range: "last-1-week", format: "csv", output: join(directory, "{name}-{start}.csv") });
+    const scheduler = daemon([monthly(), weekly]);
+
+    expect(scheduler.upcoming()).toEqual([
+      { report: "monthly", at: new Date(2024, 1, 1, 6) },
+      { report: "weekly", at: new Date(2024, 1, 5, 7) },
+    ]);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(7 * 60 * 60 * 1000);
+    expect(collected).toEqual([{ start: "2024-01-01", end: "2024-01-31" }]);
+
+    await vi.advanceTimersByTimeAsync((4 * 24 + 1) * 60 * 60 * 1000);
+    scheduler.stop();
+    expect(collected).toEqual([
+      { start: "2024-01-01", end: "2024-01-31" },
+      { start: "2024-01-29", end: "2024-02-04" },
+    ]);
+    expect(existsSync(join(directory, "weekly-2024-01-29.csv"))).toBe(true);
+    expect(runLog().map((entry) => entry.report)).toEqual(["monthly", "weekly"]);
+  });
+});
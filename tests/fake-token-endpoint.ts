@@ -0,0 +1,74 @@
+// Test double for GitHub's app installation endpoints, so GitHub App authentication can be
+// exercised offline. It verifies the app JWT like GitHub does and issues numbered tokens.
+
+import { createVerify, type KeyObject } from "crypto";
+
+export interface FakeTokenEndpointOptions {
+  appId: number;
+  publicKey: KeyObject;
+  // Owner login -> installation ID; owners not listed have no installation (404)
+  installations: Record<string, number>;
+  now: () => number;
+  tokenLifetimeMs?: number;
+  // Serves every other request, e.g. the API calls made with the issued tokens
+  fallback?: typeof fetch;
+}
+
+export interface FakeTokenEndpoint {
+  fetch: typeof fetch;
+  // Every token issued, in order
+  issued: { installationId: number; token: string; expiresAt: string }[];
+  requests: string[];
+}
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+
+function verifyJwt(authorization: string | null, options: FakeTokenEndpointOptions): boolean {
+  const [header, payload, signature] = authorization?.replace(/^Bearer /, "").split(".") ?? [];
+  if (!header || !payload || !signature) return false;
+
+  const valid = createVerify("RSA-SHA256")
+    .update(`${header}.${payload}`)
+    .verify(options.publicKey, Buffer.from(signature, "base64url"));
+  const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  const now = Math.floor(options.now() / 1000);
+  return valid && claims.iss === String(options.appId) && claims.iat <= now && claims.exp > now && claims.exp - claims.iat <= 600;
+}
+
+export function createFakeTokenEndpoint(options: FakeTokenEndpointOptions): FakeTokenEndpoint {
+  const lifetime = options.tokenLifetimeMs ?? 60 * 60 * 1000;
+  const issued: FakeTokenEndpoint["issued"] = [];
+  const requests: string[] = [];
+
+  const fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const method = (init?.method ?? "GET").toUpperCase();
+    const installationLookup = url.pathname.match(/^\/(?:orgs|users)\/([^/]+)\/installation$/);
+    const tokenExchange = url.pathname.match(/^\/app\/installations\/(\d+)\/access_tokens$/);
+
+    if (!installationLookup && !tokenExchange) {
+      return options.fallback ? options.fallback(input, init) : json(404, { message: "Not Found" });
+    }
+
+    requests.push(`${method} ${url.pathname}`);
+    if (!verifyJwt(new Headers(init?.headers).get("authorization"), options)) {
+      return json(401, { message: "A JSON web token could not be decoded" });
+    }
+
+    if (installationLookup && method === "GET") {
+      const id = options.installations[installationLookup[1]];
+      return id ? json(200, { id, account: { login: installationLookup[1] } }) : json(404, { message: "Not Found" });
+    }
+
+    const installationId = Number(tokenExchange?.[1]);
+    if (method !== "POST" || !Object.values(options.installations).includes(installationId)) {
+      return json(404, { message: "Not Found" });
+    }
+    const token = { installationId, token: `ghs_${installationId}_${issued.length + 1}`, expiresAt: new Date(options.now() + lifetime).toISOString() };
+    issued.push(token);
+    return json(201, { token: token.token, expires_at: token.expiresAt });
+  };
+
+  return { fetch: fetch as typeof globalThis.fetch, issued, requests };
+}
@@ -1,56 +1,119 @@
 import { describe, it, expect } from "vitest";
 import {
   formatNumber,
+  formatDuration,
+  describeLineStatsModes,
   formatAsJson,
   formatAsCsv,
   formatAsMarkdown,
   formatUserStatsAsJson,
   formatUserStatsAsCsv,
+  formatUserStatsAsMarkdown,
+  formatReviewerStatsAsJson,
+  formatReviewerStatsAsCsv,
+  formatReviewerStatsAsMarkdown,
   formatComparisonAsJson,
+  formatComparisonAsCsv,
+  formatComparisonAsMarkdown,
+  formatTimeSeriesAsJson,
+  formatTimeSeriesAsCsv,
+  formatTimeSeriesAsMarkdown,
 } from "../src/formatters.js";
-import type { TotalStats, OutputOptions, UserStats, ComparisonStats } from "../src/types.js";
+import { buildComparison } from "../src/comparison.js";
+import type { TotalStats, RepoStats, OutputOptions, UserStats, TimeSeriesStats, PeriodStats } from "../src/types.js";
 
 const mockRepoStats = [
   {
+    owner: "test-org",
     name: "repo-alpha",
     isArchived: false,
     commits: 150,
     linesAdded: 5000,
     linesDeleted: 2000,
     totalLines: 3000,
+    lineStatsMode: "snapshot" as const,
+    lineStatsTruncated: false,
     pullRequests: 25,
+    pullRequestMetrics: {
+      merged: 20,
+      mergedWithoutApproval: 2,
+      closedWithoutMerge: 3,
+      openAtEnd: 4,
+      medianHoursToMerge: 12.25,
+      p90HoursToMerge: 40,
+      medianHoursToFirstReview: 2,
+    },
+    pullRequestMergeHours: [4, 12.25, 40],
+    pullRequestFirstReviewHours: [1, 2, 3],
     contributors: 5,
     contributorsList: ["user1", "user2", "user3", "user4", "user5"],
     issuesCreated: 10,
     issuesClosed: 8,
+    openIssues: 12,
+    medianIssueCloseHours: 30,
+    issueCloseHours: [10, 20, 30, 40, 50, 60, 70, 80],
     releases: 3,
   },
   {
+    owner: "test-org",
     name: "repo-beta",
     isArchived: false,
     commits: 80,
     linesAdded: 3000,
     linesDeleted: 1500,
     totalLines: 1500,
+    lineStatsMode: "snapshot" as const,
+    lineStatsTruncated: true,
     pullRequests: 15,
+    pullRequestMetrics: {
+      merged: 12,
+      mergedWithoutApproval: 1,
+      closedWithoutMerge: 1,
+      openAtEnd: 2,
+      medianHoursToMerge: 30,
+      p90HoursToMerge: 72,
+      medianHoursToFirstReview: 5,
+    },
+    pullRequestMergeHours: [30, 72],
+    pullRequestFirstReviewHours: [5],
     contributors: 3,
     contributorsList: ["user1", "user2", "user6"],
     issuesCreated: 5,
     issuesClosed: 4,
+    openIssues: 3,
+    medianIssueCloseHours: 6,
+    issueCloseHours: [2, 4, 8, 12],
     releases: 2,
   },
   {
+    owner: "test-org",
     name: "repo-archived",
     isArchived: true,
     commits: 20,
     linesAdded: 500,
     linesDeleted: 100,
     totalLines: 400,
+    lineStatsMode: "per-commit" as const,
+    lineStatsTruncated: false,
     pullRequests: 5,
+    pullRequestMetrics: {
+      merged: 4,
+      mergedWithoutApproval: 0,
+      closedWithoutMerge: 0,
+      openAtEnd: 0,
+      medianHoursToMerge: null,
+      p90HoursToMerge: null,
+      medianHoursToFirstReview: null,
+    },
+    pullRequestMergeHours: [],
+    pullRequestFirstReviewHours: [],
     contributors: 2,
     contributorsList: ["user1", "user7"],
     issuesCreated: 2,
     issuesClosed: 2,
+    openIssues: 0,
+    medianIssueCloseHours: 1.5,
+    issueCloseHours: [1, 2],
     releases: 1,
   },
 ];
@@ -63,9 +126,20 @@ const mockTotalStats: TotalStats = {
     linesDeleted: 3600,
     totalLines: 4900,
     pullRequests: 45,
+    pullRequestMetrics: {
+      merged: 36,
+      mergedWithoutApproval: 3,
+      closedWithoutMerge: 4,
+      openAtEnd: 6,
+      medianHoursToMerge: 21.125,
+      p90HoursToMerge: 62.4,
+      medianHoursToFirstReview: 2.5,
+    },
     contributors: 7,
     issuesCreated: 17,
     issuesClosed: 14,
+    openIssues: 15,
+    medianIssueCloseHours: 16,
     releases: 6,
     repoCount: 3,
   },
@@ -87,10 +161,35 @@ describe("formatNumber", () => {
   });
 });
 
+describe("formatDuration", () => {
+  it("formats durations under a day in hours", () => {
+    expect(formatDuration(5.25)).toBe("5.3h");
+  });
+
+  it("formats longer durations in days", () => {
+    expect(formatDuration(36)).toBe("1.5d");
+  });
+
+  it("renders missing durations as a dash", () => {
+    expect(formatDuration(null)).toBe("-");
+  });
+});
+
+describe("describeLineStatsModes", () => {
+  it("names a single mode", () => {
+    expect(describeLineStatsModes(mockRepoStats.slice(0, 2))).toBe("snapshot");
+  });
+
+  it("counts repos per mode when modes are mixed", () => {
+    expect(describeLineStatsModes(mockRepoStats)).toBe("snapshot (2 repos), per-commit (1 repo)");
+  });
+});
+
 describe("formatAsJson", () => {
   const options: OutputOptions = {
     format: "json",
     skipLineStats: false,
+    skipIssueStats: false,
   };
 
   it("returns valid JSON", () => {
@@ -122,18 +221,58 @@ describe("formatAsJson", () => {
   });
 
   it("sets line stats to null when skipLineStats is true", () => {
-    const skipOptions: OutputOptions = { format: "json", skipLineStats: true };
+    const skipOptions: OutputOptions = { format: "json", skipLineStats: true, skipIssueStats: false };
     const result = JSON.parse(formatAsJson(mockTotalStats, "2024-01-01", "2024-12-31", skipOptions));
     expect(result.totals.linesAdded).toBeNull();
     expect(result.totals.linesDeleted).toBeNull();
     expect(result.repositories[0].linesAdded).toBeNull();
   });
+
+  it("records the line stats mode and truncation per repo", () => {
+    const result = JSON.parse(formatAsJson(mockTotalStats, "2024-01-01", "2024-12-31", options));
+    expect(result.repositories[0].lineStatsMode).toBe("snapshot");
+    expect(result.repositories[1].lineStatsTruncated).toBe(true);
+    expect(result.repositories[2].lineStatsMode).toBe("per-commit");
+  });
+
+  it("includes pull request lifecycle metrics", () => {
+    const result = JSON.parse(formatAsJson(mockTotalStats, "2024-01-01", "2024-12-31", options));
+    expect(result.totals.pullRequestMetrics).toEqual({
+      merged: 36,
+      mergedWithoutApproval: 3,
+      closedWithoutMerge: 4,
+      openAtEnd: 6,
+      medianHoursToMerge: 21.1,
+      p90HoursToMerge: 62.4,
+      medianHoursToFirstReview: 2.5,
+    });
+    expect(result.repositories[0].pullRequestMetrics.medianHoursToMerge).toBe(12.3);
+    expect(result.repositories[2].pullRequestMetrics.medianHoursToFirstReview).toBeNull();
+  });
+
+  it("includes issue stats", () => {
+    const result = JSON.parse(formatAsJson(mockTotalStats, "2024-01-01", "2024-12-31", options));
+    expect(result.totals.issuesCreated).toBe(17);
+    expect(result.totals.issuesClosed).toBe(14);
+    expect(result.totals.openIssues).toBe(15);
+    expect(result.totals.medianIssueCloseHours).toBe(16);
+    expect(result.repositories[0].openIssues).toBe(12);
+  });
+
+  it("sets issue stats to null when skipIssueStats is true", () => {
+    const skipOptions: OutputOptions = { format: "json", skipLineStats: false, skipIssueStats: true };
+    const result = JSON.parse(formatAsJson(mockTotalStats, "2024-01-01", "2024-12-31", skipOptions));
+    expect(result.totals.issuesCreated).toBeNull();
+    expect(result.totals.medianIssueCloseHours).toBeNull();
+    expect(result.repositories[0].issuesClosed).toBeNull();
+  });
 });
 
 describe("formatAsCsv", () => {
   const options: OutputOptions = {
     format: "csv",
     skipLineStats: false,
+    skipIssueStats: false,
   };
 
   it("includes header row", () => {
@@ -159,12 +298,41 @@ describe("formatAsCsv", () => {
   });
 
   it("excludes line stats columns when skipLineStats is true", () => {
-    const skipOptions: OutputOptions = { format: "csv", skipLineStats: true };
+    const skipOptions: OutputOptions = { format: "csv", skipLineStats: true, skipIssueStats: false };
     const result = formatAsCsv(mockTotalStats, "2024-01-01", "2024-12-31", skipOptions);
     expect(result).not.toContain("Lines Added");
     expect(result).not.toContain("Lines Deleted");
   });
 
+  it("includes line stats mode columns", () => {
+    const result = formatAsCsv(mockTotalStats, "2024-01-01", "2024-12-31", options);
+    expect(result).toContain("Net Lines,Line Stats Mode,Lines Truncated");
+    expect(result).toContain("repo-beta,No,80,3000,1500,1500,snapshot,Yes");
+  });
+
+  it("includes pull request lifecycle columns", () => {
+    const result = formatAsCsv(mockTotalStats, "2024-01-01", "2024-12-31", options);
+    expect(result).toContain(
+      "Pull Requests,PRs Merged,PRs Merged Without Approval,PRs Closed Unmerged,PRs Open at End,Median Hours to Merge,P90 Hours to Merge,Median Hours to First Review"
+    );
+    expect(result).toContain(",25,20,2,3,4,12.3,40,2,");
+    // Missing durations are left empty
+    expect(result).toContain(",5,4,0,0,0,,,,");
+  });
+
+  it("includes issue columns", () => {
+    const result = formatAsCsv(mockTotalStats, "2024-01-01", "2024-12-31", options);
+    expect(result).toContain("Issues Created,Issues Closed,Open Issues,Median Hours to Close");
+    expect(result).toContain("10,8,12,30");
+  });
+
+  it("excludes issue columns when skipIssueStats is true", () => {
+    const skipOptions: OutputOptions = { format: "csv", skipLineStats: false, skipIssueStats: true };
+    const result = formatAsCsv(mockTotalStats, "2024-01-01", "2024-12-31", skipOptions);
+    expect(result).not.toContain("Issues Created");
+    expect(result).not.toContain("Open Issues");
+  });
+
   it("escapes fields with commas", () => {
     const statsWithComma: TotalStats = {
       ...mockTotalStats,
@@ -184,6 +352,7 @@ describe("formatAsMarkdown", () => {
   const options: OutputOptions = {
     format: "markdown",
     skipLineStats: false,
+    skipIssueStats: false,
   };
 
   it("includes title header", () => {
@@ -215,11 +384,35 @@ describe("formatAsMarkdown", () => {
   });
 
   it("excludes line stats when skipLineStats is true", () => {
-    const skipOptions: OutputOptions = { format: "markdown", skipLineStats: true };
+    const skipOptions: OutputOptions = { format: "markdown", skipLineStats: true, skipIssueStats: false };
     const result = formatAsMarkdown(mockTotalStats, "2024-01-01", "2024-12-31", skipOptions);
     expect(result).not.toContain("Lines +");
     expect(result).not.toContain("Lines -");
   });
+
+  it("notes the line stats mode and flags truncated repos", () => {
+    const result = formatAsMarkdown(mockTotalStats, "2024-01-01", "2024-12-31", options);
+    expect(result).toContain("**Line Stats:** snapshot (2 repos), per-commit (1 repo)");
+    expect(result).toContain("| repo-beta | 80 | 3,000 † |");
+    expect(result).toContain("† Line counts are a lower bound");
+  });
+
+  it("includes pull request lifecycle in summary and breakdown", () => {
+    const result = formatAsMarkdown(mockTotalStats, "2024-01-01", "2024-12-31", options);
+    expect(result).toContain("| PRs Merged | 36 |");
+    expect(result).toContain("| PRs Merged Without Approval | 3 |");
+    expect(result).toContain("| P90 Time to Merge | 2.6d |");
+    expect(result).toContain("| Median Time to First Review | 2.5h |");
+    expect(result).toContain("| PRs | Merged | Open PRs | Median Merge |");
+    expect(result).toContain("| 25 | 20 | 4 | 12.3h |");
+  });
+
+  it("includes issue stats in summary and breakdown", () => {
+    const result = formatAsMarkdown(mockTotalStats, "2024-01-01", "2024-12-31", options);
+    expect(result).toContain("| Issues Created | 17 |");
+    expect(result).toContain("| Median Time to Close | 16.0h |");
+    expect(result).toContain("Open Issues |");
+  });
 });
 
 describe("formatUserStatsAsJson", () => {
@@ -230,7 +423,27 @@ describe("formatUserStatsAsJson", () => {
       linesAdded: 5000,
       linesDeleted: 2000,
       pullRequests: 20,
+      pullRequestsMerged: 18,
+      reviews: 0,
+      approvals: 0,
+      changesRequested: 0,
+      reviewComments: 0,
+      medianReviewTurnaroundHours: null,
       repos: ["repo-alpha", "repo-beta", "repo-archived"],
+      repoBreakdown: [
+        {
+          repo: "repo-alpha", commits: 60, linesAdded: 3000, linesDeleted: 1000, pullRequests: 12, pullRequestsMerged: 11,
+          reviews: 0, approvals: 0, changesRequested: 0, reviewComments: 0,
+        },
+        {
+          repo: "repo-beta", commits: 30, linesAdded: 1500, linesDeleted: 800, pullRequests: 6, pullRequestsMerged: 5,
+          reviews: 0, approvals: 0, changesRequested: 0, reviewComments: 0,
+        },
+        {
+          repo: "repo-archived", commits: 10, linesAdded: 500, linesDeleted: 200, pullRequests: 2, pullRequestsMerged: 2,
+          reviews: 0, approvals: 0, changesRequested: 0, reviewComments: 0,
+        },
+      ],
     },
     {
       username: "user2",
@@ -238,7 +451,23 @@ describe("formatUserStatsAsJson", () => {
       linesAdded: 2000,
       linesDeleted: 1000,
       pullRequests: 10,
+      pullRequestsMerged: 7,
+      reviews: 0,
+      approvals: 0,
+      changesRequested: 0,
+      reviewComments: 0,
+      medianReviewTurnaroundHours: null,
       repos: ["repo-alpha", "repo-beta"],
+      repoBreakdown: [
+        {
+          repo: "repo-alpha", commits: 40, linesAdded: 1500, linesDeleted: 600, pullRequests: 8, pullRequestsMerged: 6,
+          reviews: 0, approvals: 0, changesRequested: 0, reviewComments: 0,
+        },
+        {
+          repo: "repo-beta", commits: 10, linesAdded: 500, linesDeleted: 400, pullRequests: 2, pullRequestsMerged: 1,
+          reviews: 0, approvals: 0, changesRequested: 0, reviewComments: 0,
+        },
+      ],
     },
   ];
 
@@ -258,6 +487,24 @@ describe("formatUserStatsAsJson", () => {
     expect(result.users[0].username).toBe("user1");
     expect(result.users[1].username).toBe("user2");
   });
+
+  it("includes per-repo subtotals", () => {
+    const result = JSON.parse(formatUserStatsAsJson(mockUsers, "2024-01-01", "2024-12-31"));
+    expect(result.users[0].pullRequestsMerged).toBe(18);
+    expect(result.users[0].repoBreakdown).toHaveLength(3);
+    expect(result.users[0].repoBreakdown[0]).toEqual({
+      repo: "repo-alpha",
+      commits: 60,
+      linesAdded: 3000,
+      linesDeleted: 1000,
+      pullRequests: 12,
+      pullRequestsMerged: 11,
+      reviews: 0,
+      approvals: 0,
+      changesRequested: 0,
+      reviewComments: 0,
+    });
+  });
 });
 
 describe("formatUserStatsAsCsv", () => {
@@ -268,7 +515,23 @@ describe("formatUserStatsAsCsv", () => {
       linesAdded: 5000,
       linesDeleted: 2000,
       pullRequests: 20,
+      pullRequestsMerged: 15,
+      reviews: 0,
+      approvals: 0,
+      changesRequested: 0,
+      reviewComments: 0,
+      medianReviewTurnaroundHours: null,
       repos: ["repo-alpha", "repo-beta"],
+      repoBreakdown: [
+        {
+          repo: "repo-alpha", commits: 70, linesAdded: 4000, linesDeleted: 1500, pullRequests: 15, pullRequestsMerged: 12,
+          reviews: 0, approvals: 0, changesRequested: 0, reviewComments: 0,
+        },
+        {
+          repo: "repo-beta", commits: 30, linesAdded: 1000, linesDeleted: 500, pullRequests: 5, pullRequestsMerged: 3,
+          reviews: 0, approvals: 0, changesRequested: 0, reviewComments: 0,
+        },
+      ],
     },
   ];
 
@@ -279,45 +542,368 @@ describe("formatUserStatsAsCsv", () => {
 
   it("includes user data", () => {
     const result = formatUserStatsAsCsv(mockUsers);
-    expect(result).toContain("user1,100,5000,2000,20");
+    expect(result).toContain("user1,100,5000,2000,20,15");
+  });
+
+  it("includes per-repo subtotal rows", () => {
+    const result = formatUserStatsAsCsv(mockUsers);
+    expect(result).toContain("Username,Repository,Commits");
+    expect(result).toContain("user1,repo-alpha,70,4000,1500,15,12");
+    expect(result).toContain("user1,repo-beta,30,1000,500,5,3");
   });
 });
 
-describe("formatComparisonAsJson", () => {
-  const mockComparison: ComparisonStats = {
-    period1: mockTotalStats,
-    period2: {
-      ...mockTotalStats,
-      totals: {
-        ...mockTotalStats.totals,
-        commits: 300,
-        pullRequests: 60,
+describe("formatUserStatsAsMarkdown", () => {
+  const mockUsers: UserStats[] = [
+    {
+      username: "user1",
+      commits: 12,
+      linesAdded: 300,
+      linesDeleted: 100,
+      pullRequests: 4,
+      pullRequestsMerged: 3,
+      reviews: 7,
+      approvals: 5,
+      changesRequested: 2,
+      reviewComments: 9,
+      medianReviewTurnaroundHours: 3.25,
+      repos: ["repo-alpha"],
+      repoBreakdown: [
+        {
+          repo: "repo-alpha", commits: 12, linesAdded: 300, linesDeleted: 100, pullRequests: 4, pullRequestsMerged: 3,
+          reviews: 7, approvals: 5, changesRequested: 2, reviewComments: 9,
+        },
+      ],
+    },
+  ];
+
+  it("includes the contributor summary table", () => {
+    const result = formatUserStatsAsMarkdown(mockUsers, "2024-01-01", "2024-12-31");
+    expect(result).toContain("| user1 | 12 | 300 | 100 | 4 | 3 | 7 | 1 |");
+  });
+
+  it("includes a per-repo section for each user", () => {
+    const result = formatUserStatsAsMarkdown(mockUsers, "2024-01-01", "2024-12-31");
+    expect(result).toContain("## Per-Repository Breakdown");
+    expect(result).toContain("### user1");
+    expect(result).toContain("| repo-alpha | 12 | 300 | 100 | 4 | 3 | 7 |");
+  });
+});
+
+describe("reviewer stats formatters", () => {
+  const mockReviewers: UserStats[] = [
+    {
+      username: "reviewer1",
+      commits: 0,
+      linesAdded: 0,
+      linesDeleted: 0,
+      pullRequests: 0,
+      pullRequestsMerged: 0,
+      reviews: 3,
+      approvals: 2,
+      changesRequested: 1,
+      reviewComments: 4,
+      medianReviewTurnaroundHours: 1.26,
+      repos: ["repo-alpha"],
+      repoBreakdown: [
+        {
+          repo: "repo-alpha", commits: 0, linesAdded: 0, linesDeleted: 0, pullRequests: 0, pullRequestsMerged: 0,
+          reviews: 3, approvals: 2, changesRequested: 1, reviewComments: 4,
+        },
+      ],
+    },
+    {
+      username: "reviewer2",
+      commits: 30,
+      linesAdded: 900,
+      linesDeleted: 100,
+      pullRequests: 2,
+      pullRequestsMerged: 2,
+      reviews: 10,
+      approvals: 8,
+      changesRequested: 0,
+      reviewComments: 12,
+      medianReviewTurnaroundHours: 30,
+      repos: ["repo-alpha", "repo-beta"],
+      repoBreakdown: [
+        {
+          repo: "repo-alpha", commits: 30, linesAdded: 900, linesDeleted: 100, pullRequests: 2, pullRequestsMerged: 2,
+          reviews: 0, approvals: 0, changesRequested: 0, reviewComments: 0,
+        },
+        {
+          repo: "repo-beta", commits: 0, linesAdded: 0, linesDeleted: 0, pullRequests: 0, pullRequestsMerged: 0,
+          reviews: 10, approvals: 8, changesRequested: 0, reviewComments: 12,
+        },
+      ],
+    },
+  ];
+
+  it("sorts reviewers by reviews and only lists repos they reviewed in", () => {
+    const result = JSON.parse(formatReviewerStatsAsJson([...mockReviewers], "2024-01-01", "2024-12-31"));
+    expect(result.metadata.reviewerCount).toBe(2);
+    expect(result.reviewers[0]).toEqual({
+      username: "reviewer2",
+      reviews: 10,
+      approvals: 8,
+      changesRequested: 0,
+      reviewComments: 12,
+      medianReviewTurnaroundHours: 30,
+      repoBreakdown: [{ repo: "repo-beta", reviews: 10, approvals: 8, changesRequested: 0, reviewComments: 12 }],
+    });
+    expect(result.reviewers[1].medianReviewTurnaroundHours).toBe(1.3);
+  });
+
+  it("writes reviewer and per-repo rows as CSV", () => {
+    const result = formatReviewerStatsAsCsv([...mockReviewers]);
+    expect(result).toContain("Reviewer,Reviews,Approvals,Changes Requested,Review Comments,Median Review Turnaround Hours");
+    expect(result).toContain('reviewer2,10,8,0,12,30,"repo-beta"');
+    expect(result).toContain("reviewer1,repo-alpha,3,2,1,4");
+    expect(result).not.toContain("reviewer2,repo-alpha");
+  });
+
+  it("writes the reviewer summary as markdown", () => {
+    const result = formatReviewerStatsAsMarkdown([...mockReviewers], "2024-01-01", "2024-12-31");
+    expect(result).toContain("**Total Reviewers:** 2");
+    expect(result).toContain("| reviewer1 | 3 | 2 | 1 | 4 | 1.3h | 1 |");
+    expect(result).toContain("| reviewer2 | 10 | 8 | 0 | 12 | 1.3d | 1 |");
+    expect(result).toContain("| repo-beta | 10 | 8 | 0 | 12 |");
+  });
+});
+
+describe("owner grouping", () => {
+  const [alpha, beta, archived] = mockRepoStats;
+  const ownerTotals = (commits: number, contributors: number) => ({
+    ...mockTotalStats.totals,
+    commits,
+    contributors,
+  });
+  const stats: TotalStats = {
+    repos: [{ ...alpha, owner: "acme" }, { ...beta, owner: "alice" }, { ...archived, owner: "acme" }],
+    owners: [
+      { owner: "acme", totals: ownerTotals(170, 4) },
+      { owner: "alice", totals: ownerTotals(80, 3) },
+    ],
+    totals: mockTotalStats.totals,
+  };
+  const options: OutputOptions = { format: "json", skipLineStats: false, skipIssueStats: false };
+
+  it("includes owner subtotals in JSON", () => {
+    const result = JSON.parse(formatAsJson(stats, "2024-01-01", "2024-12-31", options));
+    expect(result.owners.map((o: { owner: string }) => o.owner)).toEqual(["acme", "alice"]);
+    expect(result.owners[0].totals.commits).toBe(170);
+    expect(result.repositories[1]).toMatchObject({ owner: "alice", name: "repo-beta" });
+  });
+
+  it("adds an Owner column and subtotal rows to CSV", () => {
+    const lines = formatAsCsv(stats, "2024-01-01", "2024-12-31", { ...options, format: "csv" }).split("\n");
+
+    expect(lines[3].startsWith("Owner,Repository,")).toBe(true);
+    expect(lines.slice(4, 7).map((line) => line.split(",").slice(0, 2).join(","))).toEqual([
+      "acme,repo-alpha",
+      "acme,repo-archived",
+      "alice,repo-beta",
+    ]);
+    expect(lines).toContainEqual(expect.stringMatching(/^acme,SUBTOTAL,,170,/));
+    expect(lines).toContainEqual(expect.stringMatching(/^alice,SUBTOTAL,,80,/));
+    expect(lines[lines.length - 1]).toMatch(/^,TOTALS,,250,/);
+  });
+
+  it("groups markdown repositories under each owner", () => {
+    const result = formatAsMarkdown(stats, "2024-01-01", "2024-12-31", { ...options, format: "markdown" });
+
+    expect(result).toContain("## Owners");
+    expect(result).toContain("| acme | 3 | 170 |");
+    expect(result.indexOf("### acme")).toBeLessThan(result.indexOf("### alice"));
+    expect(result).toMatch(/### alice\n\n.*\n.*\n\| repo-beta \| 80 \|.*\n\| \*\*Subtotal\*\* \| 80 \|/);
+  });
+
+  it("leaves single-owner reports ungrouped", () => {
+    const result = formatAsCsv(mockTotalStats, "2024-01-01", "2024-12-31", { ...options, format: "csv" });
+    expect(result).not.toContain("Owner");
+    expect(result).not.toContain("SUBTOTAL");
+  });
+});
+
+describe("comparison formatters", () => {
+  const quiet = (repo: RepoStats): RepoStats => ({
+    ...repo,
+    commits: 0,
+    pullRequests: 0,
+    pullRequestMetrics: { ...repo.pullRequestMetrics, merged: 0 },
+    issuesCreated: 0,
+    issuesClosed: 0,
+    releases: 0,
+  });
+  const [alpha, beta, archived] = mockRepoStats;
+
+  const comparison = buildComparison([
+    { label: "H1", start: "2024-01-01", end: "2024-06-30", stats: mockTotalStats },
+    {
+      label: "H2",
+      start: "2024-07-01",
+      end: "2024-12-31",
+      stats: {
+        repos: [{ ...alpha, commits: 200 }, quiet(beta), archived, { ...beta, name: "repo-gamma", commits: 30 }],
+        totals: {
+          ...mockTotalStats.totals,
+          commits: 300,
+          pullRequests: 60,
+          pullRequestMetrics: {
+            ...mockTotalStats.totals.pullRequestMetrics,
+            merged: 40,
+            medianHoursToMerge: 10,
+          },
+        },
       },
     },
-    period1Range: { start: "2024-01-01", end: "2024-06-30" },
-    period2Range: { start: "2024-07-01", end: "2024-12-31" },
+  ]);
+  const options: OutputOptions = { format: "json", skipLineStats: false, skipIssueStats: false };
+
+  it("returns valid JSON with every period and its range", () => {
+    const result = JSON.parse(formatComparisonAsJson(comparison, options));
+    expect(result.periods.map((period: { label: string }) => period.label)).toEqual(["H1", "H2"]);
+    expect(result.periods[0].range.start).toBe("2024-01-01");
+    expect(result.periods[1].range.end).toBe("2024-12-31");
+  });
+
+  it("calculates changes from the previous period", () => {
+    const result = JSON.parse(formatComparisonAsJson(comparison, options));
+    expect(result.periods[0].changes).toBeNull();
+    expect(result.periods[1].changes.commits).toEqual({ absolute: 50, percentage: 20 });
+    expect(result.periods[1].changes.pullRequestsMerged.absolute).toBe(4);
+    expect(result.periods[1].changes.issuesCreated.absolute).toBe(0);
+    expect(result.durations.medianHoursToMerge).toEqual([21.1, 10]);
+    expect(result.durations.medianIssueCloseHours).toEqual([16, 16]);
+  });
+
+  it("reports per-repo deltas and repos that appeared or disappeared", () => {
+    const result = JSON.parse(formatComparisonAsJson(comparison, options));
+    const repo = (name: string) => result.repos.find((r: { name: string }) => r.name === name);
+
+    expect(repo("repo-alpha").periods[1].changes.commits).toEqual({ absolute: 50, percentage: 33 });
+    expect(repo("repo-beta").periods[1].status).toBe("disappeared");
+    expect(repo("repo-gamma").periods[0]).toMatchObject({ status: null, metrics: null });
+    expect(repo("repo-gamma").periods[1]).toMatchObject({ status: "appeared", metrics: { commits: 30 } });
+    expect(result.periods[1].appeared).toEqual(["repo-gamma"]);
+    expect(result.periods[1].disappeared).toEqual(["repo-beta"]);
+  });
+
+  it("leaves skipped metrics out", () => {
+    const result = JSON.parse(
+      formatComparisonAsJson(comparison, { ...options, skipLineStats: true, skipIssueStats: true })
+    );
+    expect(result.periods[1].changes.linesAdded).toBeUndefined();
+    expect(result.periods[1].changes.openIssues).toBeUndefined();
+    expect(result.durations.medianIssueCloseHours).toBeUndefined();
+  });
+
+  it("writes one CSV row per repository and period, totals first", () => {
+    const rows = formatComparisonAsCsv(comparison, { ...options, format: "csv" }).split("\n");
+    const headers = rows[0].split(",");
+    const column = (row: string, header: string) => row.split(",")[headers.indexOf(header)];
+
+    expect(headers.slice(0, 7)).toEqual(["Repository", "Period", "Period Start", "Period End", "Status", "Commits", "Commits Change"]);
+    expect(rows).toHaveLength(1 + 2 * 5);
+    expect(rows[1]).toMatch(/^TOTALS,H1,2024-01-01,2024-06-30,,250,,/);
+    expect(column(rows[2], "Commits Change")).toBe("50");
+    expect(column(rows[2], "Median Merge Time (hours)")).toBe("10");
+    expect(rows.find((row) => row.startsWith("repo-gamma,H2"))).toMatch(/^repo-gamma,H2,2024-07-01,2024-12-31,appeared,30,30,/);
+  });
+
+  it("renders markdown with a column per period", () => {
+    const result = formatComparisonAsMarkdown(comparison, { ...options, format: "markdown" });
+
+    expect(result).toContain("| H2 | 2024-07-01 | 2024-12-31 |");
+    expect(result).toContain("| Metric | H1 | H2 |");
+    expect(result).toContain("| Commits | 250 | 300 (+50, +20%) |");
+    expect(result).toContain("| Median Merge Time | 21.1h | 10.0h |");
+    expect(result).toContain("## Commits by Repository");
+    expect(result).toContain("| repo-alpha | 150 | 200 (+50, +33%) |");
+    expect(result).toContain("| repo-gamma | 0 | 30 (+30, +100%) |");
+    expect(result).toContain("| H2 | repo-gamma | repo-beta |");
+  });
+});
+
+describe("time series formatters", () => {
+  const period = (start: string, end: string, overrides: Partial<PeriodStats> = {}): PeriodStats => ({
+    start,
+    end,
+    commits: 0,
+    linesAdded: 0,
+    linesDeleted: 0,
+    pullRequests: 0,
+    pullRequestsMerged: 0,
+    releases: 0,
+    contributors: 0,
+    contributorsList: [],
+    ...overrides,
+  });
+
+  const mockSeries: TimeSeriesStats = {
+    interval: "month",
+    repos: [
+      {
+        name: "repo-alpha",
+        isArchived: false,
+        periods: [
+          period("2024-01-01", "2024-01-31", { commits: 4, linesAdded: 40, linesDeleted: 10, contributors: 2, contributorsList: ["a", "b"] }),
+          period("2024-02-01", "2024-02-29", { pullRequests: 2, pullRequestsMerged: 1 }),
+        ],
+      },
+      {
+        name: "repo-quiet",
+        isArchived: false,
+        periods: [period("2024-01-01", "2024-01-31"), period("2024-02-01", "2024-02-29")],
+      },
+    ],
+    totals: [
+      period("2024-01-01", "2024-01-31", { commits: 4, linesAdded: 40, linesDeleted: 10, contributors: 2, contributorsList: ["a", "b"] }),
+      period("2024-02-01", "2024-02-29", { pullRequests: 2, pullRequestsMerged: 1 }),
+    ],
   };
 
-  it("returns valid JSON", () => {
-    const result = formatComparisonAsJson(mockComparison);
-    expect(() => JSON.parse(result)).not.toThrow();
+  const options: OutputOptions = { format: "json", skipLineStats: false, skipIssueStats: false };
+
+  it("writes totals and per-repo periods as JSON without contributor lists", () => {
+    const result = JSON.parse(formatTimeSeriesAsJson(mockSeries, "2024-01-01", "2024-02-29", options));
+    expect(result.metadata.interval).toBe("month");
+    expect(result.metadata.periodCount).toBe(2);
+    expect(result.totals[0]).toEqual({
+      start: "2024-01-01",
+      end: "2024-01-31",
+      commits: 4,
+      linesAdded: 40,
+      linesDeleted: 10,
+      pullRequests: 0,
+      pullRequestsMerged: 0,
+      releases: 0,
+      contributors: 2,
+    });
+    expect(result.repositories[1].periods).toHaveLength(2);
   });
 
-  it("includes both periods", () => {
-    const result = JSON.parse(formatComparisonAsJson(mockComparison));
-    expect(result.period1).toBeDefined();
-    expect(result.period2).toBeDefined();
+  it("writes one CSV row per repo and period, totals first", () => {
+    const result = formatTimeSeriesAsCsv(mockSeries, options);
+    const rows = result.split("\n");
+    expect(rows[0]).toBe(
+      "Repository,Period Start,Period End,Commits,Lines Added,Lines Deleted,Pull Requests,PRs Merged,Releases,Contributors"
+    );
+    expect(rows[1]).toBe("TOTALS,2024-01-01,2024-01-31,4,40,10,0,0,0,2");
+    expect(rows[4]).toBe("repo-alpha,2024-02-01,2024-02-29,0,0,0,2,1,0,0");
+    expect(rows).toHaveLength(7);
   });
 
-  it("calculates changes correctly", () => {
-    const result = JSON.parse(formatComparisonAsJson(mockComparison));
-    expect(result.changes.commits.absolute).toBe(50); // 300 - 250
-    expect(result.changes.commits.percentage).toBe(20); // (50/250) * 100
+  it("drops line columns when line stats are skipped", () => {
+    const result = formatTimeSeriesAsCsv(mockSeries, { ...options, skipLineStats: true });
+    expect(result).not.toContain("Lines Added");
+    expect(result).toContain("TOTALS,2024-01-01,2024-01-31,4,0,0,0,2");
   });
 
-  it("includes date ranges", () => {
-    const result = JSON.parse(formatComparisonAsJson(mockComparison));
-    expect(result.period1.range.start).toBe("2024-01-01");
-    expect(result.period2.range.end).toBe("2024-12-31");
+  it("leaves repos without activity out of the markdown breakdown", () => {
+    const result = formatTimeSeriesAsMarkdown(mockSeries, "2024-01-01", "2024-02-29", options);
+    expect(result).toContain("**Interval:** month");
+    expect(result).toContain("| 2024-01-01 to 2024-01-31 | 4 | 40 | 10 | 0 | 0 | 0 | 2 |");
+    expect(result).toContain("### repo-alpha");
+    expect(result).not.toContain("### repo-quiet");
   });
 });
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateKeyPairSync } from "crypto";
+import { Octokit } from "@octokit/rest";
+import { createAppAuthStrategy, GitHubAppAuth } from "../src/github-app-auth.js";
+import { createFakeTokenEndpoint, type FakeTokenEndpoint } from "./fake-token-endpoint.js";
+import type { OwnerConfig } from "../src/types.js";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const privateKeyPem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+
+const owners: OwnerConfig[] = [
+  { name: "test-org", type: "org" },
+  { name: "alice", type: "user" },
+];
+
+describe("GitHubAppAuth", () => {
+  let now: number;
+  let endpoint: FakeTokenEndpoint;
+  let auth: GitHubAppAuth;
+
+  const createAuth = (appId = 42) =>
+    new GitHubAppAuth(
+      { appId, privateKey: privateKeyPem },
+      { baseUrl: "https://api.github.com", owners, fetch: endpoint.fetch, now: () => now }
+    );
+
+  beforeEach(() => {
+    now = Date.parse("2024-06-01T12:00:00Z");
+    endpoint = createFakeTokenEndpoint({
+      appId: 42,
+      publicKey,
+      installations: { "test-org": 100, alice: 200 },
+      now: () => now,
+    });
+    auth = createAuth();
+  });
+
+  it("signs a JWT the token endpoint accepts, backdated and expiring within ten minutes", () => {
+    const [, payload] = auth.createJwt().split(".");
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+
+    expect(claims.iss).toBe("42");
+    expect(claims.iat).toBe(now / 1000 - 60);
+    expect(claims.exp - now / 1000).toBeLessThanOrEqual(600);
+  });
+
+  it("exchanges the JWT for an installation token per owner and reuses it", async () => {
+    expect(await auth.getToken("test-org")).toBe("ghs_100_1");
+    expect(await auth.getToken("test-org")).toBe("ghs_100_1");
+    expect(await auth.getToken("alice")).toBe("ghs_200_2");
+    // The first owner is the default
+    expect(await auth.getToken()).toBe("ghs_100_1");
+
+    expect(endpoint.requests).toEqual([
+      "GET /orgs/test-org/installation",
+      "POST /app/installations/100/access_tokens",
+      "GET /users/alice/installation",
+      "POST /app/installations/200/access_tokens",
+    ]);
+  });
+
+  it("shares one exchange between concurrent requests", async () => {
+    const tokens = await Promise.all([auth.getToken("test-org"), auth.getToken("test-org"), auth.getToken("test-org")]);
+    expect(tokens).toEqual(["ghs_100_1", "ghs_100_1", "ghs_100_1"]);
+    expect(endpoint.issued).toHaveLength(1);
+  });
+
+  it("refreshes a token shortly before it expires", async () => {
+    expect(await auth.getToken("test-org")).toBe("ghs_100_1");
+
+    now += 50 * 60 * 1000;
+    expect(await auth.getToken("test-org")).toBe("ghs_100_1");
+
+    now += 6 * 60 * 1000;
+    expect(await auth.getToken("test-org")).toBe("ghs_100_2");
+    expect(endpoint.issued).toHaveLength(2);
+  });
+
+  it("reports owners without an installation and retries them later", async () => {
+    await expect(auth.getToken("other-org")).rejects.toThrow(
+      "Failed to look up the app installation for other-org: HTTP 404 (is the GitHub App installed there?)"
+    );
+    await expect(auth.getToken("other-org")).rejects.toThrow("HTTP 404");
+    expect(endpoint.requests).toEqual(["GET /orgs/other-org/installation", "GET /orgs/other-org/installation"]);
+  });
+
+  it("fails when the JWT is signed for another app", async () => {
+    await expect(createAuth(7).getToken("test-org")).rejects.toThrow("HTTP 401");
+  });
+});
+
+describe("createAppAuthStrategy", () => {
+  it("sends each REST and GraphQL request with the token of the owner it targets", async () => {
+    const now = Date.parse("2024-06-01T12:00:00Z");
+    const authorizations: string[] = [];
+    const endpoint = createFakeTokenEndpoint({
+      appId: 42,
+      publicKey,
+      installations: { "test-org": 100, alice: 200 },
+      now: () => now,
+      fallback: async (input, init) => {
+        authorizations.push(`${new URL(input.toString()).pathname} ${new Headers(init?.headers).get("authorization")}`);
+        return new Response(JSON.stringify({ data: {} }), { status: 200, headers: { "content-type": "application/json" } });
+      },
+    });
+    const auth = new GitHubAppAuth(
+      { appId: 42, privateKey: privateKeyPem },
+      { baseUrl: "https://api.github.com", owners, fetch: endpoint.fetch, now: () => now }
+    );
+    const octokit = new Octokit({ authStrategy: createAppAuthStrategy(auth), request: { fetch: endpoint.fetch } });
+
+    await octokit.rest.repos.get({ owner: "alice", repo: "dotfiles" });
+    await octokit.rest.repos.listForOrg({ org: "test-org" });
+    await octokit.graphql("query ($owner: String!) { viewer { login } }", { owner: "alice" });
+    await octokit.request("GET /rate_limit");
+
+    expect(authorizations).toEqual([
+      "/repos/alice/dotfiles token ghs_200_1",
+      "/orgs/test-org/repos token ghs_100_2",
+      "/graphql token ghs_200_1",
+      "/rate_limit token ghs_100_2",
+    ]);
+  });
+});
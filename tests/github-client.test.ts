@@ -1,6 +1,68 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { GitHubClient, GitHubApiError } from "../src/github-client.js";
-import type { Config } from "../src/types.js";
+import { HistoryStore } from "../src/history-store.js";
+import type { Config, ProgressEvent } from "../src/types.js";
+
+const mockOctokit = vi.hoisted(() => ({
+  repos: {
+    get: vi.fn(),
+    listForOrg: vi.fn(),
+    listForUser: vi.fn(),
+    listCommits: vi.fn(),
+    getCommit: vi.fn(),
+    compareCommits: vi.fn(),
+    listReleases: vi.fn(),
+  },
+  pulls: {
+    list: vi.fn(),
+    listReviews: vi.fn(),
+    listReviewComments: vi.fn(),
+  },
+  issues: {
+    listForRepo: vi.fn(),
+  },
+  graphql: vi.fn(),
+}));
+
+vi.mock("@octokit/rest", () => ({
+  Octokit: vi.fn(() => mockOctokit),
+}));
+
+const resetMockOctokit = () => {
+  mockOctokit.graphql.mockReset();
+  for (const group of [mockOctokit.repos, mockOctokit.pulls, mockOctokit.issues]) {
+    for (const fn of Object.values(group)) {
+      fn.mockReset();
+    }
+  }
+};
+
+// REST pull request listing entry; the last update defaults to the last lifecycle event
+const restPull = (
+  number: number,
+  login: string | null,
+  created_at: string,
+  merged_at: string | null = null,
+  closed_at: string | null = merged_at
+) => ({
+  number,
+  user: login ? { login } : null,
+  created_at,
+  merged_at,
+  closed_at,
+  updated_at: closed_at ?? created_at,
+});
+
+// Serve the pull request walk (state "all"); the open backlog walk (state "open") gets `openData`
+const mockPullRequests = (data: unknown[], openData: unknown[] = []) => {
+  mockOctokit.pulls.list.mockImplementation(async ({ state }: { state: string }) => ({
+    headers: {},
+    data: state === "open" ? openData : data,
+  }));
+};
 
 const createMockConfig = (overrides?: Partial<Config>): Config => ({
   github: {
@@ -18,7 +80,9 @@ const createMockConfig = (overrides?: Partial<Config>): Config => ({
     includeRepos: [],
     maxConcurrentRequests: 3,
     skipLineStats: false,
+    skipIssueStats: false,
     pageSize: 100,
+    cache: { enabled: false },
   },
   ...overrides,
 });
@@ -66,13 +130,30 @@ describe("GitHubClient", () => {
     });
   });
 
-  describe("setProgressCallback", () => {
-    it("accepts a progress callback", () => {
-      const config = createMockConfig();
-      const client = new GitHubClient(config);
-      const callback = vi.fn();
+  describe("setProgressListener", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+      resetMockOctokit();
+    });
+
+    it("reports fetched pages and retries as events", async () => {
+      vi.useFakeTimers();
+      mockOctokit.issues.listForRepo
+        .mockRejectedValueOnce(new Error("socket hang up"))
+        .mockResolvedValue({ headers: {}, data: [] });
+      const client = new GitHubClient(createMockConfig());
+      const events: ProgressEvent[] = [];
+      client.setProgressListener((event) => events.push(event));
+
+      const stats = client.getIssueStats("repo");
+      await vi.advanceTimersByTimeAsync(1000);
+      await stats;
 
-      expect(() => client.setProgressCallback(callback)).not.toThrow();
+      expect(events.filter((event) => event.type !== "repo-status")).toEqual([
+        { type: "retry", repo: "repo", operation: "fetching issues", attempt: 1, maxAttempts: 3, delaySeconds: 1, error: "socket hang up" },
+        { type: "page-fetched", repo: "repo", operation: "fetching issues", page: 1, items: 0 },
+        { type: "page-fetched", repo: "repo", operation: "fetching open issues", page: 1, items: 0 },
+      ]);
     });
   });
 
@@ -95,6 +176,947 @@ describe("GitHubClient", () => {
   });
 });
 
+describe("GitHubClient.getRepos", () => {
+  beforeEach(() => {
+    resetMockOctokit();
+  });
+
+  it("lists every owner's repos with its own filters", async () => {
+    const listing = (...names: string[]) => ({ headers: {}, data: names.map((name) => ({ name, archived: name === "old" })) });
+    mockOctokit.repos.listForOrg.mockImplementation(async ({ org }: { org: string }) =>
+      org === "acme" ? listing("api", "web", "docs") : listing("api", "old")
+    );
+    mockOctokit.repos.listForUser.mockResolvedValue(listing("dotfiles", "tool"));
+
+    const client = new GitHubClient(
+      createMockConfig({
+        github: {
+          token: "test-token",
+          owners: [
+            { name: "acme" },
+            { name: "acme-labs", type: "org", excludeRepos: [] },
+            { name: "alice", type: "user", includeRepos: ["tool"] },
+          ],
+          isEnterprise: false,
+          enterpriseUrl: "",
+        },
+        options: { ...createMockConfig().options, excludeRepos: ["docs", "old"] },
+      })
+    );
+
+    expect(await client.getRepos()).toEqual([
+      { owner: "acme", name: "api", isArchived: false },
+      { owner: "acme", name: "web", isArchived: false },
+      // Owner filters replace the global ones
+      { owner: "acme-labs", name: "api", isArchived: false },
+      { owner: "acme-labs", name: "old", isArchived: true },
+      { owner: "alice", name: "tool", isArchived: false },
+    ]);
+    expect(mockOctokit.repos.listForUser).toHaveBeenCalledWith(expect.objectContaining({ username: "alice", type: "owner" }));
+  });
+
+  it("addresses each repo by its own owner", async () => {
+    mockOctokit.repos.get.mockResolvedValue({ headers: {}, data: { default_branch: "main" } });
+    mockOctokit.repos.listCommits.mockResolvedValue({ headers: {}, data: [] });
+    mockOctokit.repos.listReleases.mockResolvedValue({ headers: {}, data: [] });
+    mockPullRequests([]);
+
+    const client = new GitHubClient(createMockConfig({ options: { ...createMockConfig().options, skipIssueStats: true } }));
+    const stats = await client.getRepoStats({ owner: "alice", name: "tool", isArchived: false });
+
+    expect(stats).toMatchObject({ owner: "alice", name: "tool" });
+    expect(mockOctokit.repos.get).toHaveBeenCalledWith({ owner: "alice", repo: "tool" });
+    expect(mockOctokit.repos.listCommits).toHaveBeenCalledWith(expect.objectContaining({ owner: "alice", repo: "tool" }));
+  });
+});
+
+describe("GitHubClient.getIssueStats", () => {
+  beforeEach(() => {
+    resetMockOctokit();
+  });
+
+  const issue = (created_at: string, closed_at: string | null, updated_at = closed_at ?? created_at) => ({
+    created_at,
+    closed_at,
+    updated_at,
+  });
+
+  it("counts created, closed and open backlog issues and close times", async () => {
+    mockOctokit.issues.listForRepo.mockImplementation(async ({ state }: { state: string }) => {
+      if (state === "all") {
+        return {
+          headers: {},
+          data: [
+            issue("2024-02-01T00:00:00Z", "2024-02-02T00:00:00Z"), // created + closed in range, 24h
+            issue("2023-12-01T00:00:00Z", "2024-03-01T00:00:00Z"), // closed in range only
+            issue("2024-05-01T00:00:00Z", null), // created in range, still open
+            issue("2024-06-01T00:00:00Z", "2025-01-10T00:00:00Z"), // closed after the period ends
+            { ...issue("2024-06-01T00:00:00Z", null), pull_request: {} }, // pull requests are ignored
+          ],
+        };
+      }
+      // Open issues untouched since before the start date
+      return {
+        headers: {},
+        data: [issue("2022-01-01T00:00:00Z", null, "2023-06-01T00:00:00Z"), issue("2024-05-01T00:00:00Z", null)],
+      };
+    });
+
+    const client = new GitHubClient(createMockConfig());
+    const stats = await client.getIssueStats("repo");
+
+    expect(stats.created).toBe(3);
+    expect(stats.closed).toBe(2);
+    expect(stats.openAtEnd).toBe(3);
+    expect(stats.closeHours).toEqual([24, 91 * 24]);
+  });
+
+  it("skips the API entirely when skipIssueStats is set", async () => {
+    const config = createMockConfig();
+    config.options.skipIssueStats = true;
+    const client = new GitHubClient(config);
+
+    const stats = await client.getIssueStats("repo");
+
+    expect(stats).toEqual({ created: 0, closed: 0, openAtEnd: 0, closeHours: [] });
+    expect(mockOctokit.issues.listForRepo).not.toHaveBeenCalled();
+  });
+
+  it("returns zeros when issues are disabled", async () => {
+    mockOctokit.issues.listForRepo.mockRejectedValue(Object.assign(new Error("Issues are disabled"), { status: 410 }));
+    const client = new GitHubClient(createMockConfig());
+
+    const stats = await client.getIssueStats("repo");
+
+    expect(stats.created).toBe(0);
+  });
+});
+
+describe("GitHubClient.getContributorActivity", () => {
+  beforeEach(() => {
+    resetMockOctokit();
+  });
+
+  it("gathers commits, lines and pull requests per author", async () => {
+    mockOctokit.repos.listCommits.mockResolvedValue({
+      headers: {},
+      data: [
+        { sha: "a1", author: { login: "alice" }, commit: { author: { email: "alice@example.com" } } },
+        { sha: "a2", author: { login: "alice" }, commit: { author: { email: "alice@example.com" } } },
+        { sha: "b1", author: null, commit: { author: { email: "bob@example.com" } } },
+      ],
+    });
+    mockOctokit.repos.getCommit.mockImplementation(async ({ ref }: { ref: string }) => ({
+      headers: {},
+      data: { stats: ref === "b1" ? { additions: 7, deletions: 1 } : { additions: 10, deletions: 5 } },
+    }));
+    mockPullRequests([
+      restPull(4, "carol", "2024-04-01T00:00:00Z", "2025-01-05T00:00:00Z"),
+      restPull(3, "alice", "2024-06-01T00:00:00Z", "2024-06-02T00:00:00Z"),
+      restPull(2, "alice", "2024-05-01T00:00:00Z"),
+      restPull(1, "dave", "2023-11-01T00:00:00Z", "2024-01-05T00:00:00Z"),
+    ]);
+
+    const client = new GitHubClient(createMockConfig());
+    const activity = await client.getContributorActivity("repo", "main");
+
+    expect(activity.alice).toEqual({
+      commits: 2,
+      linesAdded: 20,
+      linesDeleted: 10,
+      pullRequests: 2,
+      pullRequestsMerged: 1,
+    });
+    expect(activity["bob@example.com"]).toEqual({
+      commits: 1,
+      linesAdded: 7,
+      linesDeleted: 1,
+      pullRequests: 0,
+      pullRequestsMerged: 0,
+    });
+    // Merged after the end of the period
+    expect(activity.carol.pullRequestsMerged).toBe(0);
+    // Created before the start of the period
+    expect(activity.dave).toBeUndefined();
+  });
+
+  it("counts merge commits without adding their lines again", async () => {
+    mockOctokit.repos.listCommits.mockResolvedValue({
+      headers: {},
+      data: [
+        { sha: "m1", author: { login: "alice" }, commit: { author: { email: "alice@example.com" } }, parents: [{ sha: "a1" }, { sha: "b1" }] },
+        { sha: "b1", author: { login: "bob" }, commit: { author: { email: "bob@example.com" } }, parents: [{ sha: "a1" }] },
+        { sha: "a1", author: { login: "alice" }, commit: { author: { email: "alice@example.com" } }, parents: [] },
+      ],
+    });
+    mockOctokit.repos.getCommit.mockImplementation(async ({ ref }: { ref: string }) => ({
+      headers: {},
+      data: { stats: ref === "m1" ? { additions: 7, deletions: 1 } : { additions: ref === "a1" ? 10 : 7, deletions: 1 } },
+    }));
+    mockPullRequests([]);
+
+    const client = new GitHubClient(createMockConfig());
+    const activity = await client.getContributorActivity("repo", "main");
+
+    expect(activity.alice).toMatchObject({ commits: 2, linesAdded: 10, linesDeleted: 1 });
+    expect(activity.bob).toMatchObject({ commits: 1, linesAdded: 7, linesDeleted: 1 });
+    expect(mockOctokit.repos.getCommit).not.toHaveBeenCalledWith(expect.objectContaining({ ref: "m1" }));
+  });
+
+  it("skips commit detail calls when skipLineStats is set", async () => {
+    mockOctokit.repos.listCommits.mockResolvedValue({
+      headers: {},
+      data: [{ sha: "a1", author: { login: "alice" }, commit: { author: {} } }],
+    });
+    mockPullRequests([]);
+    const config = createMockConfig();
+    config.options.skipLineStats = true;
+
+    const client = new GitHubClient(config);
+    const activity = await client.getContributorActivity("repo", "main");
+
+    expect(activity.alice.commits).toBe(1);
+    expect(mockOctokit.repos.getCommit).not.toHaveBeenCalled();
+  });
+
+  it("resolves aliases and leaves out bots when excludeBots is set", async () => {
+    mockOctokit.repos.listCommits.mockResolvedValue({
+      headers: {},
+      data: [
+        { sha: "a1", author: { login: "alice" }, commit: { author: { email: "alice@example.com" } } },
+        { sha: "a2", author: null, commit: { author: { email: "alice@home.example" } } },
+        { sha: "d1", author: { login: "dependabot[bot]" }, commit: { author: { email: "dependabot@example.com" } } },
+      ],
+    });
+    mockPullRequests([restPull(2, "renovate[bot]", "2024-05-01T00:00:00Z"), restPull(1, "Alice", "2024-05-01T00:00:00Z")]);
+    const config = createMockConfig();
+    config.options.skipLineStats = true;
+    config.options.identity = { aliases: { "alice@home.example": "alice", Alice: "alice" }, excludeBots: true };
+
+    const client = new GitHubClient(config);
+    const [activity, contributors] = await Promise.all([
+      client.getContributorActivity("repo", "main"),
+      client.getContributors("repo", "main"),
+    ]);
+
+    expect(Object.keys(activity)).toEqual(["alice"]);
+    expect(activity.alice).toMatchObject({ commits: 2, pullRequests: 1 });
+    expect(contributors).toEqual(["alice"]);
+  });
+});
+
+describe("GitHubClient.getPullRequestStats", () => {
+  beforeEach(() => {
+    resetMockOctokit();
+  });
+
+  it("covers the pull request lifecycle in the period", async () => {
+    mockPullRequests(
+      [
+        restPull(6, "alice", "2024-06-01T00:00:00Z", null, null), // still open
+        restPull(5, "bob", "2024-05-01T00:00:00Z", "2024-05-03T00:00:00Z"), // merged after 48h
+        restPull(4, "carol", "2024-04-01T00:00:00Z", null, "2024-04-02T00:00:00Z"), // closed without merge
+        restPull(3, "dave", "2023-12-31T00:00:00Z", "2024-01-01T12:00:00Z"), // opened before, merged in range
+        restPull(2, "erin", "2024-12-01T00:00:00Z", "2025-01-02T00:00:00Z"), // open at the end, merged after
+      ],
+      [restPull(1, "frank", "2022-01-01T00:00:00Z")] // open backlog untouched since before the range
+    );
+    mockOctokit.pulls.listReviews.mockImplementation(async ({ pull_number }: { pull_number: number }) => ({
+      headers: {},
+      data:
+        pull_number === 5
+          ? [
+              { id: 51, user: { login: "bob" }, state: "COMMENTED", submitted_at: "2024-05-01T01:00:00Z" },
+              { id: 52, user: { login: "alice" }, state: "PENDING", submitted_at: null },
+              { id: 53, user: { login: "carol" }, state: "APPROVED", submitted_at: "2024-05-01T04:00:00Z" },
+            ]
+          : [],
+    }));
+
+    const client = new GitHubClient(createMockConfig());
+    const stats = await client.getPullRequestStats("repo", "main");
+
+    expect(stats).toEqual({
+      created: 4,
+      merged: 2,
+      mergedWithoutApproval: 1, // #3 has no reviews
+      closedWithoutMerge: 1,
+      openAtEnd: 3,
+      mergeHours: [48, 36],
+      firstReviewHours: [4],
+    });
+    // Reviews are only fetched for PRs opened or merged in range, once each
+    expect(mockOctokit.pulls.listReviews).toHaveBeenCalledTimes(5);
+  });
+
+  it("reports medians and p90 on the repo stats", async () => {
+    mockOctokit.repos.get.mockResolvedValue({ headers: {}, data: { default_branch: "main" } });
+    mockOctokit.repos.listCommits.mockResolvedValue({ headers: {}, data: [] });
+    mockOctokit.repos.listReleases.mockResolvedValue({ headers: {}, data: [] });
+    mockOctokit.pulls.listReviews.mockResolvedValue({ headers: {}, data: [] });
+    mockPullRequests(
+      Array.from({ length: 10 }, (_, i) =>
+        restPull(i + 1, "alice", "2024-03-01T00:00:00Z", `2024-03-01T${String(i + 1).padStart(2, "0")}:00:00Z`)
+      )
+    );
+    const config = createMockConfig();
+    config.options.skipIssueStats = true;
+    const client = new GitHubClient(config);
+
+    const stats = await client.getRepoStats({ owner: "test-org", name: "repo", isArchived: false });
+
+    expect(stats.pullRequests).toBe(10);
+    expect(stats.pullRequestMetrics).toEqual({
+      merged: 10,
+      mergedWithoutApproval: 10,
+      closedWithoutMerge: 0,
+      openAtEnd: 0,
+      medianHoursToMerge: 5.5,
+      p90HoursToMerge: 9.1,
+      medianHoursToFirstReview: null,
+    });
+  });
+});
+
+describe("GitHubClient.getReviewerActivity", () => {
+  beforeEach(() => {
+    resetMockOctokit();
+  });
+
+  it("counts reviews, verdicts, comments and turnaround per reviewer", async () => {
+    mockPullRequests([
+      restPull(2, "alice", "2024-03-01T00:00:00Z", "2024-03-02T00:00:00Z"),
+      restPull(1, "bob", "2023-12-30T00:00:00Z", "2024-01-02T00:00:00Z"),
+    ]);
+    mockOctokit.pulls.listReviews.mockImplementation(async ({ pull_number }: { pull_number: number }) => ({
+      headers: {},
+      data:
+        pull_number === 2
+          ? [
+              { id: 21, user: { login: "bob" }, state: "CHANGES_REQUESTED", submitted_at: "2024-03-01T02:00:00Z" },
+              { id: 22, user: { login: "alice" }, state: "COMMENTED", submitted_at: "2024-03-01T03:00:00Z" },
+              { id: 23, user: { login: "bob" }, state: "APPROVED", submitted_at: "2024-03-01T08:00:00Z" },
+              { id: 24, user: { login: "carol" }, state: "PENDING", submitted_at: null },
+            ]
+          : [
+              // Carol's first review of #1 is before the range, so only the second one counts
+              { id: 11, user: { login: "carol" }, state: "COMMENTED", submitted_at: "2023-12-31T00:00:00Z" },
+              { id: 12, user: { login: "carol" }, state: "APPROVED", submitted_at: "2024-01-01T12:00:00Z" },
+            ],
+    }));
+    mockOctokit.pulls.listReviewComments.mockImplementation(async ({ pull_number }: { pull_number: number }) => ({
+      headers: {},
+      data:
+        pull_number === 2
+          ? [{ pull_request_review_id: 21 }, { pull_request_review_id: 21 }, { pull_request_review_id: 22 }]
+          : [{ pull_request_review_id: 11 }, { pull_request_review_id: 12 }, { pull_request_review_id: null }],
+    }));
+
+    const client = new GitHubClient(createMockConfig());
+    const activity = await client.getReviewerActivity("repo", "main");
+
+    expect(activity).toEqual({
+      bob: { reviews: 2, approvals: 1, changesRequested: 1, reviewComments: 2, turnaroundHours: [2] },
+      carol: { reviews: 1, approvals: 1, changesRequested: 0, reviewComments: 1, turnaroundHours: [] },
+    });
+    // Review comments are listed once per PR and shared by its reviews
+    expect(mockOctokit.pulls.listReviewComments).toHaveBeenCalledTimes(2);
+  });
+
+  it("counts merged pull requests without an approval from someone other than the author", async () => {
+    mockPullRequests([
+      restPull(3, "alice", "2024-03-01T00:00:00Z", "2024-03-02T00:00:00Z"),
+      restPull(2, "alice", "2024-03-01T00:00:00Z", "2024-03-02T00:00:00Z"),
+      restPull(1, "alice", "2024-03-01T00:00:00Z", "2024-03-02T00:00:00Z"),
+    ]);
+    mockOctokit.pulls.listReviews.mockImplementation(async ({ pull_number }: { pull_number: number }) => ({
+      headers: {},
+      data: [
+        [],
+        [{ id: 1, user: { login: "alice" }, state: "APPROVED", submitted_at: "2024-03-01T01:00:00Z" }],
+        [{ id: 2, user: { login: "bob" }, state: "APPROVED", submitted_at: "2024-03-01T01:00:00Z" }],
+      ][pull_number - 1],
+    }));
+
+    const client = new GitHubClient(createMockConfig());
+    const stats = await client.getPullRequestStats("repo", "main");
+
+    expect(stats.merged).toBe(3);
+    expect(stats.mergedWithoutApproval).toBe(2);
+  });
+});
+
+describe("GitHubClient.getTimeSeries", () => {
+  beforeEach(() => {
+    resetMockOctokit();
+  });
+
+  const datedCommit = (sha: string, login: string, date: string, parents = ["p"]) => ({
+    sha,
+    author: { login },
+    parents: parents.map((parent) => ({ sha: parent })),
+    commit: { message: sha, author: { email: `${login}@example.com`, date }, committer: { date } },
+  });
+
+  it("buckets commits, lines, pull requests and releases by period from one walk", async () => {
+    mockOctokit.repos.listCommits.mockResolvedValue({
+      headers: {},
+      data: [
+        datedCommit("c4", "alice", "2024-03-05T00:00:00Z", ["c3", "f1"]), // merge commit: no line stats
+        datedCommit("c3", "bob", "2024-01-20T00:00:00Z"),
+        datedCommit("c2", "alice", "2024-01-10T00:00:00Z"),
+        datedCommit("c1", "alice", "2024-01-02T00:00:00Z"),
+      ],
+    });
+    mockOctokit.repos.getCommit.mockResolvedValue({ headers: {}, data: { stats: { additions: 5, deletions: 1 } } });
+    mockPullRequests([
+      restPull(2, "alice", "2024-02-10T00:00:00Z", "2024-03-01T00:00:00Z"),
+      restPull(1, "bob", "2023-12-20T00:00:00Z", "2024-01-03T00:00:00Z"), // opened before the range
+    ]);
+    mockOctokit.repos.listReleases.mockResolvedValue({
+      headers: {},
+      data: [
+        { published_at: "2024-03-20T00:00:00Z", created_at: "2024-03-20T00:00:00Z" },
+        { published_at: "2023-12-01T00:00:00Z", created_at: "2023-12-01T00:00:00Z" },
+      ],
+    });
+    const client = new GitHubClient(
+      createMockConfig({ dateRange: { startDate: "2024-01-01", endDate: "2024-03-31" } })
+    );
+
+    const periods = await client.getTimeSeries("repo", "month", "main");
+
+    expect(periods).toEqual([
+      {
+        start: "2024-01-01",
+        end: "2024-01-31",
+        commits: 3,
+        linesAdded: 15,
+        linesDeleted: 3,
+        pullRequests: 0,
+        pullRequestsMerged: 1,
+        releases: 0,
+        contributors: 2,
+        contributorsList: ["bob", "alice"],
+      },
+      {
+        start: "2024-02-01",
+        end: "2024-02-29",
+        commits: 0,
+        linesAdded: 0,
+        linesDeleted: 0,
+        pullRequests: 1,
+        pullRequestsMerged: 0,
+        releases: 0,
+        contributors: 0,
+        contributorsList: [],
+      },
+      {
+        start: "2024-03-01",
+        end: "2024-03-31",
+        commits: 1,
+        linesAdded: 0,
+        linesDeleted: 0,
+        pullRequests: 0,
+        pullRequestsMerged: 1,
+        releases: 1,
+        contributors: 1,
+        contributorsList: ["alice"],
+      },
+    ]);
+    // The release walk is shared with the range count
+    expect(await client.getReleaseCount("repo")).toBe(1);
+    expect(mockOctokit.repos.listReleases).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("GitHubClient commit harvest", () => {
+  beforeEach(() => {
+    resetMockOctokit();
+  });
+
+  const restCommit = (sha: string, login: string | null, email: string, parents: string[]) => ({
+    sha,
+    author: login ? { login } : null,
+    parents: parents.map((parent) => ({ sha: parent })),
+    commit: {
+      message: `commit ${sha}`,
+      author: { email, date: "2024-03-01T00:00:00Z" },
+      committer: { date: "2024-03-02T00:00:00Z" },
+    },
+  });
+
+  const mockRepo = () => {
+    mockOctokit.repos.get.mockResolvedValue({ headers: {}, data: { default_branch: "main" } });
+    mockOctokit.repos.listCommits.mockImplementation(async ({ since }: { since?: string }) => ({
+      headers: {},
+      // Range walk vs. the one-commit lookup of the baseline before the start date
+      data: since
+        ? [restCommit("c3", "alice", "alice@example.com", ["c2"]), restCommit("c2", null, "bob@example.com", ["c1"])]
+        : [restCommit("c1", "alice", "alice@example.com", [])],
+    }));
+    mockOctokit.repos.compareCommits.mockResolvedValue({
+      headers: {},
+      data: { files: [{ additions: 12, deletions: 4 }] },
+    });
+    mockOctokit.repos.getCommit.mockResolvedValue({ headers: {}, data: { stats: { additions: 6, deletions: 2 } } });
+    mockPullRequests([]);
+    mockOctokit.repos.listReleases.mockResolvedValue({ headers: {}, data: [] });
+  };
+
+  const rangeWalks = () => mockOctokit.repos.listCommits.mock.calls.filter(([params]) => params.since).length;
+
+  it("returns typed commit records", async () => {
+    mockRepo();
+    const client = new GitHubClient(createMockConfig());
+
+    const commits = await client.harvestCommits("repo", "main");
+
+    expect(commits[1]).toEqual({
+      sha: "c2",
+      authorLogin: null,
+      authorEmail: "bob@example.com",
+      date: "2024-03-02T00:00:00Z",
+      parents: ["c1"],
+      message: "commit c2",
+      stats: null,
+    });
+  });
+
+  it("walks the commit history once for all commit-derived metrics", async () => {
+    mockRepo();
+    const config = createMockConfig();
+    config.options.skipIssueStats = true;
+    const client = new GitHubClient(config);
+    client.setCollectUserStats(true);
+
+    const stats = await client.getRepoStats({ owner: "test-org", name: "repo", isArchived: false });
+
+    expect(stats.commits).toBe(2);
+    expect(stats.contributorsList).toEqual(["alice", "bob@example.com"]);
+    expect(stats.linesAdded).toBe(12);
+    expect(stats.contributorActivity?.alice.linesAdded).toBe(6);
+    expect(rangeWalks()).toBe(1);
+    // The range walk plus the baseline lookup for line stats
+    expect(mockOctokit.repos.listCommits).toHaveBeenCalledTimes(2);
+    expect(mockOctokit.repos.compareCommits).toHaveBeenCalledWith(expect.objectContaining({ base: "c1", head: "c3" }));
+  });
+
+  it("uses the oldest commit's parent as the baseline without extra calls", async () => {
+    mockRepo();
+    mockOctokit.repos.listCommits.mockImplementation(async ({ since }: { since?: string }) => ({
+      headers: {},
+      data: since
+        ? [restCommit("c3", "alice", "alice@example.com", ["c2"]), restCommit("c2", "alice", "alice@example.com", ["c1"])]
+        : [],
+    }));
+    const client = new GitHubClient(createMockConfig());
+
+    await client.getLinesOfCode("repo", "main");
+
+    expect(mockOctokit.repos.getCommit).not.toHaveBeenCalled();
+    expect(mockOctokit.repos.compareCommits).toHaveBeenCalledWith(expect.objectContaining({ base: "c1", head: "c3" }));
+  });
+
+  it("records the snapshot mode and flags truncated compares", async () => {
+    mockRepo();
+    mockOctokit.repos.compareCommits.mockResolvedValue({
+      headers: {},
+      data: { files: Array.from({ length: 300 }, () => ({ additions: 1, deletions: 0 })) },
+    });
+    const client = new GitHubClient(createMockConfig());
+
+    const lines = await client.getLinesOfCode("repo", "main");
+
+    expect(lines).toEqual({ added: 300, deleted: 0, mode: "snapshot", truncated: true });
+  });
+
+  it("sums each non-merge commit in per-commit mode", async () => {
+    mockRepo();
+    mockOctokit.repos.listCommits.mockResolvedValue({
+      headers: {},
+      data: [
+        restCommit("m1", "alice", "alice@example.com", ["c2", "f1"]),
+        restCommit("c2", "alice", "alice@example.com", ["c1"]),
+        restCommit("f1", "bob", "bob@example.com", ["c1"]),
+      ],
+    });
+    const config = createMockConfig();
+    config.options.lineStatsMode = "per-commit";
+    const client = new GitHubClient(config);
+
+    const lines = await client.getLinesOfCode("repo", "main");
+
+    expect(lines).toEqual({ added: 12, deleted: 4, mode: "per-commit", truncated: false });
+    expect(mockOctokit.repos.getCommit).toHaveBeenCalledTimes(2);
+    expect(mockOctokit.repos.compareCommits).not.toHaveBeenCalled();
+  });
+
+  it("falls back to per-commit in auto mode when the compare is truncated", async () => {
+    mockRepo();
+    mockOctokit.repos.compareCommits.mockResolvedValue({
+      headers: {},
+      data: { files: Array.from({ length: 300 }, () => ({ additions: 1, deletions: 0 })) },
+    });
+    const config = createMockConfig();
+    config.options.lineStatsMode = "auto";
+    const client = new GitHubClient(config);
+
+    const lines = await client.getLinesOfCode("repo", "main");
+
+    expect(lines).toEqual({ added: 12, deleted: 4, mode: "per-commit", truncated: false });
+  });
+
+  it("keeps the snapshot in auto mode when the compare is complete", async () => {
+    mockRepo();
+    const config = createMockConfig();
+    config.options.lineStatsMode = "auto";
+    const client = new GitHubClient(config);
+
+    const lines = await client.getLinesOfCode("repo", "main");
+
+    expect(lines.mode).toBe("snapshot");
+    expect(mockOctokit.repos.getCommit).not.toHaveBeenCalled();
+  });
+
+  it("shares commit detail calls between line and per-user stats", async () => {
+    mockRepo();
+    const config = createMockConfig();
+    config.options.lineStatsMode = "per-commit";
+    config.options.skipIssueStats = true;
+    const client = new GitHubClient(config);
+    client.setCollectUserStats(true);
+
+    const stats = await client.getRepoStats({ owner: "test-org", name: "repo", isArchived: false });
+
+    expect(stats.linesAdded).toBe(12);
+    expect(stats.lineStatsMode).toBe("per-commit");
+    expect(mockOctokit.repos.getCommit).toHaveBeenCalledTimes(2);
+  });
+
+  it("walks again after the caches are cleared", async () => {
+    mockRepo();
+    const client = new GitHubClient(createMockConfig());
+
+    await client.getCommitCount("repo", "main");
+    await client.getContributors("repo", "main");
+    client.clearBranchCache();
+    await client.getCommitCount("repo", "main");
+
+    expect(rangeWalks()).toBe(2);
+  });
+});
+
+describe("GitHubClient GraphQL mode", () => {
+  beforeEach(() => {
+    resetMockOctokit();
+  });
+
+  const pageInfo = { hasNextPage: false, endCursor: null };
+
+  const graphqlPull = (
+    number: number,
+    baseRefName: string,
+    createdAt: string,
+    mergedAt: string | null,
+    author: unknown,
+    reviews: unknown[] = []
+  ) => ({
+    number,
+    baseRefName,
+    createdAt,
+    updatedAt: mergedAt ?? createdAt,
+    closedAt: mergedAt,
+    mergedAt,
+    author,
+    reviews: { pageInfo, nodes: reviews },
+  });
+
+  const commitNode = (oid: string, additions: number, deletions: number, author: unknown) => ({
+    oid,
+    committedDate: "2024-03-01T00:00:00Z",
+    message: "change",
+    parents: { nodes: [] },
+    additions,
+    deletions,
+    author,
+  });
+
+  // The same repository history as returned by the REST and GraphQL APIs
+  const mockRestApi = () => {
+    mockOctokit.repos.get.mockResolvedValue({ headers: {}, data: { default_branch: "main" } });
+    mockOctokit.repos.listCommits.mockResolvedValue({
+      headers: {},
+      data: [
+        { sha: "a1", author: { login: "alice" }, commit: { author: { email: "alice@example.com" } } },
+        { sha: "d1", author: { login: "dependabot[bot]" }, commit: { author: { email: "49699333+dependabot[bot]@users.noreply.github.com" } } },
+        { sha: "b1", author: null, commit: { author: { email: "bob@example.com" } } },
+      ],
+    });
+    mockOctokit.repos.getCommit.mockImplementation(async ({ ref }: { ref: string }) => ({
+      headers: {},
+      data: { stats: { a1: { additions: 10, deletions: 5 }, d1: { additions: 2, deletions: 2 }, b1: { additions: 7, deletions: 1 } }[ref] },
+    }));
+    const stalePull = restPull(4, "dave", "2023-06-01T00:00:00Z");
+    mockPullRequests(
+      [
+        restPull(3, "alice", "2024-06-01T00:00:00Z", "2024-06-02T00:00:00Z"),
+        restPull(2, "dependabot[bot]", "2024-05-01T00:00:00Z"),
+        restPull(1, "carol", "2023-11-01T00:00:00Z", "2024-01-05T00:00:00Z"),
+        stalePull,
+      ],
+      [stalePull, restPull(2, "dependabot[bot]", "2024-05-01T00:00:00Z")]
+    );
+    mockOctokit.pulls.listReviews.mockImplementation(async ({ pull_number }: { pull_number: number }) => ({
+      headers: {},
+      data:
+        pull_number === 3
+          ? [
+              { id: 31, user: { login: "alice" }, state: "COMMENTED", submitted_at: "2024-06-01T01:00:00Z" },
+              { id: 32, user: { login: "bob" }, state: "APPROVED", submitted_at: "2024-06-01T06:00:00Z" },
+            ]
+          : [],
+    }));
+    mockOctokit.pulls.listReviewComments.mockImplementation(async ({ pull_number }: { pull_number: number }) => ({
+      headers: {},
+      data: pull_number === 3 ? [{ pull_request_review_id: 32 }, { pull_request_review_id: 32 }] : [],
+    }));
+    mockOctokit.repos.listReleases.mockResolvedValue({
+      headers: {},
+      data: [
+        { published_at: "2024-07-01T00:00:00Z", created_at: "2024-07-01T00:00:00Z" },
+        { published_at: null, created_at: "2024-03-01T00:00:00Z" },
+        { published_at: "2023-10-01T00:00:00Z", created_at: "2023-10-01T00:00:00Z" },
+      ],
+    });
+  };
+
+  const graphqlRepository = {
+    defaultBranchRef: {
+      name: "main",
+      target: {
+        history: {
+          pageInfo,
+          nodes: [
+            commitNode("a1", 10, 5, { email: "alice@example.com", user: { login: "alice" } }),
+            commitNode("d1", 2, 2, { email: "49699333+dependabot[bot]@users.noreply.github.com", user: null }),
+            commitNode("b1", 7, 1, { email: "bob@example.com", user: null }),
+          ],
+        },
+      },
+    },
+    pullRequests: {
+      pageInfo,
+      nodes: [
+        graphqlPull(3, "main", "2024-06-01T00:00:00Z", "2024-06-02T00:00:00Z", { login: "alice", __typename: "User" }, [
+          {
+            id: "PRR_1",
+            state: "COMMENTED",
+            submittedAt: "2024-06-01T01:00:00Z",
+            author: { login: "alice", __typename: "User" },
+            comments: { totalCount: 0 },
+          },
+          {
+            id: "PRR_2",
+            state: "APPROVED",
+            submittedAt: "2024-06-01T06:00:00Z",
+            author: { login: "bob", __typename: "User" },
+            comments: { totalCount: 2 },
+          },
+        ]),
+        graphqlPull(9, "release", "2024-05-15T00:00:00Z", null, { login: "alice", __typename: "User" }),
+        graphqlPull(2, "main", "2024-05-01T00:00:00Z", null, { login: "dependabot", __typename: "Bot" }),
+        graphqlPull(1, "main", "2023-11-01T00:00:00Z", "2024-01-05T00:00:00Z", { login: "carol", __typename: "User" }),
+        // Still open, but last updated before the range: the last page runs past the range start
+        graphqlPull(4, "main", "2023-06-01T00:00:00Z", null, { login: "dave", __typename: "User" }),
+      ],
+    },
+    releases: {
+      pageInfo,
+      nodes: [
+        { publishedAt: "2024-07-01T00:00:00Z", createdAt: "2024-07-01T00:00:00Z" },
+        { publishedAt: null, createdAt: "2024-03-01T00:00:00Z" },
+        { publishedAt: "2023-10-01T00:00:00Z", createdAt: "2023-10-01T00:00:00Z" },
+      ],
+    },
+  };
+
+  const createClient = (apiMode: "rest" | "graphql") => {
+    const config = createMockConfig();
+    config.options.apiMode = apiMode;
+    config.options.skipIssueStats = true;
+    const client = new GitHubClient(config);
+    client.setCollectUserStats(true);
+    client.setCollectReviewerStats(true);
+    return client;
+  };
+
+  it("produces the same repo stats as the REST backend", async () => {
+    const repo = { owner: "test-org", name: "repo", isArchived: false };
+    mockRestApi();
+    const restStats = await createClient("rest").getRepoStats(repo);
+
+    resetMockOctokit();
+    mockRestApi();
+    mockOctokit.graphql.mockResolvedValue({ repo0: graphqlRepository });
+    const graphqlClient = createClient("graphql");
+    await graphqlClient.prefetchRepoData([repo]);
+    const graphqlStats = await graphqlClient.getRepoStats(repo);
+
+    expect(graphqlStats).toEqual(restStats);
+    expect(graphqlStats.commits).toBe(3);
+    expect(graphqlStats.pullRequests).toBe(2);
+    expect(graphqlStats.pullRequestMetrics.openAtEnd).toBe(2);
+    expect(graphqlStats.pullRequestMetrics.medianHoursToFirstReview).toBe(6);
+    expect(graphqlStats.reviewerActivity).toEqual({
+      bob: { reviews: 1, approvals: 1, changesRequested: 0, reviewComments: 2, turnaroundHours: [6] },
+    });
+    expect(graphqlStats.releases).toBe(2);
+    // Only the line stats snapshot and the stale open PR backlog still use REST
+    expect(mockOctokit.repos.getCommit).not.toHaveBeenCalled();
+    expect(mockOctokit.pulls.listReviews).not.toHaveBeenCalled();
+    expect(mockOctokit.pulls.listReviewComments).not.toHaveBeenCalled();
+    expect(mockOctokit.pulls.list).not.toHaveBeenCalledWith(expect.objectContaining({ state: "all" }));
+    expect(mockOctokit.repos.listReleases).not.toHaveBeenCalled();
+    expect(mockOctokit.repos.get).not.toHaveBeenCalled();
+  });
+
+  it("pages through reviews beyond the first hundred of a pull request", async () => {
+    const review = (id: string, login: string, state: string) => ({
+      id,
+      state,
+      submittedAt: "2024-06-01T06:00:00Z",
+      author: { login, __typename: "User" },
+      comments: { totalCount: 0 },
+    });
+    const pullRequest = {
+      ...graphqlPull(3, "main", "2024-06-01T00:00:00Z", "2024-06-02T00:00:00Z", { login: "alice", __typename: "User" }),
+      reviews: { pageInfo: { hasNextPage: true, endCursor: "r100" }, nodes: [review("PRR_1", "bob", "COMMENTED")] },
+    };
+    mockOctokit.graphql.mockImplementation(async (query: string) =>
+      query.includes("pullRequest(number:")
+        ? { repository: { pullRequest: { reviews: { pageInfo, nodes: [review("PRR_101", "carol", "APPROVED")] } } } }
+        : { repo0: { ...graphqlRepository, pullRequests: { pageInfo, nodes: [pullRequest] } } }
+    );
+    mockRestApi();
+    const repo = { owner: "test-org", name: "repo", isArchived: false };
+    const client = createClient("graphql");
+
+    await client.prefetchRepoData([repo]);
+    const stats = await client.getRepoStats(repo);
+
+    expect(mockOctokit.graphql.mock.calls[1][1]).toMatchObject({ name: "repo", number: 3, cursor: "r100" });
+    expect(stats.pullRequestMetrics.mergedWithoutApproval).toBe(0);
+    expect(Object.keys(stats.reviewerActivity ?? {})).toEqual(["bob", "carol"]);
+  });
+
+  it("batches repositories into a single query", async () => {
+    mockOctokit.graphql.mockResolvedValue({ repo0: graphqlRepository, repo1: null });
+    const client = createClient("graphql");
+
+    await client.prefetchRepoData([
+      { owner: "test-org", name: "repo", isArchived: false },
+      { owner: "test-org", name: "missing", isArchived: false },
+    ]);
+
+    expect(mockOctokit.graphql).toHaveBeenCalledTimes(1);
+    expect(mockOctokit.graphql.mock.calls[0][1]).toMatchObject({ owner: "test-org", name0: "repo", name1: "missing" });
+  });
+
+  it("falls back to REST when the GraphQL query fails", async () => {
+    mockRestApi();
+    mockOctokit.graphql.mockRejectedValue(Object.assign(new Error("Bad credentials"), { status: 401 }));
+    const repo = { owner: "test-org", name: "repo", isArchived: false };
+    const client = createClient("graphql");
+
+    await client.prefetchRepoData([repo]);
+    const stats = await client.getRepoStats(repo);
+
+    expect(stats.commits).toBe(3);
+    expect(mockOctokit.pulls.list).toHaveBeenCalled();
+  });
+});
+
+describe("GitHubClient incremental sync", () => {
+  let directory: string;
+  const repo = { owner: "test-org", name: "repo", isArchived: false };
+
+  beforeEach(() => {
+    resetMockOctokit();
+    directory = mkdtempSync(join(tmpdir(), "history-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const restCommit = (sha: string, date: string, parents: string[]) => ({
+    sha,
+    author: { login: "alice" },
+    parents: parents.map((parent) => ({ sha: parent })),
+    commit: { message: `commit ${sha}`, author: { email: "alice@example.com", date }, committer: { date } },
+  });
+
+  const mockRepo = (branch: string, commits: unknown[]) => {
+    mockOctokit.repos.get.mockResolvedValue({ headers: {}, data: { default_branch: branch } });
+    mockOctokit.repos.listCommits.mockResolvedValue({ headers: {}, data: commits });
+    mockOctokit.repos.getCommit.mockResolvedValue({ headers: {}, data: { stats: { additions: 3, deletions: 1 } } });
+    mockOctokit.pulls.list.mockResolvedValue({ headers: {}, data: [] });
+    mockOctokit.issues.listForRepo.mockResolvedValue({ headers: {}, data: [] });
+    mockOctokit.repos.listReleases.mockResolvedValue({ headers: {}, data: [] });
+  };
+
+  const createClient = () => {
+    const config = createMockConfig();
+    config.dateRange = { startDate: "2024-01-01", endDate: "2024-12-31" };
+    const client = new GitHubClient(config);
+    client.setHistoryStore(new HistoryStore(directory));
+    return client;
+  };
+
+  const lastSince = () => new Date(mockOctokit.repos.listCommits.mock.lastCall![0].since);
+
+  it("fetches only what changed since the last sync and keeps the stored records", async () => {
+    mockRepo("main", [restCommit("c1", "2024-02-01T00:00:00Z", [])]);
+    const first = await createClient().getRepoStats(repo);
+    expect(first.commits).toBe(1);
+    expect(lastSince().toISOString()).toBe("2024-01-01T00:00:00.000Z");
+
+    mockOctokit.repos.listCommits.mockClear();
+    mockOctokit.repos.getCommit.mockClear();
+    mockRepo("main", [restCommit("c2", "2024-03-01T00:00:00Z", ["c1"])]);
+    mockOctokit.repos.compareCommits.mockResolvedValue({ headers: {}, data: { status: "ahead" } });
+    const second = await createClient().getRepoStats(repo);
+
+    expect(mockOctokit.repos.compareCommits).toHaveBeenCalledWith(expect.objectContaining({ base: "c1", head: "main" }));
+    expect(lastSince().getTime()).toBeGreaterThan(Date.now() - 4 * 24 * 60 * 60 * 1000);
+    expect(mockOctokit.repos.getCommit).toHaveBeenCalledTimes(1);
+    expect(second.commits).toBe(2);
+    expect(second.linesAdded).toBe(6);
+    expect(new HistoryStore(directory).load(repo)?.headSha).toBe("c2");
+  });
+
+  it("re-syncs from the start date after a force-push or a default branch rename", async () => {
+    mockRepo("main", [restCommit("c1", "2024-02-01T00:00:00Z", [])]);
+    await createClient().getRepoStats(repo);
+
+    mockRepo("main", [restCommit("c9", "2024-02-02T00:00:00Z", [])]);
+    mockOctokit.repos.compareCommits.mockResolvedValue({ headers: {}, data: { status: "diverged" } });
+    const rewritten = await createClient().getRepoStats(repo);
+    expect(lastSince().toISOString()).toBe("2024-01-01T00:00:00.000Z");
+    expect(rewritten.commits).toBe(1);
+    expect(new HistoryStore(directory).load(repo)?.headSha).toBe("c9");
+
+    mockOctokit.repos.compareCommits.mockClear();
+    mockRepo("trunk", [restCommit("c9", "2024-02-02T00:00:00Z", [])]);
+    const renamed = await createClient().getRepoStats(repo);
+    expect(mockOctokit.repos.compareCommits).not.toHaveBeenCalled();
+    expect(lastSince().toISOString()).toBe("2024-01-01T00:00:00.000Z");
+    expect(renamed.commits).toBe(1);
+    expect(new HistoryStore(directory).load(repo)?.branch).toBe("trunk");
+  });
+});
+
 describe("Config validation scenarios", () => {
   it("config with all required fields is valid", () => {
     const config = createMockConfig();
@@ -111,6 +1133,7 @@ describe("Config validation scenarios", () => {
         includeRepos: ["repo-a", "repo-b"],
         maxConcurrentRequests: 3,
         skipLineStats: false,
+        skipIssueStats: false,
         pageSize: 100,
       },
     });
@@ -124,6 +1147,7 @@ describe("Config validation scenarios", () => {
         includeRepos: [],
         maxConcurrentRequests: 3,
         skipLineStats: false,
+        skipIssueStats: false,
         pageSize: 100,
       },
     });
@@ -137,6 +1161,7 @@ describe("Config validation scenarios", () => {
         includeRepos: [],
         maxConcurrentRequests: 3,
         skipLineStats: true,
+        skipIssueStats: false,
         pageSize: 100,
       },
     });
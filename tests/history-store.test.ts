@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { HISTORY_VERSION, HistoryStore, statsFromHistory, type HistoryStatsOptions } from "../src/history-store.js";
+import { IdentityResolver } from "../src/identity.js";
+import type { RepoHistory } from "../src/types.js";
+
+const history: RepoHistory = {
+  version: HISTORY_VERSION,
+  owner: "Test-Org",
+  name: "API",
+  isArchived: false,
+  branch: "main",
+  headSha: "c3",
+  syncedFrom: "2024-01-01",
+  syncedAt: "2024-07-01T00:00:00Z",
+  hasLineStats: true,
+  hasIssues: true,
+  commits: [
+    { sha: "c3", authorLogin: "alice", authorEmail: "alice@example.com", date: "2024-06-10T00:00:00Z", parents: ["c2"], stats: { additions: 10, deletions: 2 } },
+    { sha: "c2", authorLogin: null, authorEmail: "bob@example.com", date: "2024-03-05T00:00:00Z", parents: ["c1"], stats: { additions: 5, deletions: 1 } },
+    { sha: "c1", authorLogin: "alice", authorEmail: "alice@example.com", date: "2024-01-15T00:00:00Z", parents: [], stats: { additions: 100, deletions: 0 } },
+  ],
+  pullRequests: [
+    { number: 1, authorLogin: "alice", createdAt: "2024-03-01T00:00:00Z", updatedAt: "2024-03-03T00:00:00Z", closedAt: "2024-03-03T00:00:00Z", mergedAt: "2024-03-03T00:00:00Z", approved: true, firstReviewAt: "2024-03-02T00:00:00Z" },
+    { number: 2, authorLogin: "bob", createdAt: "2024-03-10T00:00:00Z", updatedAt: "2024-06-01T00:00:00Z", closedAt: "2024-06-01T00:00:00Z", mergedAt: "2024-06-01T00:00:00Z", approved: false, firstReviewAt: null },
+    { number: 3, authorLogin: "bob", createdAt: "2024-02-01T00:00:00Z", updatedAt: "2024-02-01T00:00:00Z", closedAt: null, mergedAt: null, approved: false, firstReviewAt: null },
+  ],
+  issues: [
+    { number: 10, createdAt: "2024-02-01T00:00:00Z", closedAt: "2024-03-02T00:00:00Z" },
+    { number: 11, createdAt: "2024-03-20T00:00:00Z", closedAt: null },
+  ],
+  releases: [
+    { id: 2, publishedAt: "2024-06-15T00:00:00Z" },
+    { id: 1, publishedAt: "2024-03-15T00:00:00Z" },
+  ],
+};
+
+const options = (overrides: Partial<HistoryStatsOptions> = {}): HistoryStatsOptions => ({
+  startDate: "2024-03-01",
+  endDate: "2024-03-31",
+  skipLineStats: false,
+  skipIssueStats: false,
+  interval: null,
+  ...overrides,
+});
+
+describe("statsFromHistory", () => {
+  it("computes the stats of a range from the stored records", () => {
+    const stats = statsFromHistory(history, options(), new IdentityResolver());
+
+    expect(stats).toMatchObject({
+      owner: "Test-Org",
+      name: "API",
+      commits: 1,
+      linesAdded: 5,
+      linesDeleted: 1,
+      lineStatsMode: "per-commit",
+      contributorsList: ["bob@example.com"],
+      pullRequests: 2,
+      issuesCreated: 1,
+      issuesClosed: 1,
+      openIssues: 1,
+      releases: 1,
+    });
+    expect(stats.pullRequestMetrics).toMatchObject({
+      merged: 1,
+      mergedWithoutApproval: 0,
+      closedWithoutMerge: 0,
+      // Pull request 2 was only merged in June
+      openAtEnd: 2,
+      medianHoursToMerge: 48,
+      medianHoursToFirstReview: 24,
+    });
+    expect(stats.timeSeries).toBeUndefined();
+  });
+
+  it("buckets the range by interval", () => {
+    const stats = statsFromHistory(
+      history,
+      options({ startDate: "2024-01-01", endDate: "2024-06-30", interval: "quarter" }),
+      new IdentityResolver()
+    );
+
+    expect(stats.timeSeries?.map((period) => [period.commits, period.pullRequestsMerged, period.releases])).toEqual([
+      [2, 1, 1],
+      [1, 1, 1],
+    ]);
+    expect(stats.timeSeries?.[0].contributorsList).toEqual(["bob@example.com", "alice"]);
+  });
+});
+
+describe("HistoryStore", () => {
+  it("saves and loads a repo's history by case-insensitive name", () => {
+    const directory = mkdtempSync(join(tmpdir(), "history-"));
+    try {
+      const store = new HistoryStore(directory);
+      expect(store.load({ owner: "test-org", name: "api" })).toBeNull();
+
+      store.save(history);
+      expect(store.load({ owner: "test-org", name: "api" })).toEqual(history);
+
+      store.save({ ...history, version: HISTORY_VERSION + 1 });
+      expect(store.load({ owner: "test-org", name: "api" })).toBeNull();
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { formatAsHtml, formatComparisonAsHtml } from "../src/html-report.js";
+import { buildComparison } from "../src/comparison.js";
+import type { OutputOptions, RepoStats, TotalStats } from "../src/types.js";
+
+const repo = (name: string, overrides: Partial<RepoStats> = {}): RepoStats => ({
+  name,
+  isArchived: false,
+  commits: 0,
+  linesAdded: 0,
+  linesDeleted: 0,
+  totalLines: 0,
+  lineStatsMode: "snapshot",
+  lineStatsTruncated: false,
+  pullRequests: 0,
+  pullRequestMetrics: {
+    merged: 0,
+    mergedWithoutApproval: 0,
+    closedWithoutMerge: 0,
+    openAtEnd: 0,
+    medianHoursToMerge: null,
+    p90HoursToMerge: null,
+    medianHoursToFirstReview: null,
+  },
+  pullRequestMergeHours: [],
+  pullRequestFirstReviewHours: [],
+  contributors: 0,
+  contributorsList: [],
+  issuesCreated: 0,
+  issuesClosed: 0,
+  openIssues: 0,
+  medianIssueCloseHours: null,
+  issueCloseHours: [],
+  releases: 0,
+  ...overrides,
+});
+
+const totalsOf = (repos: RepoStats[], contributors: number): TotalStats => ({
+  repos,
+  totals: {
+    commits: repos.reduce((sum, r) => sum + r.commits, 0),
+    linesAdded: 0,
+    linesDeleted: 0,
+    totalLines: 0,
+    pullRequests: repos.reduce((sum, r) => sum + r.pullRequests, 0),
+    pullRequestMetrics: repos[0].pullRequestMetrics,
+    contributors,
+    issuesCreated: 0,
+    issuesClosed: 0,
+    openIssues: 0,
+    medianIssueCloseHours: null,
+    releases: 0,
+    repoCount: repos.length,
+  },
+});
+
+const stats = totalsOf(
+  [
+    repo("api", { commits: 120, pullRequests: 30, contributors: 2, contributorsList: ["alice", "bob"] }),
+    repo("<web>", { commits: 40, pullRequests: 12, contributors: 1, contributorsList: ["alice"], lineStatsTruncated: true }),
+    repo("legacy", { isArchived: true, commits: 2 }),
+  ],
+  2
+);
+
+const options: OutputOptions = { format: "html", skipLineStats: false, skipIssueStats: false };
+
+describe("formatAsHtml", () => {
+  it("writes a complete page without external resources", () => {
+    const html = formatAsHtml(stats, "2024-01-01", "2024-12-31", options);
+
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<style>");
+    expect(html).toContain("<script>");
+    expect(html).not.toMatch(/(src|href)=/);
+    expect(html).not.toContain("http");
+  });
+
+  it("escapes repository and contributor names", () => {
+    const html = formatAsHtml(stats, "2024-01-01", "2024-12-31", options);
+    expect(html).toContain("&lt;web&gt;");
+    expect(html).not.toContain("<web>");
+  });
+
+  it("includes totals cards, per-repo charts and a sortable table", () => {
+    const html = formatAsHtml(stats, "2024-01-01", "2024-12-31", options);
+
+    expect(html).toContain('<div class="label">Commits</div><div class="value">162</div>');
+    expect(html.match(/<svg /g)).toHaveLength(2);
+    expect(html).toContain("<title>api: 120</title>");
+    expect(html).toContain('<table class="sortable">');
+    expect(html).toContain('<td data-sort="120">120</td>');
+    expect(html).toContain('<tr class="archived"><td>legacy (archived)</td>');
+    // Truncated line counts are flagged
+    expect(html).toContain("0 *");
+  });
+
+  it("lists contributors with the number of repos they committed to", () => {
+    const html = formatAsHtml(stats, "2024-01-01", "2024-12-31", options);
+    expect(html).toContain('<tr><td>alice</td><td data-sort="2">2</td></tr>');
+    expect(html).toContain('<tr><td>bob</td><td data-sort="1">1</td></tr>');
+  });
+
+  it("leaves out skipped metrics", () => {
+    const html = formatAsHtml(stats, "2024-01-01", "2024-12-31", { ...options, skipLineStats: true, skipIssueStats: true });
+    expect(html).not.toContain("Lines Added");
+    expect(html).not.toContain("Open Issues");
+  });
+});
+
+describe("formatComparisonAsHtml", () => {
+  const comparison = buildComparison([
+    { label: "H1", start: "2024-01-01", end: "2024-06-30", stats: totalsOf([repo("api", { commits: 50 }), repo("old", { commits: 5 })], 3) },
+    { label: "H2", start: "2024-07-01", end: "2024-12-31", stats: totalsOf([repo("api", { commits: 80 }), repo("new", { commits: 9 })], 4) },
+  ]);
+
+  it("puts the periods side by side in the charts", () => {
+    const html = formatComparisonAsHtml(comparison, options);
+
+    expect(html).toContain("H1: 2024-01-01 to 2024-06-30");
+    expect(html).toContain("H2: 2024-07-01 to 2024-12-31");
+    expect(html).toContain('<div class="legend">');
+    expect(html).toContain("<title>api: 50</title>");
+    expect(html).toContain("<title>api: 80</title>");
+    // Repos from either period are charted
+    expect(html).toContain("<title>old: 0</title>");
+    expect(html).toContain("<title>new: 9</title>");
+  });
+
+  it("shows the change on each totals card", () => {
+    const html = formatComparisonAsHtml(comparison, options);
+    expect(html).toContain("55 → 89 (+34, +62%)");
+  });
+
+  it("lists repos that appeared or disappeared", () => {
+    const html = formatComparisonAsHtml(comparison, options);
+    expect(html).toContain("<tr><td>H2</td><td>new</td><td>old</td></tr>");
+  });
+});
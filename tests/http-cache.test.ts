@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, existsSync, readdirSync, utimesSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Octokit } from "@octokit/rest";
+import { ResponseCache, getCacheCategory, isImmutableResource } from "../src/http-cache.js";
+
+const jsonResponse = (data: unknown, headers: Record<string, string> = {}, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+
+describe("getCacheCategory", () => {
+  it("maps request URLs to TTL categories", () => {
+    expect(getCacheCategory("https://api.github.com/repos/org/repo/commits?page=2")).toBe("commits");
+    expect(getCacheCategory("https://api.github.com/repos/org/repo/compare/a...b")).toBe("commits");
+    expect(getCacheCategory("https://api.github.com/repos/org/repo/pulls")).toBe("pullRequests");
+    expect(getCacheCategory("https://api.github.com/repos/org/repo/issues")).toBe("issues");
+    expect(getCacheCategory("https://api.github.com/repos/org/repo/releases")).toBe("releases");
+    expect(getCacheCategory("https://api.github.com/repos/org/repo")).toBe("repositories");
+    expect(getCacheCategory("https://api.github.com/orgs/org/repos")).toBe("repositories");
+  });
+
+  it("uses the resource segment rather than the repository name", () => {
+    expect(getCacheCategory("https://github.example.com/api/v3/repos/org/pulls/releases")).toBe("releases");
+  });
+});
+
+describe("isImmutableResource", () => {
+  it("recognizes commits and comparisons addressed by SHA", () => {
+    const sha = "a".repeat(40);
+    const other = "b".repeat(40);
+    expect(isImmutableResource(`https://api.github.com/repos/org/repo/commits/${sha}`)).toBe(true);
+    expect(isImmutableResource(`https://api.github.com/repos/org/repo/compare/${sha}...${other}`)).toBe(true);
+    expect(isImmutableResource(`https://api.github.com/repos/org/repo/compare/${sha}...main`)).toBe(false);
+    expect(isImmutableResource("https://api.github.com/repos/org/repo/commits/main")).toBe(false);
+    expect(isImmutableResource("https://api.github.com/repos/org/repo/commits?sha=main")).toBe(false);
+  });
+});
+
+describe("ResponseCache", () => {
+  let directory: string;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const createOctokit = (cache: ResponseCache) =>
+    new Octokit({ auth: "test-token", request: { fetch: cache.createFetch(fetchMock) } });
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "response-cache-"));
+    fetchMock = vi.fn();
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("serves fresh entries from disk without a request", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([{ name: "v1" }], { etag: '"abc"' }));
+
+    // Separate instances simulate separate runs sharing the cache directory
+    const first = new ResponseCache({ directory, ttlSeconds: { releases: 3600 } });
+    await createOctokit(first).repos.listReleases({ owner: "org", repo: "repo" });
+    const second = new ResponseCache({ directory, ttlSeconds: { releases: 3600 } });
+    const response = await createOctokit(second).repos.listReleases({ owner: "org", repo: "repo" });
+
+    expect(response.data).toEqual([{ name: "v1" }]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(first.getStats()).toEqual({ hits: 0, revalidated: 0, misses: 1 });
+    expect(second.getStats()).toEqual({ hits: 1, revalidated: 0, misses: 0 });
+  });
+
+  it("keys entries by request parameters", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([]));
+    const cache = new ResponseCache({ directory });
+    const octokit = createOctokit(cache);
+
+    await octokit.repos.listReleases({ owner: "org", repo: "repo", page: 1 });
+    await octokit.repos.listReleases({ owner: "org", repo: "repo", page: 2 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("revalidates expired entries with If-None-Match and reuses them on 304", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse([{ sha: "a1" }], { etag: '"v1"', "last-modified": "Mon, 01 Jan 2024 00:00:00 GMT" })
+    );
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 304, headers: { "x-ratelimit-remaining": "4999" } }));
+
+    const cache = new ResponseCache({ directory, ttlSeconds: { commits: 0 } });
+    const octokit = createOctokit(cache);
+    await octokit.repos.listCommits({ owner: "org", repo: "repo" });
+    const response = await octokit.repos.listCommits({ owner: "org", repo: "repo" });
+
+    const [, init] = fetchMock.mock.calls[1];
+    expect(init.headers.get("if-none-match")).toBe('"v1"');
+    expect(init.headers.get("if-modified-since")).toBe("Mon, 01 Jan 2024 00:00:00 GMT");
+    expect(response.data).toEqual([{ sha: "a1" }]);
+    expect(response.headers["x-ratelimit-remaining"]).toBe("4999");
+    expect(cache.getStats()).toEqual({ hits: 0, revalidated: 1, misses: 1 });
+  });
+
+  it("replaces expired entries that changed", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse([{ sha: "a1" }], { etag: '"v1"' }));
+    fetchMock.mockResolvedValueOnce(jsonResponse([{ sha: "a2" }], { etag: '"v2"' }));
+
+    const cache = new ResponseCache({ directory, ttlSeconds: { default: 0 } });
+    const octokit = createOctokit(cache);
+    await octokit.repos.listCommits({ owner: "org", repo: "repo" });
+    const response = await octokit.repos.listCommits({ owner: "org", repo: "repo" });
+
+    expect(response.data).toEqual([{ sha: "a2" }]);
+    expect(cache.getStats().misses).toBe(2);
+  });
+
+  it("does not replay rate limit headers from cached entries", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({ default_branch: "main" }, { "x-ratelimit-remaining": "10" }));
+    const cache = new ResponseCache({ directory, ttlSeconds: { repositories: 3600 } });
+    const octokit = createOctokit(cache);
+
+    await octokit.repos.get({ owner: "org", repo: "repo" });
+    const response = await octokit.repos.get({ owner: "org", repo: "repo" });
+
+    expect(response.headers["x-ratelimit-remaining"]).toBeUndefined();
+  });
+
+  it("revalidates listings by default and serves commits by SHA from disk", async () => {
+    const sha = "a".repeat(40);
+    fetchMock.mockImplementation(async (url: string) =>
+      url.endsWith(sha) ? jsonResponse({ sha }) : jsonResponse([{ number: 1 }], { etag: '"v1"' })
+    );
+    const cache = new ResponseCache({ directory });
+    const octokit = createOctokit(cache);
+
+    for (let run = 0; run < 2; run++) {
+      await octokit.pulls.list({ owner: "org", repo: "repo", state: "all" });
+      await octokit.repos.getCommit({ owner: "org", repo: "repo", ref: sha });
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(new Headers(fetchMock.mock.calls[2][1].headers).get("if-none-match")).toBe('"v1"');
+    expect(cache.getStats()).toEqual({ hits: 1, revalidated: 0, misses: 3 });
+  });
+
+  it("keeps entries apart per credential", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([{ name: "private" }]));
+    const cache = new ResponseCache({ directory, ttlSeconds: { default: 3600 } });
+    const as = (token: string) => new Octokit({ auth: token, request: { fetch: cache.createFetch(fetchMock) } });
+
+    await as("token-a").repos.listForOrg({ org: "org" });
+    await as("token-b").repos.listForOrg({ org: "org" });
+    await as("token-a").repos.listForOrg({ org: "org" });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(cache.getStats().hits).toBe(1);
+  });
+
+  it("prunes entries past their maximum age and beyond the entry limit", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([]));
+    const cache = new ResponseCache({ directory, maxAgeDays: 30, maxEntries: 2 });
+    const octokit = createOctokit(cache);
+    for (let page = 1; page <= 4; page++) {
+      await octokit.repos.listReleases({ owner: "org", repo: "repo", page });
+    }
+    const files = readdirSync(directory, { recursive: true, withFileTypes: true })
+      .filter((entry) => entry.isFile())
+      .map((entry) => join(entry.parentPath, entry.name));
+    const now = Date.now();
+    // One entry is 40 days old, the rest are a minute, two and three minutes old
+    files.forEach((file, index) => {
+      const time = new Date(now - (index === 0 ? 40 * 24 * 60 : index) * 60 * 1000);
+      utimesSync(file, time, time);
+    });
+
+    expect(cache.prune(now)).toBe(2);
+    expect(files.filter((file) => existsSync(file))).toEqual([files[1], files[2]]);
+  });
+
+  it("does not cache non-GET requests", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({ data: {} }));
+    const cache = new ResponseCache({ directory });
+    const octokit = createOctokit(cache);
+
+    await octokit.graphql("{ viewer { login } }");
+    await octokit.graphql("{ viewer { login } }");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("clears the cache directory", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([]));
+    const cache = new ResponseCache({ directory });
+    await createOctokit(cache).repos.listReleases({ owner: "org", repo: "repo" });
+
+    cache.clear();
+
+    expect(existsSync(directory)).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { IdentityResolver, isBotIdentity, parseMailmap } from "../src/identity.js";
+
+describe("isBotIdentity", () => {
+  it("detects [bot] logins and bot noreply emails", () => {
+    expect(isBotIdentity("dependabot[bot]")).toBe(true);
+    expect(isBotIdentity("Renovate[BOT]")).toBe(true);
+    expect(isBotIdentity(null, "29139614+renovate[bot]@users.noreply.github.com")).toBe(true);
+    expect(isBotIdentity("robot-alice", "alice@example.com")).toBe(false);
+    expect(isBotIdentity(null, null)).toBe(false);
+  });
+});
+
+describe("parseMailmap", () => {
+  it("supports the mailmap line forms, matching by commit email", () => {
+    const mailmap = parseMailmap(
+      [
+        "# comment",
+        "Alice Smith <Alice@Old.example>",
+        "<bob@example.com> <bob@laptop.local>",
+        "Carol Jones <carol@example.com> <carol@old.example>",
+        "Dave <dave@example.com> dave <dave@build.local>  # trailing comment",
+        "",
+        "not a mailmap line",
+      ].join("\n")
+    );
+
+    expect(Object.fromEntries(mailmap)).toEqual({
+      "alice@old.example": "Alice Smith",
+      "bob@laptop.local": "bob@example.com",
+      "carol@old.example": "Carol Jones",
+      "dave@build.local": "Dave",
+    });
+  });
+});
+
+describe("IdentityResolver", () => {
+  const mailmap = new Map([["alice@home.example", "Alice Smith"]]);
+
+  it("falls back to the login, then the commit email", () => {
+    const resolver = new IdentityResolver({}, new Map());
+    expect(resolver.resolveCommitAuthor("alice", "alice@example.com")).toBe("alice");
+    expect(resolver.resolveCommitAuthor(null, "bob@example.com")).toBe("bob@example.com");
+    expect(resolver.resolveCommitAuthor(null, null)).toBeNull();
+  });
+
+  it("merges emails and logins through aliases, case-insensitively", () => {
+    const resolver = new IdentityResolver(
+      { aliases: { "Alice@Work.example": "alice", "alice-old": "alice", "Alice Smith": "alice" } },
+      mailmap
+    );
+
+    expect(resolver.resolveCommitAuthor(null, "alice@work.example")).toBe("alice");
+    expect(resolver.resolveCommitAuthor("Alice-Old", "x@example.com")).toBe("alice");
+    expect(resolver.resolveLogin("alice-old")).toBe("alice");
+    // Mailmap names can be aliased onto a login too
+    expect(resolver.resolveCommitAuthor(null, "alice@home.example")).toBe("alice");
+  });
+
+  it("prefers linked logins over the mailmap", () => {
+    const resolver = new IdentityResolver({}, mailmap);
+    expect(resolver.resolveCommitAuthor("alice", "alice@home.example")).toBe("alice");
+    expect(resolver.resolveCommitAuthor(null, "ALICE@home.example")).toBe("Alice Smith");
+  });
+
+  it("keeps bots unless excludeBots is set", () => {
+    const keep = new IdentityResolver({}, new Map());
+    const exclude = new IdentityResolver({ excludeBots: true }, new Map());
+
+    expect(keep.resolveLogin("dependabot[bot]")).toBe("dependabot[bot]");
+    expect(exclude.resolveLogin("dependabot[bot]")).toBeNull();
+    expect(exclude.resolveCommitAuthor(null, "49699333+dependabot[bot]@users.noreply.github.com")).toBeNull();
+    expect(exclude.resolveCommitAuthor("alice", "alice@example.com")).toBe("alice");
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Config, ProgressEvent, RepoInfo, RepoStats } from "../src/types.js";
+
+// Each client records the date range its config had at every repo it analyzed
+const clients = vi.hoisted(() => [] as Array<{ settings: Record<string, unknown>; ranges: string[] }>);
+
+vi.mock("../src/github-client.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("../src/github-client.js")>();
+
+  class FakeGitHubClient {
+    private record: { settings: Record<string, unknown>; ranges: string[] } = { settings: {}, ranges: [] };
+    private onProgress: (event: ProgressEvent) => void = () => {};
+
+    constructor(private config: Config) {
+      clients.push(this.record);
+    }
+    setCollectUserStats(enabled: boolean) {
+      this.record.settings.byUser = enabled;
+    }
+    setCollectReviewerStats(enabled: boolean) {
+      this.record.settings.byReviewer = enabled;
+    }
+    setTimeSeriesInterval(interval: string | null) {
+      this.record.settings.interval = interval;
+    }
+    setProgressListener(listener: (event: ProgressEvent) => void) {
+      this.onProgress = listener;
+    }
+    clearBranchCache() {}
+    async prefetchRepoData() {}
+    async getRepos(): Promise<RepoInfo[]> {
+      if (this.config.github.organization === "missing-org") {
+        throw new original.GitHubApiError("missing-org", "list repositories", Object.assign(new Error("Not Found"), { status: 404 }));
+      }
+      return [{ owner: "test-org", name: "api", isArchived: false }];
+    }
+    async getRepoStats(repo: RepoInfo): Promise<RepoStats> {
+      this.onProgress({ type: "page-fetched", repo: "test-org/api", operation: "fetch commits", page: 1, items: 5 });
+      const { startDate, endDate } = this.config.dateRange;
+      this.record.ranges.push(`${startDate}..${endDate}`);
+      return {
+        ...repo,
+        commits: startDate.startsWith("2024-04") ? 8 : 5,
+        linesAdded: 0,
+        linesDeleted: 0,
+        totalLines: 0,
+        pullRequests: 0,
+        pullRequestMetrics: { merged: 0, mergedWithoutApproval: 0, closedWithoutMerge: 0, openAtEnd: 0, medianHoursToMerge: null, p90HoursToMerge: null, medianHoursToFirstReview: null },
+        pullRequestMergeHours: [],
+        pullRequestFirstReviewHours: [],
+        contributors: 1,
+        contributorsList: ["alice"],
+        issuesCreated: 0,
+        issuesClosed: 0,
+        openIssues: 0,
+        medianIssueCloseHours: null,
+        issueCloseHours: [],
+        releases: 0,
+        contributorActivity: { alice: { commits: 5, linesAdded: 0, linesDeleted: 0, pullRequests: 0, pullRequestsMerged: 0 } },
+        reviewerActivity: { bob: { reviews: 2, approvals: 1, changesRequested: 0, reviewComments: 3, turnaroundHours: [] } },
+      } as RepoStats;
+    }
+  }
+
+  return { ...original, GitHubClient: FakeGitHubClient };
+});
+
+const { analyzeOrganization, analyzeReviewers, analyzeUsers, comparePeriods, ConfigError, GitHubApiError } = await import("../src/lib.js");
+
+const config = {
+  github: { token: "ghp_test", organization: "test-org", isEnterprise: false, enterpriseUrl: "" },
+  dateRange: { startDate: "2024-01-01", endDate: "2024-03-31" },
+  options: { excludeRepos: [], includeRepos: [], maxConcurrentRequests: 3, skipLineStats: false, skipIssueStats: false, pageSize: 100 },
+} as Config;
+
+describe("library API", () => {
+  beforeEach(() => {
+    clients.length = 0;
+  });
+
+  it("analyzes the configured or given date range without changing the config", async () => {
+    const stats = await analyzeOrganization(config);
+    expect(stats.totals.commits).toBe(5);
+
+    const events: ProgressEvent[] = [];
+    await analyzeOrganization(config, { startDate: "2024-04-01", endDate: "2024-06-30", progress: (event) => events.push(event) });
+
+    expect(clients.map((client) => client.ranges)).toEqual([["2024-01-01..2024-03-31"], ["2024-04-01..2024-06-30"]]);
+    expect(config.dateRange).toEqual({ startDate: "2024-01-01", endDate: "2024-03-31" });
+    expect(events.map((event) => event.type)).toEqual(["run-started", "repo-started", "page-fetched", "repo-completed", "run-finished"]);
+    expect(events[3]).toMatchObject({ repo: "test-org/api", resumed: false });
+  });
+
+  it("collects per-user and per-reviewer activity only when asked", async () => {
+    expect((await analyzeUsers(config)).map((user) => user.username)).toEqual(["alice", "bob"]);
+    expect((await analyzeReviewers(config)).map((user) => user.username)).toEqual(["bob"]);
+    expect(clients.map((client) => client.settings)).toEqual([
+      { byUser: true, byReviewer: true, interval: null },
+      { byUser: false, byReviewer: true, interval: null },
+    ]);
+  });
+
+  it("compares periods with one client", async () => {
+    const comparison = await comparePeriods(config, ["2024-01-01:2024-03-31", "2024-04-01:2024-06-30"]);
+    expect(comparison.periods.map((period) => period.stats.totals.commits)).toEqual([5, 8]);
+    expect(clients.map((client) => client.ranges)).toEqual([["2024-01-01..2024-03-31", "2024-04-01..2024-06-30"]]);
+  });
+
+  it("throws typed errors instead of exiting", async () => {
+    const invalid = analyzeOrganization({ ...config, github: { ...config.github, organization: "YOUR_ORG_NAME" } }, { startDate: "2024-05-01" });
+    await expect(invalid).rejects.toThrow(ConfigError);
+    await expect(invalid).rejects.toMatchObject({
+      file: null,
+      issues: ["GitHub organization or owners not configured", "Start date must be before end date"],
+    });
+
+    const missing = analyzeOrganization({ ...config, github: { ...config.github, organization: "missing-org" } });
+    await expect(missing).rejects.toThrow(GitHubApiError);
+    expect(clients).toHaveLength(1);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import type { AddressInfo } from "net";
+import { OPENMETRICS_CONTENT_TYPE, formatAsOpenMetrics, startMetricsServer } from "../src/openmetrics.js";
+import type { OutputOptions, RepoStats, TotalStats } from "../src/types.js";
+
+const repo = (owner: string, name: string, commits: number, medianHoursToMerge: number | null) =>
+  ({
+    owner,
+    name,
+    isArchived: name === "legacy",
+    commits,
+    linesAdded: 40,
+    linesDeleted: 10,
+    pullRequests: 3,
+    pullRequestMetrics: { merged: 2, openAtEnd: 1, medianHoursToMerge },
+    contributors: 2,
+    issuesCreated: 5,
+    issuesClosed: 4,
+    openIssues: 1,
+    releases: 1,
+  }) as RepoStats;
+
+const totals = (commits: number) => ({ commits, pullRequests: 6, contributors: 3, repoCount: 2 }) as TotalStats["totals"];
+
+const stats: TotalStats = {
+  repos: [repo("test-org", "api", 12, 5.5), repo("test-org", "legacy", 0, null)],
+  totals: totals(12),
+};
+
+const options: OutputOptions = { format: "openmetrics", skipLineStats: false, skipIssueStats: true };
+const generatedAt = new Date("2024-07-01T00:00:00Z");
+
+describe("formatAsOpenMetrics", () => {
+  it("writes labelled gauges per repo and owner, ending with # EOF", () => {
+    const output = formatAsOpenMetrics(stats, options, {
+      owners: ["test-org"],
+      rateLimits: [{ remaining: 4200 }],
+      generatedAt,
+    });
+    const lines = output.split("\n");
+
+    expect(lines.slice(0, 4)).toEqual([
+      "# TYPE github_repo_commits gauge",
+      "# HELP github_repo_commits Commits on the default branch in the date range.",
+      'github_repo_commits{org="test-org",repo="api",archived="false"} 12',
+      'github_repo_commits{org="test-org",repo="legacy",archived="true"} 0',
+    ]);
+    expect(lines).toContain('github_repo_lines_added{org="test-org",repo="api",archived="false"} 40');
+    expect(lines).toContain('github_org_contributors{org="test-org"} 3');
+    expect(lines).toContain("github_api_rate_limit_remaining 4200");
+    expect(lines).toContain("github_metrics_generated_timestamp_seconds 1719792000");
+    expect(output.endsWith("# EOF\n")).toBe(true);
+
+    // Unknown medians are left out, and skipped stats have no family at all
+    expect(lines.filter((line) => line.startsWith("github_repo_pull_request_merge_hours_median{"))).toEqual([
+      'github_repo_pull_request_merge_hours_median{org="test-org",repo="api",archived="false"} 5.5',
+    ]);
+    expect(output).not.toContain("github_repo_issues_created");
+  });
+
+  it("labels per-owner totals and token gauges, escaping label values", () => {
+    const output = formatAsOpenMetrics(
+      {
+        repos: [repo('odd"org', "api", 1, null)],
+        totals: totals(3),
+        owners: [
+          { owner: "test-org", totals: totals(2) },
+          { owner: "alice", totals: totals(1) },
+        ],
+      },
+      options,
+      { owners: ["test-org", "alice"], rateLimits: [{ token: "1", remaining: 10 }], generatedAt }
+    );
+
+    expect(output).toContain('github_repo_commits{org="odd\\"org",repo="api",archived="false"} 1');
+    expect(output).toContain('github_org_commits{org="test-org"} 2\ngithub_org_commits{org="alice"} 1\n');
+    expect(output).toContain('github_api_rate_limit_remaining{token="1"} 10');
+  });
+});
+
+describe("startMetricsServer", () => {
+  it("serves the latest metrics at /metrics once they are collected", async () => {
+    let latest: string | null = null;
+    const server = await startMetricsServer(0, "127.0.0.1", () => latest);
+    const url = (path: string) => `http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`;
+
+    try {
+      expect((await fetch(url("/metrics"))).status).toBe(503);
+
+      latest = "github_repo_commits 1\n# EOF\n";
+      const response = await fetch(url("/metrics"));
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe(OPENMETRICS_CONTENT_TYPE);
+      expect(await response.text()).toBe(latest);
+
+      expect((await fetch(url("/"))).status).toBe(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createProgressListener, jsonlProgress, plainProgress } from "../src/progress.js";
+import type { ProgressEvent } from "../src/types.js";
+
+const run: ProgressEvent[] = [
+  { type: "run-started", repos: 2 },
+  { type: "repo-started", repo: "test-org/api" },
+  { type: "repo-status", repo: "test-org/api", status: "fetching commits (page 1)..." },
+  { type: "retry", repo: "test-org/api", operation: "fetching commits", attempt: 1, maxAttempts: 3, delaySeconds: 1, error: "socket hang up" },
+  { type: "rate-limit-wait", repo: "test-org/api", remaining: 12, waitSeconds: 60 },
+  { type: "repo-completed", repo: "test-org/api", durationSeconds: 4.2, resumed: false },
+  { type: "repo-completed", repo: "test-org/web", durationSeconds: 0, resumed: true },
+  { type: "run-finished", repos: 2, durationSeconds: 4.3 },
+];
+
+describe("plainProgress", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("writes a timestamped line per milestone, counting finished repositories", () => {
+    vi.useFakeTimers({ now: new Date("2024-03-01T06:00:00Z") });
+    const lines: string[] = [];
+    const listener = plainProgress((line) => lines.push(line));
+    run.forEach(listener);
+    listener({ type: "repo-failed", repo: "test-org/docs", operation: "fetching releases", error: "Not Found" });
+
+    expect(lines.join("")).toBe(
+      [
+        "2024-03-01T06:00:00.000Z Analyzing 2 repositories",
+        "2024-03-01T06:00:00.000Z [1/2] test-org/api: started",
+        "2024-03-01T06:00:00.000Z test-org/api: fetching commits failed (socket hang up), retrying in 1s (attempt 1/3)",
+        "2024-03-01T06:00:00.000Z test-org/api: rate limit low (12 remaining), waiting 60s",
+        "2024-03-01T06:00:00.000Z [1/2] test-org/api: done in 4.2s",
+        "2024-03-01T06:00:00.000Z [2/2] test-org/web: resumed from checkpoint",
+        "2024-03-01T06:00:00.000Z Analyzed 2 repositories in 4.3s",
+        "2024-03-01T06:00:00.000Z test-org/docs: failed (fetching releases): Not Found",
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("jsonlProgress", () => {
+  it("writes every event as a line of JSON with its time", () => {
+    const lines: string[] = [];
+    run.forEach(jsonlProgress((line) => lines.push(line)));
+
+    const events = lines.map((line) => JSON.parse(line));
+    expect(lines.every((line) => line.endsWith("\n"))).toBe(true);
+    expect(events.map(({ time, ...event }) => event)).toEqual(run);
+    expect(events.every((event) => !isNaN(Date.parse(event.time)))).toBe(true);
+  });
+
+  it("appends to the progress file when one is given", () => {
+    const directory = mkdtempSync(join(tmpdir(), "progress-"));
+    try {
+      const file = join(directory, "progress.jsonl");
+      const listener = createProgressListener("jsonl", file)!;
+      run.slice(0, 2).forEach(listener);
+
+      const events = readFileSync(file, "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+      expect(events.map((event) => event.type)).toEqual(["run-started", "repo-started"]);
+      expect(createProgressListener("none")).toBeUndefined();
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { RequestLimiter } from "../src/request-limiter.js";
+
+// A request that stays in flight until finish() is called
+const deferred = () => {
+  let finish!: (value: string) => void;
+  let fail!: (error: Error) => void;
+  const promise = new Promise<string>((resolve, reject) => {
+    finish = resolve;
+    fail = reject;
+  });
+  return { promise, finish, fail };
+};
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("RequestLimiter", () => {
+  it("keeps at most the limit in flight and starts waiting requests in order", async () => {
+    const limiter = new RequestLimiter(2);
+    const requests = [deferred(), deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const results = requests.map((request, index) =>
+      limiter.run(() => {
+        started.push(index);
+        return request.promise;
+      })
+    );
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+    expect(limiter.inFlight).toBe(2);
+
+    requests[1].finish("b");
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    // A failed request frees its slot too
+    requests[0].fail(new Error("socket hang up"));
+    await expect(results[0]).rejects.toThrow("socket hang up");
+    await flush();
+    expect(started).toEqual([0, 1, 2, 3]);
+
+    requests[2].finish("c");
+    requests[3].finish("d");
+    expect(await Promise.all(results.slice(1))).toEqual(["b", "c", "d"]);
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it("holds a fetch's slot until its response body has been read", async () => {
+    const limiter = new RequestLimiter(1);
+    const bodies = [deferred(), deferred()];
+    const urls: string[] = [];
+    const baseFetch = (async (input: string) => {
+      const body = bodies[urls.push(input) - 1];
+      const stream = new ReadableStream({
+        async start(controller) {
+          controller.enqueue(new TextEncoder().encode(await body.promise));
+          controller.close();
+        },
+      });
+      return Object.defineProperty(new Response(stream), "url", { value: input });
+    }) as typeof fetch;
+    const limitedFetch = limiter.wrapFetch(baseFetch);
+
+    const first = await limitedFetch("https://api.github.com/a");
+    const second = limitedFetch("https://api.github.com/b");
+    await flush();
+    // The headers of the first response are in, but its body is still streaming
+    expect(urls).toEqual(["https://api.github.com/a"]);
+    expect(first.url).toBe("https://api.github.com/a");
+
+    bodies[0].finish("a");
+    expect(await first.text()).toBe("a");
+    await flush();
+    expect(urls).toHaveLength(2);
+
+    bodies[1].finish("b");
+    expect(await (await second).text()).toBe("b");
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it("frees the slot of a response without a body or whose body is cancelled", async () => {
+    const limiter = new RequestLimiter(1);
+    const limitedFetch = limiter.wrapFetch((async (input: string) =>
+      input.endsWith("304") ? new Response(null, { status: 304 }) : new Response("unread")) as typeof fetch);
+
+    await limitedFetch("https://api.github.com/304");
+    expect(limiter.inFlight).toBe(0);
+
+    const response = await limitedFetch("https://api.github.com/a");
+    expect(limiter.inFlight).toBe(1);
+    await response.body!.cancel();
+    expect(limiter.inFlight).toBe(0);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { ApiServer, type CollectionRequest } from "../src/server.js";
+import type { Config, RepoStats } from "../src/types.js";
+
+const config = {
+  github: { token: "ghp_test", organization: "test-org", isEnterprise: false, enterpriseUrl: "" },
+  dateRange: { startDate: "2024-01-01", endDate: "2024-03-31" },
+  options: { excludeRepos: [], includeRepos: [], maxConcurrentRequests: 3, skipLineStats: false, skipIssueStats: false, pageSize: 100 },
+} as Config;
+
+const repoStats = (commits: number): RepoStats =>
+  ({
+    owner: "test-org",
+    name: "api",
+    isArchived: false,
+    commits,
+    linesAdded: 0,
+    linesDeleted: 0,
+    totalLines: 0,
+    lineStatsMode: null,
+    lineStatsTruncated: false,
+    pullRequests: 0,
+    pullRequestMetrics: {
+      merged: 0,
+      mergedWithoutApproval: 0,
+      closedWithoutMerge: 0,
+      openAtEnd: 0,
+      medianHoursToMerge: null,
+      p90HoursToMerge: null,
+      medianHoursToFirstReview: null,
+    },
+    pullRequestMergeHours: [],
+    pullRequestFirstReviewHours: [],
+    contributors: 1,
+    contributorsList: ["alice"],
+    issuesCreated: 0,
+    issuesClosed: 0,
+    openIssues: 0,
+    medianIssueCloseHours: null,
+    issueCloseHours: [],
+    releases: 0,
+    contributorActivity: { alice: { commits, linesAdded: 0, linesDeleted: 0, pullRequests: 0, pullRequestsMerged: 0 } },
+  }) as RepoStats;
+
+describe("ApiServer", () => {
+  let server: Server;
+  let now: number;
+  let requests: CollectionRequest[];
+  let failNext: boolean;
+
+  const get = async (path: string) => {
+    const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`);
+    return { status: response.status, headers: response.headers, body: await response.text() };
+  };
+
+  beforeEach(async () => {
+    now = Date.parse("2024-07-01T00:00:00Z");
+    requests = [];
+    failNext = false;
+    const api = new ApiServer({
+      config,
+      collect: async (request) => {
+        requests.push(request);
+        // Give concurrent requests a chance to arrive while this one is running
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        if (failNext) {
+          failNext = false;
+          throw new Error("GitHub is down");
+        }
+        return [repoStats(request.startDate === "2024-04-01" ? 8 : 5)];
+      },
+      listRepos: async () => [{ owner: "test-org", name: "api", isArchived: false }],
+      rateLimits: () => [{ remaining: 4999 }],
+      resultTtlMs: 60 * 60 * 1000,
+      now: () => now,
+    });
+    server = await api.listen(0, "127.0.0.1");
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("serves stats for the configured range, sharing one collection between concurrent requests", async () => {
+    const [first, second] = await Promise.all([get("/stats"), get("/stats?start=2024-01-01&end=2024-03-31")]);
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get("content-type")).toBe("application/json; charset=utf-8");
+    expect(JSON.parse(first.body).totals.commits).toBe(5);
+    expect(JSON.parse(second.body).totals).toEqual(JSON.parse(first.body).totals);
+    expect(requests).toEqual([{ startDate: "2024-01-01", endDate: "2024-03-31", byUser: false, interval: null }]);
+  });
+
+  it("reuses results until they expire", async () => {
+    await get("/stats?format=csv");
+    now += 30 * 60 * 1000;
+    const cached = await get("/stats?format=markdown");
+    expect(cached.headers.get("age")).toBe("1800");
+    expect(requests).toHaveLength(1);
+
+    now += 31 * 60 * 1000;
+    await get("/stats");
+    expect(requests).toHaveLength(2);
+  });
+
+  it("serves users, time series and comparisons in the requested format", async () => {
+    const users = await get("/users?format=csv");
+    expect(users.headers.get("content-type")).toBe("text/csv; charset=utf-8");
+    expect(users.body).toContain("alice");
+
+    const series = JSON.parse((await get("/stats?interval=month")).body);
+    expect(series.metadata.interval).toBe("month");
+
+    const comparison = JSON.parse((await get("/compare?periods=2024-01-01:2024-03-31,2024-04-01:2024-06-30")).body);
+    expect(comparison.periods.map((period: { totals: { commits: number } }) => period.totals.commits)).toEqual([5, 8]);
+
+    expect(requests.map(({ byUser, interval }) => ({ byUser, interval }))).toEqual([
+      { byUser: true, interval: null },
+      { byUser: false, interval: "month" },
+      { byUser: false, interval: null },
+      { byUser: false, interval: null },
+    ]);
+  });
+
+  it("rejects invalid parameters without collecting", async () => {
+    expect(await get("/stats?start=2024-13-01")).toMatchObject({ status: 400 });
+    expect(JSON.parse((await get("/stats?start=2024-05-01")).body).error).toBe("start must be before end");
+    expect(JSON.parse((await get("/users?format=html")).body).error).toContain("Valid options: json, csv, markdown");
+    expect(await get("/compare")).toMatchObject({ status: 400 });
+    expect(await get("/unknown")).toMatchObject({ status: 404 });
+    expect(requests).toEqual([]);
+  });
+
+  it("reports failed collections and tries again on the next request", async () => {
+    failNext = true;
+    const failed = await get("/stats");
+    expect(failed.status).toBe(500);
+    expect(JSON.parse(failed.body).error).toBe("GitHub is down");
+
+    expect((await get("/stats")).status).toBe(200);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("keeps a bounded number of results, dropping expired and least recently used ones", async () => {
+    const limited = await new ApiServer({
+      config,
+      collect: async (request) => {
+        requests.push(request);
+        return [repoStats(5)];
+      },
+      listRepos: async () => [],
+      rateLimits: () => [],
+      resultTtlMs: 60 * 60 * 1000,
+      maxResults: 3,
+      now: () => now,
+    }).listen(0, "127.0.0.1");
+    const port = (limited.address() as AddressInfo).port;
+    const fetchJson = async (path: string) => (await fetch(`http://127.0.0.1:${port}${path}`)).json();
+
+    try {
+      for (let day = 1; day <= 20; day++) {
+        const date = `2024-01-${String(day).padStart(2, "0")}`;
+        await fetchJson(`/stats?start=${date}&end=${date}`);
+        if (day === 18) await fetchJson("/stats?start=2024-01-17&end=2024-01-17");
+        expect((await fetchJson("/health")).cachedResults).toBeLessThanOrEqual(3);
+      }
+      expect(requests).toHaveLength(20);
+
+      // The 17th was used again after the 18th, so it outlived it
+      await fetchJson("/stats?start=2024-01-17&end=2024-01-17");
+      expect(requests).toHaveLength(20);
+      await fetchJson("/stats?start=2024-01-18&end=2024-01-18");
+      expect(requests).toHaveLength(21);
+
+      // Expired results are swept on the next request, whatever it asks for
+      now += 61 * 60 * 1000;
+      await fetchJson("/stats?start=2024-02-01&end=2024-02-01");
+      expect((await fetchJson("/health")).cachedResults).toBe(1);
+    } finally {
+      await new Promise((resolve) => limited.close(resolve));
+    }
+  });
+
+  it("lists repos and reports health", async () => {
+    expect(JSON.parse((await get("/repos")).body)).toEqual([{ owner: "test-org", name: "api", isArchived: false }]);
+
+    now += 5000;
+    expect(JSON.parse((await get("/health")).body)).toEqual({
+      status: "ok",
+      uptimeSeconds: 5,
+      collecting: 0,
+      cachedResults: 1,
+      rateLimits: [{ remaining: 4999 }],
+    });
+  });
+});
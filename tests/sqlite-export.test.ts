@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createRequire } from "module";
+import { configHash, sqliteRun, writeSqlite } from "../src/sqlite-export.js";
+import type { Config, OutputOptions, RepoStats, TotalStats } from "../src/types.js";
+
+// Vite doesn't resolve node:sqlite, so it is required directly; Node.js before 22.13 doesn't have it
+const sqlite = (() => {
+  try {
+    return createRequire(import.meta.url)("node:sqlite") as typeof import("node:sqlite");
+  } catch {
+    return undefined;
+  }
+})();
+
+const config = {
+  github: { token: "ghp_one", organization: "test-org", isEnterprise: false, enterpriseUrl: "" },
+  dateRange: { startDate: "2024-01-01", endDate: "2024-03-31" },
+  options: { excludeRepos: [], includeRepos: [], maxConcurrentRequests: 3, skipLineStats: false, skipIssueStats: false, pageSize: 100 },
+} as Config;
+
+const options: OutputOptions = { format: "sqlite", skipLineStats: false, skipIssueStats: true };
+
+const repo = (name: string, commits: number, contributorsList: string[]): RepoStats =>
+  ({
+    owner: "test-org",
+    name,
+    isArchived: false,
+    commits,
+    linesAdded: 10,
+    linesDeleted: 2,
+    totalLines: 8,
+    lineStatsMode: "snapshot",
+    lineStatsTruncated: false,
+    pullRequests: 2,
+    pullRequestMetrics: {
+      merged: 1,
+      mergedWithoutApproval: 0,
+      closedWithoutMerge: 0,
+      openAtEnd: 1,
+      medianHoursToMerge: 5,
+      p90HoursToMerge: 5,
+      medianHoursToFirstReview: null,
+    },
+    contributors: contributorsList.length,
+    contributorsList,
+    issuesCreated: 4,
+    issuesClosed: 3,
+    openIssues: 1,
+    medianIssueCloseHours: 12,
+    releases: 1,
+  }) as RepoStats;
+
+const totals = (repos: RepoStats[]) => ({ repos }) as TotalStats;
+
+describe.skipIf(!sqlite)("writeSqlite", () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "sqlite-"));
+    file = join(directory, "metrics.db");
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const query = (sql: string) => {
+    const db = new sqlite!.DatabaseSync(file);
+    try {
+      return db.prepare(sql).all().map((row) => ({ ...row }));
+    } finally {
+      db.close();
+    }
+  };
+
+  it("writes normalized tables and appends across runs", () => {
+    const run = sqliteRun(config, null);
+    writeSqlite(file, [{ run, stats: totals([repo("api", 5, ["alice", "bob"]), repo("web", 1, ["alice"])]) }], options);
+    const [second] = writeSqlite(file, [{ run, stats: totals([repo("api", 7, ["alice"])]) }], options);
+
+    expect(second).toBe(2);
+    expect(query("SELECT id, start_date, end_date, owners, config_hash, repo_count FROM runs")).toEqual([
+      { id: 1, start_date: "2024-01-01", end_date: "2024-03-31", owners: "test-org", config_hash: run.configHash, repo_count: 2 },
+      { id: 2, start_date: "2024-01-01", end_date: "2024-03-31", owners: "test-org", config_hash: run.configHash, repo_count: 1 },
+    ]);
+    expect(query("SELECT owner, name FROM repos ORDER BY id")).toEqual([
+      { owner: "test-org", name: "api" },
+      { owner: "test-org", name: "web" },
+    ]);
+    expect(query("SELECT name FROM contributors ORDER BY id")).toEqual([{ name: "alice" }, { name: "bob" }]);
+    expect(
+      query(`SELECT run_id, name, commits, lines_added, issues_created, median_hours_to_merge
+             FROM repo_period_stats JOIN repos ON repos.id = repo_id ORDER BY run_id, name`)
+    ).toEqual([
+      { run_id: 1, name: "api", commits: 5, lines_added: 10, issues_created: null, median_hours_to_merge: 5 },
+      { run_id: 1, name: "web", commits: 1, lines_added: 10, issues_created: null, median_hours_to_merge: 5 },
+      { run_id: 2, name: "api", commits: 7, lines_added: 10, issues_created: null, median_hours_to_merge: 5 },
+    ]);
+    expect(query("SELECT COUNT(*) AS links FROM repo_contributors")).toEqual([{ links: 4 }]);
+  });
+
+  it("adds a row per time series period and one run per compared period", () => {
+    const withSeries = {
+      ...repo("api", 3, ["alice"]),
+      timeSeries: [
+        { start: "2024-01-01", end: "2024-01-31", commits: 2, linesAdded: 6, linesDeleted: 1, pullRequests: 1, pullRequestsMerged: 1, releases: 0, contributors: 1, contributorsList: ["alice"] },
+        { start: "2024-02-01", end: "2024-02-29", commits: 1, linesAdded: 4, linesDeleted: 1, pullRequests: 1, pullRequestsMerged: 0, releases: 1, contributors: 1, contributorsList: ["alice"] },
+      ],
+    };
+    writeSqlite(file, [{ run: sqliteRun(config, "month"), stats: totals([withSeries]) }], options);
+    writeSqlite(
+      file,
+      [
+        { run: { ...sqliteRun(config, null, "Q1"), startDate: "2024-01-01", endDate: "2024-03-31" }, stats: totals([repo("api", 3, [])]) },
+        { run: { ...sqliteRun(config, null, "Q2"), startDate: "2024-04-01", endDate: "2024-06-30" }, stats: totals([repo("api", 4, [])]) },
+      ],
+      options
+    );
+
+    expect(query("SELECT granularity, period_start, commits, merged_without_approval FROM repo_period_stats WHERE run_id = 1 ORDER BY granularity DESC, period_start")).toEqual([
+      { granularity: "range", period_start: "2024-01-01", commits: 3, merged_without_approval: 0 },
+      { granularity: "month", period_start: "2024-01-01", commits: 2, merged_without_approval: null },
+      { granularity: "month", period_start: "2024-02-01", commits: 1, merged_without_approval: null },
+    ]);
+    expect(query("SELECT id, interval, label, start_date FROM runs")).toEqual([
+      { id: 1, interval: "month", label: null, start_date: "2024-01-01" },
+      { id: 2, interval: null, label: "Q1", start_date: "2024-01-01" },
+      { id: 3, interval: null, label: "Q2", start_date: "2024-04-01" },
+    ]);
+  });
+});
+
+describe("configHash", () => {
+  it("ignores credentials but not collection settings", () => {
+    const rotated = { ...config, github: { ...config.github, token: "ghp_two" } };
+    const filtered = { ...config, options: { ...config.options, excludeRepos: ["legacy"] } };
+
+    expect(configHash(rotated)).toBe(configHash(config));
+    expect(configHash(filtered)).not.toBe(configHash(config));
+  });
+});
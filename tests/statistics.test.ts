@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { median, percentile, hoursBetween } from "../src/statistics.js";
+
+describe("percentile", () => {
+  it("returns null for an empty list", () => {
+    expect(percentile([], 90)).toBeNull();
+  });
+
+  it("interpolates between closest ranks", () => {
+    expect(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 90)).toBeCloseTo(9.1);
+  });
+
+  it("does not depend on input order", () => {
+    expect(percentile([10, 1, 5], 100)).toBe(10);
+    expect(percentile([10, 1, 5], 0)).toBe(1);
+  });
+});
+
+describe("median", () => {
+  it("returns the middle value for odd-length lists", () => {
+    expect(median([3, 1, 2])).toBe(2);
+  });
+
+  it("averages the two middle values for even-length lists", () => {
+    expect(median([1, 2, 3, 4])).toBe(2.5);
+  });
+});
+
+describe("hoursBetween", () => {
+  it("returns elapsed hours", () => {
+    expect(hoursBetween(new Date("2024-01-01T00:00:00Z"), new Date("2024-01-02T12:00:00Z"))).toBe(36);
+  });
+});
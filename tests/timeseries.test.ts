@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { createBuckets, emptyPeriod, findBucket, mergePeriods, precedingPeriods } from "../src/timeseries.js";
+
+describe("createBuckets", () => {
+  it("cuts the first and last month to the date range", () => {
+    expect(createBuckets("2024-01-15", "2024-03-10", "month")).toEqual([
+      { start: "2024-01-15", end: "2024-01-31" },
+      { start: "2024-02-01", end: "2024-02-29" },
+      { start: "2024-03-01", end: "2024-03-10" },
+    ]);
+  });
+
+  it("starts weeks on Monday", () => {
+    // 2024-01-03 is a Wednesday
+    expect(createBuckets("2024-01-03", "2024-01-16", "week")).toEqual([
+      { start: "2024-01-03", end: "2024-01-07" },
+      { start: "2024-01-08", end: "2024-01-14" },
+      { start: "2024-01-15", end: "2024-01-16" },
+    ]);
+  });
+
+  it("aligns quarters to the calendar year", () => {
+    expect(createBuckets("2024-02-01", "2024-12-31", "quarter")).toEqual([
+      { start: "2024-02-01", end: "2024-03-31" },
+      { start: "2024-04-01", end: "2024-06-30" },
+      { start: "2024-07-01", end: "2024-09-30" },
+      { start: "2024-10-01", end: "2024-12-31" },
+    ]);
+  });
+
+  it("creates one bucket per day", () => {
+    expect(createBuckets("2024-02-28", "2024-03-01", "day").map((bucket) => bucket.start)).toEqual([
+      "2024-02-28",
+      "2024-02-29",
+      "2024-03-01",
+    ]);
+  });
+});
+
+describe("precedingPeriods", () => {
+  it("returns whole periods before the one containing the reference date", () => {
+    expect(precedingPeriods("2024-05-15", "quarter", 2)).toEqual([
+      { start: "2023-10-01", end: "2023-12-31" },
+      { start: "2024-01-01", end: "2024-03-31" },
+    ]);
+    expect(precedingPeriods("2024-03-01", "month", 1)).toEqual([{ start: "2024-02-01", end: "2024-02-29" }]);
+  });
+});
+
+describe("findBucket", () => {
+  const buckets = createBuckets("2024-01-01", "2024-02-29", "month");
+
+  it("finds the period containing a timestamp", () => {
+    expect(findBucket(buckets, "2024-01-31T23:59:59Z")).toBe(0);
+    expect(findBucket(buckets, "2024-02-01T00:00:00Z")).toBe(1);
+  });
+
+  it("returns -1 outside the range", () => {
+    expect(findBucket(buckets, "2023-12-31T12:00:00Z")).toBe(-1);
+    expect(findBucket(buckets, "2024-03-01T00:00:00Z")).toBe(-1);
+  });
+});
+
+describe("mergePeriods", () => {
+  it("sums counts and unions contributors per period", () => {
+    const buckets = createBuckets("2024-01-01", "2024-02-29", "month");
+    const repoA = [
+      { ...emptyPeriod(buckets[0]), commits: 3, contributors: 2, contributorsList: ["alice", "bob"] },
+      { ...emptyPeriod(buckets[1]), commits: 1, contributors: 1, contributorsList: ["alice"] },
+    ];
+    const repoB = [
+      { ...emptyPeriod(buckets[0]), commits: 2, releases: 1, contributors: 2, contributorsList: ["bob", "carol"] },
+      emptyPeriod(buckets[1]),
+    ];
+
+    const totals = mergePeriods(buckets, [repoA, repoB]);
+
+    expect(totals[0]).toMatchObject({ commits: 5, releases: 1, contributors: 3 });
+    expect(totals[0].contributorsList.sort()).toEqual(["alice", "bob", "carol"]);
+    expect(totals[1]).toMatchObject({ commits: 1, contributors: 1 });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Octokit } from "@octokit/rest";
+import { createTokenAuthStrategy, resolveToken, resolveTokens, tokenSources, TokenPool } from "../src/tokens.js";
+import type { Config } from "../src/types.js";
+
+const github = (overrides: Partial<Config["github"]> = {}): Config["github"] => ({
+  organization: "test-org",
+  isEnterprise: false,
+  enterpriseUrl: "",
+  ...overrides,
+});
+
+describe("resolveToken", () => {
+  const originalEnv = process.env.GITHUB_TOKEN;
+
+  afterEach(() => {
+    if (originalEnv === undefined) delete process.env.GITHUB_TOKEN;
+    else process.env.GITHUB_TOKEN = originalEnv;
+  });
+
+  it("reads tokens from config, environment variables, files and commands", () => {
+    const directory = mkdtempSync(join(tmpdir(), "tokens-"));
+    try {
+      writeFileSync(join(directory, "token"), "ghp_from_file\n");
+      process.env.TEST_GITHUB_TOKEN = "ghp_from_env";
+
+      expect(resolveToken("ghp_literal")).toBe("ghp_literal");
+      expect(resolveToken({ env: "TEST_GITHUB_TOKEN" })).toBe("ghp_from_env");
+      expect(resolveToken({ file: join(directory, "token") })).toBe("ghp_from_file");
+      expect(resolveToken({ command: "echo ghp_from_command" })).toBe("ghp_from_command");
+    } finally {
+      delete process.env.TEST_GITHUB_TOKEN;
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("explains where a token could not be found", () => {
+    expect(() => resolveToken({ env: "MISSING_GITHUB_TOKEN" })).toThrow(
+      "No GitHub token found in environment variable MISSING_GITHUB_TOKEN"
+    );
+    expect(() => resolveToken({ file: "/nonexistent/token" })).toThrow("Could not read GitHub token from file /nonexistent/token");
+    expect(() => resolveToken({ command: "exit 3" })).toThrow('Could not read GitHub token from command "exit 3"');
+  });
+
+  it("falls back to GITHUB_TOKEN and drops duplicate tokens", () => {
+    process.env.GITHUB_TOKEN = "ghp_env";
+    expect(tokenSources(github())).toEqual([{ env: "GITHUB_TOKEN" }]);
+    expect(tokenSources(github({ token: "YOUR_GITHUB_PERSONAL_ACCESS_TOKEN" }))).toEqual([{ env: "GITHUB_TOKEN" }]);
+
+    delete process.env.GITHUB_TOKEN;
+    expect(tokenSources(github())).toEqual([]);
+    expect(resolveTokens(github({ token: "ghp_a", tokens: ["ghp_b", "ghp_a"] }))).toEqual(["ghp_a", "ghp_b"]);
+  });
+});
+
+describe("TokenPool", () => {
+  const now = 1_700_000_000;
+  const headers = (remaining: number, reset = now + 600) => ({
+    "x-ratelimit-limit": "5000",
+    "x-ratelimit-remaining": String(remaining),
+    "x-ratelimit-reset": String(reset),
+  });
+
+  it("stays on a token until it runs low, then switches to the one with most budget", () => {
+    const pool = new TokenPool(["ghp_aaaa", "ghp_bbbb", "ghp_cccc"]);
+    pool.record("ghp_aaaa", headers(500));
+    expect(pool.rotate(100, now)).toBeNull();
+
+    pool.record("ghp_aaaa", headers(50));
+    pool.record("ghp_bbbb", headers(3000));
+    expect(pool.rotate(100, now)).toBe("token 3 (…cccc)");
+    expect(pool.currentToken()).toBe("ghp_cccc");
+  });
+
+  it("waits on the token that resets first when all are low", () => {
+    const pool = new TokenPool(["ghp_aaaa", "ghp_bbbb"]);
+    pool.record("ghp_aaaa", headers(10, now + 900));
+    pool.record("ghp_bbbb", headers(20, now + 300));
+
+    expect(pool.rotate(100, now)).toBeNull();
+    expect(pool.currentToken()).toBe("ghp_bbbb");
+    expect(pool.currentBudget(now)).toEqual({ remaining: 20, reset: now + 300 });
+    // Once its window resets the token has its full budget again
+    expect(pool.currentBudget(now + 301)).toEqual({ remaining: 5000, reset: now + 300 });
+  });
+
+  it("ignores cached responses and other rate limit resources", () => {
+    const pool = new TokenPool(["ghp_aaaa"]);
+    pool.record("ghp_aaaa", {});
+    pool.record("ghp_aaaa", { ...headers(10), "x-ratelimit-resource": "graphql" });
+    pool.record("ghp_aaaa", { ...headers(4990), "x-ratelimit-resource": "core" });
+
+    expect(pool.getUsage()).toEqual([{ label: "token 1 (…aaaa)", requests: 1, remaining: 4990, limit: 5000 }]);
+  });
+});
+
+describe("createTokenAuthStrategy", () => {
+  it("authenticates with the current token and records budgets, including from rate limit errors", async () => {
+    const pool = new TokenPool(["ghp_aaaa", "ghp_bbbb"]);
+    const reset = String(Math.floor(Date.now() / 1000) + 600);
+    const authorizations: string[] = [];
+    const fetch = async (_input: unknown, init?: RequestInit) => {
+      const authorization = new Headers(init?.headers).get("authorization")!;
+      authorizations.push(authorization);
+      const exhausted = authorization.endsWith("aaaa");
+      return new Response(JSON.stringify(exhausted ? { message: "API rate limit exceeded" } : {}), {
+        status: exhausted ? 403 : 200,
+        headers: {
+          "content-type": "application/json",
+          "x-ratelimit-limit": "5000",
+          "x-ratelimit-remaining": exhausted ? "0" : "4999",
+          "x-ratelimit-reset": reset,
+        },
+      });
+    };
+    const log = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+    const octokit = new Octokit({ authStrategy: createTokenAuthStrategy(pool), request: { fetch }, log });
+
+    await expect(octokit.rest.repos.get({ owner: "test-org", repo: "api" })).rejects.toThrow();
+    expect(pool.rotate(100)).toBe("token 2 (…bbbb)");
+    await octokit.rest.repos.get({ owner: "test-org", repo: "api" });
+
+    expect(authorizations).toEqual(["token ghp_aaaa", "token ghp_bbbb"]);
+    expect(pool.getUsage().map((usage) => [usage.requests, usage.remaining])).toEqual([
+      [1, 0],
+      [1, 4999],
+    ]);
+  });
+});